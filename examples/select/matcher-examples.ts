@@ -93,12 +93,12 @@ type InnerJoinResult = QueryResult<
 >;
 // Result: { name: string; title: string }
 
-/** LEFT JOIN - preserves nullable relationships */
+/** LEFT JOIN - joined table columns become nullable */
 type LeftJoinResult = QueryResult<
     "SELECT u.name, p.title, p.views FROM users AS u LEFT JOIN posts AS p ON u.id = p.author_id",
     BlogSchema
 >;
-// Result: { name: string; title: string; views: number }
+// Result: { name: string; title: string | null; views: number | null }
 
 /** Multiple JOINs */
 type MultipleJoinsResult = QueryResult<
@@ -110,7 +110,7 @@ type MultipleJoinsResult = QueryResult<
 `,
     BlogSchema
 >;
-// Result: { name: string; title: string; comment_text: string }
+// Result: { name: string; title: string; comment_text: string | null }
 
 // ============================================================================
 // 6. Aggregate Functions
@@ -233,7 +233,7 @@ type MultipleUnionTypes = QueryResult<
     "SELECT u.role, p.status FROM users AS u LEFT JOIN posts AS p ON u.id = p.author_id",
     BlogSchema
 >;
-// Result: { role: "admin" | "author" | "reader"; status: "draft" | "published" | "archived" }
+// Result: { role: "admin" | "author" | "reader"; status: "draft" | "published" | "archived" | null }
 
 // ============================================================================
 // 10. Nullable Columns
@@ -299,7 +299,7 @@ type MultipleCTEs = QueryResult<
 `,
     BlogSchema
 >;
-// Result: { name: string; post_count: number }
+// Result: { name: string; post_count: number | null }
 
 // ============================================================================
 // 12. Derived Tables (Subqueries in FROM)
@@ -359,9 +359,12 @@ type FunctionCall = ParseSQL<"SELECT COALESCE ( first_name, username ) AS displa
 /** Nested function */
 type NestedFunction = ParseSQL<"SELECT UPPER ( TRIM ( name ) ) AS clean_name FROM products">
 
-/** CASE expression (complex expr) */
+/** CASE expression (searched form) */
 type CaseExpr = ParseSQL<"SELECT CASE WHEN price > 100 THEN 'expensive' ELSE 'cheap' END AS price_tier FROM products">
 
+/** CASE expression (simple form) */
+type SimpleCaseExpr = ParseSQL<"SELECT CASE status WHEN 'active' THEN 1 WHEN 'archived' THEN 0 END AS rank FROM products">
+
 // ============================================================================
 // 19. WITH Clause (Common Table Expressions / CTEs)
 // ============================================================================
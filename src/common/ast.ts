@@ -17,7 +17,7 @@ import type { Flatten } from "./utils.js";
 /**
  * Discriminator for different SQL query types
  */
-export type QueryType = "SELECT" | "INSERT" | "UPDATE" | "DELETE";
+export type QueryType = "SELECT" | "INSERT" | "UPDATE" | "DELETE" | "MERGE";
 
 // ============================================================================
 // Column References
@@ -70,17 +70,48 @@ export type SimpleColumnRefType = UnboundColumnRef | TableColumnRef;
 /**
  * A complex expression (like JSON operations, function calls, etc.)
  * Contains all column references found in the expression for validation,
- * the result type from casting, and the original expression string for assembly
+ * the result type from casting, and the original expression string for assembly.
+ * When the whole expression is a single function call, FunctionCall describes it
+ * so the matcher can type it from the function catalog.
  */
 export type ComplexExpr<
     ColumnRefs extends ValidatableColumnRef[] = ValidatableColumnRef[],
     CastType extends string | undefined = string | undefined,
     OriginalExpr extends string = string,
+    Call extends FunctionCallAny | undefined = FunctionCallAny | undefined,
 > = {
     readonly type: "ComplexExpr";
     readonly columnRefs: ColumnRefs;
     readonly castType: CastType;
     readonly originalExpr: OriginalExpr;
+    readonly functionCall: Call;
+};
+
+/**
+ * Base function call type (to avoid circular reference with ComplexExpr)
+ */
+export type FunctionCallAny = {
+    readonly type: "FunctionCall";
+    readonly name: string;
+    readonly args: unknown[];
+};
+
+/**
+ * An argument of a function call: a column, a nested expression or a literal
+ */
+export type FunctionArg = ColumnRefType | LiteralValue;
+
+/**
+ * A scalar function call: name ( arg, ... )
+ * Name is kept as written in the query
+ */
+export type FunctionCall<
+    Name extends string = string,
+    Args extends FunctionArg[] = FunctionArg[],
+> = {
+    readonly type: "FunctionCall";
+    readonly name: Name;
+    readonly args: Args;
 };
 
 /**
@@ -129,6 +160,19 @@ export type SubquerySelectClause = {
     readonly offset: unknown;
     readonly distinct: boolean;
     readonly ctes: unknown;
+    readonly windows: unknown;
+};
+
+/**
+ * A set operation (UNION / INTERSECT / EXCEPT) in a CTE body
+ * Forward declaration of the SELECT module's UnionClause; the left side
+ * (the anchor member of a recursive CTE) defines the columns
+ */
+export type SubqueryUnionClause = {
+    readonly type: "UnionClause";
+    readonly left: SubquerySelectClause;
+    readonly operator: string;
+    readonly right: unknown;
 };
 
 /**
@@ -144,17 +188,48 @@ export type DerivedTableRef<
     readonly alias: Alias;
 };
 
+/**
+ * A data-modifying statement used as a CTE body
+ * WITH cte_name AS (DELETE FROM ... RETURNING ...)
+ * The RETURNING list is kept as a SELECT over the target table, so the CTE's
+ * columns are resolved like those of a SELECT CTE (without RETURNING it has none).
+ * The statement text is kept for validation by the INSERT / UPDATE / DELETE validators
+ */
+export type DataModifyingQuery<
+    Kind extends "INSERT" | "UPDATE" | "DELETE" = "INSERT" | "UPDATE" | "DELETE",
+    Table extends TableRef = TableRef,
+    Returning extends SubquerySelectClause | undefined =
+        | SubquerySelectClause
+        | undefined,
+    Statement extends string = string,
+> = {
+    readonly type: "DataModifyingQuery";
+    readonly kind: Kind;
+    readonly table: Table;
+    readonly returning: Returning;
+    readonly statement: Statement;
+};
+
 /**
  * A CTE (Common Table Expression) definition
  * WITH cte_name AS (SELECT ...)
+ * WITH cte_name AS (INSERT / UPDATE / DELETE ... RETURNING ...)
+ * WITH RECURSIVE cte_name (col1, col2) AS (anchor UNION ALL recursive member)
  */
 export type CTEDefinition<
     Name extends string = string,
-    Query extends SubquerySelectClause = SubquerySelectClause,
+    Query extends SubquerySelectClause | SubqueryUnionClause | DataModifyingQuery =
+        | SubquerySelectClause
+        | SubqueryUnionClause
+        | DataModifyingQuery,
+    Columns extends string[] | undefined = string[] | undefined,
+    Recursive extends boolean = boolean,
 > = {
     readonly type: "CTEDefinition";
     readonly name: Name;
     readonly query: Query;
+    readonly columns: Columns;
+    readonly recursive: Recursive;
 };
 
 /**
@@ -227,13 +302,16 @@ export type UnparsedExpr = { readonly __unparsed: true; };
 /**
  * A parsed condition that stores extracted column references
  * Used for validating field references in WHERE, JOIN ON, HAVING clauses
- * without fully parsing the expression structure
+ * without fully parsing the expression structure.
+ * FunctionCalls lists the function calls of the condition, including nested ones
  */
 export type ParsedCondition<
     ColumnRefs extends ValidatableColumnRef[] = ValidatableColumnRef[],
+    FunctionCalls extends FunctionCallAny[] = FunctionCallAny[],
 > = {
     readonly type: "ParsedCondition";
     readonly columnRefs: ColumnRefs;
+    readonly functionCalls: FunctionCalls;
 };
 
 /**
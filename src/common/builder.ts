@@ -0,0 +1,731 @@
+/**
+ * Common Query Builder Components
+ *
+ * Parts shared by the statement builders (select/, update/ and delete/builder.ts):
+ * - ConditionTreeBuilder - nested AND/OR conditions for WHERE and HAVING
+ * - ID-tagged part lists (add, replace in place, remove) and their SQL text
+ * - builder error state and argument errors
+ * - fragment and ID checks used at runtime
+ *
+ * A condition tree is built independently of any statement builder:
+ *
+ * ```typescript
+ * const filter = createConditionTree("and")
+ *     .add("age > 18", "age_check")
+ *     .or(b => b.add("status = 'active'").add("status = 'pending'"), "status_check");
+ *
+ * filter.toString();
+ * // "(age > 18 AND (status = 'active' OR status = 'pending'))"
+ * ```
+ *
+ * Its type-level state mirrors WhereExpr: every string part is stored with
+ * a ParsedCondition holding the column references found in it, so the tree
+ * can be validated once it is added to a statement builder, where the
+ * tables are known.
+ */
+
+import type { ParsedCondition, TableColumnRef, UnboundColumnRef, ValidatableColumnRef, WhereExpr } from "./ast.js";
+import type { IsParamPlaceholder, NextToken, NormalizeSQL } from "./tokenizer.js";
+import type { MatchError, RemoveQuotes, StripTemplateHoles } from "./utils.js";
+import { isIdentifier } from "../template.js";
+
+// ============================================================================
+// Builder Parts
+// ============================================================================
+
+/**
+ * Any part of a builder state; ID is undefined for parts added without one
+ */
+export type IdentifiedPart = {
+    readonly id: string | undefined;
+};
+
+/**
+ * A query fragment with its user-provided ID
+ */
+export type FragmentPart<
+    Id extends string | undefined = string | undefined,
+    SQL extends string = string,
+> = {
+    readonly id: Id;
+    readonly sql: SQL;
+};
+
+/**
+ * Add a part, or replace the part with the same ID in place
+ */
+export type AddPart<Parts extends IdentifiedPart[], Part extends IdentifiedPart> = Part["id"] extends
+    string ? Part["id"] extends Parts[number]["id"] ? ReplacePart<Parts, Part>
+    : [ ...Parts, Part ]
+    : [ ...Parts, Part ];
+
+type ReplacePart<Parts extends IdentifiedPart[], Part extends IdentifiedPart> = {
+    [K in keyof Parts]: Parts[K] extends { readonly id: Part["id"]; } ? Part
+        : Parts[K];
+};
+
+/**
+ * Remove the part with the given ID
+ */
+export type RemovePart<Parts extends IdentifiedPart[], Id extends string> = Parts extends [
+    infer First extends IdentifiedPart,
+    ...infer Rest extends IdentifiedPart[],
+] ? First["id"] extends Id ? RemovePart<Rest, Id>
+    : [ First, ...RemovePart<Rest, Id> ]
+    : [];
+
+/**
+ * Text of the parts joined with a separator
+ */
+export type PartsSQL<Parts extends FragmentPart[], Sep extends string> = Parts extends [
+    infer First extends FragmentPart,
+    ...infer Rest extends FragmentPart[],
+] ? Rest extends [] ? First["sql"]
+    : `${First["sql"]}${Sep}${PartsSQL<Rest, Sep>}`
+    : "";
+
+/**
+ * Text of WHERE / HAVING parts: a single condition is used as is, several
+ * are parenthesized and ANDed
+ */
+export type ConditionPartsSQL<Parts extends FragmentPart[]> = Parts extends [
+    infer Only extends FragmentPart,
+] ? Only["sql"]
+    : AndConditions<Parts>;
+
+type AndConditions<Parts extends FragmentPart[]> = Parts extends [
+    infer First extends FragmentPart,
+    ...infer Rest extends FragmentPart[],
+] ? Rest extends [] ? `( ${First["sql"]} )`
+    : `( ${First["sql"]} ) AND ${AndConditions<Rest>}`
+    : "";
+
+/**
+ * Text of a fragment argument: arrays are joined with ", "
+ */
+export type FragmentText<Input> = Input extends string ? Input
+    : Input extends readonly string[] ? JoinFragments<Input, ", ">
+    : never;
+
+type JoinFragments<Items extends readonly string[], Sep extends string> = Items extends readonly [
+    infer First extends string,
+    ...infer Rest extends readonly string[],
+] ? Rest extends readonly [] ? First
+    : `${First}${Sep}${JoinFragments<Rest, Sep>}`
+    : "";
+
+/**
+ * Keys of a values object (set(), values()) as a tuple
+ * The type-level order may differ from the object key order used at runtime
+ */
+export type ValueColumns<Values> = UnionToTuple<keyof Values & string> extends
+    infer Columns extends string[] ? Columns
+    : [];
+
+type UnionToTuple<U, Last = LastOfUnion<U>> = [U] extends [never] ? []
+    : [...UnionToTuple<Exclude<U, Last>>, Last];
+
+type LastOfUnion<U> = UnionToIntersection<U extends unknown ? () => U : never> extends
+    () => infer Last ? Last
+    : never;
+
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends
+    (arg: infer I) => void ? I
+    : never;
+
+// ============================================================================
+// Builder State and Errors
+// ============================================================================
+
+/**
+ * State of a builder after a fragment failed to parse or validate
+ * Once in an error state, further calls keep the first error
+ */
+export type BuilderErrorState<
+    Message extends string = string,
+    Previous = unknown,
+> = MatchError<Message> & {
+    readonly previousState: Previous;
+};
+
+/**
+ * Error message of a builder in an error state, or never
+ */
+export type ExtractError<State> = State extends BuilderErrorState<infer Message> ? Message
+    : never;
+
+/**
+ * Type-level state of a builder
+ */
+export type BuilderState<Builder> = Builder extends { readonly __state?: infer State; }
+    ? Exclude<State, undefined>
+    : never;
+
+/**
+ * Argument type of a fragment: the fragment itself, or an error message
+ * when it puts the builder into an error state
+ */
+export type CheckedInput<State, Input, Next> = State extends BuilderErrorState ? Input
+    : Next extends BuilderErrorState<infer Message> ? `[Builder Error] ${Message}`
+    : Input;
+
+/**
+ * Check for arguments typed as `Input & InputCheck<State, Next>`: unknown,
+ * or an error message when the argument puts the builder into an error state
+ * Used instead of CheckedInput where the literal type of an array of objects
+ * must be inferred, which is lost through a conditional parameter type
+ */
+export type InputCheck<State, Next> = State extends BuilderErrorState ? unknown
+    : Next extends BuilderErrorState<infer Message> ? `[Builder Error] ${Message}`
+    : unknown;
+
+// ============================================================================
+// Condition Tree State
+// ============================================================================
+
+/**
+ * Operator combining the parts of a condition tree
+ */
+export type ConditionOperator = "and" | "or";
+
+/**
+ * A condition with its user-provided ID
+ * SQL is the rendered text of the part; Condition is a ParsedCondition for
+ * a string part, or the state of a nested tree
+ */
+export type ConditionTreePart<
+    Id extends string | undefined = string | undefined,
+    SQL extends string = string,
+    Condition extends WhereExpr | ConditionTreeStateAny = WhereExpr | ConditionTreeStateAny,
+> = {
+    readonly id: Id;
+    readonly sql: SQL;
+    readonly condition: Condition;
+};
+
+/**
+ * State of a condition tree: parts in insertion order, combined with Op
+ */
+export type ConditionTreeState<
+    Op extends ConditionOperator = ConditionOperator,
+    Parts extends ConditionTreePart[] = ConditionTreePart[],
+> = {
+    readonly type: "ConditionTree";
+    readonly operator: Op;
+    readonly parts: Parts;
+};
+
+/**
+ * Base condition tree state (to avoid circular reference)
+ */
+export type ConditionTreeStateAny = {
+    readonly type: "ConditionTree";
+    readonly operator: ConditionOperator;
+    readonly parts: ConditionTreePart[];
+};
+
+/**
+ * State of a new condition tree
+ */
+export type EmptyConditionTree<Op extends ConditionOperator = ConditionOperator> =
+    ConditionTreeState<Op, []>;
+
+// ============================================================================
+// Builder Interface
+// ============================================================================
+
+/**
+ * Immutable builder for nested AND/OR conditions
+ *
+ * The tree is not validated on its own: a statement builder validates it
+ * when it is passed to .where() or .having().
+ */
+export interface ConditionTreeBuilder<
+    in out State extends ConditionTreeState = EmptyConditionTree,
+> {
+    /** Type-level state (not available at runtime) */
+    readonly __state?: State;
+
+    /**
+     * Add a condition or a nested tree; a part with an existing ID replaces it
+     */
+    add<
+        const Part extends string | AnyConditionTreeBuilder,
+        Id extends string | undefined = undefined,
+    >(
+        part: Part,
+        id?: Id,
+    ): ConditionTreeBuilder<AddConditionStep<State, Part, Id>>;
+
+    /** Add a nested group whose parts are combined with AND */
+    and<
+        Group extends AnyConditionTreeBuilder,
+        Id extends string | undefined = undefined,
+    >(
+        group: (builder: ConditionTreeBuilder<EmptyConditionTree<"and">>) => Group,
+        id?: Id,
+    ): ConditionTreeBuilder<AddConditionStep<State, Group, Id>>;
+
+    /** Add a nested group whose parts are combined with OR */
+    or<
+        Group extends AnyConditionTreeBuilder,
+        Id extends string | undefined = undefined,
+    >(
+        group: (builder: ConditionTreeBuilder<EmptyConditionTree<"or">>) => Group,
+        id?: Id,
+    ): ConditionTreeBuilder<AddConditionStep<State, Group, Id>>;
+
+    /**
+     * Remove a part by ID, searching nested groups too
+     * A nested group left without parts is removed as well
+     */
+    remove<Id extends string>(
+        id: Id,
+    ): ConditionTreeBuilder<RemoveConditionStep<State, Id>>;
+
+    /**
+     * Apply the callback only when the condition is true at runtime
+     * At type level the callback is always applied
+     */
+    when<Result extends AnyConditionTreeBuilder>(
+        condition: boolean,
+        callback: (builder: ConditionTreeBuilder<State>) => Result,
+    ): ConditionTreeBuilder<ConditionTreeBuilderState<Result>>;
+
+    /**
+     * Render the condition: the whole expression in parentheses with
+     * uppercase AND / OR between parts, or "" for an empty tree
+     */
+    toString(): string;
+}
+
+/**
+ * Any condition tree builder
+ */
+export type AnyConditionTreeBuilder = {
+    readonly __state?: ConditionTreeState;
+};
+
+/**
+ * Type-level state of a condition tree builder
+ */
+export type ConditionTreeBuilderState<Builder> = Builder extends
+    { readonly __state?: infer State; } ? Exclude<State, undefined> extends
+        infer Tree extends ConditionTreeState ? Tree
+    : never
+    : never;
+
+// ============================================================================
+// State Transitions
+// ============================================================================
+
+/**
+ * add(), and(), or(): add a part
+ * Fully dynamic string parts and empty nested trees are skipped
+ */
+type AddConditionStep<
+    State extends ConditionTreeState,
+    Part,
+    Id extends string | undefined,
+> = ConditionPart<Part, Id> extends infer NewPart extends ConditionTreePart
+    ? [ NewPart ] extends [ never ] ? State
+    : ConditionTreeState<
+        State["operator"],
+        AddPart<State["parts"], NewPart> extends infer Parts extends ConditionTreePart[] ? Parts
+            : never
+    >
+    : State;
+
+/**
+ * Part of a string or a nested tree, or never when it has no text
+ */
+type ConditionPart<Part, Id extends string | undefined> = Part extends string
+    ? StripTemplateHoles<Part> extends infer Text extends string
+        ? Text extends "" ? never
+        : ConditionTreePart<
+            Id,
+            WrapLogical<Text>,
+            ParsedCondition<ScanColumnRefs<NormalizeSQL<Text>>>
+        >
+    : never
+    : ConditionTreeBuilderState<Part> extends infer Nested extends ConditionTreeState
+        ? Nested["parts"] extends [] ? never
+        : ConditionTreePart<Id, ConditionTreeSQL<Nested>, Nested>
+    : never;
+
+/**
+ * remove(): drop the parts with the ID at every level and re-render the
+ * nested groups that changed; groups left empty are dropped
+ */
+type RemoveConditionStep<
+    State extends ConditionTreeState,
+    Id extends string,
+> = ConditionTreeState<State["operator"], RemoveConditionParts<State["parts"], Id>>;
+
+type RemoveConditionParts<Parts extends ConditionTreePart[], Id extends string> = Parts extends [
+    infer First extends ConditionTreePart,
+    ...infer Rest extends ConditionTreePart[],
+] ? First["id"] extends Id ? RemoveConditionParts<Rest, Id>
+    : First["condition"] extends infer Nested extends ConditionTreeState
+        ? RemoveConditionStep<Nested, Id> extends infer Remaining extends ConditionTreeState
+            ? Remaining["parts"] extends [] ? RemoveConditionParts<Rest, Id>
+            : [
+                ConditionTreePart<First["id"], ConditionTreeSQL<Remaining>, Remaining>,
+                ...RemoveConditionParts<Rest, Id>,
+            ]
+        : never
+    : [ First, ...RemoveConditionParts<Rest, Id> ]
+    : [];
+
+// ============================================================================
+// Type-Level SQL
+// ============================================================================
+
+/**
+ * Condition text of a tree state, mirroring the runtime rendering
+ *
+ * @example
+ * ```typescript
+ * type SQL = ConditionTreeSQL<typeof filter.__state>
+ * // "(age > 18 AND (status = 'active' OR status = 'pending'))"
+ * ```
+ */
+export type ConditionTreeSQL<State extends ConditionTreeState> = State["parts"] extends [] ? ""
+    : `(${JoinConditionParts<State["parts"], Uppercase<State["operator"]>>})`;
+
+type JoinConditionParts<Parts extends ConditionTreePart[], Op extends string> = Parts extends [
+    infer First extends ConditionTreePart,
+    ...infer Rest extends ConditionTreePart[],
+] ? Rest extends [] ? First["sql"]
+    : `${First["sql"]} ${Op} ${JoinConditionParts<Rest, Op>}`
+    : "";
+
+/**
+ * Parenthesize a string part that contains AND or OR, so it keeps its
+ * meaning whatever operator the tree uses
+ */
+type WrapLogical<Text extends string> = HasLogicalWord<SplitParens<Text>> extends true ? `(${Text})`
+    : Text;
+
+type SplitParens<T extends string> = T extends `${infer L}(${infer R}` ? SplitParens<`${L} ${R}`>
+    : T extends `${infer L})${infer R}` ? SplitParens<`${L} ${R}`>
+    : T;
+
+type HasLogicalWord<T extends string> = T extends `${infer Word} ${infer Rest}`
+    ? Uppercase<Word> extends "AND" | "OR" ? true : HasLogicalWord<Rest>
+    : Uppercase<T> extends "AND" | "OR" ? true
+    : false;
+
+// ============================================================================
+// Column References
+// ============================================================================
+
+/**
+ * All column references of a tree state, nested trees included
+ */
+export type ConditionTreeColumnRefs<State extends ConditionTreeState> = CollectRefs<
+    State["parts"]
+>;
+
+/**
+ * The tree as a single WhereExpr for the validators
+ */
+export type ConditionTreeCondition<State extends ConditionTreeState> = ParsedCondition<
+    ConditionTreeColumnRefs<State>
+>;
+
+type CollectRefs<
+    Parts extends ConditionTreePart[],
+    Acc extends ValidatableColumnRef[] = [],
+> = Parts extends [
+    infer First extends ConditionTreePart,
+    ...infer Rest extends ConditionTreePart[],
+] ? CollectRefs<Rest, [ ...Acc, ...PartRefs<First["condition"]> ]>
+    : Acc;
+
+type PartRefs<Condition> = Condition extends ParsedCondition<infer Refs> ? Refs
+    : Condition extends ConditionTreeState<ConditionOperator, infer Parts> ? CollectRefs<Parts>
+    : [];
+
+/**
+ * Scan normalized condition tokens for column references
+ * Skips literals, keywords, parameters, function names and subqueries
+ */
+type ScanColumnRefs<
+    T extends string,
+    Acc extends ValidatableColumnRef[] = [],
+> = NextToken<T> extends [ infer Token extends string, infer Rest extends string ]
+    ? Token extends "" ? Acc
+    : Token extends "(" ? NextToken<Rest> extends [ "SELECT", string ]
+            ? ScanColumnRefs<SkipParens<Rest>, Acc>
+        : ScanColumnRefs<Rest, Acc>
+    : Token extends `'${string}` ? ScanColumnRefs<SkipString<Token, Rest>, Acc>
+    : NextToken<Rest> extends [ "(", string ] ? ScanColumnRefs<Rest, Acc>
+    : TokenColumnRef<StripCast<Token>> extends infer Ref
+        ? [ Ref ] extends [ never ] ? ScanColumnRefs<Rest, Acc>
+        : Ref extends ValidatableColumnRef ? ScanColumnRefs<Rest, [ ...Acc, Ref ]>
+        : ScanColumnRefs<Rest, Acc>
+    : Acc
+    : Acc;
+
+/**
+ * Skip a parenthesized subquery; T starts after its "("
+ */
+type SkipParens<T extends string, Depth extends unknown[] = []> = NextToken<T> extends
+    [ infer Token extends string, infer Rest extends string ]
+    ? Token extends "" ? ""
+    : Token extends "(" ? SkipParens<Rest, [ ...Depth, unknown ]>
+    : Token extends ")" ? Depth extends [ unknown, ...infer Outer ] ? SkipParens<Rest, Outer>
+        : Rest
+    : SkipParens<Rest, Depth>
+    : "";
+
+/**
+ * Skip a string literal that may span several tokens
+ */
+type SkipString<Token extends string, Rest extends string> = Token extends `'${string}'`
+    ? Token extends "'" ? SkipToQuote<Rest> : Rest
+    : SkipToQuote<Rest>;
+
+type SkipToQuote<T extends string> = NextToken<T> extends
+    [ infer Token extends string, infer Rest extends string ]
+    ? Token extends "" ? ""
+    : Token extends `${string}'` ? Rest
+    : SkipToQuote<Rest>
+    : "";
+
+type StripCast<Token extends string> = Token extends `${infer Column}::${string}` ? Column
+    : Token;
+
+/**
+ * Column reference of a token: column, table.column, "table"."column"
+ */
+type TokenColumnRef<Token extends string> = Token extends `"${infer Table}"."${infer Column}"`
+    ? TableColumnRef<Table, Column, undefined>
+    : Token extends `${infer Table}.${infer Column}`
+        ? IsIdentifier<Table> extends true
+            ? IsIdentifier<RemoveQuotes<Column>> extends true
+                ? TableColumnRef<RemoveQuotes<Table>, RemoveQuotes<Column>, undefined>
+            : never
+        : never
+    : IsIdentifier<RemoveQuotes<Token>> extends true
+        ? IsConditionKeyword<Token> extends true ? never
+        : IsParamPlaceholder<Token> extends true ? never
+        : UnboundColumnRef<RemoveQuotes<Token>>
+    : never;
+
+/**
+ * Check if a token is a plain identifier (letters, digits, _ and $, not
+ * starting with a digit)
+ */
+type IsIdentifier<T extends string> = T extends "" ? false
+    : T extends `${number}${string}` ? false
+    : IdentifierChars<T>;
+
+type IdentifierChars<T extends string> = T extends `${infer C}${infer Rest}`
+    ? C extends "_" | "$" ? IdentifierChars<Rest>
+    : C extends `${number}` ? IdentifierChars<Rest>
+    : Lowercase<C> extends Uppercase<C> ? false
+    : IdentifierChars<Rest>
+    : true;
+
+type IsConditionKeyword<T extends string> = T extends
+    | "AND"
+    | "OR"
+    | "NOT"
+    | "IN"
+    | "IS"
+    | "NULL"
+    | "TRUE"
+    | "FALSE"
+    | "LIKE"
+    | "ILIKE"
+    | "BETWEEN"
+    | "EXISTS"
+    | "ANY"
+    | "ALL"
+    | "SOME"
+    | "CASE"
+    | "WHEN"
+    | "THEN"
+    | "ELSE"
+    | "END"
+    | "DISTINCT"
+    | "FROM"
+    | "AS"
+    | "INTERVAL"
+    | "CURRENT_DATE"
+    | "CURRENT_TIME"
+    | "CURRENT_TIMESTAMP"
+    | "NOW" ? true
+    : false;
+
+// ============================================================================
+// Runtime Implementation
+// ============================================================================
+
+/**
+ * A part as stored at runtime: the condition text, or a nested tree that
+ * is rendered by toString()
+ */
+type RuntimeConditionPart = {
+    readonly id: string | undefined;
+    readonly condition: string | ConditionTreeBuilderImpl;
+};
+
+class ConditionTreeBuilderImpl {
+    constructor(
+        private readonly operator: ConditionOperator,
+        private readonly parts: RuntimeConditionPart[],
+    ) {}
+
+    add(part: string | ConditionTreeBuilderImpl, id?: string) {
+        const condition = typeof part === "string"
+            ? wrapLogical(requireFragment(part, "add"))
+            : part;
+        if (typeof condition !== "string" && condition.parts.length === 0) {
+            return this;
+        }
+        return new ConditionTreeBuilderImpl(
+            this.operator,
+            upsertPart(this.parts, { id: requireId(id), condition }),
+        );
+    }
+
+    and(group: (builder: ConditionTreeBuilderImpl) => ConditionTreeBuilderImpl, id?: string) {
+        return this.add(group(new ConditionTreeBuilderImpl("and", [])), id);
+    }
+
+    or(group: (builder: ConditionTreeBuilderImpl) => ConditionTreeBuilderImpl, id?: string) {
+        return this.add(group(new ConditionTreeBuilderImpl("or", [])), id);
+    }
+
+    remove(id: string): ConditionTreeBuilderImpl {
+        const parts: RuntimeConditionPart[] = [];
+        for (const part of this.parts) {
+            if (part.id === id) {
+                continue;
+            }
+            if (typeof part.condition === "string") {
+                parts.push(part);
+                continue;
+            }
+            const remaining = part.condition.remove(id);
+            if (remaining.parts.length > 0) {
+                parts.push({ id: part.id, condition: remaining });
+            }
+        }
+        return new ConditionTreeBuilderImpl(this.operator, parts);
+    }
+
+    when(
+        condition: boolean,
+        callback: (builder: ConditionTreeBuilderImpl) => ConditionTreeBuilderImpl,
+    ) {
+        return condition ? callback(this) : this;
+    }
+
+    toString(): string {
+        if (this.parts.length === 0) {
+            return "";
+        }
+        const operator = ` ${this.operator.toUpperCase()} `;
+        return `(${this.parts.map(part => part.condition.toString()).join(operator)})`;
+    }
+}
+
+/**
+ * Text of the parts joined with a separator
+ */
+export function partsSQL(parts: readonly FragmentPart[], separator: string): string {
+    return parts.map(part => part.sql).join(separator);
+}
+
+/**
+ * Text of WHERE / HAVING parts: a single condition is used as is, several
+ * are parenthesized and ANDed
+ */
+export function conditionPartsSQL(parts: readonly FragmentPart[]): string {
+    if (parts.length === 1) {
+        return parts[0].sql;
+    }
+    return parts.map(part => `(${part.sql})`).join(" AND ");
+}
+
+/**
+ * Text of a fragment argument: arrays are joined with ", "
+ */
+export function fragmentText(fragment: string | readonly string[]): string {
+    return typeof fragment === "string" ? fragment : fragment.join(", ");
+}
+
+function wrapLogical(condition: string): string {
+    return /(^|[\s()])(and|or)(?=$|[\s()])/i.test(condition) ? `(${condition})` : condition;
+}
+
+/**
+ * Add a part, or replace the part with the same ID in place
+ */
+export function upsertPart<Part extends IdentifiedPart>(parts: readonly Part[], part: Part): Part[] {
+    const index = parts.findIndex(item => part.id !== undefined && item.id === part.id);
+    if (index === -1) {
+        return [ ...parts, part ];
+    }
+    const replaced = [ ...parts ];
+    replaced[index] = part;
+    return replaced;
+}
+
+/**
+ * @throws Error if the fragment is empty
+ */
+export function requireFragment(fragment: string, method: string): string {
+    if (fragment.trim() === "") {
+        throw new Error(`Empty fragment passed to ${method}()`);
+    }
+    return fragment;
+}
+
+/**
+ * Column names from object keys go into the query text, so they must be
+ * plain identifiers (the check sql.ident uses)
+ *
+ * @throws Error if the name is not a plain identifier
+ */
+export function requireColumnName(name: string, method: string): string {
+    if (!isIdentifier(name)) {
+        throw new Error(`Invalid column name '${name}' passed to ${method}()`);
+    }
+    return name;
+}
+
+/**
+ * @throws Error if the ID is an empty string
+ */
+export function requireId(id: string | undefined): string | undefined {
+    if (id === "") {
+        throw new Error("Builder part ID cannot be empty");
+    }
+    return id;
+}
+
+/**
+ * Create a condition tree whose parts are combined with the operator
+ *
+ * @example
+ * ```typescript
+ * const conditions = createConditionTree("and")
+ *     .add("age > 18", "age_check")
+ *     .add("status = 'active'", "status_check");
+ *
+ * createSelectQuery<Schema>().from("users").where(conditions).toString();
+ * // "SELECT * FROM users WHERE (age > 18 AND status = 'active')"
+ * ```
+ */
+export function createConditionTree<const Op extends ConditionOperator>(
+    operator: Op,
+): ConditionTreeBuilder<EmptyConditionTree<Op>> {
+    return new ConditionTreeBuilderImpl(operator, []) as unknown as ConditionTreeBuilder<
+        EmptyConditionTree<Op>
+    >;
+}
@@ -0,0 +1,106 @@
+/**
+ * Built-in scalar function catalog
+ *
+ * Maps a function name and the resolved TypeScript types of its arguments
+ * to the function's return type. The matchers resolve the arguments of a
+ * FunctionCall against the schema and use this catalog to type the call.
+ *
+ * Functions follow PostgreSQL semantics:
+ * - Most functions return NULL when their (first) input is NULL
+ * - COALESCE / GREATEST / LEAST ignore NULL arguments and only return NULL
+ *   when every argument can be NULL
+ * - CONCAT treats NULL arguments as empty strings and never returns NULL
+ */
+
+import type { ToUpperCase } from "./utils.js";
+
+// ============================================================================
+// Catalog
+// ============================================================================
+
+/**
+ * Return types of built-in functions for the given argument types
+ */
+export type BuiltinFunctions<Args extends unknown[]> = {
+    // Null handling
+    COALESCE: NonNullableUnion<Args>;
+    NULLIF: Args extends [ infer First, ...unknown[] ] ? First | null : unknown;
+    // String functions
+    LOWER: NullableByFirstArg<Args, string>;
+    UPPER: NullableByFirstArg<Args, string>;
+    LENGTH: NullableByFirstArg<Args, number>;
+    CONCAT: string;
+    TO_CHAR: NullableByFirstArg<Args, string>;
+    // Date/time functions (timestamps are represented as strings)
+    NOW: string;
+    DATE_TRUNC: NullableBySecondArg<Args, string>;
+    EXTRACT: NullableBySecondArg<Args, number>;
+    // Numeric functions
+    ROUND: NullableByFirstArg<Args, number>;
+    ABS: NullableByFirstArg<Args, number>;
+    // Comparison functions
+    GREATEST: NonNullableUnion<Args>;
+    LEAST: NonNullableUnion<Args>;
+};
+
+/**
+ * Names of all built-in functions in the catalog
+ */
+export type BuiltinFunctionName = keyof BuiltinFunctions<[]>;
+
+/**
+ * Get the return type of a built-in function call
+ * Function names are case-insensitive; unknown functions return unknown
+ */
+export type FunctionReturnType<
+    Name extends string,
+    Args extends unknown[],
+> = ToUpperCase<Name> extends infer Upper
+    ? Upper extends BuiltinFunctionName ? BuiltinFunctions<Args>[Upper]
+    : unknown
+    : unknown;
+
+// ============================================================================
+// Signature helpers
+// ============================================================================
+
+/**
+ * Check if an argument type can be NULL
+ * unknown arguments (untyped expressions) are not treated as nullable
+ */
+type IsNullable<T> = unknown extends T ? false
+    : null extends T ? true
+    : false;
+
+/**
+ * Result is NULL when the first argument is NULL
+ */
+type NullableByFirstArg<Args extends unknown[], Result> = Args extends
+    [ infer First, ...unknown[] ]
+    ? IsNullable<First> extends true ? Result | null : Result
+    : Result;
+
+/**
+ * Result is NULL when the second argument is NULL
+ * (DATE_TRUNC ( 'unit', source ), EXTRACT ( field FROM source ))
+ */
+type NullableBySecondArg<Args extends unknown[], Result> = Args extends
+    [ unknown, infer Second, ...unknown[] ]
+    ? IsNullable<Second> extends true ? Result | null : Result
+    : Result;
+
+/**
+ * Union of all argument types without NULL,
+ * plus NULL only when every argument can be NULL
+ */
+type NonNullableUnion<Args extends unknown[]> =
+    | Exclude<Args[number], null>
+    | (AllNullable<Args> extends true ? null : never);
+
+/**
+ * Check if every argument can be NULL
+ */
+type AllNullable<Args extends unknown[]> = Args extends
+    [ infer First, ...infer Rest ]
+    ? IsNullable<First> extends true ? AllNullable<Rest> : false
+    : true;
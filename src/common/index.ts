@@ -8,6 +8,7 @@
 // Re-export tokenizer utilities
 export type {
   NormalizeSQL,
+  RemoveComments,
   NextToken,
   ExtractUntil,
   SplitByComma,
@@ -19,6 +20,8 @@ export type {
   CountClose,
   ParensBalanced,
   UnionOperator,
+  ParamName,
+  IsParamPlaceholder,
 } from "./tokenizer.js"
 
 // Re-export utility types
@@ -37,6 +40,7 @@ export type {
   // Dynamic query support
   IsStringLiteral,
   HasTemplateHoles,
+  StripTemplateHoles,
   DynamicQuery,
   IsDynamicQuery,
   DynamicQueryResult,
@@ -48,6 +52,9 @@ export type {
   DatabaseSchema,
   TableDefinition,
   SchemaDefinition,
+  ColumnDescriptor,
+  ColumnGenerated,
+  TableDefaults,
 
   // Relation types
   RelationType,
@@ -55,16 +62,30 @@ export type {
   Relation,
   Relations,
 
+  // Function types
+  FunctionDefinition,
+  FunctionsDefinition,
+
   // Schema utility types
   GetDefaultSchema,
   GetTableNames,
   GetColumnNames,
   GetColumnType,
+  IsColumnDescriptor,
+  UnwrapColumnType,
+  TableColumnTypes,
+  IsOptionalColumn,
+  IsGeneratedColumn,
+  IsRequiredColumn,
+  GetTableDefaults,
+  ValidateLiteralValue,
   HasRelations,
   GetRelationNames,
   GetRelation,
   FindRelationsFrom,
   FindRelationsTo,
+  HasFunctions,
+  GetFunctionDefinition,
 } from "./schema.js"
 
 // Re-export common AST types
@@ -81,11 +102,18 @@ export type {
   ComplexExpr,
   ColumnRefType,
 
+  // Function calls
+  FunctionCallAny,
+  FunctionCall,
+  FunctionArg,
+
   // Table references
   TableRef,
   SubquerySelectClause,
+  SubqueryUnionClause,
   DerivedTableRef,
   CTEDefinition,
+  DataModifyingQuery,
   TableSource,
 
   // Expressions
@@ -115,3 +143,26 @@ export type {
   MapSQLTypeToTS,
 } from "./ast.js"
 
+// Re-export built-in function catalog
+export type {
+  BuiltinFunctions,
+  BuiltinFunctionName,
+  FunctionReturnType,
+} from "./functions.js"
+
+
+// Re-export the condition tree builder and shared builder types
+export { createConditionTree } from "./builder.js"
+export type {
+  ConditionOperator,
+  ConditionTreePart,
+  ConditionTreeState,
+  ConditionTreeStateAny,
+  EmptyConditionTree,
+  ConditionTreeBuilder,
+  AnyConditionTreeBuilder,
+  ConditionTreeBuilderState,
+  ConditionTreeSQL,
+  ConditionTreeColumnRefs,
+  ConditionTreeCondition,
+} from "./builder.js"
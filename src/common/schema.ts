@@ -64,13 +64,86 @@ export type Relations = {
     [relationName: string]: Relation
 }
 
+// ============================================================================
+// Function Types
+// ============================================================================
+
+/**
+ * Declaration of a user-defined SQL function
+ * Optional parameters can be declared with optional tuple elements
+ * and variadic parameters with a rest element
+ *
+ * @example
+ * ```typescript
+ * // calc_discount(total numeric, percent numeric DEFAULT 10) RETURNS numeric
+ * type CalcDiscount = FunctionDefinition<[number, number?], number>
+ *
+ * // active_user_ids() RETURNS SETOF int
+ * type ActiveUserIds = FunctionDefinition<[], number, true>
+ * ```
+ *
+ * Only calls in expressions are typed; functions cannot be used as
+ * table sources in FROM or JOIN
+ */
+export type FunctionDefinition<
+    Params extends unknown[] = unknown[],
+    Returns = unknown,
+    SetReturning extends boolean = boolean,
+> = {
+    /** Parameter types, in order */
+    params: Params
+    /** Return type (the element type for set-returning functions) */
+    returns: Returns
+    /** True for set-returning functions (RETURNS SETOF / RETURNS TABLE) */
+    setReturning?: SetReturning
+}
+
+/**
+ * A collection of user-defined functions
+ * Keys are function names, optionally schema-qualified ("my_schema.calc_discount")
+ */
+export type FunctionsDefinition = {
+    [functionName: string]: FunctionDefinition
+}
+
 // ============================================================================
 // Schema Types
 // ============================================================================
 
+/**
+ * How a generated column value is produced
+ * "always": the column cannot be written (GENERATED ALWAYS)
+ * "by default": the column can be written but may be omitted (GENERATED BY DEFAULT)
+ */
+export type ColumnGenerated = "always" | "by default"
+
+/**
+ * Column descriptor with write metadata
+ * Accepted in table definitions alongside plain column types
+ * 
+ * @example
+ * ```typescript
+ * users: {
+ *   id: { type: number; generated: "always"; primaryKey: true }
+ *   created_at: { type: string; default: true }
+ *   name: string
+ * }
+ * ```
+ */
+export type ColumnDescriptor<Type = unknown> = {
+    /** TypeScript type of the column value */
+    type: Type
+    /** Column has a DEFAULT value (may be omitted on INSERT) */
+    default?: boolean
+    /** Column value is generated */
+    generated?: ColumnGenerated
+    /** Column is (part of) the primary key */
+    primaryKey?: boolean
+}
+
 /**
  * Definition of a single table's columns
- * Maps column names to their TypeScript types
+ * Maps column names to their TypeScript types or ColumnDescriptor
  * 
  * Uses `object` instead of index signature to allow both
  * `interface` and `type` declarations as table definitions
@@ -122,6 +195,27 @@ export type DatabaseSchema = {
      * Does not affect table column definitions
      */
     relations?: Relations
+
+    /**
+     * Optional user-defined function declarations
+     * Used for typing function calls and validating their arity
+     */
+    functions?: FunctionsDefinition
+
+    /**
+     * Optional per-table lists of columns that have a DEFAULT value
+     * Keys are table names, schema-qualified for tables outside the default schema
+     * Used to find required columns for INSERT
+     */
+    defaults?: TableDefaults
+}
+
+/**
+ * Columns with a DEFAULT value per table
+ * Keys are table names, optionally schema-qualified ("audit.logs")
+ */
+export type TableDefaults = {
+    [tableName: string]: string[]
 }
 
 // ============================================================================
@@ -175,7 +269,102 @@ export type GetColumnType<
 > = SchemaName extends keyof Schema["schemas"]
     ? TableName extends keyof Schema["schemas"][SchemaName]
     ? ColumnName extends keyof Schema["schemas"][SchemaName][TableName]
-    ? Schema["schemas"][SchemaName][TableName][ColumnName]
+    ? UnwrapColumnType<Schema["schemas"][SchemaName][TableName][ColumnName]>
+    : never
+    : never
+    : never
+
+/**
+ * Check if a column definition is a ColumnDescriptor
+ * (an object with a `type` key and only descriptor keys)
+ */
+export type IsColumnDescriptor<Column> =
+    [Column] extends [{ type: unknown }]
+    ? Exclude<keyof Column, keyof ColumnDescriptor> extends never
+    ? true
+    : false
+    : false
+
+/**
+ * Get the value type of a column definition (plain type or ColumnDescriptor)
+ */
+export type UnwrapColumnType<Column> =
+    IsColumnDescriptor<Column> extends true
+    ? Column extends { type: infer Type }
+    ? Type
+    : never
+    : Column
+
+/**
+ * Map a table definition to its column value types
+ * Tables without column descriptors are returned unchanged
+ */
+export type TableColumnTypes<Table> =
+    true extends { [K in keyof Table]-?: IsColumnDescriptor<Table[K]> }[keyof Table]
+    ? { [K in keyof Table]: UnwrapColumnType<Table[K]> }
+    : Table
+
+/**
+ * Check if a column may be omitted on INSERT
+ * (DEFAULT or GENERATED BY DEFAULT)
+ */
+export type IsOptionalColumn<Column> =
+    IsColumnDescriptor<Column> extends true
+    ? Column extends { default: true }
+    ? true
+    : Column extends { generated: "by default" }
+    ? true
+    : false
+    : false
+
+/**
+ * Check if a column cannot be written (GENERATED ALWAYS)
+ */
+export type IsGeneratedColumn<Column> =
+    IsColumnDescriptor<Column> extends true
+    ? Column extends { generated: "always" }
+    ? true
+    : false
+    : false
+
+/**
+ * Check if a column must be provided on INSERT
+ * A column is required when its type excludes null and it has no default
+ */
+export type IsRequiredColumn<Column> =
+    IsColumnDescriptor<Column> extends true
+    ? IsOptionalColumn<Column> extends true
+    ? false
+    : IsGeneratedColumn<Column> extends true
+    ? false
+    : Column extends { type: infer Type }
+    ? null extends Type
+    ? false
+    : true
+    : false
+    : null extends Column
+    ? false
+    : true
+
+/**
+ * Get the columns declared in the schema `defaults` list of a table
+ * Unqualified keys match tables in the default schema
+ */
+export type GetTableDefaults<
+    Schema extends DatabaseSchema,
+    TableName extends string,
+    SchemaName extends string = GetDefaultSchema<Schema>
+> = Schema extends { defaults: infer D }
+    ? D extends TableDefaults
+    ? Extract<
+        keyof D,
+        SchemaName extends GetDefaultSchema<Schema>
+        ? TableName | `${SchemaName}.${TableName}`
+        : `${SchemaName}.${TableName}`
+    > extends infer Key
+    ? Key extends keyof D
+    ? D[Key][number]
+    : never
     : never
     : never
     : never
@@ -252,3 +441,102 @@ export type FindRelationsTo<
     : never
     : never
 
+/**
+ * Check if a schema declares user-defined functions
+ */
+export type HasFunctions<Schema extends DatabaseSchema> =
+    Schema extends { functions: FunctionsDefinition }
+    ? keyof Schema["functions"] extends never
+    ? false
+    : true
+    : false
+
+/**
+ * Get a user-defined function declaration by the name used in a query
+ * Matches unqualified names against both "fn" and "<defaultSchema>.fn" keys,
+ * and qualified default-schema names against "fn" keys.
+ * Names are also matched in lowercase (PostgreSQL folds unquoted identifiers)
+ */
+export type GetFunctionDefinition<
+    Schema extends DatabaseSchema,
+    Name extends string
+> = Schema extends { functions: infer F }
+    ? F extends FunctionsDefinition
+    ? Extract<keyof F, FunctionNameCandidates<Name | Lowercase<Name>, GetDefaultSchema<Schema>>> extends infer Key
+    ? [Key] extends [never]
+    ? never
+    : Key extends keyof F
+    ? F[Key]
+    : never
+    : never
+    : never
+    : never
+
+/**
+ * Names a function call can be declared under
+ */
+type FunctionNameCandidates<Name extends string, DefaultSchema extends string> =
+    Name extends `${DefaultSchema}.${infer Unqualified}`
+    ? Name | Unqualified
+    : Name extends `${string}.${string}`
+    ? Name
+    : Name | `${DefaultSchema}.${Name}`
+
+// ============================================================================
+// Value Checking
+// ============================================================================
+
+/**
+ * Check that a literal value can be written to a column
+ * Value is the literal from INSERT VALUES / UPDATE SET (string, number, boolean or null)
+ * Column is the column definition (plain type or ColumnDescriptor)
+ * Returns true, or an error message
+ *
+ * Columns typed any/unknown or with an object type (json, Date) accept any literal;
+ * numeric strings are accepted for number columns and numbers for string columns
+ */
+export type ValidateLiteralValue<
+    Value,
+    Column,
+    ColumnName extends string
+> = UnwrapColumnType<Column> extends infer ColumnType
+    ? unknown extends ColumnType
+    ? true
+    : [Value] extends [null]
+    ? null extends ColumnType
+    ? true
+    : `Cannot assign NULL to non-nullable column '${ColumnName}'`
+    : IsLiteralAssignable<Value, Exclude<ColumnType, null | undefined>> extends true
+    ? true
+    : `Value ${FormatLiteral<Value>} is not assignable to column '${ColumnName}'`
+    : never
+
+/**
+ * Check a non-null literal against a non-null column type
+ */
+type IsLiteralAssignable<Value, ColumnType> =
+    [Extract<ColumnType, object>] extends [never]
+    ? Value extends ColumnType
+    ? true
+    : Value extends `${number}`
+    ? number extends ColumnType
+    ? true
+    : false
+    : Value extends number
+    ? string extends ColumnType
+    ? true
+    : bigint extends ColumnType
+    ? true
+    : false
+    : false
+    : true
+
+/**
+ * Format a literal for error messages
+ */
+type FormatLiteral<Value> =
+    Value extends string
+    ? `'${Value}'`
+    : Value extends number | boolean
+    ? `${Value}`
+    : "value"
@@ -71,6 +71,12 @@ type SQLKeyword =
   | "CASCADE"
   | "RESTRICT"
   | "USING"
+  // CASE expressions
+  | "CASE"
+  | "WHEN"
+  | "THEN"
+  | "ELSE"
+  | "END"
   // INTERVAL and unit keywords
   | "INTERVAL"
   | "YEAR"
@@ -85,6 +91,9 @@ type SQLKeyword =
   | "NULLS"
   | "FIRST"
   | "LAST"
+  // WINDOW clause (OVER, PARTITION and frame words are matched case-insensitively
+  // by the SELECT parser so they stay usable as identifiers)
+  | "WINDOW"
   // SQL Constants (date/time, user/session)
   | "CURRENT_DATE"
   | "CURRENT_TIME"
@@ -111,6 +120,7 @@ export type FromTerminators =
   | "ORDER"
   | "GROUP"
   | "HAVING"
+  | "WINDOW"
   | "LIMIT"
   | "OFFSET"
   | "UNION"
@@ -121,7 +131,7 @@ export type FromTerminators =
 /**
  * Keywords that terminate the WHERE clause
  */
-export type WhereTerminators = "ORDER" | "GROUP" | "HAVING" | "LIMIT" | "OFFSET" | "UNION" | "INTERSECT" | "EXCEPT" | "RETURNING"
+export type WhereTerminators = "ORDER" | "GROUP" | "HAVING" | "WINDOW" | "LIMIT" | "OFFSET" | "UNION" | "INTERSECT" | "EXCEPT" | "RETURNING"
 
 /**
  * Keywords that terminate ORDER BY
@@ -216,7 +226,7 @@ type RemoveLineComments<T extends string> = T extends `${infer L}--${infer _}\n$
  * Remove all SQL comments (both block and line comments)
  * Block comments are removed first, then line comments
  */
-type RemoveComments<T extends string> = RemoveLineComments<RemoveBlockComments<T>>
+export type RemoveComments<T extends string> = RemoveLineComments<RemoveBlockComments<T>>
 
 /**
  * Replace tabs and newlines with spaces
@@ -318,6 +328,43 @@ export type SplitByComma<
       ? []
       : [Trim<Current>]
 
+// ============================================================================
+// Parameter Placeholders
+// ============================================================================
+
+/**
+ * Get the name of a parameter placeholder token
+ * Positional: $1 → "1"; named: :name, @name, $name → "name"
+ * Returns never for other tokens (:: casts, @> operators, ...)
+ */
+export type ParamName<T extends string> = T extends `${"$" | ":" | "@"}${infer Name}`
+  ? Name extends `${infer First}${string}`
+    ? IsParamNameStart<First> extends true
+      ? Name
+      : never
+    : never
+  : never
+
+/**
+ * Check if a token is a parameter placeholder ($1, :name, @name, $name)
+ */
+export type IsParamPlaceholder<T extends string> = [ParamName<T>] extends [never] ? false : true
+
+/**
+ * Check if a character can start a parameter name (letter, digit or underscore)
+ */
+type IsParamNameStart<C extends string> = C extends "_"
+  ? true
+  : C extends `${number}`
+    ? true
+    : Lowercase<C> extends Uppercase<C>
+      ? false
+      : true
+
+// ============================================================================
+// Parenthesis Counting
+// ============================================================================
+
 /**
  * Count opening parentheses
  */
@@ -329,6 +329,29 @@ type HasHoleAtOtherBoundaries<T extends string> =
                   : HasHoleAtOtherBoundaries<B>
                 : false
 
+/**
+ * Remove the words of a string type that contain template literal holes,
+ * keeping the literal words: `users ${string}` → "users".
+ * A plain `string` becomes "".
+ */
+export type StripTemplateHoles<T extends string> = HasTemplateHoles<T> extends true
+  ? StripHoleWords<T, "">
+  : T
+
+type StripHoleWords<T extends string, Acc extends string> =
+  T extends `${infer Word} ${infer Rest}`
+    ? StripHoleWords<Rest, AppendLiteralWord<Acc, Word>>
+    : AppendLiteralWord<Acc, T>
+
+type AppendLiteralWord<Acc extends string, Word extends string> =
+  Word extends ""
+    ? Acc
+    : HasTemplateHoles<Word> extends true
+      ? Acc
+      : Acc extends ""
+        ? Word
+        : `${Acc} ${Word}`
+
 /**
  * Marker for dynamic/non-literal queries that can't be validated at compile time.
  * These queries are passed through without validation.
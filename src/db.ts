@@ -23,6 +23,17 @@
 
 import type { DatabaseSchema, QueryResult } from "./select/matcher.js"
 import type { ValidateSelectSQL } from "./select/validator.js"
+import type { InsertResult } from "./insert/matcher.js"
+import type { ValidateInsertSQL } from "./insert/validator.js"
+import type { UpdateResult } from "./update/matcher.js"
+import type { ValidateUpdateSQL } from "./update/validator.js"
+import type { DeleteResult } from "./delete/matcher.js"
+import type { ValidateDeleteSQL } from "./delete/validator.js"
+import type { MergeResult } from "./merge/matcher.js"
+import type { ValidateMergeSQL } from "./merge/validator.js"
+import type { QueryParams } from "./params.js"
+import type { DetectQueryType } from "./router.js"
+import { bindNamedParams } from "./params.js"
 
 
 // ============================================================================
@@ -47,6 +58,99 @@ export type ValidQuery<
     : `[SQL Error] ${V & string}`
     : never
 
+/**
+ * Validates an INSERT query at compile time (see ValidQuery)
+ */
+export type ValidInsertQuery<
+    Q extends string,
+    Schema extends DatabaseSchema,
+> = ValidateInsertSQL<Q, Schema> extends infer V
+    ? V extends true
+    ? Q
+    : `[SQL Error] ${V & string}`
+    : never
+
+/**
+ * Validates an UPDATE query at compile time (see ValidQuery)
+ */
+export type ValidUpdateQuery<
+    Q extends string,
+    Schema extends DatabaseSchema,
+> = ValidateUpdateSQL<Q, Schema> extends infer V
+    ? V extends true
+    ? Q
+    : `[SQL Error] ${V & string}`
+    : never
+
+/**
+ * Validates a DELETE query at compile time (see ValidQuery)
+ */
+export type ValidDeleteQuery<
+    Q extends string,
+    Schema extends DatabaseSchema,
+> = ValidateDeleteSQL<Q, Schema> extends infer V
+    ? V extends true
+    ? Q
+    : `[SQL Error] ${V & string}`
+    : never
+
+/**
+ * Validates a MERGE query at compile time (see ValidQuery)
+ */
+export type ValidMergeQuery<
+    Q extends string,
+    Schema extends DatabaseSchema,
+> = ValidateMergeSQL<Q, Schema> extends infer V
+    ? V extends true
+    ? Q
+    : `[SQL Error] ${V & string}`
+    : never
+
+/**
+ * Validates a SELECT, INSERT, UPDATE, DELETE or MERGE query at compile time.
+ * The statement type is detected with DetectQueryType and the query is
+ * checked by the matching validator; other statement types are rejected.
+ */
+export type ValidAnyQuery<
+    Q extends string,
+    Schema extends DatabaseSchema,
+> = DetectQueryType<Q> extends infer QType
+    ? QType extends "SELECT" ? ValidQuery<Q, Schema>
+    : QType extends "INSERT" ? ValidInsertQuery<Q, Schema>
+    : QType extends "UPDATE" ? ValidUpdateQuery<Q, Schema>
+    : QType extends "DELETE" ? ValidDeleteQuery<Q, Schema>
+    : QType extends "MERGE" ? ValidMergeQuery<Q, Schema>
+    : `[SQL Error] Expected SELECT, INSERT, UPDATE, DELETE or MERGE statement`
+    : never
+
+/**
+ * Rows returned by a query of any supported type:
+ * the select list for SELECT, the RETURNING clause for INSERT / UPDATE / DELETE / MERGE
+ * (an empty tuple without RETURNING)
+ */
+export type QueryRows<
+    SQL extends string,
+    Schema extends DatabaseSchema,
+> = DetectQueryType<SQL> extends infer QType
+    ? QType extends "SELECT" ? Prettify<QueryResult<SQL, Schema>>[]
+    : QType extends "INSERT" ? ReturningRows<InsertResult<SQL, Schema>>
+    : QType extends "UPDATE" ? ReturningRows<UpdateResult<SQL, Schema>>
+    : QType extends "DELETE" ? ReturningRows<DeleteResult<SQL, Schema>>
+    : QType extends "MERGE" ? ReturningRows<MergeResult<SQL, Schema>>
+    : never
+    : never
+
+/**
+ * Result of a query run through createQueryFn
+ */
+export type QueryFnResult<
+    SQL extends string,
+    Schema extends DatabaseSchema,
+> = {
+    rows: QueryRows<SQL, Schema>;
+    rowCount: number;
+}
+
 /**
  * Result type for a SELECT query (flattened for better IDE display)
  */
@@ -63,6 +167,21 @@ export type SelectResultArray<
     Schema extends DatabaseSchema,
 > = Prettify<QueryResult<SQL, Schema>>[]
 
+/**
+ * Result of an INSERT / UPDATE / DELETE query:
+ * an array of RETURNING rows, or void without a RETURNING clause
+ */
+export type ReturningResult<Result> = [Result] extends [void]
+    ? void
+    : Prettify<Result>[]
+
+/**
+ * RETURNING rows, or an empty tuple without a RETURNING clause
+ */
+type ReturningRows<Result> = [Result] extends [void]
+    ? []
+    : Prettify<Result>[]
+
 /**
  * Force TypeScript to expand a type for better IDE display
  * This makes hover tooltips show the actual shape instead of type aliases
@@ -82,6 +201,15 @@ type Prettify<T> = {
  */
 export type QueryHandler = (query: string, params?: unknown[]) => unknown;
 
+/**
+ * A function that executes SQL and resolves to rows and the affected row count
+ * (the shape returned by node-postgres `pool.query`)
+ */
+export type QueryResultHandler = (
+    query: string,
+    params?: unknown[]
+) => PromiseLike<{ rows: unknown[]; rowCount?: number | null }>;
+
 // ============================================================================
 // Factory Functions
 // ============================================================================
@@ -93,6 +221,9 @@ export type QueryHandler = (query: string, params?: unknown[]) => unknown;
  * The returned function:
  * - Validates the query at compile time (invalid queries won't compile)
  * - Infers the result type from the query
+ * - Infers the parameter types from the placeholders ($1, $2, ...)
+ * - Accepts a params object for named placeholders (:name, @name, $name)
+ *   and passes the query to the handler in positional form
  *
  * @example
  * ```typescript
@@ -116,6 +247,13 @@ export type QueryHandler = (query: string, params?: unknown[]) => unknown;
  * const users = await select("SELECT id, name FROM users WHERE active = $1", [true])
  * // users: Array<{ id: number; name: string }>
  *
+ * // Parameters are typed from the columns they are compared with
+ * await select("SELECT id FROM users WHERE id = $1", ["1"])
+ * // Error: Type 'string' is not assignable to type 'number'
+ *
+ * // Named placeholders take a params object
+ * await select("SELECT id FROM users WHERE id = :userId", { userId: 1 })
+ *
  * // Invalid queries cause compile errors
  * const bad = await select("SELECT unknown FROM users")
  * // Error: Argument of type '"SELECT unknown FROM users"' is not assignable...
@@ -124,11 +262,142 @@ export type QueryHandler = (query: string, params?: unknown[]) => unknown;
 export function createSelectFn<Schema extends DatabaseSchema>(handler: QueryHandler) {
     return function select<Q extends string>(
         query: ValidQuery<Q, Schema>,
-        params?: unknown[]
+        params?: QueryParams<Q, Schema>
     ) {
         type Result = Prettify<QueryResult<Q, Schema>>;
-        return handler(query, params) as Promise<Result[]>;
+        return runQuery(handler, query, params) as Promise<Result[]>;
+    }
+}
+
+/**
+ * Create a type-safe insert function for your schema.
+ *
+ * The returned function validates the query with ValidateInsertSQL and
+ * resolves to the RETURNING rows, or to void without a RETURNING clause.
+ *
+ * @example
+ * ```typescript
+ * const insert = createInsertFn<Schema>((sql, params) =>
+ *   db.query(sql, params).then(r => r.rows)
+ * )
+ *
+ * const [user] = await insert(
+ *   "INSERT INTO users (name, email) VALUES ($1, $2) RETURNING id",
+ *   ["John", "john@example.com"]
+ * )
+ * // user: { id: number }
+ * ```
+ */
+export function createInsertFn<Schema extends DatabaseSchema>(handler: QueryHandler) {
+    return function insert<Q extends string>(
+        query: ValidInsertQuery<Q, Schema>,
+        params?: QueryParams<Q, Schema>
+    ) {
+        type Result = ReturningResult<InsertResult<Q, Schema>>;
+        return runQuery(handler, query, params) as Promise<Result>;
+    }
+}
+
+/**
+ * Create a type-safe update function for your schema.
+ *
+ * The returned function validates the query with ValidateUpdateSQL and
+ * resolves to the RETURNING rows, or to void without a RETURNING clause.
+ *
+ * @example
+ * ```typescript
+ * const update = createUpdateFn<Schema>((sql, params) =>
+ *   db.query(sql, params).then(r => r.rows)
+ * )
+ *
+ * await update("UPDATE users SET name = $1 WHERE id = $2", ["Jane", 1])
+ * // void
+ * ```
+ */
+export function createUpdateFn<Schema extends DatabaseSchema>(handler: QueryHandler) {
+    return function update<Q extends string>(
+        query: ValidUpdateQuery<Q, Schema>,
+        params?: QueryParams<Q, Schema>
+    ) {
+        type Result = ReturningResult<UpdateResult<Q, Schema>>;
+        return runQuery(handler, query, params) as Promise<Result>;
+    }
+}
+
+/**
+ * Create a type-safe delete function for your schema.
+ *
+ * The returned function validates the query with ValidateDeleteSQL and
+ * resolves to the RETURNING rows, or to void without a RETURNING clause.
+ *
+ * @example
+ * ```typescript
+ * const remove = createDeleteFn<Schema>((sql, params) =>
+ *   db.query(sql, params).then(r => r.rows)
+ * )
+ *
+ * const deleted = await remove("DELETE FROM users WHERE id = $1 RETURNING id, email", [1])
+ * // deleted: Array<{ id: number; email: string }>
+ * ```
+ */
+export function createDeleteFn<Schema extends DatabaseSchema>(handler: QueryHandler) {
+    return function remove<Q extends string>(
+        query: ValidDeleteQuery<Q, Schema>,
+        params?: QueryParams<Q, Schema>
+    ) {
+        type Result = ReturningResult<DeleteResult<Q, Schema>>;
+        return runQuery(handler, query, params) as Promise<Result>;
+    }
+}
+
+/**
+ * Create a single type-safe query function for SELECT, INSERT, UPDATE, DELETE and MERGE.
+ *
+ * The returned function:
+ * - Detects the statement type (DetectQueryType) and validates the query
+ *   with the matching validator; other statements won't compile
+ * - Resolves to `{ rows, rowCount }` where rows are typed from the select
+ *   list or the RETURNING clause
+ *
+ * When the handler reports no row count, the number of rows is used.
+ *
+ * @example
+ * ```typescript
+ * const query = createQueryFn<Schema>((sql, params) => pool.query(sql, params))
+ *
+ * const { rows } = await query("SELECT id, name FROM users WHERE id = $1", [1])
+ * // rows: Array<{ id: number; name: string }>
+ *
+ * const { rowCount } = await query("DELETE FROM users WHERE id = $1", [1])
+ * // rowCount: number
+ *
+ * query("TRUNCATE users")
+ * // Error: ... '"[SQL Error] Expected SELECT, INSERT, UPDATE, DELETE or MERGE statement"'
+ * ```
+ */
+export function createQueryFn<Schema extends DatabaseSchema>(handler: QueryResultHandler) {
+    return async function query<Q extends string>(
+        sql: ValidAnyQuery<Q, Schema>,
+        params?: QueryParams<Q, Schema>
+    ): Promise<QueryFnResult<Q, Schema>> {
+        const result = await runQuery(handler, sql, params) as Awaited<ReturnType<QueryResultHandler>>;
+        return {
+            rows: result.rows as QueryRows<Q, Schema>,
+            rowCount: result.rowCount ?? result.rows.length,
+        };
+    }
+}
+
+/**
+ * Pass a query to the handler, binding named parameters to positional form
+ * Binding errors (a missing named value, ...) reject the returned promise
+ */
+async function runQuery(handler: QueryHandler, query: string, params: unknown): Promise<unknown> {
+    if (params !== undefined && !Array.isArray(params)) {
+        const bound = bindNamedParams(query, params as Record<string, unknown>);
+        return handler(bound.sql, bound.params);
     }
+    return handler(query, params as unknown[] | undefined);
 }
 
 
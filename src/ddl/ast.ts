@@ -0,0 +1,308 @@
+/**
+ * AST type definitions for SQL DDL statements
+ *
+ * This module contains AST nodes for schema definition statements:
+ * - CreateTableStatement - CREATE TABLE with column definitions and table constraints
+ * - ColumnDefinition - a single column with its inline constraints
+ * - Table constraints - PRIMARY KEY, FOREIGN KEY and UNIQUE
+ * - AlterTableStatement - ALTER TABLE with its actions
+ * - DropTableStatement / CreateSchemaStatement
+ */
+
+import type { Flatten } from "../common/utils.js"
+
+// ============================================================================
+// References
+// ============================================================================
+
+/**
+ * Target of a foreign key: REFERENCES [schema.]table [( columns )]
+ * Columns is undefined when the referenced columns are omitted
+ * (the primary key of the referenced table is used)
+ */
+export type ForeignKeyReference<
+  Schema extends string | undefined = string | undefined,
+  Table extends string = string,
+  Columns extends string[] | undefined = string[] | undefined,
+> = {
+  readonly type: "ForeignKeyReference"
+  readonly schema: Schema
+  readonly table: Table
+  readonly columns: Columns
+}
+
+// ============================================================================
+// Column Definition
+// ============================================================================
+
+/**
+ * How a column value is generated
+ * ALWAYS: GENERATED ALWAYS AS IDENTITY / GENERATED ALWAYS AS ( expr ) STORED
+ * BY DEFAULT: GENERATED BY DEFAULT AS IDENTITY
+ */
+export type GeneratedKind = "ALWAYS" | "BY DEFAULT"
+
+/**
+ * A column definition inside CREATE TABLE
+ * DataType is the normalized lowercase type name without modifiers
+ * ("varchar", "timestamptz", "int[]")
+ * Default is the raw DEFAULT expression
+ */
+export type ColumnDefinition<
+  Name extends string = string,
+  DataType extends string = string,
+  NotNull extends boolean = boolean,
+  PrimaryKey extends boolean = boolean,
+  Unique extends boolean = boolean,
+  Default extends string | undefined = string | undefined,
+  Generated extends GeneratedKind | undefined = GeneratedKind | undefined,
+  References extends ForeignKeyReference | undefined = ForeignKeyReference | undefined,
+> = Flatten<{
+  readonly type: "ColumnDefinition"
+  readonly name: Name
+  readonly dataType: DataType
+  readonly notNull: NotNull
+  readonly primaryKey: PrimaryKey
+  readonly unique: Unique
+  readonly default: Default
+  readonly generated: Generated
+  readonly references: References
+}>
+
+// ============================================================================
+// Table Constraints
+// ============================================================================
+
+/**
+ * Table-level PRIMARY KEY ( columns )
+ */
+export type PrimaryKeyConstraint<Columns extends string[] = string[]> = {
+  readonly type: "PrimaryKeyConstraint"
+  readonly columns: Columns
+}
+
+/**
+ * Table-level UNIQUE ( columns )
+ */
+export type UniqueConstraint<Columns extends string[] = string[]> = {
+  readonly type: "UniqueConstraint"
+  readonly columns: Columns
+}
+
+/**
+ * Table-level [CONSTRAINT name] FOREIGN KEY ( columns ) REFERENCES ...
+ */
+export type ForeignKeyConstraint<
+  Name extends string | undefined = string | undefined,
+  Columns extends string[] = string[],
+  References extends ForeignKeyReference = ForeignKeyReference,
+> = {
+  readonly type: "ForeignKeyConstraint"
+  readonly name: Name
+  readonly columns: Columns
+  readonly references: References
+}
+
+/**
+ * Table constraints that affect the generated schema
+ * (CHECK and EXCLUDE constraints are parsed but not represented)
+ */
+export type TableConstraint = PrimaryKeyConstraint | UniqueConstraint | ForeignKeyConstraint
+
+// ============================================================================
+// Statements
+// ============================================================================
+
+/**
+ * CREATE TABLE [IF NOT EXISTS] [schema.]table ( ... )
+ * Schema is undefined when the table name is not schema-qualified
+ */
+export type CreateTableStatement<
+  Schema extends string | undefined = string | undefined,
+  Table extends string = string,
+  Columns extends ColumnDefinition[] = ColumnDefinition[],
+  Constraints extends TableConstraint[] = TableConstraint[],
+> = Flatten<{
+  readonly type: "CreateTableStatement"
+  readonly schema: Schema
+  readonly table: Table
+  readonly columns: Columns
+  readonly constraints: Constraints
+}>
+
+/**
+ * A possibly schema-qualified table name
+ */
+export type QualifiedTableName<
+  Schema extends string | undefined = string | undefined,
+  Table extends string = string,
+> = {
+  readonly type: "QualifiedTableName"
+  readonly schema: Schema
+  readonly table: Table
+}
+
+/**
+ * DROP TABLE [IF EXISTS] table [, ...] [CASCADE | RESTRICT]
+ */
+export type DropTableStatement<
+  Tables extends QualifiedTableName[] = QualifiedTableName[],
+  IfExists extends boolean = boolean,
+> = {
+  readonly type: "DropTableStatement"
+  readonly tables: Tables
+  readonly ifExists: IfExists
+}
+
+/**
+ * CREATE SCHEMA [IF NOT EXISTS] name
+ */
+export type CreateSchemaStatement<
+  Name extends string = string,
+  IfNotExists extends boolean = boolean,
+> = {
+  readonly type: "CreateSchemaStatement"
+  readonly name: Name
+  readonly ifNotExists: IfNotExists
+}
+
+// ============================================================================
+// ALTER TABLE
+// ============================================================================
+
+/**
+ * ADD [COLUMN] [IF NOT EXISTS] column_definition
+ */
+export type AddColumnAction<
+  Column extends ColumnDefinition = ColumnDefinition,
+  IfNotExists extends boolean = boolean,
+> = {
+  readonly type: "AddColumnAction"
+  readonly column: Column
+  readonly ifNotExists: IfNotExists
+}
+
+/**
+ * DROP [COLUMN] [IF EXISTS] column
+ */
+export type DropColumnAction<
+  Column extends string = string,
+  IfExists extends boolean = boolean,
+> = {
+  readonly type: "DropColumnAction"
+  readonly column: Column
+  readonly ifExists: IfExists
+}
+
+/**
+ * RENAME [COLUMN] column TO new_name
+ */
+export type RenameColumnAction<
+  From extends string = string,
+  To extends string = string,
+> = {
+  readonly type: "RenameColumnAction"
+  readonly from: From
+  readonly to: To
+}
+
+/**
+ * ALTER [COLUMN] column [SET DATA] TYPE data_type [USING expr]
+ * DataType is normalized like ColumnDefinition data types
+ */
+export type AlterColumnTypeAction<
+  Column extends string = string,
+  DataType extends string = string,
+> = {
+  readonly type: "AlterColumnTypeAction"
+  readonly column: Column
+  readonly dataType: DataType
+}
+
+/**
+ * ALTER [COLUMN] column SET NOT NULL / DROP NOT NULL
+ */
+export type AlterColumnNullAction<
+  Column extends string = string,
+  NotNull extends boolean = boolean,
+> = {
+  readonly type: "AlterColumnNullAction"
+  readonly column: Column
+  readonly notNull: NotNull
+}
+
+/**
+ * ALTER [COLUMN] column SET DEFAULT expr / DROP DEFAULT
+ */
+export type AlterColumnDefaultAction<
+  Column extends string = string,
+  HasDefault extends boolean = boolean,
+> = {
+  readonly type: "AlterColumnDefaultAction"
+  readonly column: Column
+  readonly hasDefault: HasDefault
+}
+
+/**
+ * RENAME TO new_name
+ */
+export type RenameTableAction<NewName extends string = string> = {
+  readonly type: "RenameTableAction"
+  readonly name: NewName
+}
+
+/**
+ * ADD table_constraint
+ */
+export type AddConstraintAction<Constraint extends TableConstraint = TableConstraint> = {
+  readonly type: "AddConstraintAction"
+  readonly constraint: Constraint
+}
+
+/**
+ * DROP CONSTRAINT [IF EXISTS] name
+ */
+export type DropConstraintAction<Name extends string = string> = {
+  readonly type: "DropConstraintAction"
+  readonly name: Name
+}
+
+/**
+ * ALTER TABLE actions that affect the schema
+ * (OWNER TO, SET STATISTICS, ... are parsed but not represented)
+ */
+export type AlterTableAction =
+  | AddColumnAction
+  | DropColumnAction
+  | RenameColumnAction
+  | AlterColumnTypeAction
+  | AlterColumnNullAction
+  | AlterColumnDefaultAction
+  | RenameTableAction
+  | AddConstraintAction
+  | DropConstraintAction
+
+/**
+ * ALTER TABLE [IF EXISTS] [ONLY] [schema.]table action [, ...]
+ */
+export type AlterTableStatement<
+  Schema extends string | undefined = string | undefined,
+  Table extends string = string,
+  IfExists extends boolean = boolean,
+  Actions extends AlterTableAction[] = AlterTableAction[],
+> = {
+  readonly type: "AlterTableStatement"
+  readonly schema: Schema
+  readonly table: Table
+  readonly ifExists: IfExists
+  readonly actions: Actions
+}
+
+/**
+ * Any DDL statement recognized by the parser
+ */
+export type DDLStatement =
+  | CreateTableStatement
+  | CreateSchemaStatement
+  | DropTableStatement
+  | AlterTableStatement
@@ -0,0 +1,68 @@
+/**
+ * DDL Module
+ *
+ * This module provides type-level parsing of SQL DDL scripts
+ * (CREATE TABLE, ALTER TABLE, DROP TABLE, CREATE SCHEMA) into
+ * DatabaseSchema types, and replaying migrations on a schema.
+ *
+ * @example
+ * ```typescript
+ * import type { ParseDDL, ParseDDLStatements, ApplyMigrations } from './ddl'
+ *
+ * // Parse statements into ASTs
+ * type AST = ParseDDLStatements<"CREATE TABLE users (id serial PRIMARY KEY)">
+ *
+ * // Build a schema usable with QueryResult, ValidateSQL, ...
+ * type Schema = ParseDDL<"CREATE TABLE users (id serial PRIMARY KEY)">
+ *
+ * // Evolve a schema through migrations
+ * type Current = ApplyMigrations<Schema, ["ALTER TABLE users ADD COLUMN name text"]>
+ * ```
+ */
+
+// ============================================================================
+// Parser Exports
+// ============================================================================
+
+export type { ParseDDLStatements, NormalizeDataType } from "./parser.js"
+
+// ============================================================================
+// AST Type Exports
+// ============================================================================
+
+export type {
+  // Statements
+  DDLStatement,
+  CreateTableStatement,
+  // Columns
+  ColumnDefinition,
+  GeneratedKind,
+  // Constraints
+  TableConstraint,
+  PrimaryKeyConstraint,
+  UniqueConstraint,
+  ForeignKeyConstraint,
+  ForeignKeyReference,
+  // Other statements
+  CreateSchemaStatement,
+  DropTableStatement,
+  QualifiedTableName,
+  // ALTER TABLE
+  AlterTableStatement,
+  AlterTableAction,
+  AddColumnAction,
+  DropColumnAction,
+  RenameColumnAction,
+  AlterColumnTypeAction,
+  AlterColumnNullAction,
+  AlterColumnDefaultAction,
+  RenameTableAction,
+  AddConstraintAction,
+  DropConstraintAction,
+} from "./ast.js"
+
+// ============================================================================
+// Migration Exports
+// ============================================================================
+
+export type { ParseDDL, ApplyDDL, ApplyMigrations } from "./migrations.js"
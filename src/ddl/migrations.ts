@@ -0,0 +1,631 @@
+/**
+ * Apply DDL statements to a DatabaseSchema type
+ *
+ * Evolves a schema through CREATE TABLE, ALTER TABLE, DROP TABLE and
+ * CREATE SCHEMA statements in order, so the current schema can be derived
+ * from an ordered list of migration scripts.
+ *
+ * Relations follow the schema: foreign keys add relations, and dropping or
+ * renaming tables and columns removes or updates the relations that use them.
+ * Applying a statement to a table or column that does not exist returns a
+ * MatchError (unless the statement uses IF EXISTS / IF NOT EXISTS).
+ */
+
+import type {
+  AddColumnAction,
+  AddConstraintAction,
+  AlterColumnDefaultAction,
+  AlterColumnNullAction,
+  AlterColumnTypeAction,
+  AlterTableStatement,
+  ColumnDefinition,
+  CreateSchemaStatement,
+  CreateTableStatement,
+  DropColumnAction,
+  DropConstraintAction,
+  DropTableStatement,
+  ForeignKeyConstraint,
+  PrimaryKeyConstraint,
+  QualifiedTableName,
+  RenameColumnAction,
+  RenameTableAction,
+} from "./ast.js"
+import type { ParseDDLStatements } from "./parser.js"
+import type {
+  BuildColumnType,
+  BuildTable,
+  ColumnTSType,
+  RelationsFromEntries,
+  StatementRelations,
+  StatementSchema,
+  WithPrimaryKey,
+} from "./schema.js"
+import type {
+  ColumnReference,
+  DatabaseSchema,
+  GetDefaultSchema,
+  IsColumnDescriptor,
+  Relation,
+  Relations,
+} from "../common/schema.js"
+import type { Flatten, MatchError, ParseError } from "../common/utils.js"
+
+// ============================================================================
+// Main Entry Points
+// ============================================================================
+
+/**
+ * Parse a DDL script into a DatabaseSchema-compatible type
+ * Tables without a schema prefix are placed in DefaultSchema
+ *
+ * @example
+ * ```typescript
+ * type Schema = ParseDDL<`
+ *   CREATE TABLE users (
+ *     id serial PRIMARY KEY,
+ *     email varchar(255) NOT NULL,
+ *     deleted_at timestamptz
+ *   );
+ *   CREATE TABLE orders (
+ *     id serial PRIMARY KEY,
+ *     user_id int NOT NULL REFERENCES users(id)
+ *   );
+ * `>
+ * // {
+ * //   defaultSchema: "public"
+ * //   schemas: { public: {
+ * //     users: { id: { type: number; default: true }; email: string; deleted_at: string | null }
+ * //     orders: { id: { type: number; default: true }; user_id: number }
+ * //   } }
+ * //   relations: { orders_user_id_fkey: { from: ...; to: ...; type: "many-to-one" } }
+ * // }
+ * ```
+ */
+export type ParseDDL<
+  T extends string,
+  DefaultSchema extends string = "public",
+> = ApplyDDL<{ defaultSchema: DefaultSchema; schemas: {}; relations: {} }, T>
+
+/**
+ * Apply an ordered list of migration scripts to a schema
+ *
+ * @example
+ * ```typescript
+ * type Current = ApplyMigrations<Initial, [
+ *   "ALTER TABLE users ADD COLUMN nickname text",
+ *   "ALTER TABLE users RENAME COLUMN name TO full_name",
+ *   "DROP TABLE legacy_users",
+ * ]>
+ * ```
+ */
+export type ApplyMigrations<
+  Schema extends DatabaseSchema,
+  Migrations extends string[],
+> = Migrations extends [infer First extends string, ...infer Rest extends string[]]
+  ? ApplyDDL<Schema, First> extends infer Next
+    ? Next extends DatabaseSchema
+      ? ApplyMigrations<Next, Rest>
+      : Next
+    : never
+  : Schema
+
+/**
+ * Apply a single DDL script to a schema
+ * Returns a ParseError or MatchError when a statement cannot be applied
+ */
+export type ApplyDDL<
+  Schema extends DatabaseSchema,
+  T extends string,
+> = ParseDDLStatements<T> extends infer Statements
+  ? Statements extends ParseError<string>
+    ? Statements
+    : Statements extends unknown[]
+      ? ApplyStatements<Schema, Statements, CreatedTables<Statements>>
+      : never
+  : never
+
+/**
+ * CREATE TABLE statements of a script
+ * (used to resolve REFERENCES without a column list)
+ */
+type CreatedTables<Statements extends unknown[]> = Extract<
+  Statements[number],
+  CreateTableStatement
+>
+
+/**
+ * Apply statements in order
+ */
+type ApplyStatements<
+  Schema extends DatabaseSchema,
+  Statements extends unknown[],
+  All extends CreateTableStatement,
+> = Statements extends [infer First, ...infer Rest]
+  ? ApplyStatement<Schema, First, All> extends infer Next
+    ? Next extends DatabaseSchema
+      ? ApplyStatements<Next, Rest, All>
+      : Next
+    : never
+  : Schema
+
+/**
+ * Apply a single statement
+ */
+type ApplyStatement<
+  Schema extends DatabaseSchema,
+  Statement,
+  All extends CreateTableStatement,
+> = Statement extends CreateTableStatement
+  ? ApplyCreateTable<Schema, Statement, All>
+  : Statement extends CreateSchemaStatement<infer Name, infer IfNotExists>
+    ? ApplyCreateSchema<Schema, Name, IfNotExists>
+    : Statement extends DropTableStatement<infer Tables, infer IfExists>
+      ? ApplyDropTables<Schema, Tables, IfExists>
+      : Statement extends AlterTableStatement<infer SchemaName, infer Table, infer IfExists, infer Actions>
+        ? TableExists<Schema, ResolveSchemaName<Schema, SchemaName>, Table> extends true
+          ? ApplyAlterActions<Schema, ResolveSchemaName<Schema, SchemaName>, Table, Actions>
+          : IfExists extends true
+            ? Schema
+            : MatchError<`Table '${DisplayName<SchemaName, Table>}' not found`>
+        : Schema
+
+// ============================================================================
+// CREATE TABLE / CREATE SCHEMA / DROP TABLE
+// ============================================================================
+
+type ApplyCreateTable<
+  Schema extends DatabaseSchema,
+  Statement extends CreateTableStatement,
+  All extends CreateTableStatement,
+> = AddRelations<
+  SetTable<
+    Schema,
+    StatementSchema<Statement, GetDefaultSchema<Schema>>,
+    Statement["table"],
+    BuildTable<Statement>
+  >,
+  RelationsFromEntries<StatementRelations<Statement, All, GetDefaultSchema<Schema>>>
+>
+
+type ApplyCreateSchema<
+  Schema extends DatabaseSchema,
+  Name extends string,
+  IfNotExists extends boolean,
+> = Name extends keyof Schema["schemas"]
+  ? IfNotExists extends true
+    ? Schema
+    : MatchError<`Schema '${Name}' already exists`>
+  : SetSchemas<Schema, Flatten<Schema["schemas"] & { [K in Name]: {} }>>
+
+type ApplyDropTables<
+  Schema extends DatabaseSchema,
+  Tables extends QualifiedTableName[],
+  IfExists extends boolean,
+> = Tables extends [
+  infer First extends QualifiedTableName,
+  ...infer Rest extends QualifiedTableName[],
+]
+  ? ResolveSchemaName<Schema, First["schema"]> extends infer SchemaName extends string
+    ? TableExists<Schema, SchemaName, First["table"]> extends true
+      ? ApplyDropTables<
+          SetRelations<
+            RemoveTable<Schema, SchemaName, First["table"]>,
+            RemoveRelations<ExistingRelations<Schema>, SchemaName, First["table"], string, GetDefaultSchema<Schema>>
+          >,
+          Rest,
+          IfExists
+        >
+      : IfExists extends true
+        ? ApplyDropTables<Schema, Rest, IfExists>
+        : MatchError<`Table '${DisplayName<First["schema"], First["table"]>}' not found`>
+    : never
+  : Schema
+
+// ============================================================================
+// ALTER TABLE
+// ============================================================================
+
+/**
+ * Apply ALTER TABLE actions in order
+ * RENAME TO changes the table the following actions apply to
+ */
+type ApplyAlterActions<
+  Schema extends DatabaseSchema,
+  SchemaName extends string,
+  Table extends string,
+  Actions extends unknown[],
+> = Actions extends [infer First, ...infer Rest]
+  ? ApplyAlterAction<Schema, SchemaName, Table, First> extends infer Next
+    ? Next extends DatabaseSchema
+      ? ApplyAlterActions<
+          Next,
+          SchemaName,
+          First extends RenameTableAction<infer NewName> ? NewName : Table,
+          Rest
+        >
+      : Next
+    : never
+  : Schema
+
+type ApplyAlterAction<
+  Schema extends DatabaseSchema,
+  SchemaName extends string,
+  Table extends string,
+  Action,
+> = Action extends AddColumnAction<infer Column, infer IfNotExists>
+  ? ApplyAddColumn<Schema, SchemaName, Table, Column, IfNotExists>
+  : Action extends DropColumnAction<infer Column, infer IfExists>
+    ? ApplyDropColumn<Schema, SchemaName, Table, Column, IfExists>
+    : Action extends RenameColumnAction<infer From, infer To>
+      ? ApplyRenameColumn<Schema, SchemaName, Table, From, To>
+      : Action extends AlterColumnTypeAction<infer Column, infer DataType>
+        ? ApplyColumnChange<Schema, SchemaName, Table, Column, ChangeColumnType<DataType>>
+        : Action extends AlterColumnNullAction<infer Column, infer NotNull>
+          ? ApplyColumnChange<Schema, SchemaName, Table, Column, NotNull extends true ? "SET NOT NULL" : "DROP NOT NULL">
+          : Action extends AlterColumnDefaultAction<infer Column, infer HasDefault>
+            ? ApplyColumnChange<Schema, SchemaName, Table, Column, HasDefault extends true ? "SET DEFAULT" : "DROP DEFAULT">
+            : Action extends RenameTableAction<infer NewName>
+              ? ApplyRenameTable<Schema, SchemaName, Table, NewName>
+              : Action extends AddConstraintAction<infer Constraint>
+                ? Constraint extends PrimaryKeyConstraint<infer Columns>
+                  ? ApplyPrimaryKey<Schema, SchemaName, Table, Columns>
+                  : Constraint extends ForeignKeyConstraint
+                    ? AddRelations<
+                        Schema,
+                        RelationsFromEntries<
+                          StatementRelations<
+                            CreateTableStatement<SchemaName, Table, [], [Constraint]>,
+                            never,
+                            GetDefaultSchema<Schema>
+                          >
+                        >
+                      >
+                    : Schema
+                : Action extends DropConstraintAction<infer Name>
+                  ? SetRelations<Schema, Flatten<Omit<ExistingRelations<Schema>, Name>>>
+                  : Schema
+
+type ApplyAddColumn<
+  Schema extends DatabaseSchema,
+  SchemaName extends string,
+  Table extends string,
+  Column extends ColumnDefinition,
+  IfNotExists extends boolean,
+> = Column["name"] extends keyof GetTable<Schema, SchemaName, Table>
+  ? IfNotExists extends true
+    ? Schema
+    : MatchError<`Column '${Column["name"]}' already exists in '${Table}'`>
+  : AddRelations<
+      SetTable<
+        Schema,
+        SchemaName,
+        Table,
+        Flatten<GetTable<Schema, SchemaName, Table> & { [K in Column["name"]]: BuildColumnType<Column> }>
+      >,
+      RelationsFromEntries<
+        StatementRelations<
+          CreateTableStatement<SchemaName, Table, [Column], []>,
+          never,
+          GetDefaultSchema<Schema>
+        >
+      >
+    >
+
+type ApplyDropColumn<
+  Schema extends DatabaseSchema,
+  SchemaName extends string,
+  Table extends string,
+  Column extends string,
+  IfExists extends boolean,
+> = Column extends keyof GetTable<Schema, SchemaName, Table>
+  ? SetRelations<
+      SetTable<Schema, SchemaName, Table, Flatten<Omit<GetTable<Schema, SchemaName, Table>, Column>>>,
+      RemoveRelations<ExistingRelations<Schema>, SchemaName, Table, Column, GetDefaultSchema<Schema>>
+    >
+  : IfExists extends true
+    ? Schema
+    : MatchError<`Column '${Column}' not found in '${Table}'`>
+
+type ApplyRenameColumn<
+  Schema extends DatabaseSchema,
+  SchemaName extends string,
+  Table extends string,
+  From extends string,
+  To extends string,
+> = From extends keyof GetTable<Schema, SchemaName, Table>
+  ? To extends keyof GetTable<Schema, SchemaName, Table>
+    ? MatchError<`Column '${To}' already exists in '${Table}'`>
+    : SetRelations<
+        SetTable<
+          Schema,
+          SchemaName,
+          Table,
+          {
+            [K in keyof GetTable<Schema, SchemaName, Table> as K extends From ? To : K]: GetTable<
+              Schema,
+              SchemaName,
+              Table
+            >[K]
+          }
+        >,
+        RenameInRelations<ExistingRelations<Schema>, SchemaName, Table, From, Table, To, GetDefaultSchema<Schema>>
+      >
+  : MatchError<`Column '${From}' not found in '${Table}'`>
+
+type ApplyRenameTable<
+  Schema extends DatabaseSchema,
+  SchemaName extends string,
+  Table extends string,
+  NewName extends string,
+> = TableExists<Schema, SchemaName, NewName> extends true
+  ? MatchError<`Table '${NewName}' already exists`>
+  : SetRelations<
+      SetTable<
+        RemoveTable<Schema, SchemaName, Table>,
+        SchemaName,
+        NewName,
+        GetTable<Schema, SchemaName, Table>
+      >,
+      RenameInRelations<ExistingRelations<Schema>, SchemaName, Table, string, NewName, never, GetDefaultSchema<Schema>>
+    >
+
+/**
+ * Column type changes applied by ALTER COLUMN
+ */
+type ChangeColumnType<DataType extends string> = { dataType: DataType }
+
+/**
+ * Apply a type, nullability or default change to an existing column
+ * ALTER COLUMN TYPE keeps the nullability of the column;
+ * primary key columns cannot be made nullable
+ */
+type ApplyColumnChange<
+  Schema extends DatabaseSchema,
+  SchemaName extends string,
+  Table extends string,
+  Column extends string,
+  Change,
+> = Column extends keyof GetTable<Schema, SchemaName, Table>
+  ? [Change, GetTable<Schema, SchemaName, Table>[Column]] extends ["DROP NOT NULL", { primaryKey: true }]
+    ? MatchError<`Column '${Column}' is in the primary key of '${Table}'`>
+    : SetTable<
+        Schema,
+        SchemaName,
+        Table,
+        Flatten<
+          Omit<GetTable<Schema, SchemaName, Table>, Column> & {
+            [K in Column]: ChangedColumnType<GetTable<Schema, SchemaName, Table>[Column], Change>
+          }
+        >
+      >
+  : MatchError<`Column '${Column}' not found in '${Table}'`>
+
+/**
+ * Column entry after a change
+ * Descriptors keep their metadata; a default adds or removes the descriptor
+ */
+type ChangedColumnType<Current, Change> = Change extends "ADD PRIMARY KEY"
+  ? WithPrimaryKey<ChangedColumnType<Current, "SET NOT NULL">, true>
+  : IsColumnDescriptor<Current> extends true
+  ? Current extends { type: infer Type }
+    ? Change extends "SET DEFAULT"
+      ? Flatten<Omit<Current, "default"> & { default: true }>
+      : Change extends "DROP DEFAULT"
+        ? Exclude<keyof Current, "type" | "default"> extends never
+          ? Type
+          : Flatten<Omit<Current, "default">>
+        : Flatten<Omit<Current, "type"> & { type: ChangedValueType<Type, Change> }>
+    : Current
+  : Change extends "SET DEFAULT"
+    ? { type: Current; default: true }
+    : Change extends "DROP DEFAULT"
+      ? Current
+      : ChangedValueType<Current, Change>
+
+type ChangedValueType<Current, Change> = Change extends ChangeColumnType<infer DataType>
+  ? null extends Current
+    ? ColumnTSType<DataType> | null
+    : ColumnTSType<DataType>
+  : Change extends "SET NOT NULL"
+    ? Exclude<Current, null>
+    : Current | null
+
+/**
+ * ADD PRIMARY KEY makes the key columns NOT NULL and marks them as primary key
+ */
+type ApplyPrimaryKey<
+  Schema extends DatabaseSchema,
+  SchemaName extends string,
+  Table extends string,
+  Columns extends string[],
+> = Columns extends [infer First extends string, ...infer Rest extends string[]]
+  ? ApplyColumnChange<Schema, SchemaName, Table, First, "ADD PRIMARY KEY"> extends infer Next
+    ? Next extends DatabaseSchema
+      ? ApplyPrimaryKey<Next, SchemaName, Table, Rest>
+      : Next
+    : never
+  : Schema
+
+// ============================================================================
+// Schema Helpers
+// ============================================================================
+
+/**
+ * Resolve an optional schema name to the default schema
+ */
+type ResolveSchemaName<
+  Schema extends DatabaseSchema,
+  SchemaName extends string | undefined,
+> = SchemaName extends string ? SchemaName : GetDefaultSchema<Schema>
+
+/**
+ * Table name as written in the statement (for error messages)
+ */
+type DisplayName<
+  SchemaName extends string | undefined,
+  Table extends string,
+> = SchemaName extends string ? `${SchemaName}.${Table}` : Table
+
+type TableExists<
+  Schema extends DatabaseSchema,
+  SchemaName extends string,
+  Table extends string,
+> = SchemaName extends keyof Schema["schemas"]
+  ? Table extends keyof Schema["schemas"][SchemaName]
+    ? true
+    : false
+  : false
+
+type SchemaTables<
+  Schema extends DatabaseSchema,
+  SchemaName extends string,
+> = SchemaName extends keyof Schema["schemas"] ? Schema["schemas"][SchemaName] : {}
+
+type GetTable<
+  Schema extends DatabaseSchema,
+  SchemaName extends string,
+  Table extends string,
+> = Table extends keyof SchemaTables<Schema, SchemaName>
+  ? SchemaTables<Schema, SchemaName>[Table]
+  : {}
+
+type SetSchemas<Schema extends DatabaseSchema, Schemas> = Flatten<
+  Omit<Schema, "schemas"> & { schemas: Schemas }
+>
+
+/**
+ * Add or replace a table (creating the schema if needed)
+ */
+type SetTable<
+  Schema extends DatabaseSchema,
+  SchemaName extends string,
+  Table extends string,
+  Definition,
+> = SetSchemas<
+  Schema,
+  {
+    [S in keyof Schema["schemas"] | SchemaName]: S extends SchemaName
+      ? Flatten<{
+          [T in keyof SchemaTables<Schema, SchemaName> | Table]: T extends Table
+            ? Definition
+            : T extends keyof SchemaTables<Schema, SchemaName>
+              ? SchemaTables<Schema, SchemaName>[T]
+              : never
+        }>
+      : S extends keyof Schema["schemas"]
+        ? Schema["schemas"][S]
+        : never
+  }
+>
+
+type RemoveTable<
+  Schema extends DatabaseSchema,
+  SchemaName extends string,
+  Table extends string,
+> = SetSchemas<
+  Schema,
+  {
+    [S in keyof Schema["schemas"]]: S extends SchemaName
+      ? Flatten<Omit<Schema["schemas"][S], Table>>
+      : Schema["schemas"][S]
+  }
+>
+
+// ============================================================================
+// Relation Helpers
+// ============================================================================
+
+type ExistingRelations<Schema extends DatabaseSchema> = Schema extends {
+  relations: infer R extends Relations
+}
+  ? R
+  : {}
+
+type SetRelations<Schema extends DatabaseSchema, R> = Flatten<
+  Omit<Schema, "relations"> & { relations: R }
+>
+
+type AddRelations<Schema extends DatabaseSchema, R> = SetRelations<
+  Schema,
+  Flatten<Omit<ExistingRelations<Schema>, keyof R> & R>
+>
+
+/**
+ * Schema of a relation endpoint (the default schema when omitted)
+ */
+type ReferenceSchema<Ref extends ColumnReference, DefaultSchema extends string> = [
+  Exclude<Ref["schema"], undefined>,
+] extends [never]
+  ? DefaultSchema
+  : Exclude<Ref["schema"], undefined>
+
+type ReferenceMatches<
+  Ref extends ColumnReference,
+  SchemaName extends string,
+  Table extends string,
+  Column extends string,
+  DefaultSchema extends string,
+> = Ref["table"] extends Table
+  ? ReferenceSchema<Ref, DefaultSchema> extends SchemaName
+    ? Ref["column"] extends Column
+      ? true
+      : false
+    : false
+  : false
+
+/**
+ * Remove relations that use a table (Column = string) or a column
+ */
+type RemoveRelations<
+  R,
+  SchemaName extends string,
+  Table extends string,
+  Column extends string,
+  DefaultSchema extends string,
+> = Flatten<{
+  [K in keyof R as R[K] extends Relation<infer From, infer To>
+    ? ReferenceMatches<From, SchemaName, Table, Column, DefaultSchema> extends true
+      ? never
+      : ReferenceMatches<To, SchemaName, Table, Column, DefaultSchema> extends true
+        ? never
+        : K
+    : K]: R[K]
+}>
+
+/**
+ * Rename a table (Column = string, NewColumn = never) or a column in relations
+ */
+type RenameInRelations<
+  R,
+  SchemaName extends string,
+  Table extends string,
+  Column extends string,
+  NewTable extends string,
+  NewColumn extends string,
+  DefaultSchema extends string,
+> = Flatten<{
+  [K in keyof R]: R[K] extends Relation<infer From, infer To, infer Type>
+    ? Relation<
+        RenameReference<From, SchemaName, Table, Column, NewTable, NewColumn, DefaultSchema>,
+        RenameReference<To, SchemaName, Table, Column, NewTable, NewColumn, DefaultSchema>,
+        Type
+      >
+    : R[K]
+}>
+
+type RenameReference<
+  Ref extends ColumnReference,
+  SchemaName extends string,
+  Table extends string,
+  Column extends string,
+  NewTable extends string,
+  NewColumn extends string,
+  DefaultSchema extends string,
+> = ReferenceMatches<Ref, SchemaName, Table, Column, DefaultSchema> extends true
+  ? Flatten<
+      Omit<Ref, "table" | "column"> & {
+        table: NewTable
+        column: [NewColumn] extends [never] ? Ref["column"] : NewColumn
+      }
+    >
+  : Ref
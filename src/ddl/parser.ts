@@ -0,0 +1,963 @@
+/**
+ * Type-level SQL DDL parser
+ *
+ * Parses a script of semicolon-separated DDL statements (e.g. a migration file).
+ * CREATE TABLE, ALTER TABLE, DROP TABLE and CREATE SCHEMA statements are parsed
+ * into ASTs; other statements (CREATE INDEX, COMMENT ON, ...) are skipped.
+ *
+ * DDL words (CREATE, TABLE, PRIMARY, KEY, REFERENCES, ...) are matched
+ * case-insensitively here instead of being added to the shared keyword list,
+ * so they remain usable as identifiers in queries.
+ */
+
+import type {
+  AddColumnAction,
+  AddConstraintAction,
+  AlterColumnDefaultAction,
+  AlterColumnNullAction,
+  AlterColumnTypeAction,
+  AlterTableAction,
+  AlterTableStatement,
+  ColumnDefinition,
+  CreateSchemaStatement,
+  CreateTableStatement,
+  DDLStatement,
+  DropColumnAction,
+  DropConstraintAction,
+  DropTableStatement,
+  ForeignKeyConstraint,
+  ForeignKeyReference,
+  GeneratedKind,
+  PrimaryKeyConstraint,
+  QualifiedTableName,
+  RenameColumnAction,
+  RenameTableAction,
+  TableConstraint,
+  UniqueConstraint,
+} from "./ast.js"
+
+import type { NormalizeSQL, NextToken, SplitByComma, RemoveComments } from "../common/tokenizer.js"
+
+import type {
+  Trim,
+  ParseError,
+  RemoveQuotes,
+  ToUpperCase,
+  Increment,
+  Decrement,
+  Flatten,
+} from "../common/utils.js"
+
+// ============================================================================
+// Main Entry Point
+// ============================================================================
+
+/**
+ * Parse a DDL script into a tuple of statement ASTs
+ * Returns a ParseError for the first statement that fails to parse
+ */
+export type ParseDDLStatements<T extends string> = ParseStatementList<
+  SplitStatements<RemoveComments<T>>
+>
+
+/**
+ * Split a script into statements at semicolons outside string literals
+ */
+type SplitStatements<
+  T extends string,
+  Acc extends string[] = [],
+  Current extends string = "",
+> = T extends `${infer Statement};${infer Rest}`
+  ? TogglesString<`${Current}${Statement}`> extends true
+    ? SplitStatements<Rest, Acc, `${Current}${Statement};`>
+    : SplitStatements<Rest, [...Acc, `${Current}${Statement}`]>
+  : [...Acc, `${Current}${T}`]
+
+/**
+ * Parse each statement, skipping empty and unsupported statements
+ */
+type ParseStatementList<
+  Statements extends string[],
+  Acc extends DDLStatement[] = [],
+> = Statements extends [infer First extends string, ...infer Rest extends string[]]
+  ? NormalizeSQL<First> extends infer Normalized extends string
+    ? Trim<Normalized> extends ""
+      ? ParseStatementList<Rest, Acc>
+      : ParseStatement<Normalized> extends infer Result
+        ? Result extends ParseError<string>
+          ? Result
+          : Result extends DDLStatement
+            ? ParseStatementList<Rest, [...Acc, Result]>
+            : ParseStatementList<Rest, Acc>
+        : never
+    : never
+  : Acc
+
+/**
+ * Parse a single normalized statement
+ * Returns undefined for statements that do not affect the schema
+ */
+type ParseStatement<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<First> extends "CREATE"
+    ? ParseCreate<Rest>
+    : ToUpperCase<First> extends "ALTER"
+      ? ParseAlter<Rest>
+      : ToUpperCase<First> extends "DROP"
+        ? ParseDrop<Rest>
+        : undefined
+  : undefined
+
+/**
+ * Parse CREATE [TEMP | TEMPORARY | UNLOGGED] TABLE ... / CREATE SCHEMA ...
+ */
+type ParseCreate<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<First> extends "TABLE"
+    ? ParseCreateTable<Rest>
+    : ToUpperCase<First> extends "SCHEMA"
+      ? ParseCreateSchema<Rest>
+      : ToUpperCase<First> extends "TEMP" | "TEMPORARY" | "UNLOGGED"
+        ? ParseCreate<Rest>
+        : undefined
+  : undefined
+
+/**
+ * Parse the optional IF EXISTS of DROP / ALTER statements
+ */
+type ParseIfExists<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<First> extends "IF"
+    ? NextToken<Rest> extends ["EXISTS", infer AfterExists extends string]
+      ? { present: true; rest: AfterExists }
+      : { present: false; rest: T }
+    : { present: false; rest: T }
+  : { present: false; rest: T }
+
+/**
+ * Parse the optional IF NOT EXISTS of CREATE statements
+ */
+type ParseIfNotExists<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<First> extends "IF"
+    ? NextToken<Rest> extends ["NOT", infer AfterNot extends string]
+      ? NextToken<AfterNot> extends ["EXISTS", infer AfterExists extends string]
+        ? { present: true; rest: AfterExists }
+        : { present: false; rest: T }
+      : { present: false; rest: T }
+    : { present: false; rest: T }
+  : { present: false; rest: T }
+
+// ============================================================================
+// CREATE SCHEMA / DROP TABLE Parsers
+// ============================================================================
+
+/**
+ * Parse [IF NOT EXISTS] name [AUTHORIZATION role]
+ */
+type ParseCreateSchema<T extends string> = ParseIfNotExists<T> extends {
+  present: infer IfNotExists extends boolean
+  rest: infer Rest extends string
+}
+  ? NextToken<Rest> extends [infer Name extends string, infer _]
+    ? Name extends ""
+      ? ParseError<"Expected schema name after CREATE SCHEMA">
+      : CreateSchemaStatement<RemoveQuotes<Name>, IfNotExists>
+    : ParseError<"Expected schema name after CREATE SCHEMA">
+  : never
+
+/**
+ * Parse DROP TABLE [IF EXISTS] table [, ...] [CASCADE | RESTRICT]
+ * Other DROP statements return undefined
+ */
+type ParseDrop<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<First> extends "TABLE"
+    ? ParseDropTable<Rest>
+    : undefined
+  : undefined
+
+type ParseDropTable<T extends string> = ParseIfExists<T> extends {
+  present: infer IfExists extends boolean
+  rest: infer Rest extends string
+}
+  ? ParseTableNameList<SplitByComma<StripDropBehavior<Rest>>> extends infer Tables extends QualifiedTableName[]
+    ? Tables extends []
+      ? ParseError<"Expected table name after DROP TABLE">
+      : DropTableStatement<Tables, IfExists>
+    : never
+  : never
+
+/**
+ * Remove a trailing CASCADE / RESTRICT
+ */
+type StripDropBehavior<T extends string> = Trim<T> extends `${infer Rest} CASCADE`
+  ? Rest
+  : Trim<T> extends `${infer Rest} RESTRICT`
+    ? Rest
+    : T
+
+/**
+ * Parse a list of possibly schema-qualified table names
+ */
+type ParseTableNameList<
+  Parts extends string[],
+  Acc extends QualifiedTableName[] = [],
+> = Parts extends [infer First extends string, ...infer Rest extends string[]]
+  ? ParseQualifiedName<First> extends {
+      schema: infer Schema extends string | undefined
+      table: infer Table extends string
+    }
+    ? ParseTableNameList<Rest, [...Acc, QualifiedTableName<Schema, Table>]>
+    : never
+  : Acc
+
+// ============================================================================
+// ALTER TABLE Parser
+// ============================================================================
+
+/**
+ * Parse ALTER TABLE [IF EXISTS] [ONLY] [schema.]table action [, ...]
+ * Other ALTER statements return undefined
+ */
+type ParseAlter<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<First> extends "TABLE"
+    ? ParseIfExists<Rest> extends {
+        present: infer IfExists extends boolean
+        rest: infer AfterIf extends string
+      }
+      ? NextToken<SkipOnly<AfterIf>> extends [
+          infer Name extends string,
+          infer Actions extends string,
+        ]
+        ? Name extends ""
+          ? ParseError<"Expected table name after ALTER TABLE">
+          : ParseQualifiedName<Name> extends {
+              schema: infer Schema extends string | undefined
+              table: infer Table extends string
+            }
+            ? ParseAlterActions<SplitElements<Actions>> extends infer Parsed
+              ? Parsed extends AlterTableAction[]
+                ? Parsed extends []
+                  ? undefined
+                  : AlterTableStatement<Schema, Table, IfExists, Parsed>
+                : Parsed
+              : never
+            : never
+        : ParseError<"Expected table name after ALTER TABLE">
+      : never
+    : undefined
+  : undefined
+
+/**
+ * Skip the ONLY modifier
+ */
+type SkipOnly<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<First> extends "ONLY"
+    ? Rest
+    : T
+  : T
+
+/**
+ * Parse ALTER TABLE actions, skipping actions that do not affect the schema
+ */
+type ParseAlterActions<
+  Parts extends string[],
+  Acc extends AlterTableAction[] = [],
+> = Parts extends [infer First extends string, ...infer Rest extends string[]]
+  ? ParseAlterAction<First> extends infer Action
+    ? Action extends ParseError<string>
+      ? Action
+      : Action extends AlterTableAction
+        ? ParseAlterActions<Rest, [...Acc, Action]>
+        : ParseAlterActions<Rest, Acc>
+    : never
+  : Acc
+
+/**
+ * Parse a single ALTER TABLE action
+ */
+type ParseAlterAction<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<First> extends "ADD"
+    ? ParseAddAction<Rest>
+    : ToUpperCase<First> extends "DROP"
+      ? ParseDropAction<Rest>
+      : ToUpperCase<First> extends "ALTER"
+        ? ParseAlterColumnAction<SkipColumn<Rest>>
+        : ToUpperCase<First> extends "RENAME"
+          ? ParseRenameAction<Rest>
+          : undefined
+  : undefined
+
+/**
+ * Skip the optional COLUMN word
+ */
+type SkipColumn<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<First> extends "COLUMN"
+    ? Rest
+    : T
+  : T
+
+/**
+ * Parse ADD [COLUMN] [IF NOT EXISTS] column_definition / ADD table_constraint
+ */
+type ParseAddAction<T extends string> = NextToken<T> extends [infer First extends string, infer _]
+  ? ToUpperCase<First> extends TableConstraintKeyword
+    ? ParseTableConstraint<T> extends infer Constraint
+      ? Constraint extends TableConstraint
+        ? AddConstraintAction<Constraint>
+        : Constraint
+      : never
+    : ParseIfNotExists<SkipColumn<T>> extends {
+        present: infer IfNotExists extends boolean
+        rest: infer Definition extends string
+      }
+      ? ParseColumnDefinition<Definition> extends infer Column
+        ? Column extends ColumnDefinition
+          ? AddColumnAction<Column, IfNotExists>
+          : Column
+        : never
+      : never
+  : ParseError<"Expected column definition after ADD">
+
+/**
+ * Parse DROP [COLUMN] [IF EXISTS] column / DROP CONSTRAINT [IF EXISTS] name
+ */
+type ParseDropAction<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<First> extends "CONSTRAINT"
+    ? NextToken<ParseIfExists<Rest>["rest"]> extends [infer Name extends string, infer _]
+      ? DropConstraintAction<RemoveQuotes<Name>>
+      : ParseError<"Expected constraint name after DROP CONSTRAINT">
+    : ParseIfExists<SkipColumn<T>> extends {
+        present: infer IfExists extends boolean
+        rest: infer AfterIf extends string
+      }
+      ? NextToken<AfterIf> extends [infer Column extends string, infer _]
+        ? Column extends ""
+          ? ParseError<"Expected column name after DROP COLUMN">
+          : ToUpperCase<Column> extends "DEFAULT" | "NOT" | "IDENTITY" | "EXPRESSION"
+            ? undefined
+            : DropColumnAction<RemoveQuotes<Column>, IfExists>
+        : ParseError<"Expected column name after DROP COLUMN">
+      : never
+  : ParseError<"Expected column name after DROP">
+
+/**
+ * Parse column [SET DATA] TYPE data_type / SET NOT NULL / DROP NOT NULL /
+ * SET DEFAULT expr / DROP DEFAULT
+ * Other column changes (SET STATISTICS, ...) return undefined
+ */
+type ParseAlterColumnAction<T extends string> = NextToken<T> extends [
+  infer Column extends string,
+  infer Rest extends string,
+]
+  ? NextToken<Rest> extends [infer Keyword extends string, infer AfterKeyword extends string]
+    ? ToUpperCase<Keyword> extends "TYPE"
+      ? ParseAlterColumnType<RemoveQuotes<Column>, AfterKeyword>
+      : ToUpperCase<Keyword> extends "SET" | "DROP"
+        ? Trim<AfterKeyword> extends "NOT NULL"
+          ? AlterColumnNullAction<RemoveQuotes<Column>, ToUpperCase<Keyword> extends "SET" ? true : false>
+          : NextToken<AfterKeyword> extends [infer Default extends string, infer _]
+            ? ToUpperCase<Default> extends "DEFAULT"
+              ? AlterColumnDefaultAction<RemoveQuotes<Column>, ToUpperCase<Keyword> extends "SET" ? true : false>
+              : ParseAlterColumnSet<Column, Keyword, AfterKeyword>
+            : ParseAlterColumnSet<Column, Keyword, AfterKeyword>
+        : undefined
+    : ParseError<`Expected action for column '${RemoveQuotes<Column>}'`>
+  : ParseError<"Expected column name after ALTER COLUMN">
+
+/**
+ * Parse SET DATA TYPE data_type (other SET / DROP changes return undefined)
+ */
+type ParseAlterColumnSet<
+  Column extends string,
+  Keyword extends string,
+  AfterKeyword extends string,
+> = ToUpperCase<Keyword> extends "SET"
+  ? NextToken<AfterKeyword> extends [infer Data extends string, infer AfterData extends string]
+    ? ToUpperCase<Data> extends "DATA"
+      ? NextToken<AfterData> extends [infer Type extends string, infer AfterType extends string]
+        ? ToUpperCase<Type> extends "TYPE"
+          ? ParseAlterColumnType<RemoveQuotes<Column>, AfterType>
+          : undefined
+        : undefined
+      : undefined
+    : undefined
+  : undefined
+
+type ParseAlterColumnType<Column extends string, T extends string> =
+  SplitAtColumnConstraint<T> extends [infer DataType extends string, infer _]
+    ? DataType extends ""
+      ? ParseError<`Missing data type for column '${Column}'`>
+      : AlterColumnTypeAction<Column, NormalizeDataType<DataType>>
+    : never
+
+/**
+ * Parse RENAME TO name / RENAME [COLUMN] column TO name
+ * RENAME CONSTRAINT returns undefined
+ */
+type ParseRenameAction<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? First extends "TO"
+    ? NextToken<Rest> extends [infer Name extends string, infer _]
+      ? RenameTableAction<RemoveQuotes<Name>>
+      : ParseError<"Expected table name after RENAME TO">
+    : ToUpperCase<First> extends "CONSTRAINT"
+      ? undefined
+      : NextToken<SkipColumn<T>> extends [infer From extends string, infer AfterFrom extends string]
+        ? NextToken<AfterFrom> extends ["TO", infer AfterTo extends string]
+          ? NextToken<AfterTo> extends [infer To extends string, infer _]
+            ? To extends ""
+              ? ParseError<"Expected new column name after TO">
+              : RenameColumnAction<RemoveQuotes<From>, RemoveQuotes<To>>
+            : ParseError<"Expected new column name after TO">
+          : ParseError<"Expected TO in RENAME COLUMN">
+        : ParseError<"Expected column name after RENAME">
+  : ParseError<"Expected TO or column name after RENAME">
+
+// ============================================================================
+// CREATE TABLE Parser
+// ============================================================================
+
+/**
+ * Parse [IF NOT EXISTS] [schema.]table ( elements ) [options]
+ */
+type ParseCreateTable<T extends string> = NextToken<ParseIfNotExists<T>["rest"]> extends [
+  infer Name extends string,
+  infer Rest extends string,
+]
+  ? ParseQualifiedName<Name> extends {
+      schema: infer Schema extends string | undefined
+      table: infer Table extends string
+    }
+    ? NextToken<Rest> extends ["(", infer Body extends string]
+      ? ExtractParenGroup<Body> extends [infer Inner extends string, infer _After extends string]
+        ? ParseTableElements<SplitElements<Inner>> extends infer Elements
+          ? Elements extends {
+              columns: infer Columns extends ColumnDefinition[]
+              constraints: infer Constraints extends TableConstraint[]
+            }
+            ? CreateTableStatement<Schema, Table, Columns, Constraints>
+            : Elements
+          : never
+        : ParseError<`Unbalanced parentheses in CREATE TABLE ${Table}`>
+      : ParseError<`Expected column list after CREATE TABLE ${Table}`>
+    : never
+  : ParseError<"Expected table name after CREATE TABLE">
+
+/**
+ * Split a possibly schema-qualified name into schema and table
+ */
+type ParseQualifiedName<T extends string> = T extends `${infer Schema}.${infer Table}`
+  ? { schema: RemoveQuotes<Schema>; table: RemoveQuotes<Table> }
+  : { schema: undefined; table: RemoveQuotes<T> }
+
+/**
+ * Keywords that start a table constraint instead of a column definition
+ */
+type TableConstraintKeyword = "CONSTRAINT" | "PRIMARY" | "FOREIGN" | "UNIQUE" | "CHECK" | "EXCLUDE"
+
+/**
+ * Parse the comma separated elements of a CREATE TABLE body
+ */
+type ParseTableElements<
+  Elements extends string[],
+  Columns extends ColumnDefinition[] = [],
+  Constraints extends TableConstraint[] = [],
+> = Elements extends [infer First extends string, ...infer Rest extends string[]]
+  ? NextToken<First> extends [infer Token extends string, infer _]
+    ? ToUpperCase<Token> extends TableConstraintKeyword
+      ? ParseTableConstraint<First> extends infer Constraint
+        ? Constraint extends ParseError<string>
+          ? Constraint
+          : Constraint extends TableConstraint
+            ? ParseTableElements<Rest, Columns, [...Constraints, Constraint]>
+            : ParseTableElements<Rest, Columns, Constraints>
+        : never
+      : ToUpperCase<Token> extends "LIKE"
+        ? ParseTableElements<Rest, Columns, Constraints>
+        : ParseColumnDefinition<First> extends infer Column
+          ? Column extends ColumnDefinition
+            ? ParseTableElements<Rest, [...Columns, Column], Constraints>
+            : Column
+          : never
+    : ParseTableElements<Rest, Columns, Constraints>
+  : { columns: Columns; constraints: Constraints }
+
+// ============================================================================
+// Table Constraints
+// ============================================================================
+
+/**
+ * Parse a table constraint
+ * CHECK and EXCLUDE constraints return undefined
+ */
+type ParseTableConstraint<
+  T extends string,
+  Name extends string | undefined = undefined,
+> = NextToken<T> extends [infer First extends string, infer Rest extends string]
+  ? ToUpperCase<First> extends "CONSTRAINT"
+    ? NextToken<Rest> extends [infer ConstraintName extends string, infer AfterName extends string]
+      ? ParseTableConstraint<AfterName, RemoveQuotes<ConstraintName>>
+      : ParseError<"Expected constraint name after CONSTRAINT">
+    : ToUpperCase<First> extends "PRIMARY"
+      ? ParseColumnList<SkipKey<Rest>> extends {
+          columns: infer Columns extends string[]
+          rest: infer _
+        }
+        ? PrimaryKeyConstraint<Columns>
+        : ParseError<"Expected column list after PRIMARY KEY">
+      : ToUpperCase<First> extends "UNIQUE"
+        ? ParseColumnList<Rest> extends {
+            columns: infer Columns extends string[]
+            rest: infer _
+          }
+          ? UniqueConstraint<Columns>
+          : ParseError<"Expected column list after UNIQUE">
+        : ToUpperCase<First> extends "FOREIGN"
+          ? ParseForeignKeyConstraint<SkipKey<Rest>, Name>
+          : undefined
+  : undefined
+
+/**
+ * Parse ( columns ) REFERENCES target of a FOREIGN KEY constraint
+ */
+type ParseForeignKeyConstraint<
+  T extends string,
+  Name extends string | undefined,
+> = ParseColumnList<T> extends {
+  columns: infer Columns extends string[]
+  rest: infer Rest extends string
+}
+  ? NextToken<Rest> extends [infer Keyword extends string, infer AfterKeyword extends string]
+    ? ToUpperCase<Keyword> extends "REFERENCES"
+      ? ParseReference<AfterKeyword> extends {
+          reference: infer Reference extends ForeignKeyReference
+          rest: infer _
+        }
+        ? ForeignKeyConstraint<Name, Columns, Reference>
+        : ParseError<"Expected table name after REFERENCES">
+      : ParseError<"Expected REFERENCES in FOREIGN KEY constraint">
+    : ParseError<"Expected REFERENCES in FOREIGN KEY constraint">
+  : ParseError<"Expected column list after FOREIGN KEY">
+
+/**
+ * Skip the KEY word of PRIMARY KEY / FOREIGN KEY
+ */
+type SkipKey<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<First> extends "KEY"
+    ? Rest
+    : T
+  : T
+
+/**
+ * Parse REFERENCES [schema.]table [( columns )]
+ */
+type ParseReference<T extends string> = NextToken<T> extends [
+  infer Name extends string,
+  infer Rest extends string,
+]
+  ? Name extends ""
+    ? false
+    : ParseQualifiedName<Name> extends {
+        schema: infer Schema extends string | undefined
+        table: infer Table extends string
+      }
+      ? ParseColumnList<Rest> extends {
+          columns: infer Columns extends string[]
+          rest: infer AfterColumns extends string
+        }
+        ? { reference: ForeignKeyReference<Schema, Table, Columns>; rest: AfterColumns }
+        : { reference: ForeignKeyReference<Schema, Table, undefined>; rest: Rest }
+      : false
+  : false
+
+/**
+ * Parse a parenthesized list of column names
+ * Returns false when the input does not start with (
+ */
+type ParseColumnList<T extends string> = NextToken<T> extends ["(", infer Rest extends string]
+  ? ExtractParenGroup<Rest> extends [infer Inner extends string, infer After extends string]
+    ? { columns: ParseIdentifierList<SplitByComma<Inner>>; rest: After }
+    : false
+  : false
+
+/**
+ * Remove quotes from a list of identifiers
+ */
+type ParseIdentifierList<
+  Parts extends string[],
+  Acc extends string[] = [],
+> = Parts extends [infer First extends string, ...infer Rest extends string[]]
+  ? ParseIdentifierList<Rest, [...Acc, RemoveQuotes<First>]>
+  : Acc
+
+// ============================================================================
+// Column Definitions
+// ============================================================================
+
+/**
+ * Keywords that end the data type of a column definition
+ * (USING ends the data type of ALTER COLUMN ... TYPE)
+ */
+type ColumnConstraintKeyword =
+  | "NOT"
+  | "NULL"
+  | "DEFAULT"
+  | "PRIMARY"
+  | "REFERENCES"
+  | "UNIQUE"
+  | "CHECK"
+  | "CONSTRAINT"
+  | "GENERATED"
+  | "COLLATE"
+  | "ON"
+  | "AUTO_INCREMENT"
+  | "USING"
+
+/**
+ * Parse name data_type [constraints]
+ */
+type ParseColumnDefinition<T extends string> = NextToken<T> extends [
+  infer Name extends string,
+  infer Rest extends string,
+]
+  ? SplitAtColumnConstraint<Rest> extends [
+      infer DataType extends string,
+      infer Constraints extends string,
+    ]
+    ? DataType extends ""
+      ? ParseError<`Missing data type for column '${RemoveQuotes<Name>}'`>
+      : ParseColumnConstraints<Constraints> extends infer State
+        ? State extends ColumnState
+          ? ColumnDefinition<
+              RemoveQuotes<Name>,
+              NormalizeDataType<DataType>,
+              State["notNull"],
+              State["primaryKey"],
+              State["unique"],
+              State["default"],
+              State["generated"],
+              State["references"]
+            >
+          : State
+        : never
+    : never
+  : ParseError<"Empty column definition">
+
+/**
+ * Split at the first column constraint keyword outside parentheses and
+ * string literals
+ */
+type SplitAtColumnConstraint<
+  T extends string,
+  Depth extends number = 0,
+  Acc extends string = "",
+  InString extends boolean = false,
+> = Trim<T> extends ""
+  ? [Trim<Acc>, ""]
+  : NextToken<T> extends [infer Token extends string, infer Rest extends string]
+    ? InString extends true
+      ? SplitAtColumnConstraint<Rest, Depth, `${Acc} ${Token}`, TogglesString<Token> extends true ? false : true>
+      : TogglesString<Token> extends true
+        ? SplitAtColumnConstraint<Rest, Depth, `${Acc} ${Token}`, true>
+        : Token extends "("
+          ? SplitAtColumnConstraint<Rest, Increment<Depth>, `${Acc} ${Token}`>
+          : Token extends ")"
+            ? SplitAtColumnConstraint<Rest, Decrement<Depth>, `${Acc} ${Token}`>
+            : Depth extends 0
+              ? ToUpperCase<Token> extends ColumnConstraintKeyword
+                ? [Trim<Acc>, Trim<T>]
+                : SplitAtColumnConstraint<Rest, Depth, `${Acc} ${Token}`>
+              : SplitAtColumnConstraint<Rest, Depth, `${Acc} ${Token}`>
+    : [Trim<Acc>, ""]
+
+/**
+ * Inline constraints collected while parsing a column definition
+ */
+type ColumnState = {
+  notNull: boolean
+  primaryKey: boolean
+  unique: boolean
+  default: string | undefined
+  generated: GeneratedKind | undefined
+  references: ForeignKeyReference | undefined
+}
+
+type InitialColumnState = {
+  notNull: false
+  primaryKey: false
+  unique: false
+  default: undefined
+  generated: undefined
+  references: undefined
+}
+
+type UpdateColumnState<State extends ColumnState, Patch extends Partial<ColumnState>> = Flatten<
+  Omit<State, keyof Patch> & Patch
+>
+
+/**
+ * Parse the inline constraints of a column definition
+ * Unrecognized words (DEFERRABLE, MySQL attributes, ...) are skipped
+ */
+type ParseColumnConstraints<
+  T extends string,
+  State extends ColumnState = InitialColumnState,
+> = Trim<T> extends ""
+  ? State
+  : NextToken<T> extends [infer Token extends string, infer Rest extends string]
+    ? ToUpperCase<Token> extends "NOT"
+      ? NextToken<Rest> extends ["NULL", infer AfterNull extends string]
+        ? ParseColumnConstraints<AfterNull, UpdateColumnState<State, { notNull: true }>>
+        : ParseColumnConstraints<Rest, State>
+      : ToUpperCase<Token> extends "PRIMARY"
+        ? ParseColumnConstraints<SkipKey<Rest>, UpdateColumnState<State, { primaryKey: true }>>
+        : ToUpperCase<Token> extends "UNIQUE"
+          ? ParseColumnConstraints<Rest, UpdateColumnState<State, { unique: true }>>
+          : ToUpperCase<Token> extends "DEFAULT"
+            ? ExtractDefault<Rest> extends [
+                infer Expr extends string,
+                infer AfterDefault extends string,
+              ]
+              ? ParseColumnConstraints<AfterDefault, UpdateColumnState<State, { default: Expr }>>
+              : ParseError<"Expected expression after DEFAULT">
+            : ToUpperCase<Token> extends "AUTO_INCREMENT"
+              ? ParseColumnConstraints<Rest, UpdateColumnState<State, { default: Token }>>
+              : ToUpperCase<Token> extends "GENERATED"
+                ? ParseGenerated<Rest> extends {
+                    generated: infer Kind extends GeneratedKind
+                    rest: infer AfterGenerated extends string
+                  }
+                  ? ParseColumnConstraints<
+                      AfterGenerated,
+                      UpdateColumnState<State, { generated: Kind }>
+                    >
+                  : ParseError<"Invalid GENERATED column definition">
+                : ToUpperCase<Token> extends "REFERENCES"
+                  ? ParseReference<Rest> extends {
+                      reference: infer Reference extends ForeignKeyReference
+                      rest: infer AfterReference extends string
+                    }
+                    ? ParseColumnConstraints<
+                        AfterReference,
+                        UpdateColumnState<State, { references: Reference }>
+                      >
+                    : ParseError<"Expected table name after REFERENCES">
+                  : ToUpperCase<Token> extends "CHECK"
+                    ? NextToken<Rest> extends ["(", infer CheckBody extends string]
+                      ? ExtractParenGroup<CheckBody> extends [infer _, infer AfterCheck extends string]
+                        ? ParseColumnConstraints<AfterCheck, State>
+                        : ParseError<"Unbalanced parentheses in CHECK constraint">
+                      : ParseError<"Expected ( after CHECK">
+                    : ToUpperCase<Token> extends "CONSTRAINT" | "COLLATE" | "MATCH" | "INITIALLY"
+                      ? ParseColumnConstraints<SkipToken<Rest>, State>
+                      : ToUpperCase<Token> extends "ON"
+                        ? ParseColumnConstraints<SkipReferentialAction<Rest>, State>
+                        : ParseColumnConstraints<Rest, State>
+    : State
+
+/**
+ * Skip a single token
+ */
+type SkipToken<T extends string> = NextToken<T> extends [infer _, infer Rest extends string]
+  ? Rest
+  : ""
+
+/**
+ * Skip DELETE | UPDATE action of ON DELETE / ON UPDATE
+ * (SET NULL, SET DEFAULT and NO ACTION are two words)
+ */
+type SkipReferentialAction<T extends string> = NextToken<SkipToken<T>> extends [
+  infer Action extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<Action> extends "SET" | "NO"
+    ? SkipToken<Rest>
+    : Rest
+  : ""
+
+/**
+ * Extract a DEFAULT expression
+ * The first token always belongs to the expression (DEFAULT NULL)
+ */
+type ExtractDefault<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? First extends ""
+    ? false
+    : First extends "("
+      ? SplitAtColumnConstraint<Rest, 1, First>
+      : SplitAtColumnConstraint<Rest, 0, First, TogglesString<First>>
+  : false
+
+/**
+ * Parse ALWAYS | BY DEFAULT AS { IDENTITY [( options )] | ( expr ) [STORED] }
+ */
+type ParseGenerated<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<First> extends "ALWAYS"
+    ? ParseGeneratedAs<Rest, "ALWAYS">
+    : ToUpperCase<First> extends "BY"
+      ? NextToken<Rest> extends ["DEFAULT", infer AfterDefault extends string]
+        ? ParseGeneratedAs<AfterDefault, "BY DEFAULT">
+        : false
+      : false
+  : false
+
+type ParseGeneratedAs<T extends string, Kind extends GeneratedKind> = NextToken<T> extends [
+  "AS",
+  infer Rest extends string,
+]
+  ? NextToken<Rest> extends [infer First extends string, infer AfterFirst extends string]
+    ? First extends "("
+      ? ExtractParenGroup<AfterFirst> extends [infer _, infer AfterExpr extends string]
+        ? NextToken<AfterExpr> extends [infer Stored extends string, infer AfterStored extends string]
+          ? ToUpperCase<Stored> extends "STORED"
+            ? { generated: Kind; rest: AfterStored }
+            : { generated: Kind; rest: AfterExpr }
+          : { generated: Kind; rest: AfterExpr }
+        : false
+      : ToUpperCase<First> extends "IDENTITY"
+        ? NextToken<AfterFirst> extends ["(", infer Options extends string]
+          ? ExtractParenGroup<Options> extends [infer _, infer AfterOptions extends string]
+            ? { generated: Kind; rest: AfterOptions }
+            : false
+          : { generated: Kind; rest: AfterFirst }
+        : false
+    : false
+  : false
+
+// ============================================================================
+// Data Types
+// ============================================================================
+
+/**
+ * Normalize a column data type
+ * Removes type modifiers (varchar ( 255 ) -> varchar), lowercases,
+ * resolves multi-word aliases and marks arrays with a [] suffix
+ */
+export type NormalizeDataType<T extends string> = NormalizeArrayType<
+  Lowercase<Trim<StripTypeModifiers<T>>>
+>
+
+type StripTypeModifiers<T extends string> = T extends `${infer Left}( ${infer _} )${infer Right}`
+  ? StripTypeModifiers<`${Trim<Left>}${Right}`>
+  : T
+
+type NormalizeArrayType<T extends string> = T extends `${infer Element}[]`
+  ? `${NormalizeArrayType<Trim<Element>>}[]`
+  : T extends `${infer Element} array`
+    ? `${NormalizeArrayType<Trim<Element>>}[]`
+    : NormalizeTypeAlias<T>
+
+type NormalizeTypeAlias<T extends string> = T extends "timestamp with time zone"
+  ? "timestamptz"
+  : T extends "timestamp without time zone"
+    ? "timestamp"
+    : T extends "time with time zone"
+      ? "timetz"
+      : T extends "time without time zone"
+        ? "time"
+        : T
+
+// ============================================================================
+// Parenthesis Helpers
+// ============================================================================
+
+/**
+ * Extract the content up to the matching closing parenthesis
+ * T starts right after the opening parenthesis; parentheses inside string
+ * literals are not counted
+ * Returns [Inner, Rest] or false when the parenthesis is not closed
+ */
+type ExtractParenGroup<
+  T extends string,
+  Depth extends number = 0,
+  Acc extends string = "",
+  InString extends boolean = false,
+> = Trim<T> extends ""
+  ? false
+  : NextToken<T> extends [infer Token extends string, infer Rest extends string]
+    ? InString extends true
+      ? ExtractParenGroup<Rest, Depth, `${Acc} ${Token}`, TogglesString<Token> extends true ? false : true>
+      : TogglesString<Token> extends true
+        ? ExtractParenGroup<Rest, Depth, `${Acc} ${Token}`, true>
+        : Token extends ")"
+          ? Depth extends 0
+            ? [Trim<Acc>, Rest]
+            : ExtractParenGroup<Rest, Decrement<Depth>, `${Acc} ${Token}`>
+          : Token extends "("
+            ? ExtractParenGroup<Rest, Increment<Depth>, `${Acc} ${Token}`>
+            : ExtractParenGroup<Rest, Depth, `${Acc} ${Token}`>
+    : false
+
+/**
+ * Split by commas outside parentheses and string literals
+ */
+type SplitElements<
+  T extends string,
+  Depth extends number = 0,
+  Current extends string = "",
+  InString extends boolean = false,
+  Acc extends string[] = [],
+> = Trim<T> extends ""
+  ? Trim<Current> extends ""
+    ? Acc
+    : [...Acc, Trim<Current>]
+  : NextToken<T> extends [infer Token extends string, infer Rest extends string]
+    ? InString extends true
+      ? SplitElements<Rest, Depth, `${Current} ${Token}`, TogglesString<Token> extends true ? false : true, Acc>
+      : TogglesString<Token> extends true
+        ? SplitElements<Rest, Depth, `${Current} ${Token}`, true, Acc>
+        : Token extends "("
+          ? SplitElements<Rest, Increment<Depth>, `${Current} ${Token}`, false, Acc>
+          : Token extends ")"
+            ? SplitElements<Rest, Decrement<Depth>, `${Current} ${Token}`, false, Acc>
+            : Token extends ","
+              ? Depth extends 0
+                ? SplitElements<Rest, 0, "", false, [...Acc, Trim<Current>]>
+                : SplitElements<Rest, Depth, `${Current} ${Token}`, false, Acc>
+              : SplitElements<Rest, Depth, `${Current} ${Token}`, false, Acc>
+    : Acc
+
+/**
+ * Check whether a token opens or closes a string literal: it has an odd
+ * number of single quotes ('' inside a literal is an escaped quote)
+ */
+type TogglesString<T extends string, Odd extends boolean = false> = T extends `${string}'${infer Rest}`
+  ? TogglesString<Rest, Odd extends true ? false : true>
+  : Odd
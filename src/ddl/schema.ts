@@ -0,0 +1,309 @@
+/**
+ * Schema building blocks for DDL statements
+ *
+ * Turns parsed CREATE TABLE statements into the table and relation structures
+ * used by DatabaseSchema:
+ * - Column types are mapped with MapSQLTypeToTS (arrays become T[])
+ * - Columns are nullable unless NOT NULL, PRIMARY KEY or serial
+ * - Columns with a DEFAULT (or serial) and GENERATED columns become
+ *   ColumnDescriptors so INSERT validation knows they may be omitted
+ * - Primary key columns become ColumnDescriptors with primaryKey: true
+ * - Foreign keys (inline REFERENCES and FOREIGN KEY constraints) become relations
+ */
+
+import type {
+  ColumnDefinition,
+  CreateTableStatement,
+  ForeignKeyConstraint,
+  ForeignKeyReference,
+  PrimaryKeyConstraint,
+  UniqueConstraint,
+} from "./ast.js"
+import type { MapSQLTypeToTS } from "../common/ast.js"
+import type { ColumnReference, IsColumnDescriptor, Relation } from "../common/schema.js"
+import type { Flatten } from "../common/utils.js"
+
+// ============================================================================
+// Tables
+// ============================================================================
+
+/**
+ * Schema name of a statement (DefaultSchema when not qualified)
+ */
+export type StatementSchema<
+  Statement extends CreateTableStatement,
+  DefaultSchema extends string,
+> = Statement extends CreateTableStatement
+  ? Statement["schema"] extends string
+    ? Statement["schema"]
+    : DefaultSchema
+  : never
+
+/**
+ * Build the column map of a table
+ */
+export type BuildTable<Statement extends CreateTableStatement> = Flatten<{
+  [Column in Statement["columns"][number] as Column["name"]]: BuildColumnType<
+    Column,
+    TablePrimaryKeyColumns<Statement>
+  >
+}>
+
+/**
+ * Schema entry of a column definition: its TypeScript type, or a
+ * ColumnDescriptor for primary key columns and columns with a default
+ * or a generated value
+ */
+export type BuildColumnType<
+  Column extends ColumnDefinition,
+  PrimaryKeyColumns extends string = never,
+> = WithPrimaryKey<
+  WithWriteMetadata<
+    Column,
+    IsNotNullColumn<Column, PrimaryKeyColumns> extends true
+      ? ColumnTSType<Column["dataType"]>
+      : ColumnTSType<Column["dataType"]> | null
+  >,
+  Column["primaryKey"] extends true ? true : Column["name"] extends PrimaryKeyColumns ? true : false
+>
+
+/**
+ * Mark a primary key column in its ColumnDescriptor
+ */
+export type WithPrimaryKey<Entry, PrimaryKey extends boolean> = PrimaryKey extends true
+  ? IsColumnDescriptor<Entry> extends true
+    ? Flatten<Entry & { primaryKey: true }>
+    : { type: Entry; primaryKey: true }
+  : Entry
+
+/**
+ * Wrap a column type in a ColumnDescriptor when the column is generated
+ * or has a default (serial columns default to their sequence)
+ */
+type WithWriteMetadata<Column extends ColumnDefinition, Type> = Column["generated"] extends "ALWAYS"
+  ? { type: Type; generated: "always" }
+  : Column["generated"] extends "BY DEFAULT"
+    ? { type: Type; generated: "by default" }
+    : Column["default"] extends string
+      ? { type: Type; default: true }
+      : Column["dataType"] extends SerialType
+        ? { type: Type; default: true }
+        : Type
+
+type SerialType = "serial" | "bigserial" | "smallserial"
+
+/**
+ * Map a normalized data type to its TypeScript type
+ */
+export type ColumnTSType<DataType extends string> = DataType extends `${infer Element}[]`
+  ? ColumnTSType<Element>[]
+  : MapSQLTypeToTS<DataType>
+
+/**
+ * Check if a column can never be NULL
+ */
+type IsNotNullColumn<
+  Column extends ColumnDefinition,
+  PrimaryKeyColumns extends string,
+> = Column["notNull"] extends true
+  ? true
+  : Column["primaryKey"] extends true
+    ? true
+    : Column["name"] extends PrimaryKeyColumns
+      ? true
+      : Column["dataType"] extends SerialType
+        ? true
+        : false
+
+/**
+ * Names of the primary key columns of a table (inline or table constraint)
+ */
+type TablePrimaryKeyColumns<Statement extends CreateTableStatement> =
+  | InlinePrimaryKeyColumns<Statement>
+  | ConstraintPrimaryKeyColumns<Statement>[number]
+
+type InlinePrimaryKeyColumns<Statement extends CreateTableStatement> =
+  Statement["columns"][number] extends infer Column
+    ? Column extends ColumnDefinition
+      ? Column["primaryKey"] extends true
+        ? Column["name"]
+        : never
+      : never
+    : never
+
+type ConstraintPrimaryKeyColumns<Statement extends CreateTableStatement> = Extract<
+  Statement["constraints"][number],
+  PrimaryKeyConstraint
+>["columns"]
+
+/**
+ * Names of single-column unique keys of a table (primary keys and UNIQUE)
+ */
+type TableUniqueColumns<Statement extends CreateTableStatement> =
+  | TablePrimaryKeyColumns<Statement>
+  | (Statement["columns"][number] extends infer Column
+      ? Column extends ColumnDefinition
+        ? Column["unique"] extends true
+          ? Column["name"]
+          : never
+        : never
+      : never)
+  | (Statement["constraints"][number] extends infer Constraint
+      ? Constraint extends UniqueConstraint<[infer Single extends string]>
+        ? Single
+        : never
+      : never)
+
+// ============================================================================
+// Relations
+// ============================================================================
+
+/**
+ * A relation entry before it is keyed by name
+ */
+export type RelationEntry<Name extends string = string, R extends Relation = Relation> = {
+  name: Name
+  relation: R
+}
+
+/**
+ * Build a relations map from relation entries
+ */
+export type RelationsFromEntries<Entries extends RelationEntry> = Flatten<{
+  [Entry in Entries as Entry["name"]]: Entry["relation"]
+}>
+
+/**
+ * Relation entries of the foreign keys of a statement
+ * All is the set of statements used to resolve omitted referenced columns
+ */
+export type StatementRelations<
+  Statement extends CreateTableStatement,
+  All extends CreateTableStatement,
+  DefaultSchema extends string,
+> = Statement extends CreateTableStatement
+  ? InlineRelations<Statement, All, DefaultSchema> | ConstraintRelations<Statement, All, DefaultSchema>
+  : never
+
+/**
+ * Relations from inline REFERENCES column constraints
+ */
+type InlineRelations<
+  Statement extends CreateTableStatement,
+  All extends CreateTableStatement,
+  DefaultSchema extends string,
+> = Statement["columns"][number] extends infer Column
+  ? Column extends ColumnDefinition
+    ? Column["references"] extends infer Reference extends ForeignKeyReference
+      ? RelationEntry<
+          `${Statement["table"]}_${Column["name"]}_fkey`,
+          BuildRelation<Statement, Column["name"], Reference, 0, All, DefaultSchema>
+        >
+      : never
+    : never
+  : never
+
+/**
+ * Relations from FOREIGN KEY table constraints
+ * Multi-column keys produce one relation per column pair
+ */
+type ConstraintRelations<
+  Statement extends CreateTableStatement,
+  All extends CreateTableStatement,
+  DefaultSchema extends string,
+> = Statement["constraints"][number] extends infer Constraint
+  ? Constraint extends ForeignKeyConstraint<infer Name, infer Columns, infer Reference>
+    ? ConstraintColumnRelations<Statement, Name, Columns, Reference, All, DefaultSchema>
+    : never
+  : never
+
+type ConstraintColumnRelations<
+  Statement extends CreateTableStatement,
+  Name extends string | undefined,
+  Columns extends string[],
+  Reference extends ForeignKeyReference,
+  All extends CreateTableStatement,
+  DefaultSchema extends string,
+> = {
+  [I in keyof Columns]: I extends `${infer Index extends number}`
+    ? RelationEntry<
+        Name extends string
+          ? Columns extends [string]
+            ? Name
+            : `${Statement["table"]}_${Columns[I]}_fkey`
+          : `${Statement["table"]}_${Columns[I]}_fkey`,
+        BuildRelation<Statement, Columns[I], Reference, Index, All, DefaultSchema>
+      >
+    : never
+}[number]
+
+/**
+ * Build a single relation
+ * The referenced column defaults to the primary key of the referenced table
+ * (or "id" when the referenced table is not part of the script).
+ * The result is flattened so it shows as a plain object type
+ */
+type BuildRelation<
+  Statement extends CreateTableStatement,
+  Column extends string,
+  Reference extends ForeignKeyReference,
+  Index extends number,
+  All extends CreateTableStatement,
+  DefaultSchema extends string,
+> = Flatten<
+  Relation<
+    Flatten<ColumnReference<StatementSchema<Statement, DefaultSchema>, Statement["table"], Column>>,
+    Flatten<
+      ColumnReference<
+        ReferenceSchema<Reference, DefaultSchema>,
+        Reference["table"],
+        ReferencedColumn<Reference, Index, All, DefaultSchema>
+      >
+    >,
+    Column extends TableUniqueColumns<Statement> ? "one-to-one" : "many-to-one"
+  >
+>
+
+type ReferenceSchema<
+  Reference extends ForeignKeyReference,
+  DefaultSchema extends string,
+> = Reference["schema"] extends string ? Reference["schema"] : DefaultSchema
+
+/**
+ * Resolve the referenced column at Index
+ */
+type ReferencedColumn<
+  Reference extends ForeignKeyReference,
+  Index extends number,
+  All extends CreateTableStatement,
+  DefaultSchema extends string,
+> = Reference["columns"] extends string[]
+  ? Reference["columns"][Index] extends infer Column extends string
+    ? Column
+    : "id"
+  : FindStatement<All, ReferenceSchema<Reference, DefaultSchema>, Reference["table"], DefaultSchema> extends
+      infer Target extends CreateTableStatement
+    ? [InlinePrimaryKeyColumns<Target>] extends [never]
+      ? [ConstraintPrimaryKeyColumns<Target>] extends [never]
+        ? "id"
+        : ConstraintPrimaryKeyColumns<Target>[Index] extends infer Column extends string
+          ? Column
+          : "id"
+      : InlinePrimaryKeyColumns<Target>
+    : "id"
+
+/**
+ * Find the CREATE TABLE statement of a table
+ */
+type FindStatement<
+  All extends CreateTableStatement,
+  SchemaName extends string,
+  Table extends string,
+  DefaultSchema extends string,
+> = All extends CreateTableStatement
+  ? All["table"] extends Table
+    ? StatementSchema<All, DefaultSchema> extends SchemaName
+      ? All
+      : never
+    : never
+  : never
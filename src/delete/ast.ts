@@ -7,7 +7,13 @@
  */
 
 import type { Flatten } from "../common/utils.js"
-import type { UnboundColumnRef, TableRef, TableSource, WhereExpr } from "../common/ast.js"
+import type {
+  CTEDefinition,
+  UnboundColumnRef,
+  TableRef,
+  TableSource,
+  WhereExpr,
+} from "../common/ast.js"
 
 // ============================================================================
 // RETURNING Clause
@@ -49,12 +55,14 @@ export type DeleteClause<
   Using extends UsingClause | undefined = UsingClause | undefined,
   Where extends WhereExpr | undefined = WhereExpr | undefined,
   Returning extends DeleteReturningClause | undefined = DeleteReturningClause | undefined,
+  CTEs extends CTEDefinition[] | undefined = CTEDefinition[] | undefined,
 > = Flatten<{
   readonly type: "DeleteClause"
   readonly table: Table
   readonly using: Using
   readonly where: Where
   readonly returning: Returning
+  readonly ctes: CTEs
 }>
 
 // ============================================================================
@@ -0,0 +1,463 @@
+/**
+ * DELETE Query Builder
+ *
+ * An immutable, chainable builder that assembles a DELETE query from
+ * fragments, following the SELECT builder architecture:
+ *
+ * ```typescript
+ * const query = createDeleteQuery<Schema>()
+ *   .table("users")
+ *   .using("orders")
+ *   .where("orders.user_id = users.id AND orders.status = 'fraud'", "fraud")
+ *   .returning("id")
+ *
+ * query.toString()
+ * // "DELETE FROM users USING orders WHERE orders.user_id = users.id AND orders.status = 'fraud' RETURNING id"
+ * ```
+ *
+ * Type level: each call assembles the query text of the new state and
+ * validates it with ValidateDeleteSQL; the RETURNING rows are inferred with
+ * MatchDeleteQuery.
+ *
+ * execute() refuses to run a DELETE without a WHERE condition unless all()
+ * was called, both at type level and at runtime.
+ */
+
+import type {
+  AddPart,
+  AnyConditionTreeBuilder,
+  BuilderErrorState,
+  BuilderState,
+  CheckedInput,
+  ConditionPartsSQL,
+  ConditionTreeBuilderState,
+  ConditionTreeSQL,
+  FragmentPart,
+  FragmentText,
+  PartsSQL,
+  RemovePart,
+} from "../common/builder.js"
+import {
+  conditionPartsSQL,
+  fragmentText,
+  partsSQL,
+  requireFragment,
+  requireId,
+  upsertPart,
+} from "../common/builder.js"
+import type { DatabaseSchema } from "../common/schema.js"
+import type { Flatten, MatchError, StripTemplateHoles } from "../common/utils.js"
+import type { QueryHandler, ReturningResult } from "../db.js"
+import type { DeleteResult } from "./matcher.js"
+import type { ValidateDeleteSQL } from "./validator.js"
+
+// ============================================================================
+// Builder State
+// ============================================================================
+
+/**
+ * State of a DELETE builder
+ * Parts are kept in insertion order; a part added with an existing ID
+ * replaces the old one in place
+ */
+export type DeleteBuilderState = {
+  readonly table: string | undefined
+  readonly using: FragmentPart[]
+  readonly where: FragmentPart[]
+  readonly returning: FragmentPart[]
+  readonly all: boolean
+}
+
+/**
+ * Initial DELETE builder state
+ */
+export type EmptyDeleteState = {
+  readonly table: undefined
+  readonly using: []
+  readonly where: []
+  readonly returning: []
+  readonly all: false
+}
+
+/**
+ * State of a DELETE builder after a fragment failed to parse or validate
+ */
+export type DeleteErrorState<
+  Message extends string = string,
+  Previous extends DeleteBuilderState = DeleteBuilderState,
+> = BuilderErrorState<Message, Previous>
+
+// ============================================================================
+// Builder Interface
+// ============================================================================
+
+/**
+ * Branded SQL string returned by toString()
+ * __type is the RETURNING row type (void without RETURNING), or a MatchError
+ */
+export type DeleteQuerySQL<Result> = string & {
+  readonly __type: Result
+}
+
+/**
+ * Type-safe DELETE query builder
+ *
+ * Every method returns a new builder; IDs (the last argument) allow a part
+ * to be replaced or removed later. The type parameters are invariant for
+ * the same reason as in SelectQueryBuilder.
+ */
+export interface DeleteQueryBuilder<
+  in out Schema extends DatabaseSchema,
+  in out State extends DeleteBuilderState | DeleteErrorState = EmptyDeleteState,
+> {
+  /** Type-level state (not available at runtime) */
+  readonly __state?: State
+
+  /** Set the table to delete from: "users", "public.users AS u" */
+  table<const Table extends string>(
+    table: CheckedInput<State, Table, TableStep<Schema, State, Table>>,
+  ): DeleteQueryBuilder<Schema, TableStep<Schema, State, Table>>
+
+  /** Add a USING source */
+  using<const Source extends string, Id extends string | undefined = undefined>(
+    source: CheckedInput<State, Source, ClauseStep<Schema, State, "using", Source, Id>>,
+    id?: Id,
+  ): DeleteQueryBuilder<Schema, ClauseStep<Schema, State, "using", Source, Id>>
+
+  /** Remove a USING source by ID */
+  removeUsing<Id extends string>(
+    id: Id,
+  ): DeleteQueryBuilder<Schema, RemoveStep<Schema, State, "using", Id>>
+
+  /**
+   * Add a WHERE condition or condition tree; conditions are combined with AND
+   */
+  where<
+    const Condition extends string | AnyConditionTreeBuilder,
+    Id extends string | undefined = undefined,
+  >(
+    condition: CheckedInput<
+      State,
+      Condition,
+      ClauseStep<Schema, State, "where", ConditionText<Condition>, Id>
+    >,
+    id?: Id,
+  ): DeleteQueryBuilder<Schema, ClauseStep<Schema, State, "where", ConditionText<Condition>, Id>>
+
+  /** Remove a WHERE condition by ID */
+  removeWhere<Id extends string>(
+    id: Id,
+  ): DeleteQueryBuilder<Schema, RemoveStep<Schema, State, "where", Id>>
+
+  /** Add RETURNING columns */
+  returning<
+    const Columns extends string | readonly string[],
+    Id extends string | undefined = undefined,
+  >(
+    columns: CheckedInput<
+      State,
+      Columns,
+      ClauseStep<Schema, State, "returning", FragmentText<Columns>, Id>
+    >,
+    id?: Id,
+  ): DeleteQueryBuilder<Schema, ClauseStep<Schema, State, "returning", FragmentText<Columns>, Id>>
+
+  /** Remove RETURNING columns by ID */
+  removeReturning<Id extends string>(
+    id: Id,
+  ): DeleteQueryBuilder<Schema, RemoveStep<Schema, State, "returning", Id>>
+
+  /** Allow execute() to delete every row when there is no WHERE condition */
+  all(): DeleteQueryBuilder<Schema, AllStep<State>>
+
+  /**
+   * Apply the callback only when the condition is true at runtime
+   * At type level the callback is always applied
+   */
+  when<Result extends AnyDeleteQueryBuilder>(
+    condition: boolean,
+    callback: (builder: DeleteQueryBuilder<Schema, State>) => Result,
+  ): DeleteQueryBuilder<Schema, BuilderState<Result>>
+
+  /**
+   * Assemble the SQL query
+   * The branded return type carries the result type in __type
+   */
+  toString(): DeleteQuerySQL<DeleteStateResult<State, Schema>>
+
+  /**
+   * Run the query with the handler; resolves to the RETURNING rows, or void
+   * The handler argument is an error until where() or all() is called
+   */
+  execute(
+    handler: ExecuteInput<State>,
+  ): Promise<ReturningResult<DeleteStateResult<State, Schema>>>
+}
+
+/**
+ * Any DELETE builder, used to accept .when() results
+ */
+export type AnyDeleteQueryBuilder = {
+  readonly __state?: DeleteBuilderState | DeleteErrorState
+}
+
+/**
+ * Result type of a DELETE builder: RETURNING row type, or void
+ */
+export type DeleteBuilderResult<Builder, Schema extends DatabaseSchema> = DeleteStateResult<
+  BuilderState<Builder>,
+  Schema
+>
+
+// ============================================================================
+// State Transitions
+// ============================================================================
+
+type ConditionText<Input> = Input extends string
+  ? Input
+  : ConditionTreeSQL<ConditionTreeBuilderState<Input>>
+
+type StaticText<Fragment extends string> = StripTemplateHoles<Fragment>
+
+type WithField<State extends DeleteBuilderState, Field extends keyof DeleteBuilderState, Value> =
+  Flatten<Omit<State, Field> & { readonly [K in Field]: Value }> extends infer Next extends
+    DeleteBuilderState
+    ? Next
+    : never
+
+/**
+ * Validate the query assembled from a new state
+ * Before table() there is no query to validate yet
+ */
+type ValidateStep<
+  Schema extends DatabaseSchema,
+  Previous extends DeleteBuilderState,
+  Next extends DeleteBuilderState,
+> = Next["table"] extends string
+  ? ValidateDeleteSQL<BuildDeleteSQL<Next>, Schema> extends infer Result
+    ? Result extends true
+      ? Next
+      : DeleteErrorState<Result extends string ? Result : "Invalid query", Previous>
+    : never
+  : Next
+
+/**
+ * table(): set the table
+ */
+type TableStep<
+  Schema extends DatabaseSchema,
+  State extends DeleteBuilderState | DeleteErrorState,
+  Table extends string,
+> = State extends DeleteBuilderState
+  ? StaticText<Table> extends ""
+    ? State
+    : ValidateStep<Schema, State, WithField<State, "table", StaticText<Table>>>
+  : State
+
+/**
+ * using(), where(), returning(): add a clause part
+ */
+type ClauseStep<
+  Schema extends DatabaseSchema,
+  State extends DeleteBuilderState | DeleteErrorState,
+  Field extends "using" | "where" | "returning",
+  Fragment extends string,
+  Id extends string | undefined,
+> = State extends DeleteBuilderState
+  ? StaticText<Fragment> extends ""
+    ? State
+    : State["table"] extends string
+      ? ValidateStep<
+          Schema,
+          State,
+          WithField<State, Field, AddPart<State[Field], FragmentPart<Id, StaticText<Fragment>>>>
+        >
+      : DeleteErrorState<`Call table() before ${Field}()`, State>
+  : State
+
+/**
+ * removeX(): remove a part by ID and revalidate
+ */
+type RemoveStep<
+  Schema extends DatabaseSchema,
+  State extends DeleteBuilderState | DeleteErrorState,
+  Field extends "using" | "where" | "returning",
+  Id extends string,
+> = State extends DeleteBuilderState
+  ? ValidateStep<Schema, State, WithField<State, Field, RemovePart<State[Field], Id>>>
+  : State
+
+type AllStep<State extends DeleteBuilderState | DeleteErrorState> = State extends DeleteBuilderState
+  ? WithField<State, "all", true>
+  : State
+
+/**
+ * Handler argument of execute(), or an error message
+ */
+type ExecuteInput<State> = State extends DeleteErrorState<infer Message>
+  ? `[Builder Error] ${Message}`
+  : State extends DeleteBuilderState
+    ? State["table"] extends string
+      ? State["where"] extends []
+        ? State["all"] extends true
+          ? QueryHandler
+          : "[Builder Error] Call where() or all() before execute()"
+        : QueryHandler
+      : "[Builder Error] Call table() before execute()"
+    : never
+
+// ============================================================================
+// Type-Level SQL Assembly
+// ============================================================================
+
+/**
+ * Query text of a builder state, mirroring the runtime assembly
+ */
+export type BuildDeleteSQL<State extends DeleteBuilderState> =
+  `DELETE FROM ${State["table"] & string}${ListSQL<" USING ", State["using"]>}${State["where"] extends []
+    ? ""
+    : ` WHERE ${ConditionPartsSQL<State["where"]>}`}${ListSQL<" RETURNING ", State["returning"]>}`
+
+type ListSQL<Keyword extends string, Parts extends FragmentPart[]> = Parts extends []
+  ? ""
+  : `${Keyword}${PartsSQL<Parts, ", ">}`
+
+// ============================================================================
+// Result Inference
+// ============================================================================
+
+type DeleteStateResult<State, Schema extends DatabaseSchema> = State extends DeleteErrorState<
+  infer Message
+>
+  ? MatchError<Message>
+  : State extends DeleteBuilderState
+    ? State["table"] extends string
+      ? DeleteResult<BuildDeleteSQL<State>, Schema>
+      : MatchError<"Missing table">
+    : never
+
+// ============================================================================
+// Runtime Implementation
+// ============================================================================
+
+type RuntimeDeleteState = {
+  readonly table: string | undefined
+  readonly using: FragmentPart[]
+  readonly where: FragmentPart[]
+  readonly returning: FragmentPart[]
+  readonly all: boolean
+}
+
+const emptyState: RuntimeDeleteState = {
+  table: undefined,
+  using: [],
+  where: [],
+  returning: [],
+  all: false,
+}
+
+class DeleteQueryBuilderImpl {
+  constructor(private readonly state: RuntimeDeleteState) {}
+
+  table(table: string) {
+    return this.next({ table: requireFragment(table, "table") })
+  }
+
+  using(source: string, id?: string) {
+    return this.addPart("using", source, id)
+  }
+
+  removeUsing(id: string) {
+    return this.removePart("using", id)
+  }
+
+  where(condition: string | AnyConditionTreeBuilder, id?: string) {
+    if (typeof condition === "string") {
+      return this.addPart("where", condition, id)
+    }
+    const sql = condition.toString()
+    return sql === "" ? this : this.addPart("where", sql, id)
+  }
+
+  removeWhere(id: string) {
+    return this.removePart("where", id)
+  }
+
+  returning(columns: string | readonly string[], id?: string) {
+    return this.addPart("returning", fragmentText(columns), id)
+  }
+
+  removeReturning(id: string) {
+    return this.removePart("returning", id)
+  }
+
+  all() {
+    return this.next({ all: true })
+  }
+
+  when(condition: boolean, callback: (builder: DeleteQueryBuilderImpl) => DeleteQueryBuilderImpl) {
+    return condition ? callback(this) : this
+  }
+
+  toString() {
+    return assembleDeleteSQL(this.state)
+  }
+
+  /**
+   * @throws Error if the query has no table, or no WHERE condition and
+   * all() was not called
+   */
+  execute(handler: QueryHandler) {
+    if (this.state.table === undefined) {
+      throw new Error("Call table() before execute()")
+    }
+    if (this.state.where.length === 0 && !this.state.all) {
+      throw new Error("DELETE without where() requires all()")
+    }
+    return Promise.resolve(handler(this.toString()))
+  }
+
+  private addPart(field: "using" | "where" | "returning", fragment: string, id?: string) {
+    const part = { id: requireId(id), sql: requireFragment(fragment, field) }
+    return this.next({ [field]: upsertPart(this.state[field], part) })
+  }
+
+  private removePart(field: "using" | "where" | "returning", id: string) {
+    return this.next({ [field]: this.state[field].filter((part) => part.id !== id) })
+  }
+
+  private next(changes: Partial<RuntimeDeleteState>) {
+    return new DeleteQueryBuilderImpl({ ...this.state, ...changes })
+  }
+}
+
+/**
+ * Assemble a DELETE query from builder state, using the fragments as given
+ */
+function assembleDeleteSQL(state: RuntimeDeleteState): string {
+  const sql = [`DELETE FROM ${state.table}`]
+  if (state.using.length > 0) {
+    sql.push(`USING ${partsSQL(state.using, ", ")}`)
+  }
+  if (state.where.length > 0) {
+    sql.push(`WHERE ${conditionPartsSQL(state.where)}`)
+  }
+  if (state.returning.length > 0) {
+    sql.push(`RETURNING ${partsSQL(state.returning, ", ")}`)
+  }
+  return sql.join(" ")
+}
+
+/**
+ * Create a DELETE query builder for a schema
+ * The schema is only used at type level
+ *
+ * @example
+ * ```typescript
+ * const purge = createDeleteQuery<Schema>().table("sessions").all()
+ * await purge.execute((sql) => pool.query(sql))
+ * ```
+ */
+export function createDeleteQuery<Schema extends DatabaseSchema>(): DeleteQueryBuilder<Schema> {
+  return new DeleteQueryBuilderImpl(emptyState) as unknown as DeleteQueryBuilder<Schema>
+}
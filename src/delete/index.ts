@@ -57,3 +57,19 @@ export type {
   GetDeleteTableColumns,
 } from "./validator.js"
 
+
+// ============================================================================
+// Query Builder Exports
+// ============================================================================
+
+export { createDeleteQuery } from "./builder.js"
+export type {
+  AnyDeleteQueryBuilder,
+  BuildDeleteSQL,
+  DeleteBuilderResult,
+  DeleteBuilderState,
+  DeleteErrorState,
+  DeleteQueryBuilder,
+  DeleteQuerySQL,
+  EmptyDeleteState,
+} from "./builder.js"
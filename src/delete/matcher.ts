@@ -17,7 +17,7 @@ import type {
   DynamicQueryResult,
   IsStringLiteral,
 } from "../common/utils.js"
-import type { DatabaseSchema, GetDefaultSchema } from "../common/schema.js"
+import type { DatabaseSchema, GetDefaultSchema, TableColumnTypes } from "../common/schema.js"
 
 // ============================================================================
 // Re-exports for convenience
@@ -69,14 +69,14 @@ type ResolveTableInSchema<Table extends TableRef, Schema extends DatabaseSchema>
       ? GetDefaultSchema<Schema> extends infer DefaultSchema extends string
         ? DefaultSchema extends keyof Schema["schemas"]
           ? TableName extends keyof Schema["schemas"][DefaultSchema]
-            ? Schema["schemas"][DefaultSchema][TableName]
+            ? TableColumnTypes<Schema["schemas"][DefaultSchema][TableName]>
             : MatchError<`Table '${TableName}' not found in default schema '${DefaultSchema}'`>
           : MatchError<`Default schema not found`>
         : MatchError<`Cannot determine default schema`>
       : TableSchema extends string
         ? TableSchema extends keyof Schema["schemas"]
           ? TableName extends keyof Schema["schemas"][TableSchema]
-            ? Schema["schemas"][TableSchema][TableName]
+            ? TableColumnTypes<Schema["schemas"][TableSchema][TableName]>
             : MatchError<`Table '${TableName}' not found in schema '${TableSchema}'`>
           : MatchError<`Schema '${TableSchema}' not found`>
         : MatchError<`Invalid schema type`>
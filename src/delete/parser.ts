@@ -16,11 +16,20 @@ import type {
   TableColumnRef,
   ParsedCondition,
   WhereExpr,
+  CTEDefinition,
 } from "../common/ast.js"
 
-import type { NormalizeSQL, NextToken, ExtractUntil, SplitByComma } from "../common/tokenizer.js"
+import type {
+  NormalizeSQL,
+  NextToken,
+  ExtractUntil,
+  SplitByComma,
+  IsParamPlaceholder,
+} from "../common/tokenizer.js"
+
+import type { Trim, ParseError, RemoveQuotes, Increment, Decrement } from "../common/utils.js"
 
-import type { Trim, ParseError, RemoveQuotes } from "../common/utils.js"
+import type { ParseCTEList } from "../select/index.js"
 
 // ============================================================================
 // Main Entry Point
@@ -28,6 +37,7 @@ import type { Trim, ParseError, RemoveQuotes } from "../common/utils.js"
 
 /**
  * Parse a SQL DELETE query string into an AST
+ * Supports: DELETE, WITH ... DELETE
  */
 export type ParseDeleteSQL<T extends string> = ParseDeleteQuery<NormalizeSQL<T>>
 
@@ -38,39 +48,58 @@ type ParseDeleteQuery<T extends string> = NextToken<T> extends [
   infer First extends string,
   infer Rest extends string,
 ]
-  ? First extends "DELETE"
-    ? ParseDeleteBody<Rest>
-    : ParseError<`Expected DELETE, got: ${First}`>
+  ? First extends "WITH"
+    ? ParseWithAndDelete<Rest>
+    : First extends "DELETE"
+      ? ParseDeleteBody<Rest, undefined>
+      : ParseError<`Expected DELETE or WITH, got: ${First}`>
   : ParseError<"Empty query">
 
+/**
+ * Parse WITH clause followed by DELETE
+ */
+type ParseWithAndDelete<T extends string> = ParseCTEList<T> extends infer CTEResult
+  ? CTEResult extends {
+      ctes: infer CTEs extends CTEDefinition[]
+      rest: infer AfterCTEs extends string
+    }
+    ? NextToken<AfterCTEs> extends ["DELETE", infer DeleteRest extends string]
+      ? ParseDeleteBody<DeleteRest, CTEs>
+      : ParseError<"Expected DELETE after WITH clause">
+    : CTEResult
+  : never
+
 // ============================================================================
 // DELETE Body Parser
 // ============================================================================
 
 /**
- * Parse DELETE FROM table_name ...
+ * Parse DELETE FROM table_name ... with optional CTEs
  */
-type ParseDeleteBody<T extends string> = NextToken<T> extends [
-  infer First extends string,
-  infer Rest extends string,
-]
+type ParseDeleteBody<
+  T extends string,
+  CTEs extends CTEDefinition[] | undefined,
+> = NextToken<T> extends [infer First extends string, infer Rest extends string]
   ? First extends "FROM"
-    ? ParseTableAndClauses<Rest>
+    ? ParseTableAndClauses<Rest, CTEs>
     : ParseError<`Expected FROM after DELETE, got: ${First}`>
   : ParseError<"Expected FROM after DELETE">
 
 /**
  * Parse table name and optional clauses (USING, WHERE, RETURNING)
  */
-type ParseTableAndClauses<T extends string> = ExtractUntil<T, DeleteTerminators> extends [
+type ParseTableAndClauses<
+  T extends string,
+  CTEs extends CTEDefinition[] | undefined,
+> = ExtractUntil<T, DeleteTerminators> extends [
   infer TablePart extends string,
   infer Rest extends string,
 ]
   ? ParseTableRef<TablePart> extends infer Table extends TableRef
-    ? BuildDeleteClause<Table, Rest>
+    ? BuildDeleteClause<Table, Rest, CTEs>
     : ParseError<"Invalid table reference">
   : ParseTableRef<T> extends infer Table extends TableRef
-    ? BuildDeleteClause<Table, "">
+    ? BuildDeleteClause<Table, "", CTEs>
     : ParseError<"Invalid table reference">
 
 /**
@@ -85,7 +114,11 @@ type DeleteTerminators = "USING" | "WHERE" | "RETURNING"
 /**
  * Build the complete DELETE clause by parsing remaining optional parts
  */
-type BuildDeleteClause<Table extends TableRef, Rest extends string> =
+type BuildDeleteClause<
+  Table extends TableRef,
+  Rest extends string,
+  CTEs extends CTEDefinition[] | undefined,
+> =
   ParseUsing<Rest> extends infer UsingResult
     ? UsingResult extends { using: infer Using; rest: infer AfterUsing extends string }
       ? ParseWhere<AfterUsing> extends infer WhereResult
@@ -100,7 +133,8 @@ type BuildDeleteClause<Table extends TableRef, Rest extends string> =
                     Table,
                     Using extends UsingClause ? Using : undefined,
                     Where extends WhereExpr ? Where : undefined,
-                    Returning extends DeleteReturningClause ? Returning : undefined
+                    Returning extends DeleteReturningClause ? Returning : undefined,
+                    CTEs
                   >
                 >
               : never
@@ -172,21 +206,42 @@ type ParseWhere<T extends string> = Trim<T> extends ""
 
 /**
  * Scan tokens for column references (simplified - extracts identifiers)
+ * Skips parenthesized subqueries, whose columns belong to their own FROM
  */
 type ScanTokensForColumnRefs<T extends string, Acc extends ValidatableColumnRef[]> = Trim<
   T
 > extends ""
   ? Acc
   : NextToken<Trim<T>> extends [infer Token extends string, infer Rest extends string]
-    ? ExtractColumnFromToken<Token> extends infer ColRef
-      ? [ColRef] extends [never]
-        ? ScanTokensForColumnRefs<Rest, Acc>
-        : ColRef extends ValidatableColumnRef
-          ? ScanTokensForColumnRefs<Rest, [...Acc, ColRef]>
-          : ScanTokensForColumnRefs<Rest, Acc>
-      : ScanTokensForColumnRefs<Rest, Acc>
+    ? Token extends "("
+      ? NextToken<Rest> extends ["SELECT", string]
+        ? SkipUntilClosingParen<Rest, 1> extends infer Remainder extends string
+          ? ScanTokensForColumnRefs<Remainder, Acc>
+          : Acc
+        : ScanTokensForColumnRefs<Rest, Acc>
+      : ExtractColumnFromToken<Token> extends infer ColRef
+        ? [ColRef] extends [never]
+          ? ScanTokensForColumnRefs<Rest, Acc>
+          : ColRef extends ValidatableColumnRef
+            ? ScanTokensForColumnRefs<Rest, [...Acc, ColRef]>
+            : ScanTokensForColumnRefs<Rest, Acc>
+        : ScanTokensForColumnRefs<Rest, Acc>
     : Acc
 
+/**
+ * Skip tokens until the matching closing parenthesis
+ * Returns the string after it
+ */
+type SkipUntilClosingParen<T extends string, Depth extends number> = Depth extends 0
+  ? T
+  : NextToken<Trim<T>> extends [infer Token extends string, infer Rest extends string]
+    ? Token extends "("
+      ? SkipUntilClosingParen<Rest, Increment<Depth>>
+      : Token extends ")"
+        ? SkipUntilClosingParen<Rest, Decrement<Depth>>
+        : SkipUntilClosingParen<Rest, Depth>
+    : ""
+
 /**
  * Extract the base column from a JSON operator expression (recursively)
  */
@@ -295,7 +350,7 @@ type IsKeywordOrOperator<T extends string> = T extends `'${string}'`
         | "<="
         | ">="
     ? true
-    : T extends `$${number}` | `$${string}` | `:${string}`
+    : IsParamPlaceholder<T> extends true
       ? true
       : T extends `${number}`
         ? true
@@ -5,7 +5,7 @@
  * It validates:
  * - Table existence in schema
  * - WHERE clause column references
- * - USING clause table references
+ * - USING clause table references (schema tables or CTEs)
  * - RETURNING clause column validation
  */
 
@@ -17,6 +17,7 @@ import type {
 } from "./ast.js"
 
 import type {
+  CTEDefinition,
   TableRef,
   TableSource,
   UnboundColumnRef,
@@ -32,10 +33,12 @@ import type {
   IsParseError,
   HasTemplateHoles,
 } from "../common/utils.js"
-import type { DatabaseSchema, GetDefaultSchema } from "../common/schema.js"
+import type { DatabaseSchema, GetDefaultSchema, TableColumnTypes } from "../common/schema.js"
 
 import type { ParseDeleteSQL } from "./parser.js"
 
+import type { BuildCTEContext } from "../select/index.js"
+
 // ============================================================================
 // Re-exports for convenience
 // ============================================================================
@@ -69,6 +72,11 @@ export type ValidateDeleteOptions = {
  */
 type DefaultValidateOptions = { validateWhere: true; validateReturning: true }
 
+/**
+ * Options for a CTE body - full validation except RETURNING
+ */
+type CTEValidateOptions = { validateWhere: true; validateReturning: false }
+
 // ============================================================================
 // Main Validator Entry Point
 // ============================================================================
@@ -93,6 +101,23 @@ export type ValidateDeleteSQL<
         : "Failed to parse query"
     : never
 
+/**
+ * Validate a DELETE statement used as a CTE body
+ * The CTEs defined before it in the same WITH clause are in scope. The
+ * RETURNING list is left to the CTE, which resolves it as a SELECT list
+ */
+export type ValidateDeleteCTE<
+  SQL extends string,
+  Schema extends DatabaseSchema,
+  CTEs extends CTEDefinition[],
+> = ParseDeleteSQL<SQL> extends infer Parsed
+  ? Parsed extends ParseError<infer E>
+    ? E
+    : Parsed extends SQLDeleteQuery<infer Query>
+      ? ValidateDeleteClause<{ [K in keyof Query]: K extends "ctes" ? CTEs : Query[K] }, Schema, CTEValidateOptions>
+      : "Failed to parse query"
+  : never
+
 // ============================================================================
 // Delete Clause Validation
 // ============================================================================
@@ -104,24 +129,34 @@ type ValidateDeleteClause<
   Delete extends DeleteClause,
   Schema extends DatabaseSchema,
   Options extends ValidateDeleteOptions = DefaultValidateOptions,
-> = Delete extends DeleteClause<infer Table, infer Using, infer Where, infer Returning>
-  ? ValidateTable<Table, Schema> extends infer TableResult
-    ? TableResult extends true
-      ? ValidateUsingClause<Using, Schema> extends infer UsingResult
-        ? UsingResult extends true
-          ? BuildValidationContext<Table, Using, Schema> extends infer Context
-            ? Context extends MatchError<string>
-              ? Context
-              : ValidateWhereClause<Where, Context, Schema, Options> extends infer WhereResult
-                ? WhereResult extends true
-                  ? ValidateReturningClause<Returning, Table, Schema, Options>
-                  : WhereResult
-                : "WHERE validation failed"
-            : "Context building failed"
-          : UsingResult
-        : "USING validation failed"
-      : TableResult
-    : "Table validation failed"
+> = Delete extends DeleteClause<
+  infer Table,
+  infer Using,
+  infer Where,
+  infer Returning,
+  infer CTEs
+>
+  ? BuildCTEContext<CTEs, Schema> extends infer CTEContext
+    ? CTEContext extends MatchError<infer E>
+      ? E
+      : ValidateTable<Table, Schema> extends infer TableResult
+        ? TableResult extends true
+          ? ValidateUsingClause<Using, Schema, CTEContext> extends infer UsingResult
+            ? UsingResult extends true
+              ? BuildValidationContext<Table, Using, Schema, CTEContext> extends infer Context
+                ? Context extends MatchError<string>
+                  ? Context
+                  : ValidateWhereClause<Where, Context, Schema, Options> extends infer WhereResult
+                    ? WhereResult extends true
+                      ? ValidateReturningClause<Returning, Table, Schema, Options>
+                      : WhereResult
+                    : "WHERE validation failed"
+                : "Context building failed"
+              : UsingResult
+            : "USING validation failed"
+          : TableResult
+        : "Table validation failed"
+    : "CTE validation failed"
   : "Invalid DELETE clause"
 
 // ============================================================================
@@ -164,12 +199,12 @@ type ResolveTableInSchema<
 // ============================================================================
 
 /**
- * Validate USING clause tables exist
+ * Validate USING clause tables exist (in the schema or as CTEs)
  */
-type ValidateUsingClause<Using, Schema extends DatabaseSchema> = Using extends undefined
+type ValidateUsingClause<Using, Schema extends DatabaseSchema, CTEContext> = Using extends undefined
   ? true
   : Using extends UsingClause<infer Tables>
-    ? ValidateTableList<Tables, Schema>
+    ? ValidateTableList<Tables, Schema, CTEContext>
     : true
 
 /**
@@ -178,18 +213,33 @@ type ValidateUsingClause<Using, Schema extends DatabaseSchema> = Using extends u
 type ValidateTableList<
   Tables extends TableSource[],
   Schema extends DatabaseSchema,
+  CTEContext,
 > = Tables extends [infer First, ...infer Rest]
   ? First extends TableRef<infer TableName, infer _Alias, infer TableSchema>
-    ? ResolveTableInSchema<TableName, TableSchema, Schema> extends infer Result
+    ? (
+        IsCTEReference<First, CTEContext> extends true
+          ? true
+          : ResolveTableInSchema<TableName, TableSchema, Schema>
+      ) extends infer Result
       ? Result extends true
         ? Rest extends TableSource[]
-          ? ValidateTableList<Rest, Schema>
+          ? ValidateTableList<Rest, Schema, CTEContext>
           : true
         : Result
       : "Table validation failed"
     : true
   : true
 
+/**
+ * Check if a table reference names a CTE (CTE names are never schema-qualified)
+ */
+type IsCTEReference<Table extends TableRef, CTEContext> =
+  Table extends TableRef<infer TableName, infer _Alias, undefined>
+    ? TableName extends keyof CTEContext
+      ? true
+      : false
+    : false
+
 // ============================================================================
 // Context Building
 // ============================================================================
@@ -201,11 +251,12 @@ type BuildValidationContext<
   Table extends TableRef,
   Using,
   Schema extends DatabaseSchema,
+  CTEContext,
 > = ResolveTableContext<Table, Schema> extends infer MainContext
   ? MainContext extends MatchError<string>
     ? MainContext
     : Using extends UsingClause<infer Tables>
-      ? MergeUsingContexts<MainContext, Tables, Schema>
+      ? MergeUsingContexts<MainContext, Tables, Schema, CTEContext>
       : MainContext
   : never
 
@@ -218,13 +269,13 @@ type ResolveTableContext<Table extends TableRef, Schema extends DatabaseSchema>
       ? GetDefaultSchema<Schema> extends infer DefaultSchema extends string
         ? DefaultSchema extends keyof Schema["schemas"]
           ? TableName extends keyof Schema["schemas"][DefaultSchema]
-            ? { [K in Alias]: Schema["schemas"][DefaultSchema][TableName] }
+            ? { [K in Alias]: TableColumnTypes<Schema["schemas"][DefaultSchema][TableName]> }
             : MatchError<`Table '${TableName}' not found`>
           : MatchError<`Default schema not found`>
         : MatchError<`Cannot determine default schema`>
       : TableSchema extends keyof Schema["schemas"]
         ? TableName extends keyof Schema["schemas"][TableSchema]
-          ? { [K in Alias]: Schema["schemas"][TableSchema][TableName] }
+          ? { [K in Alias]: TableColumnTypes<Schema["schemas"][TableSchema][TableName]> }
           : MatchError<`Table '${TableName}' not found in schema '${TableSchema}'`>
         : MatchError<`Schema '${TableSchema}' not found`>
     : MatchError<`Invalid table reference`>
@@ -236,13 +287,18 @@ type MergeUsingContexts<
   Context,
   Tables extends TableSource[],
   Schema extends DatabaseSchema,
+  CTEContext,
 > = Tables extends [infer First, ...infer Rest]
-  ? First extends TableRef
-    ? ResolveTableContext<First, Schema> extends infer TableContext
+  ? First extends TableRef<infer TableName, infer Alias, infer _Schema>
+    ? (
+        IsCTEReference<First, CTEContext> extends true
+          ? { [K in Alias]: CTEContext[TableName & keyof CTEContext] }
+          : ResolveTableContext<First, Schema>
+      ) extends infer TableContext
       ? TableContext extends MatchError<string>
         ? TableContext
         : Rest extends TableSource[]
-          ? MergeUsingContexts<Context & TableContext, Rest, Schema>
+          ? MergeUsingContexts<Context & TableContext, Rest, Schema, CTEContext>
           : Context & TableContext
       : Context
     : Context
@@ -437,13 +493,13 @@ export type GetDeleteTableColumns<SQL extends string, Schema extends DatabaseSch
           ? GetDefaultSchema<Schema> extends infer DefaultSchema extends string
             ? DefaultSchema extends keyof Schema["schemas"]
               ? TableName extends keyof Schema["schemas"][DefaultSchema]
-                ? Schema["schemas"][DefaultSchema][TableName]
+                ? TableColumnTypes<Schema["schemas"][DefaultSchema][TableName]>
                 : never
               : never
             : never
           : TableSchema extends keyof Schema["schemas"]
             ? TableName extends keyof Schema["schemas"][TableSchema]
-              ? Schema["schemas"][TableSchema][TableName]
+              ? TableColumnTypes<Schema["schemas"][TableSchema][TableName]>
               : never
             : never
         : never
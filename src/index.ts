@@ -9,8 +9,9 @@
  * Architecture:
  * ------------
  * The parser is organized into modules by query type:
- * - common/    - Shared utilities (tokenizer, AST nodes, utils)
- * - select/    - SELECT query parser
+ * - common/    - Shared utilities (tokenizer, AST nodes, utils, condition trees)
+ * - select/    - SELECT query parser and query builder
+ * - ddl/       - DDL parser and migration replay producing DatabaseSchema types
  *
  * Each query type has its own execution tree in the type system
  * to avoid TypeScript performance issues.
@@ -37,15 +38,33 @@ export type {
     DetectQueryType,
     IsDeleteQuery,
     IsInsertQuery,
+    IsMergeQuery,
     IsSelectQuery,
     IsUpdateQuery,
     ParseDeleteSQL,
     ParseInsertSQL,
+    ParseMergeSQL,
     ParseSelectSQL,
     ParseSQL,
     ParseUpdateSQL,
 } from "./router.js";
 
+// ============================================================================
+// Query Parameters
+// ============================================================================
+
+// Re-export parameter type inference ($1, $2, ... and :name, @name, $name)
+export { bindNamedParams } from "./params.js";
+export type { BoundQuery, QueryParams } from "./params.js";
+
+// ============================================================================
+// Template Queries
+// ============================================================================
+
+// Re-export the sql tagged template and fragment types
+export { isSqlQuery, sql } from "./template.js";
+export type { QuotedIdentifier, SqlFragment, SqlQuery } from "./template.js";
+
 // ============================================================================
 // Common Types (shared across all query types)
 // ============================================================================
@@ -55,6 +74,11 @@ export type {
     AggregateExpr,
     AggregateFunc,
     BinaryExpr,
+    // Built-in function catalog
+    BuiltinFunctionName,
+    BuiltinFunctions,
+    ColumnDescriptor,
+    ColumnGenerated,
     ColumnReference,
     ColumnRefType,
     ComparisonOp,
@@ -64,6 +88,7 @@ export type {
     CTEDefinition,
     // Schema types
     DatabaseSchema,
+    DataModifyingQuery,
     Decrement,
     DerivedTableRef,
     DynamicQuery,
@@ -73,18 +98,32 @@ export type {
     FindRelationsTo,
     Flatten,
     FromTerminators,
+    FunctionArg,
+    FunctionCall,
+    FunctionCallAny,
+    FunctionDefinition,
+    FunctionReturnType,
+    FunctionsDefinition,
     GetColumnNames,
     GetColumnType,
     GetDefaultSchema,
+    GetFunctionDefinition,
     GetRelation,
     GetRelationNames,
+    GetTableDefaults,
     GetTableNames,
+    HasFunctions,
     HasRelations,
     HasTemplateHoles,
     Increment,
+    IsColumnDescriptor,
     IsDynamicQuery,
+    IsGeneratedColumn,
     IsMatchError,
+    IsOptionalColumn,
+    IsParamPlaceholder,
     IsParseError,
+    IsRequiredColumn,
     // Dynamic query support
     IsStringLiteral,
     JoinClause,
@@ -100,6 +139,7 @@ export type {
     NormalizeSQL,
     OrderByItem,
     OrderByTerminators,
+    ParamName,
     ParensBalanced,
     ParsedCondition,
     ParseError,
@@ -114,8 +154,12 @@ export type {
     SortDirection,
     SplitByComma,
     StartsWith,
+    StripTemplateHoles,
     SubquerySelectClause,
+    SubqueryUnionClause,
     TableColumnRef,
+    TableColumnTypes,
+    TableDefaults,
     TableDefinition,
     TableRef,
     TableSource,
@@ -124,17 +168,44 @@ export type {
     Trim,
     UnboundColumnRef,
     UnparsedExpr,
+    UnwrapColumnType,
     ValidatableColumnRef,
+    ValidateLiteralValue,
     WhereExpr,
     WhereTerminators,
 } from "./common/index.js";
 
+// ============================================================================
+// Condition Trees
+// ============================================================================
+
+// Re-export the condition tree builder (nested AND/OR conditions)
+export { createConditionTree } from "./common/index.js";
+export type {
+    AnyConditionTreeBuilder,
+    ConditionOperator,
+    ConditionTreeBuilder,
+    ConditionTreeBuilderState,
+    ConditionTreeColumnRefs,
+    ConditionTreeCondition,
+    ConditionTreePart,
+    ConditionTreeSQL,
+    ConditionTreeState,
+    ConditionTreeStateAny,
+    EmptyConditionTree,
+} from "./common/index.js";
+
 // ============================================================================
 // SELECT Query Types
 // ============================================================================
 
 // Re-export SELECT-specific types
 export type {
+    // CASE expression types
+    CaseExpr,
+    CaseExprAny,
+    CaseValue,
+    CaseWhen,
     // Column types
     ColumnRef,
     ExistsExpr,
@@ -143,6 +214,7 @@ export type {
     LiteralExpr,
     // Matcher types
     MatchSelectQuery,
+    OptionalSelectItem,
     QueryResult,
     // Select types
     SelectClause,
@@ -163,6 +235,35 @@ export type {
     // Validator types
     ValidateSelectSQL,
     ValidateSQL,
+    // Window function types
+    WindowDefinition,
+    WindowExpr,
+    WindowFunc,
+    WindowSpec,
+} from "./select/index.js";
+
+// ============================================================================
+// SELECT Query Builder
+// ============================================================================
+
+// Re-export the SELECT builder and its state types
+export { createSelectQuery } from "./select/index.js";
+export type {
+    AnySelectQueryBuilder,
+    BuilderJoinPart,
+    BuilderPart,
+    BuilderState,
+    BuilderUnion,
+    BuildSelectSQL,
+    CanReplaceJoin,
+    EmptyState,
+    ErrorState,
+    ExtractError,
+    JoinStrictness,
+    SelectBuilderResult,
+    SelectBuilderState,
+    SelectQueryBuilder,
+    SelectQuerySQL,
 } from "./select/index.js";
 
 // ============================================================================
@@ -203,6 +304,27 @@ export type {
     ValidateInsertSQL,
 } from "./insert/index.js";
 
+// ============================================================================
+// INSERT Query Builder
+// ============================================================================
+
+// Re-export the INSERT builder and its state types
+export { createInsertQuery } from "./insert/index.js";
+export type {
+    AnyInsertQueryBuilder,
+    BuildInsertSQL,
+    EmptyInsertState,
+    InsertBuilderResult,
+    InsertBuilderState,
+    InsertConflictState,
+    InsertConflictValues,
+    InsertErrorState,
+    InsertQueryBuilder,
+    InsertQuerySQL,
+    InsertRowValues,
+    InsertValuePart,
+} from "./insert/index.js";
+
 // ============================================================================
 // UPDATE Query Types
 // ============================================================================
@@ -236,6 +358,25 @@ export type {
     ValidateUpdateSQL,
 } from "./update/index.js";
 
+// ============================================================================
+// UPDATE Query Builder
+// ============================================================================
+
+// Re-export the UPDATE builder and its state types
+export { createUpdateQuery } from "./update/index.js";
+export type {
+    AnyUpdateQueryBuilder,
+    BuildUpdateSQL,
+    EmptyUpdateState,
+    UpdateBuilderResult,
+    UpdateBuilderState,
+    UpdateErrorState,
+    UpdateQueryBuilder,
+    UpdateQuerySQL,
+    UpdateSetPart,
+    UpdateSetValues,
+} from "./update/index.js";
+
 // ============================================================================
 // DELETE Query Types
 // ============================================================================
@@ -261,14 +402,119 @@ export type {
     ValidateDeleteSQL,
 } from "./delete/index.js";
 
+// ============================================================================
+// DELETE Query Builder
+// ============================================================================
+
+// Re-export the DELETE builder and its state types
+export { createDeleteQuery } from "./delete/index.js";
+export type {
+    AnyDeleteQueryBuilder,
+    BuildDeleteSQL,
+    DeleteBuilderResult,
+    DeleteBuilderState,
+    DeleteErrorState,
+    DeleteQueryBuilder,
+    DeleteQuerySQL,
+    EmptyDeleteState,
+} from "./delete/index.js";
+
+// ============================================================================
+// MERGE Query Types
+// ============================================================================
+
+// Re-export MERGE-specific types
+export type {
+    IsValidMerge,
+    // Matcher types
+    MatchMergeQuery,
+    // WHEN clause actions
+    MergeAction,
+    MergeActionRef,
+    // Main clause
+    MergeClause,
+    MergeDeleteAction,
+    MergeDoNothingAction,
+    MergeInsertAction,
+    MergeMatchKind,
+    MergeResult,
+    // RETURNING clause
+    MergeReturningClause,
+    MergeReturningColumn,
+    MergeReturningItem,
+    MergeSetAssignment,
+    MergeUpdateAction,
+    MergeValue,
+    // WHEN clauses
+    MergeWhenClause,
+    // Query wrapper types
+    SQLMergeQuery,
+    ValidateMergeOptions,
+    ValidateMergeResult,
+    // Validator types
+    ValidateMergeSQL,
+} from "./merge/index.js";
+
+// ============================================================================
+// DDL Types
+// ============================================================================
+
+// Re-export DDL (CREATE TABLE / ALTER TABLE / migration) types
+export type {
+    // ALTER TABLE actions
+    AddColumnAction,
+    AddConstraintAction,
+    AlterColumnDefaultAction,
+    AlterColumnNullAction,
+    AlterColumnTypeAction,
+    AlterTableAction,
+    AlterTableStatement,
+    // Migrations
+    ApplyDDL,
+    ApplyMigrations,
+    // Column definitions
+    ColumnDefinition,
+    CreateSchemaStatement,
+    // Statements
+    CreateTableStatement,
+    DDLStatement,
+    DropColumnAction,
+    DropConstraintAction,
+    DropTableStatement,
+    // Constraints
+    ForeignKeyConstraint,
+    ForeignKeyReference,
+    GeneratedKind,
+    NormalizeDataType,
+    ParseDDL,
+    // Parser
+    ParseDDLStatements,
+    PrimaryKeyConstraint,
+    QualifiedTableName,
+    RenameColumnAction,
+    RenameTableAction,
+    TableConstraint,
+    UniqueConstraint,
+} from "./ddl/index.js";
+
 // ============================================================================
 // Runtime API helpers
 // ============================================================================
 
-export { createSelectFn } from "./db.js";
+export { createDeleteFn, createInsertFn, createQueryFn, createSelectFn, createUpdateFn } from "./db.js";
 export type {
     IsValidSelect,
+    QueryFnResult,
+    QueryHandler,
+    QueryResultHandler,
+    QueryRows,
+    ReturningResult,
     SelectResult,
     SelectResultArray,
+    ValidAnyQuery,
+    ValidDeleteQuery,
+    ValidInsertQuery,
+    ValidMergeQuery,
     ValidQuery,
+    ValidUpdateQuery,
 } from "./db.js";
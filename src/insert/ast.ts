@@ -9,6 +9,7 @@
 
 import type { Flatten } from "../common/utils.js"
 import type {
+  CTEDefinition,
   UnboundColumnRef,
   TableRef,
   SubquerySelectClause,
@@ -155,6 +156,7 @@ export type InsertClause<
   Source extends InsertSource = InsertSource,
   OnConflict extends OnConflictClause | undefined = OnConflictClause | undefined,
   Returning extends ReturningClause | undefined = ReturningClause | undefined,
+  CTEs extends CTEDefinition[] | undefined = CTEDefinition[] | undefined,
 > = Flatten<{
   readonly type: "InsertClause"
   readonly table: Table
@@ -162,6 +164,7 @@ export type InsertClause<
   readonly source: Source
   readonly onConflict: OnConflict
   readonly returning: Returning
+  readonly ctes: CTEs
 }>
 
 // ============================================================================
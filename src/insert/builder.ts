@@ -0,0 +1,845 @@
+/**
+ * INSERT Query Builder
+ *
+ * An immutable, chainable builder that assembles an INSERT query from row
+ * objects, following the SELECT builder architecture:
+ *
+ * ```typescript
+ * const query = createInsertQuery<Schema>()
+ *   .into("users")
+ *   .values([{ name: "John", email: "john@example.com" }, { name: "Jane", email: null }])
+ *   .onConflict("email")
+ *   .doUpdate(["name"])
+ *   .returning(["id", "name"])
+ *
+ * query.toQuery()
+ * // {
+ * //   sql: "INSERT INTO users (name, email) VALUES ($1, $2), ($3, $4) ON CONFLICT (email) DO UPDATE SET name = EXCLUDED.name RETURNING id, name",
+ * //   params: ["John", "john@example.com", "Jane", null],
+ * // }
+ * ```
+ *
+ * The column list is the union of the row keys in first-seen order; a row
+ * without a column (or with an undefined value) gets DEFAULT. Values are
+ * bound as positional parameters row by row, followed by the DO UPDATE
+ * values; `sql` fragments are spliced in with their parameters renumbered.
+ * Column names (row keys, doUpdate() columns) must be plain identifiers and
+ * are checked before they are put into the query text.
+ *
+ * Type level: rows are typed with InsertInput (required columns, columns
+ * with defaults optional, GENERATED ALWAYS columns left out), each call
+ * validates the assembled query with ValidateInsertSQL, and the RETURNING
+ * rows are inferred with MatchInsertQuery.
+ */
+
+import type {
+  AddPart,
+  BuilderErrorState,
+  BuilderState,
+  CheckedInput,
+  FragmentPart,
+  FragmentText,
+  InputCheck,
+  PartsSQL,
+  RemovePart,
+  ValueColumns,
+} from "../common/builder.js"
+import {
+  fragmentText,
+  partsSQL,
+  requireColumnName,
+  requireFragment,
+  requireId,
+  upsertPart,
+} from "../common/builder.js"
+import type { DatabaseSchema } from "../common/schema.js"
+import type { Flatten, MatchError, StripTemplateHoles } from "../common/utils.js"
+import type { QueryHandler, ReturningResult } from "../db.js"
+import type { BoundQuery } from "../params.js"
+import type { SqlQuery } from "../template.js"
+import { bindValue, sql } from "../template.js"
+import type { ConflictAction } from "./ast.js"
+import type { InsertInput, InsertResult } from "./matcher.js"
+import type { GetInsertTableColumns, ValidateInsertSQL } from "./validator.js"
+
+// ============================================================================
+// Builder State
+// ============================================================================
+
+/**
+ * A column value of a row or of ON CONFLICT DO UPDATE; the column name is its ID
+ * Value is the SQL text of a literal `sql` fragment (or DEFAULT), or
+ * undefined for a value bound as a parameter
+ */
+export type InsertValuePart<
+  Column extends string = string,
+  Value extends string | undefined = string | undefined,
+> = {
+  readonly id: Column
+  readonly value: Value
+}
+
+/**
+ * ON CONFLICT state; the clause is only rendered once an action is set
+ */
+export type InsertConflictState = {
+  readonly target: string | undefined
+  readonly action: ConflictAction | undefined
+  readonly set: InsertValuePart[]
+}
+
+/**
+ * State of an INSERT builder
+ * variableRows is true once values() got an array of unknown length, which
+ * is kept as one representative row
+ */
+export type InsertBuilderState = {
+  readonly table: string | undefined
+  readonly columns: string[]
+  readonly rows: InsertValuePart[][]
+  readonly variableRows: boolean
+  readonly conflict: InsertConflictState | undefined
+  readonly returning: FragmentPart[]
+}
+
+/**
+ * Initial INSERT builder state
+ */
+export type EmptyInsertState = {
+  readonly table: undefined
+  readonly columns: []
+  readonly rows: []
+  readonly variableRows: false
+  readonly conflict: undefined
+  readonly returning: []
+}
+
+/**
+ * State of an INSERT builder after a fragment failed to parse or validate
+ */
+export type InsertErrorState<
+  Message extends string = string,
+  Previous extends InsertBuilderState = InsertBuilderState,
+> = BuilderErrorState<Message, Previous>
+
+// ============================================================================
+// Builder Interface
+// ============================================================================
+
+/**
+ * Branded SQL string returned by toString()
+ * __type is the RETURNING row type (void without RETURNING), or a MatchError
+ */
+export type InsertQuerySQL<Result> = string & {
+  readonly __type: Result
+}
+
+/**
+ * Type-safe INSERT query builder
+ *
+ * Every method returns a new builder. The type parameters are invariant for
+ * the same reason as in SelectQueryBuilder.
+ */
+export interface InsertQueryBuilder<
+  in out Schema extends DatabaseSchema,
+  in out State extends InsertBuilderState | InsertErrorState = EmptyInsertState,
+> {
+  /** Type-level state (not available at runtime) */
+  readonly __state?: State
+
+  /** Set the table to insert into: "users", "public.users" */
+  into<const Table extends string>(
+    table: CheckedInput<State, Table, IntoStep<Schema, State, Table>>,
+  ): InsertQueryBuilder<Schema, IntoStep<Schema, State, Table>>
+
+  /**
+   * Add one row or a list of rows; rows are typed from the table columns
+   * Rows of several calls are inserted together
+   */
+  values<
+    const Rows extends InsertRowValues<Schema, State> | readonly InsertRowValues<Schema, State>[],
+  >(
+    rows: Rows & InputCheck<State, ValuesStep<Schema, State, Rows>>,
+  ): InsertQueryBuilder<Schema, ValuesStep<Schema, State, Rows>>
+
+  /**
+   * Start an ON CONFLICT clause; finish it with doNothing() or doUpdate()
+   * Without columns the clause has no conflict target
+   */
+  onConflict<const Columns extends string | readonly string[] | undefined = undefined>(
+    columns?: CheckedInput<State, Columns, OnConflictStep<State, Columns>>,
+  ): InsertQueryBuilder<Schema, OnConflictStep<State, Columns>>
+
+  /** ON CONFLICT ... DO NOTHING */
+  doNothing(): InsertQueryBuilder<Schema, ActionStep<Schema, State, "DO NOTHING", []>>
+
+  /**
+   * ON CONFLICT ... DO UPDATE SET
+   * Takes column values, or column names to set from EXCLUDED
+   */
+  doUpdate<const Values extends InsertConflictValues<Schema, State>>(
+    values: Values & InputCheck<State, DoUpdateStep<Schema, State, Values>>,
+  ): InsertQueryBuilder<Schema, DoUpdateStep<Schema, State, Values>>
+
+  /** Add RETURNING columns */
+  returning<
+    const Columns extends string | readonly string[],
+    Id extends string | undefined = undefined,
+  >(
+    columns: CheckedInput<State, Columns, ReturningStep<Schema, State, FragmentText<Columns>, Id>>,
+    id?: Id,
+  ): InsertQueryBuilder<Schema, ReturningStep<Schema, State, FragmentText<Columns>, Id>>
+
+  /** Remove RETURNING columns by ID */
+  removeReturning<Id extends string>(
+    id: Id,
+  ): InsertQueryBuilder<Schema, RemoveReturningStep<Schema, State, Id>>
+
+  /**
+   * Apply the callback only when the condition is true at runtime
+   * At type level the callback is always applied
+   */
+  when<Result extends AnyInsertQueryBuilder>(
+    condition: boolean,
+    callback: (builder: InsertQueryBuilder<Schema, State>) => Result,
+  ): InsertQueryBuilder<Schema, BuilderState<Result>>
+
+  /**
+   * Assemble the SQL query (values as $1, $2, ...)
+   * The branded return type carries the result type in __type
+   */
+  toString(): InsertQuerySQL<InsertStateResult<State, Schema>>
+
+  /** Assemble the SQL query with its parameters */
+  toQuery(): BoundQuery
+
+  /**
+   * Run the query with the handler; resolves to the RETURNING rows, or void
+   * The handler argument is an error until the query is complete
+   */
+  execute(
+    handler: ExecuteInput<State>,
+  ): Promise<ReturningResult<InsertStateResult<State, Schema>>>
+}
+
+/**
+ * Any INSERT builder, used to accept .when() results
+ */
+export type AnyInsertQueryBuilder = {
+  readonly __state?: InsertBuilderState | InsertErrorState
+}
+
+/**
+ * Result type of an INSERT builder: RETURNING row type, or void
+ */
+export type InsertBuilderResult<Builder, Schema extends DatabaseSchema> = InsertStateResult<
+  BuilderState<Builder>,
+  Schema
+>
+
+/**
+ * A row accepted by values(): the InsertInput of the table, where any
+ * column may also take a `sql` fragment
+ */
+export type InsertRowValues<Schema extends DatabaseSchema, State> = State extends InsertBuilderState
+  ? State["table"] extends string
+    ? TableInput<Schema, State["table"]> extends infer Row
+      ? { readonly [K in keyof Row]: Row[K] | SqlQuery }
+      : never
+    : Record<string, unknown>
+  : Record<string, unknown>
+
+/**
+ * Argument of doUpdate(): column values, or column names set from EXCLUDED
+ */
+export type InsertConflictValues<Schema extends DatabaseSchema, State> = State extends InsertBuilderState
+  ? State["table"] extends string
+    ? TableColumns<Schema, State["table"]> extends infer Columns
+      ? { readonly [K in keyof Columns]?: Columns[K] | SqlQuery } | readonly (keyof Columns & string)[]
+      : never
+    : Record<string, unknown>
+  : Record<string, unknown>
+
+type TableInput<Schema extends DatabaseSchema, Table extends string> = InsertInput<
+  `INSERT INTO ${Table} VALUES ( $1 )`,
+  Schema
+>
+
+type TableColumns<Schema extends DatabaseSchema, Table extends string> = GetInsertTableColumns<
+  `INSERT INTO ${Table} VALUES ( $1 )`,
+  Schema
+>
+
+// ============================================================================
+// State Transitions
+// ============================================================================
+
+type StaticText<Fragment extends string> = StripTemplateHoles<Fragment>
+
+type WithField<State extends InsertBuilderState, Field extends keyof InsertBuilderState, Value> =
+  Flatten<Omit<State, Field> & { readonly [K in Field]: Value }> extends infer Next extends
+    InsertBuilderState
+    ? Next
+    : never
+
+/**
+ * Validate the query assembled from a new state
+ * Without rows there is no query to validate yet
+ */
+type ValidateStep<
+  Schema extends DatabaseSchema,
+  Previous extends InsertBuilderState,
+  Next extends InsertBuilderState,
+> = Next["rows"] extends []
+  ? Next
+  : ValidateInsertSQL<InsertStateSQL<Next>, Schema> extends infer Result
+    ? Result extends true
+      ? Next
+      : InsertErrorState<Result extends string ? Result : "Invalid query", Previous>
+    : never
+
+/**
+ * into(): set the table, which must exist in the schema
+ */
+type IntoStep<
+  Schema extends DatabaseSchema,
+  State extends InsertBuilderState | InsertErrorState,
+  Table extends string,
+> = State extends InsertBuilderState
+  ? StaticText<Table> extends ""
+    ? State
+    : TableInput<Schema, StaticText<Table>> extends MatchError<infer Message>
+      ? InsertErrorState<Message, State>
+      : ValidateStep<Schema, State, WithField<State, "table", StaticText<Table>>>
+  : State
+
+/**
+ * values(): append rows and any new columns
+ */
+type ValuesStep<
+  Schema extends DatabaseSchema,
+  State extends InsertBuilderState | InsertErrorState,
+  Rows,
+> = State extends InsertBuilderState
+  ? State["table"] extends string
+    ? RowList<Rows> extends infer List extends unknown[]
+      ? List extends []
+        ? State
+        : AddRows<State["columns"], State["rows"], List> extends [
+              infer Columns extends string[],
+              infer NewRows extends InsertValuePart[][],
+            ]
+          ? Columns extends []
+            ? InsertErrorState<"Rows passed to values() have no columns", State>
+            : ValidateStep<
+                Schema,
+                State,
+                WithField<
+                  WithField<WithField<State, "columns", Columns>, "rows", NewRows>,
+                  "variableRows",
+                  IsVariableRowList<Rows> extends true ? true : State["variableRows"]
+                >
+              >
+          : never
+      : never
+    : InsertErrorState<"Call into() before values()", State>
+  : State
+
+/**
+ * Rows of a values() argument; an array of unknown length is represented
+ * by one row (see IsVariableRowList)
+ */
+type RowList<Rows> = Rows extends readonly unknown[]
+  ? number extends Rows["length"]
+    ? [Rows[number]]
+    : [...Rows]
+  : [Rows]
+
+type IsVariableRowList<Rows> = Rows extends readonly unknown[]
+  ? number extends Rows["length"]
+    ? true
+    : false
+  : false
+
+type AddRows<
+  Columns extends string[],
+  Rows extends InsertValuePart[][],
+  List extends unknown[],
+> = List extends [infer Row, ...infer Rest]
+  ? AddRows<
+      AddColumns<Columns, ValueColumns<Row>>,
+      [...Rows, ValueParts<ValueColumns<Row>, Row>],
+      Rest
+    >
+  : [Columns, Rows]
+
+type AddColumns<Columns extends string[], New extends string[]> = New extends [
+  infer Column extends string,
+  ...infer Rest extends string[],
+]
+  ? AddColumns<Column extends Columns[number] ? Columns : [...Columns, Column], Rest>
+  : Columns
+
+type ValueParts<Columns extends string[], Values> = Columns extends [
+  infer Column extends string,
+  ...infer Rest extends string[],
+]
+  ? [InsertValuePart<Column, ValueSQL<Values[Column & keyof Values]>>, ...ValueParts<Rest, Values>]
+  : []
+
+/**
+ * SQL text of a literal `sql` fragment value, DEFAULT for an undefined
+ * value, or undefined for a parameter
+ */
+type ValueSQL<Value> = [Value] extends [undefined]
+  ? "DEFAULT"
+  : [Value] extends [SqlQuery]
+    ? string extends Value["text"]
+      ? undefined
+      : Value["text"]
+    : undefined
+
+/**
+ * onConflict(): set the conflict target, keeping an action already set
+ */
+type OnConflictStep<
+  State extends InsertBuilderState | InsertErrorState,
+  Columns,
+> = State extends InsertBuilderState
+  ? State["table"] extends string
+    ? WithField<
+        State,
+        "conflict",
+        {
+          readonly target: Columns extends string | readonly string[]
+            ? StaticText<FragmentText<Columns>> extends ""
+              ? undefined
+              : StaticText<FragmentText<Columns>>
+            : undefined
+          readonly action: State["conflict"] extends InsertConflictState
+            ? State["conflict"]["action"]
+            : undefined
+          readonly set: State["conflict"] extends InsertConflictState ? State["conflict"]["set"] : []
+        }
+      >
+    : InsertErrorState<"Call into() before onConflict()", State>
+  : State
+
+/**
+ * doNothing(), doUpdate(): set the conflict action
+ */
+type ActionStep<
+  Schema extends DatabaseSchema,
+  State extends InsertBuilderState | InsertErrorState,
+  Action extends ConflictAction,
+  Set extends InsertValuePart[],
+> = State extends InsertBuilderState
+  ? State["conflict"] extends InsertConflictState
+    ? ValidateStep<
+        Schema,
+        State,
+        WithField<
+          State,
+          "conflict",
+          { readonly target: State["conflict"]["target"]; readonly action: Action; readonly set: Set }
+        >
+      >
+    : InsertErrorState<`Call onConflict() before ${Action extends "DO NOTHING" ? "doNothing" : "doUpdate"}()`, State>
+  : State
+
+type DoUpdateStep<
+  Schema extends DatabaseSchema,
+  State extends InsertBuilderState | InsertErrorState,
+  Values,
+> = State extends InsertBuilderState
+  ? State["conflict"] extends { readonly target: string }
+    ? ActionStep<
+        Schema,
+        State,
+        "DO UPDATE",
+        AddValueParts<
+          State["conflict"]["action"] extends "DO UPDATE" ? State["conflict"]["set"] : [],
+          ConflictParts<Values>
+        >
+      >
+    : InsertErrorState<"Call onConflict() with columns before doUpdate()", State>
+  : State
+
+/**
+ * DO UPDATE assignments: EXCLUDED.column for column names
+ */
+type ConflictParts<Values> = [Values] extends [readonly string[]]
+  ? ExcludedParts<Values>
+  : ValueParts<ValueColumns<Values>, Values>
+
+type ExcludedParts<Columns extends readonly string[]> = Columns extends readonly [
+  infer Column extends string,
+  ...infer Rest extends readonly string[],
+]
+  ? [InsertValuePart<Column, `EXCLUDED.${Column}`>, ...ExcludedParts<Rest>]
+  : []
+
+type AddValueParts<Parts extends InsertValuePart[], New extends InsertValuePart[]> = New extends [
+  infer Part extends InsertValuePart,
+  ...infer Rest extends InsertValuePart[],
+]
+  ? AddPart<Parts, Part> extends infer Next extends InsertValuePart[]
+    ? AddValueParts<Next, Rest>
+    : never
+  : Parts
+
+/**
+ * returning(): add RETURNING columns
+ */
+type ReturningStep<
+  Schema extends DatabaseSchema,
+  State extends InsertBuilderState | InsertErrorState,
+  Fragment extends string,
+  Id extends string | undefined,
+> = State extends InsertBuilderState
+  ? StaticText<Fragment> extends ""
+    ? State
+    : State["table"] extends string
+      ? ValidateStep<
+          Schema,
+          State,
+          WithField<State, "returning", AddPart<State["returning"], FragmentPart<Id, StaticText<Fragment>>>>
+        >
+      : InsertErrorState<"Call into() before returning()", State>
+  : State
+
+type RemoveReturningStep<
+  Schema extends DatabaseSchema,
+  State extends InsertBuilderState | InsertErrorState,
+  Id extends string,
+> = State extends InsertBuilderState
+  ? ValidateStep<Schema, State, WithField<State, "returning", RemovePart<State["returning"], Id>>>
+  : State
+
+/**
+ * Handler argument of execute(), or an error message
+ */
+type ExecuteInput<State> = State extends InsertErrorState<infer Message>
+  ? `[Builder Error] ${Message}`
+  : State extends InsertBuilderState
+    ? State["rows"] extends []
+      ? "[Builder Error] Call into() and values() before execute()"
+      : State["conflict"] extends { readonly action: undefined }
+        ? "[Builder Error] Call doNothing() or doUpdate() after onConflict()"
+        : QueryHandler
+    : never
+
+// ============================================================================
+// Type-Level SQL Assembly
+// ============================================================================
+
+/**
+ * Query text of a builder state, mirroring the runtime assembly
+ * After values() got an array of unknown length the row count, and so the
+ * text, is only known at runtime: the result is string
+ */
+export type BuildInsertSQL<State extends InsertBuilderState> = State["variableRows"] extends true
+  ? string
+  : InsertStateSQL<State>
+
+/**
+ * Query text with an array of unknown length as one representative row,
+ * used for validation and result inference
+ */
+type InsertStateSQL<State extends InsertBuilderState> = RowsSQL<
+  State["rows"],
+  State["columns"]
+> extends [infer Rows extends string, infer Params extends unknown[]]
+  ? `INSERT INTO ${State["table"] & string} (${JoinColumns<State["columns"]>}) VALUES ${Rows}${ConflictSQL<
+      State["conflict"],
+      Params
+    >}${State["returning"] extends [] ? "" : ` RETURNING ${PartsSQL<State["returning"], ", ">}`}`
+  : never
+
+type JoinColumns<Columns extends string[]> = Columns extends [
+  infer First extends string,
+  ...infer Rest extends string[],
+]
+  ? Rest extends []
+    ? First
+    : `${First}, ${JoinColumns<Rest>}`
+  : ""
+
+/**
+ * VALUES rows with parameters numbered row by row
+ * Returns [SQL, Params] so numbering continues after the rows
+ */
+type RowsSQL<
+  Rows extends InsertValuePart[][],
+  Columns extends string[],
+  Params extends unknown[] = [unknown],
+  Acc extends string = "",
+> = Rows extends [infer Row extends InsertValuePart[], ...infer Rest extends InsertValuePart[][]]
+  ? RowSQL<Row, Columns, Params> extends [infer Text extends string, infer Next extends unknown[]]
+    ? RowsSQL<Rest, Columns, Next, Acc extends "" ? `(${Text})` : `${Acc}, (${Text})`>
+    : never
+  : [Acc, Params]
+
+type RowSQL<
+  Row extends InsertValuePart[],
+  Columns extends string[],
+  Params extends unknown[],
+  Acc extends string = "",
+> = Columns extends [infer Column extends string, ...infer Rest extends string[]]
+  ? ColumnValue<Row, Column> extends infer Value
+    ? Value extends string
+      ? RowSQL<Row, Rest, Params, Acc extends "" ? Value : `${Acc}, ${Value}`>
+      : RowSQL<
+          Row,
+          Rest,
+          [...Params, unknown],
+          Acc extends "" ? `$${Params["length"]}` : `${Acc}, $${Params["length"]}`
+        >
+    : never
+  : [Acc, Params]
+
+/**
+ * Value of a column in a row: text, undefined for a parameter, or DEFAULT
+ * when the row has no such column
+ */
+type ColumnValue<Row extends InsertValuePart[], Column extends string> = Extract<
+  Row[number],
+  { readonly id: Column }
+> extends infer Part
+  ? [Part] extends [never]
+    ? "DEFAULT"
+    : Part extends InsertValuePart
+      ? Part["value"]
+      : never
+  : never
+
+type ConflictSQL<
+  Conflict extends InsertConflictState | undefined,
+  Params extends unknown[],
+> = Conflict extends InsertConflictState
+  ? Conflict["action"] extends ConflictAction
+    ? ` ON CONFLICT${Conflict["target"] extends string ? ` (${Conflict["target"]})` : ""} ${Conflict["action"]}${Conflict["set"] extends []
+        ? ""
+        : ` SET ${AssignmentsSQL<Conflict["set"], Params>}`}`
+    : ""
+  : ""
+
+type AssignmentsSQL<Parts extends InsertValuePart[], Params extends unknown[]> = Parts extends [
+  infer First extends InsertValuePart,
+  ...infer Rest extends InsertValuePart[],
+]
+  ? `${First["id"]} = ${First["value"] extends string ? First["value"] : `$${Params["length"]}`}${Rest extends []
+      ? ""
+      : `, ${AssignmentsSQL<Rest, First["value"] extends string ? Params : [...Params, unknown]>}`}`
+  : ""
+
+// ============================================================================
+// Result Inference
+// ============================================================================
+
+type InsertStateResult<State, Schema extends DatabaseSchema> = State extends InsertErrorState<
+  infer Message
+>
+  ? MatchError<Message>
+  : State extends InsertBuilderState
+    ? State["rows"] extends []
+      ? MatchError<"Missing VALUES">
+      : InsertResult<InsertStateSQL<State>, Schema>
+    : never
+
+// ============================================================================
+// Runtime Implementation
+// ============================================================================
+
+type RuntimeInsertState = {
+  readonly table: string | undefined
+  readonly columns: string[]
+  readonly rows: Record<string, unknown>[]
+  readonly conflict: RuntimeConflictState | undefined
+  readonly returning: FragmentPart[]
+}
+
+type RuntimeConflictState = {
+  readonly target: string | undefined
+  readonly action: ConflictAction | undefined
+  readonly set: { readonly id: string; readonly value: unknown }[]
+}
+
+const emptyState: RuntimeInsertState = {
+  table: undefined,
+  columns: [],
+  rows: [],
+  conflict: undefined,
+  returning: [],
+}
+
+class InsertQueryBuilderImpl {
+  constructor(private readonly state: RuntimeInsertState) {}
+
+  into(table: string) {
+    return this.next({ table: requireFragment(table, "into") })
+  }
+
+  /**
+   * @throws Error if none of the rows has a column, or a column name is
+   * not a plain identifier
+   */
+  values(rows: Record<string, unknown> | readonly Record<string, unknown>[]) {
+    const list = Array.isArray(rows) ? rows : [rows as Record<string, unknown>]
+    if (list.length === 0) {
+      return this
+    }
+    const columns = [...this.state.columns]
+    for (const row of list) {
+      for (const column of Object.keys(row)) {
+        if (!columns.includes(column)) {
+          columns.push(requireColumnName(column, "values"))
+        }
+      }
+    }
+    if (columns.length === 0) {
+      throw new Error("Rows passed to values() have no columns")
+    }
+    return this.next({ columns, rows: [...this.state.rows, ...list] })
+  }
+
+  onConflict(columns?: string | readonly string[]) {
+    const target = columns === undefined ? "" : fragmentText(columns).trim()
+    return this.next({
+      conflict: {
+        target: target === "" ? undefined : target,
+        action: this.state.conflict?.action,
+        set: this.state.conflict?.set ?? [],
+      },
+    })
+  }
+
+  doNothing() {
+    return this.next({ conflict: { ...this.requireConflict("doNothing"), action: "DO NOTHING", set: [] } })
+  }
+
+  /**
+   * @throws Error if onConflict() was not called with columns, no values
+   * are given, or a column name is not a plain identifier
+   */
+  doUpdate(values: Record<string, unknown> | readonly string[]) {
+    const conflict = this.requireConflict("doUpdate")
+    if (conflict.target === undefined) {
+      throw new Error("Call onConflict() with columns before doUpdate()")
+    }
+    const entries = Array.isArray(values)
+      ? values.map((column: string) => [column, sql.raw(`EXCLUDED.${column}`)] as const)
+      : Object.entries(values)
+    if (entries.length === 0) {
+      throw new Error("Empty values passed to doUpdate()")
+    }
+    let set = conflict.action === "DO UPDATE" ? conflict.set : []
+    for (const [column, value] of entries) {
+      set = upsertPart(set, { id: requireColumnName(column, "doUpdate"), value })
+    }
+    return this.next({ conflict: { ...conflict, action: "DO UPDATE", set } })
+  }
+
+  returning(columns: string | readonly string[], id?: string) {
+    const part = { id: requireId(id), sql: requireFragment(fragmentText(columns), "returning") }
+    return this.next({ returning: upsertPart(this.state.returning, part) })
+  }
+
+  removeReturning(id: string) {
+    return this.next({ returning: this.state.returning.filter((part) => part.id !== id) })
+  }
+
+  when(condition: boolean, callback: (builder: InsertQueryBuilderImpl) => InsertQueryBuilderImpl) {
+    return condition ? callback(this) : this
+  }
+
+  toString() {
+    return this.buildQuery("toString").sql
+  }
+
+  toQuery(): BoundQuery {
+    return this.buildQuery("toQuery")
+  }
+
+  /**
+   * @throws Error if the query has no rows, or an ON CONFLICT clause
+   * without an action
+   */
+  execute(handler: QueryHandler) {
+    const query = this.buildQuery("execute")
+    if (this.state.conflict !== undefined && this.state.conflict.action === undefined) {
+      throw new Error("Call doNothing() or doUpdate() after onConflict()")
+    }
+    return Promise.resolve(handler(query.sql, query.params))
+  }
+
+  /**
+   * @throws Error if into() or values() (with at least one row) was not called
+   */
+  private buildQuery(method: string): BoundQuery {
+    if (this.state.table === undefined || this.state.rows.length === 0) {
+      throw new Error(`Call into() and values() before ${method}()`)
+    }
+    return assembleInsertQuery(this.state)
+  }
+
+  /**
+   * @throws Error if onConflict() was not called
+   */
+  private requireConflict(method: string): RuntimeConflictState {
+    if (this.state.conflict === undefined) {
+      throw new Error(`Call onConflict() before ${method}()`)
+    }
+    return this.state.conflict
+  }
+
+  private next(changes: Partial<RuntimeInsertState>) {
+    return new InsertQueryBuilderImpl({ ...this.state, ...changes })
+  }
+}
+
+/**
+ * Assemble an INSERT query from builder state, binding row values and
+ * then DO UPDATE values
+ */
+function assembleInsertQuery(state: RuntimeInsertState): BoundQuery {
+  const params: unknown[] = []
+  const rows = state.rows.map((row) => {
+    const values = state.columns.map((column) =>
+      row[column] === undefined ? "DEFAULT" : bindValue(row[column], params),
+    )
+    return `(${values.join(", ")})`
+  })
+  const sql = [`INSERT INTO ${state.table} (${state.columns.join(", ")}) VALUES ${rows.join(", ")}`]
+  const conflict = state.conflict
+  if (conflict?.action !== undefined) {
+    sql.push(conflict.target === undefined ? "ON CONFLICT" : `ON CONFLICT (${conflict.target})`)
+    sql.push(conflict.action)
+    if (conflict.set.length > 0) {
+      const assignments = conflict.set.map((part) => `${part.id} = ${bindValue(part.value, params)}`)
+      sql.push(`SET ${assignments.join(", ")}`)
+    }
+  }
+  if (state.returning.length > 0) {
+    sql.push(`RETURNING ${partsSQL(state.returning, ", ")}`)
+  }
+  return { sql: sql.join(" "), params }
+}
+
+/**
+ * Create an INSERT query builder for a schema
+ * The schema is only used at type level
+ *
+ * @example
+ * ```typescript
+ * const insert = createInsertQuery<Schema>()
+ *   .into("users")
+ *   .values(rows)
+ *   .onConflict().doNothing()
+ *
+ * await insert.execute((sql, params) => pool.query(sql, params))
+ * ```
+ */
+export function createInsertQuery<Schema extends DatabaseSchema>(): InsertQueryBuilder<Schema> {
+  return new InsertQueryBuilderImpl(emptyState) as unknown as InsertQueryBuilder<Schema>
+}
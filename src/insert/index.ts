@@ -74,3 +74,23 @@ export type {
   GetInsertTableColumns,
 } from "./validator.js"
 
+
+// ============================================================================
+// Query Builder Exports
+// ============================================================================
+
+export { createInsertQuery } from "./builder.js"
+export type {
+  AnyInsertQueryBuilder,
+  BuildInsertSQL,
+  EmptyInsertState,
+  InsertBuilderResult,
+  InsertBuilderState,
+  InsertConflictState,
+  InsertConflictValues,
+  InsertErrorState,
+  InsertQueryBuilder,
+  InsertQuerySQL,
+  InsertRowValues,
+  InsertValuePart,
+} from "./builder.js"
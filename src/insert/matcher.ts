@@ -25,7 +25,14 @@ import type {
   DynamicQueryResult,
   IsStringLiteral,
 } from "../common/utils.js"
-import type { DatabaseSchema, GetDefaultSchema } from "../common/schema.js"
+import type {
+  DatabaseSchema,
+  GetDefaultSchema,
+  IsGeneratedColumn,
+  IsOptionalColumn,
+  TableColumnTypes,
+  UnwrapColumnType,
+} from "../common/schema.js"
 
 // ============================================================================
 // Re-exports for convenience
@@ -66,7 +73,7 @@ type MatchInsertClause<Insert extends InsertClause, Schema extends DatabaseSchem
     ? ResolveTableInSchema<Table, Schema> extends infer TableDef
       ? TableDef extends MatchError<string>
         ? TableDef
-        : MatchReturningClause<Returning, TableDef>
+        : MatchReturningClause<Returning, TableColumnTypes<TableDef>>
       : MatchError<"Failed to resolve table">
     : MatchError<"Invalid INSERT clause">
 
@@ -154,6 +161,9 @@ export type InsertResult<SQL extends string, Schema extends DatabaseSchema> =
 /**
  * Get the expected input type for an INSERT
  * Returns the column types that can be inserted
+ *
+ * Columns declared with a ColumnDescriptor are optional when they have a
+ * default (or are GENERATED BY DEFAULT); GENERATED ALWAYS columns cannot be written
  */
 export type InsertInput<SQL extends string, Schema extends DatabaseSchema> =
   import("./parser.js").ParseInsertSQL<SQL> extends SQLInsertQuery<infer Query>
@@ -166,10 +176,41 @@ export type InsertInput<SQL extends string, Schema extends DatabaseSchema> =
       >
       ? Columns extends InsertColumnList<infer ColList>
         ? BuildInputType<ColList, Table, Schema>
-        : ResolveTableInSchema<Table, Schema> // No column list, expect full row
+        : BuildRowInputType<Table, Schema> // No column list, expect full row
       : never
     : never
 
+/**
+ * Build input type for INSERT without a column list
+ */
+type BuildRowInputType<
+  Table extends TableRef,
+  Schema extends DatabaseSchema,
+> = ResolveTableInSchema<Table, Schema> extends infer TableDef
+  ? TableDef extends MatchError<string>
+    ? TableDef
+    : Flatten<
+        {
+          [K in keyof TableDef as InputColumnKind<TableDef[K]> extends "required" ? K : never]: UnwrapColumnType<
+            TableDef[K]
+          >
+        } & {
+          [K in keyof TableDef as InputColumnKind<TableDef[K]> extends "optional" ? K : never]?: UnwrapColumnType<
+            TableDef[K]
+          >
+        }
+      >
+  : never
+
+/**
+ * How a column appears in the INSERT input
+ */
+type InputColumnKind<Column> = IsGeneratedColumn<Column> extends true
+  ? "generated"
+  : IsOptionalColumn<Column> extends true
+    ? "optional"
+    : "required"
+
 /**
  * Build input type from column list
  */
@@ -192,17 +233,30 @@ type ExtractColumnTypes<Cols extends InsertColumnRef[], TableDef> = Cols extends
 ]
   ? First extends InsertColumnRef<infer ColName>
     ? ColName extends keyof TableDef
-      ? Rest extends InsertColumnRef[]
-        ? ExtractColumnTypes<Rest, TableDef> extends infer RestResult
-          ? RestResult extends MatchError<string>
-            ? RestResult
-            : Flatten<{ [K in ColName]: TableDef[ColName] } & RestResult>
-          : never
-        : { [K in ColName]: TableDef[ColName] }
+      ? InputColumn<ColName, TableDef[ColName]> extends infer Column
+        ? Column extends MatchError<string>
+          ? Column
+          : Rest extends InsertColumnRef[]
+            ? ExtractColumnTypes<Rest, TableDef> extends infer RestResult
+              ? RestResult extends MatchError<string>
+                ? RestResult
+                : Flatten<Column & RestResult>
+              : never
+            : Column
+        : never
       : MatchError<`Column '${ColName}' not found in table`>
     : MatchError<"Invalid column reference">
   : {}
 
+/**
+ * Input type of a single listed column
+ */
+type InputColumn<ColName extends string, Column> = InputColumnKind<Column> extends "generated"
+  ? MatchError<`Cannot insert into generated column '${ColName}'`>
+  : InputColumnKind<Column> extends "optional"
+    ? { [K in ColName]?: UnwrapColumnType<Column> }
+    : { [K in ColName]: UnwrapColumnType<Column> }
+
 // ============================================================================
 // Query Result Error Checking
 // ============================================================================
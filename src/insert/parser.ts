@@ -23,27 +23,28 @@ import type {
   SQLInsertQuery,
 } from "./ast.js"
 
-import type {
-  TableRef,
-  UnboundColumnRef,
-  SubquerySelectClause,
-} from "../common/ast.js"
+import type { TableRef, UnboundColumnRef, CTEDefinition } from "../common/ast.js"
 
 import type {
   NormalizeSQL,
   NextToken,
   ExtractUntil,
   SplitByComma,
+  IsParamPlaceholder,
+  ParamName,
 } from "../common/tokenizer.js"
 
 import type { Trim, ParseError, RemoveQuotes, Increment, Decrement } from "../common/utils.js"
 
+import type { ParseCTEList, ParseSelectSQL, SQLSelectQuery, SelectClause } from "../select/index.js"
+
 // ============================================================================
 // Main Entry Point
 // ============================================================================
 
 /**
  * Parse a SQL INSERT query string into an AST
+ * Supports: INSERT, WITH ... INSERT
  */
 export type ParseInsertSQL<T extends string> = ParseInsertQuery<NormalizeSQL<T>>
 
@@ -54,53 +55,73 @@ type ParseInsertQuery<T extends string> = NextToken<T> extends [
   infer First extends string,
   infer Rest extends string,
 ]
-  ? First extends "INSERT"
-    ? ParseInsertBody<Rest>
-    : ParseError<`Expected INSERT, got: ${First}`>
+  ? First extends "WITH"
+    ? ParseWithAndInsert<Rest>
+    : First extends "INSERT"
+      ? ParseInsertBody<Rest, undefined>
+      : ParseError<`Expected INSERT or WITH, got: ${First}`>
   : ParseError<"Empty query">
 
+/**
+ * Parse WITH clause followed by INSERT
+ */
+type ParseWithAndInsert<T extends string> = ParseCTEList<T> extends infer CTEResult
+  ? CTEResult extends {
+      ctes: infer CTEs extends CTEDefinition[]
+      rest: infer AfterCTEs extends string
+    }
+    ? NextToken<AfterCTEs> extends ["INSERT", infer InsertRest extends string]
+      ? ParseInsertBody<InsertRest, CTEs>
+      : ParseError<"Expected INSERT after WITH clause">
+    : CTEResult
+  : never
+
 // ============================================================================
 // INSERT Body Parser
 // ============================================================================
 
 /**
- * Parse INSERT INTO table_name ...
+ * Parse INSERT INTO table_name ... with optional CTEs
  */
-type ParseInsertBody<T extends string> = NextToken<T> extends [
-  infer First extends string,
-  infer Rest extends string,
-]
+type ParseInsertBody<
+  T extends string,
+  CTEs extends CTEDefinition[] | undefined,
+> = NextToken<T> extends [infer First extends string, infer Rest extends string]
   ? First extends "INTO"
-    ? ParseTableAndColumns<Rest>
+    ? ParseTableAndColumns<Rest, CTEs>
     : ParseError<`Expected INTO after INSERT, got: ${First}`>
   : ParseError<"Expected INTO after INSERT">
 
 /**
  * Parse table name and optional column list
  */
-type ParseTableAndColumns<T extends string> = NextToken<T> extends [
-  infer TablePart extends string,
-  infer Rest extends string,
-]
+type ParseTableAndColumns<
+  T extends string,
+  CTEs extends CTEDefinition[] | undefined,
+> = NextToken<T> extends [infer TablePart extends string, infer Rest extends string]
   ? ParseTableRef<TablePart> extends infer Table extends TableRef
-    ? CheckForColumns<Rest, Table>
+    ? CheckForColumns<Rest, Table, CTEs>
     : ParseError<"Invalid table reference">
   : ParseError<"Expected table name">
 
 /**
  * Check if there's a column list (parentheses) or go directly to VALUES/SELECT
  */
-type CheckForColumns<T extends string, Table extends TableRef> =
+type CheckForColumns<
+  T extends string,
+  Table extends TableRef,
+  CTEs extends CTEDefinition[] | undefined,
+> =
   NextToken<T> extends ["(", infer AfterParen extends string]
     ? ParseColumnList<AfterParen> extends infer ColResult
       ? ColResult extends {
           columns: infer Cols extends InsertColumnList
           rest: infer AfterCols extends string
         }
-        ? ParseInsertSource<AfterCols, Table, Cols>
+        ? ParseInsertSource<AfterCols, Table, Cols, CTEs>
         : ColResult // Error propagation
       : never
-    : ParseInsertSource<T, Table, undefined>
+    : ParseInsertSource<T, Table, undefined, CTEs>
 
 /**
  * Parse column list inside parentheses
@@ -138,18 +159,20 @@ type ParseInsertSource<
   T extends string,
   Table extends TableRef,
   Columns extends InsertColumnList | undefined,
+  CTEs extends CTEDefinition[] | undefined,
 > = NextToken<T> extends [infer First extends string, infer Rest extends string]
   ? First extends "VALUES"
-    ? ParseValuesClause<Rest, Table, Columns>
+    ? ParseValuesClause<Rest, Table, Columns, CTEs>
     : First extends "SELECT"
-      ? ParseInsertSelect<T, Table, Columns>
+      ? ParseInsertSelect<T, Table, Columns, CTEs>
       : First extends "DEFAULT"
         ? NextToken<Rest> extends ["VALUES", infer AfterValues extends string]
           ? BuildInsertClause<
               Table,
               Columns,
               InsertValuesClause<[InsertValueRow<[{ type: "Default" }]>]>,
-              AfterValues
+              AfterValues,
+              CTEs
             >
           : ParseError<"Expected VALUES after DEFAULT">
         : ParseError<`Expected VALUES or SELECT, got: ${First}`>
@@ -162,12 +185,13 @@ type ParseValuesClause<
   T extends string,
   Table extends TableRef,
   Columns extends InsertColumnList | undefined,
+  CTEs extends CTEDefinition[] | undefined,
 > = ParseValueRows<T, []> extends infer Result
   ? Result extends {
       rows: infer Rows extends InsertValueRow[]
       rest: infer Rest extends string
     }
-    ? BuildInsertClause<Table, Columns, InsertValuesClause<Rows>, Rest>
+    ? BuildInsertClause<Table, Columns, InsertValuesClause<Rows>, Rest, CTEs>
     : Result // Error propagation
   : never
 
@@ -230,12 +254,10 @@ type ParseSingleValue<T extends string> = T extends "DEFAULT"
         ? { readonly type: "Literal"; readonly value: false }
         : T extends `'${infer Val}'`
           ? { readonly type: "Literal"; readonly value: Val }
-          : T extends `$${infer Num}`
-            ? { readonly type: "Param"; readonly name: Num }
-            : T extends `:${infer Name}`
-              ? { readonly type: "Param"; readonly name: Name }
-              : IsNumericString<T> extends true
-                ? { readonly type: "Literal"; readonly value: T }
+          : IsParamPlaceholder<T> extends true
+            ? { readonly type: "Param"; readonly name: ParamName<T> }
+            : IsNumericString<T> extends true
+                ? { readonly type: "Literal"; readonly value: NumericValue<T> }
                 : { readonly type: "Expression"; readonly expr: T }
 
 /**
@@ -243,51 +265,49 @@ type ParseSingleValue<T extends string> = T extends "DEFAULT"
  */
 type IsNumericString<T extends string> = T extends `${number}` ? true : false
 
+/**
+ * Convert a numeric string to its number literal type
+ */
+type NumericValue<T extends string> = T extends `${infer N extends number}` ? N : number
+
 /**
  * Parse INSERT ... SELECT
+ * The SELECT is parsed with the SELECT parser; the INSERT's CTEs stay on the
+ * INSERT clause and are put in scope by the validator
  */
 type ParseInsertSelect<
   T extends string,
   Table extends TableRef,
   Columns extends InsertColumnList | undefined,
-> = ExtractSelectQuery<T> extends infer SelectResult
-  ? SelectResult extends {
-      query: infer Query extends SubquerySelectClause
-      rest: infer Rest extends string
-    }
-    ? BuildInsertClause<Table, Columns, InsertSelectClause<Query>, Rest>
-    : SelectResult // Error propagation
+  CTEs extends CTEDefinition[] | undefined,
+> = ExtractSelectQuery<T, ""> extends [
+  infer SelectPart extends string,
+  infer Rest extends string,
+]
+  ? ParseSelectSQL<SelectPart> extends infer Parsed
+    ? Parsed extends SQLSelectQuery<infer Query extends SelectClause>
+      ? BuildInsertClause<Table, Columns, InsertSelectClause<Query>, Rest, CTEs>
+      : Parsed extends ParseError<string>
+        ? Parsed
+        : ParseError<"INSERT ... SELECT does not support UNION, INTERSECT or EXCEPT">
+    : never
   : never
 
 /**
- * Placeholder select clause for INSERT ... SELECT
- * Full SELECT validation would require integrating the SELECT parser
+ * Extract the SELECT of INSERT ... SELECT
+ * Stops at ON CONFLICT or RETURNING; ON of a JOIN is part of the SELECT
+ * Returns [select, rest]
  */
-type PlaceholderSelectClause = {
-  readonly type: "SelectClause"
-  readonly columns: unknown
-  readonly from: TableRef
-  readonly joins: undefined
-  readonly where: undefined
-  readonly groupBy: undefined
-  readonly having: undefined
-  readonly orderBy: undefined
-  readonly limit: undefined
-  readonly offset: undefined
-  readonly distinct: false
-  readonly ctes: undefined
-}
-
-/**
- * Extract SELECT query for INSERT ... SELECT
- * This is a simplified extraction that finds the SELECT portion
- */
-type ExtractSelectQuery<T extends string> = ExtractUntil<T, InsertTerminators> extends [
-  infer SelectPart extends string,
-  infer Rest extends string,
-]
-  ? { query: PlaceholderSelectClause; rest: Rest }
-  : { query: PlaceholderSelectClause; rest: "" }
+type ExtractSelectQuery<T extends string, Acc extends string> = ExtractUntil<
+  T,
+  InsertTerminators
+> extends [infer Part extends string, infer Rest extends string]
+  ? NextToken<Rest> extends ["ON", infer AfterOn extends string]
+    ? NextToken<AfterOn> extends ["CONFLICT", string]
+      ? [Trim<`${Acc} ${Part}`>, Rest]
+      : ExtractSelectQuery<AfterOn, `${Acc} ${Part} ON`>
+    : [Trim<`${Acc} ${Part}`>, Rest]
+  : never
 
 /**
  * Keywords that terminate the INSERT source
@@ -306,6 +326,7 @@ type BuildInsertClause<
   Columns extends InsertColumnList | undefined,
   Source extends InsertSource,
   Rest extends string,
+  CTEs extends CTEDefinition[] | undefined,
 > = ParseOnConflict<Rest> extends infer ConflictResult
   ? ConflictResult extends {
       onConflict: infer OnConflict
@@ -322,7 +343,8 @@ type BuildInsertClause<
               Columns,
               Source,
               OnConflict extends OnConflictClause ? OnConflict : undefined,
-              Returning extends ReturningClause ? Returning : undefined
+              Returning extends ReturningClause ? Returning : undefined,
+              CTEs
             >
           >
         : never
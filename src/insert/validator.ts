@@ -5,7 +5,11 @@
  * It validates:
  * - Table existence in schema
  * - Column existence in target table
+ * - GENERATED ALWAYS columns are not written
+ * - Required columns are listed
  * - Value count matches column count
+ * - Literal values match column types
+ * - INSERT ... SELECT column count and types (with the INSERT's CTEs in scope)
  * - RETURNING clause column validation
  */
 
@@ -16,13 +20,14 @@ import type {
   InsertColumnRef,
   InsertValuesClause,
   InsertSelectClause,
+  InsertValue,
   InsertValueRow,
   ReturningClause,
   OnConflictClause,
   ConflictUpdateSet,
 } from "./ast.js"
 
-import type { TableRef, UnboundColumnRef } from "../common/ast.js"
+import type { CTEDefinition, TableRef, TableWildcard, UnboundColumnRef } from "../common/ast.js"
 
 import type {
   MatchError,
@@ -31,10 +36,28 @@ import type {
   IsParseError,
   HasTemplateHoles,
 } from "../common/utils.js"
-import type { DatabaseSchema, GetDefaultSchema } from "../common/schema.js"
+import type {
+  DatabaseSchema,
+  GetDefaultSchema,
+  GetTableDefaults,
+  IsGeneratedColumn,
+  IsRequiredColumn,
+  TableColumnTypes,
+  ValidateLiteralValue,
+} from "../common/schema.js"
 
 import type { ParseInsertSQL } from "./parser.js"
 
+import type {
+  BuildCTEContext,
+  MatchSelectQuery,
+  SelectClause,
+  SelectItem,
+  SQLSelectQuery,
+  ValidateQuery,
+  ValidateSelectClause,
+} from "../select/index.js"
+
 // ============================================================================
 // Re-exports for convenience
 // ============================================================================
@@ -51,7 +74,8 @@ export type { DatabaseSchema } from "../common/schema.js"
  */
 export type ValidateInsertOptions = {
   /**
-   * Whether to validate the value count matches column count
+   * Whether to validate the value count (or INSERT ... SELECT column count)
+   * matches column count
    * @default true
    */
   validateValueCount?: boolean
@@ -61,12 +85,41 @@ export type ValidateInsertOptions = {
    * @default true
    */
   validateReturning?: boolean
+
+  /**
+   * Whether to validate that all required columns are listed
+   * (columns whose type excludes null and that have no default)
+   * @default true
+   */
+  validateRequiredColumns?: boolean
+
+  /**
+   * Whether to validate literal values (and INSERT ... SELECT column types)
+   * against column types
+   * @default true
+   */
+  validateValueTypes?: boolean
 }
 
 /**
  * Default validation options - full validation enabled
  */
-type DefaultValidateOptions = { validateValueCount: true; validateReturning: true }
+type DefaultValidateOptions = {
+  validateValueCount: true
+  validateReturning: true
+  validateRequiredColumns: true
+  validateValueTypes: true
+}
+
+/**
+ * Options for a CTE body - full validation except RETURNING
+ */
+type CTEValidateOptions = {
+  validateValueCount: true
+  validateReturning: false
+  validateRequiredColumns: true
+  validateValueTypes: true
+}
 
 // ============================================================================
 // Main Validator Entry Point
@@ -96,6 +149,23 @@ export type ValidateInsertSQL<
         : "Failed to parse query"
     : never
 
+/**
+ * Validate an INSERT statement used as a CTE body
+ * The CTEs defined before it in the same WITH clause are in scope. The
+ * RETURNING list is left to the CTE, which resolves it as a SELECT list
+ */
+export type ValidateInsertCTE<
+  SQL extends string,
+  Schema extends DatabaseSchema,
+  CTEs extends CTEDefinition[],
+> = ParseInsertSQL<SQL> extends infer Parsed
+  ? Parsed extends ParseError<infer E>
+    ? E
+    : Parsed extends SQLInsertQuery<infer Query>
+      ? ValidateInsertClause<{ [K in keyof Query]: K extends "ctes" ? CTEs : Query[K] }, Schema, CTEValidateOptions>
+      : "Failed to parse query"
+  : never
+
 // ============================================================================
 // Insert Clause Validation
 // ============================================================================
@@ -112,25 +182,38 @@ type ValidateInsertClause<
   infer Columns,
   infer Source,
   infer OnConflict,
-  infer Returning
+  infer Returning,
+  infer CTEs
 >
-  ? ValidateTable<Table, Schema> extends infer TableResult
-    ? TableResult extends true
-      ? ValidateColumnsExist<Table, Columns, Schema> extends infer ColResult
-        ? ColResult extends true
-          ? ValidateSource<Source, Table, Columns, Schema, Options> extends infer SourceResult
-            ? SourceResult extends true
-              ? ValidateOnConflict<OnConflict, Table, Schema> extends infer ConflictResult
-                ? ConflictResult extends true
-                  ? ValidateReturningClause<Returning, Table, Schema, Options>
-                  : ConflictResult
-                : "ON CONFLICT validation failed"
-              : SourceResult
-            : "Source validation failed"
-          : ColResult
-        : "Column validation failed"
-      : TableResult
-    : "Table validation failed"
+  ? BuildCTEContext<CTEs, Schema> extends infer CTEContext
+    ? CTEContext extends MatchError<infer E>
+      ? E
+      : ValidateTable<Table, Schema> extends infer TableResult
+        ? TableResult extends true
+          ? ValidateColumnsExist<Table, Columns, Schema> extends infer ColResult
+            ? ColResult extends true
+              ? ValidateGeneratedColumns<Table, Columns, Source, Schema> extends infer GeneratedResult
+                ? GeneratedResult extends true
+                  ? ValidateRequiredColumns<Table, Columns, Source, Schema, Options> extends infer RequiredResult
+                    ? RequiredResult extends true
+                      ? ValidateSource<Source, Table, Columns, CTEs, Schema, Options> extends infer SourceResult
+                        ? SourceResult extends true
+                          ? ValidateOnConflict<OnConflict, Table, Schema> extends infer ConflictResult
+                            ? ConflictResult extends true
+                              ? ValidateReturningClause<Returning, Table, Schema, Options>
+                              : ConflictResult
+                            : "ON CONFLICT validation failed"
+                          : SourceResult
+                        : "Source validation failed"
+                      : RequiredResult
+                    : "Required column validation failed"
+                  : GeneratedResult
+                : "Generated column validation failed"
+              : ColResult
+            : "Column validation failed"
+          : TableResult
+        : "Table validation failed"
+    : "CTE validation failed"
   : "Invalid INSERT clause"
 
 // ============================================================================
@@ -233,6 +316,217 @@ type ValidateColumnExists<
       : `Invalid schema type`
   : `Invalid table reference`
 
+// ============================================================================
+// Generated Column Validation
+// ============================================================================
+
+/**
+ * Validate that no GENERATED ALWAYS column is written
+ * A generated column may only be listed when every row inserts DEFAULT into it
+ */
+type ValidateGeneratedColumns<
+  Table extends TableRef,
+  Columns extends InsertColumnList | undefined,
+  Source,
+  Schema extends DatabaseSchema,
+> = Columns extends InsertColumnList<infer ColList>
+  ? Table extends TableRef<infer TableName, infer _Alias, infer TableSchema>
+    ? ResolveSchemaName<TableSchema, Schema> extends infer SchemaName extends string
+      ? ValidateGeneratedColumnList<ColList, GetTableDefinition<TableName, SchemaName, Schema>, Source>
+      : true
+    : true
+  : true
+
+/**
+ * Validate the columns of a column list against the table definition
+ */
+type ValidateGeneratedColumnList<
+  ColList extends InsertColumnRef[],
+  TableDef,
+  Source,
+  Index extends unknown[] = [],
+> = ColList extends [InsertColumnRef<infer ColName>, ...infer Rest extends InsertColumnRef[]]
+  ? ColName extends keyof TableDef
+    ? IsGeneratedColumn<TableDef[ColName]> extends true
+      ? IsDefaultValueAt<Source, Index["length"]> extends true
+        ? ValidateGeneratedColumnList<Rest, TableDef, Source, [...Index, unknown]>
+        : `Cannot insert into generated column '${ColName}'`
+      : ValidateGeneratedColumnList<Rest, TableDef, Source, [...Index, unknown]>
+    : ValidateGeneratedColumnList<Rest, TableDef, Source, [...Index, unknown]>
+  : true
+
+/**
+ * Check if every VALUES row has DEFAULT at a position
+ */
+type IsDefaultValueAt<Source, Index extends number> = Source extends InsertValuesClause<infer Rows>
+  ? false extends (
+      Rows[number] extends infer Row
+        ? Row extends InsertValueRow<infer Values>
+          ? Values[Index] extends { readonly type: "Default" }
+            ? true
+            : false
+          : false
+        : never
+    )
+    ? false
+    : true
+  : false
+
+// ============================================================================
+// Required Column Validation
+// ============================================================================
+
+/**
+ * Validate that every required column appears in the column list
+ * A column is required when its type excludes null and it has no default
+ * (ColumnDescriptor default/generated, or listed in the schema `defaults`)
+ * Without a column list, values are positional: each VALUES row is checked
+ * by its non-DEFAULT values (DEFAULT VALUES gives none), and INSERT ... SELECT
+ * checks the columns its SELECT fills (ValidateSelectRequiredColumns)
+ */
+type ValidateRequiredColumns<
+  Table extends TableRef,
+  Columns extends InsertColumnList | undefined,
+  Source,
+  Schema extends DatabaseSchema,
+  Options extends ValidateInsertOptions,
+> = Options["validateRequiredColumns"] extends false
+  ? true
+  : Columns extends InsertColumnList<infer ColList>
+    ? ValidateProvidedColumns<Table, ColList[number]["column"], Schema>
+    : Source extends InsertValuesClause<infer Rows>
+      ? ValidatePositionalRows<Rows, Table, Schema>
+      : true
+
+/**
+ * Validate the required columns for each positional VALUES row
+ */
+type ValidatePositionalRows<
+  Rows extends InsertValueRow[],
+  Table extends TableRef,
+  Schema extends DatabaseSchema,
+> = Rows extends [infer First extends InsertValueRow, ...infer Rest extends InsertValueRow[]]
+  ? ValidatePositionalColumns<Table, GivenValues<First["values"]>, Schema> extends infer Result
+    ? Result extends true
+      ? ValidatePositionalRows<Rest, Table, Schema>
+      : Result
+    : never
+  : true
+
+/**
+ * The values of a row that are not DEFAULT
+ */
+type GivenValues<Values extends InsertValue[]> = Values extends [
+  infer First,
+  ...infer Rest extends InsertValue[],
+]
+  ? First extends { type: "Default" }
+    ? GivenValues<Rest>
+    : [First, ...GivenValues<Rest>]
+  : []
+
+/**
+ * Validate that every required column of the table is among the provided columns
+ */
+type ValidateProvidedColumns<Table extends TableRef, Provided, Schema extends DatabaseSchema> =
+  Table extends TableRef<infer TableName, infer _Alias, infer TableSchema>
+    ? ResolveSchemaName<TableSchema, Schema> extends infer SchemaName extends string
+      ? UnionToTuple<
+          Exclude<
+            RequiredColumnNames<GetTableDefinition<TableName, SchemaName, Schema>>,
+            Provided | GetTableDefaults<Schema, TableName, SchemaName>
+          >
+        > extends [infer Missing extends string, ...unknown[]]
+        ? `Missing required column '${Missing}' for table '${TableName}'`
+        : true
+      : true
+    : true
+
+/**
+ * Validate the required columns for positional values (no column list)
+ * The values fill the first columns of the table, but the column order of an
+ * object type is not known at type level, so the counts are compared: with no
+ * values every required column is missing, otherwise there must be at least
+ * as many values as required columns
+ */
+type ValidatePositionalColumns<
+  Table extends TableRef,
+  Given extends unknown[],
+  Schema extends DatabaseSchema,
+> = Given extends []
+  ? ValidateProvidedColumns<Table, never, Schema>
+  : Table extends TableRef<infer TableName, infer _Alias, infer TableSchema>
+    ? ResolveSchemaName<TableSchema, Schema> extends infer SchemaName extends string
+      ? UnionToTuple<
+          Exclude<
+            RequiredColumnNames<GetTableDefinition<TableName, SchemaName, Schema>>,
+            GetTableDefaults<Schema, TableName, SchemaName>
+          >
+        > extends infer Required extends unknown[]
+        ? Given extends [...{ [K in keyof Required]: unknown }, ...unknown[]]
+          ? true
+          : `Missing required columns for table '${TableName}' (${Required["length"]} required, ${Given["length"]} given)`
+        : true
+      : true
+    : true
+
+/**
+ * The column names of a table as a tuple (in no particular order)
+ */
+type TableColumnNames<Table extends TableRef, Schema extends DatabaseSchema> =
+  Table extends TableRef<infer TableName, infer _Alias, infer TableSchema>
+    ? UnionToTuple<keyof GetTableDefinition<TableName, ResolveSchemaName<TableSchema, Schema>, Schema>>
+    : []
+
+/**
+ * Names of the columns of a table that must be provided on INSERT
+ * Optional properties are never required
+ */
+type RequiredColumnNames<TableDef> = {
+  [K in keyof TableDef]-?: {} extends Pick<TableDef, K>
+    ? never
+    : IsRequiredColumn<TableDef[K]> extends true
+      ? K
+      : never
+}[keyof TableDef]
+
+/**
+ * Resolve the schema name of a table reference
+ */
+type ResolveSchemaName<
+  TableSchema extends string | undefined,
+  Schema extends DatabaseSchema,
+> = TableSchema extends string ? TableSchema : GetDefaultSchema<Schema>
+
+/**
+ * Get the raw definition of a table (column descriptors are kept)
+ */
+type GetTableDefinition<
+  TableName extends string,
+  SchemaName extends string,
+  Schema extends DatabaseSchema,
+> = SchemaName extends keyof Schema["schemas"]
+  ? TableName extends keyof Schema["schemas"][SchemaName]
+    ? Schema["schemas"][SchemaName][TableName]
+    : {}
+  : {}
+
+/**
+ * Convert a union to a tuple (used to report missing columns one at a time)
+ */
+type UnionToTuple<U, Last = LastOfUnion<U>> = [U] extends [never]
+  ? []
+  : [...UnionToTuple<Exclude<U, Last>>, Last]
+
+type LastOfUnion<U> =
+  UnionToIntersection<U extends unknown ? () => U : never> extends () => infer Last ? Last : never
+
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends (
+  arg: infer I,
+) => void
+  ? I
+  : never
+
 // ============================================================================
 // Source Validation
 // ============================================================================
@@ -244,16 +538,246 @@ type ValidateSource<
   Source,
   Table extends TableRef,
   Columns extends InsertColumnList | undefined,
+  CTEs,
   Schema extends DatabaseSchema,
   Options extends ValidateInsertOptions,
 > = Source extends InsertValuesClause<infer Rows>
-  ? Options["validateValueCount"] extends false
+  ? ValidateValueCounts<Rows, Table, Columns, Schema, Options> extends infer CountResult
+    ? CountResult extends true
+      ? Options["validateValueTypes"] extends false
+        ? true
+        : ValidateValueTypes<Rows, Table, Columns, Schema>
+      : CountResult
+    : "Value validation failed"
+  : Source extends InsertSelectClause<infer Query extends SelectClause>
+    ? ValidateSelectSource<Query, Table, Columns, CTEs, Schema, Options>
+    : true
+
+/**
+ * Validate INSERT ... SELECT
+ * The SELECT is validated as a full query and matched with the INSERT's CTEs in
+ * scope; its column count must equal the length of the column list, or not exceed
+ * the table's columns without one. The type of each SELECT column is then checked
+ * against the listed column. A row that cannot be typed (never, such as for
+ * unaliased literals sharing a name) leaves the types unchecked
+ */
+type ValidateSelectSource<
+  Query extends SelectClause,
+  Table extends TableRef,
+  Columns extends InsertColumnList | undefined,
+  CTEs,
+  Schema extends DatabaseSchema,
+  Options extends ValidateInsertOptions,
+> = WithCTEs<Query, CTEs> extends infer Select extends SelectClause
+  ? ValidateSelectClause<Select, Schema> extends infer SelectResult
+    ? SelectResult extends true
+      ? MatchSelectQuery<SQLSelectQuery<Select>, Schema> extends infer Matched
+        ? ([Matched] extends [never] ? {} : Matched) extends infer Row
+          ? Row extends MatchError<infer E>
+            ? E
+            : ValidateQuery<Row> extends infer RowResult
+              ? RowResult extends true
+                ? (
+                    Options["validateValueCount"] extends false
+                      ? true
+                      : ValidateSelectColumnCount<SelectedColumns<Query["columns"], Row>, Table, Columns, Schema>
+                  ) extends infer CountResult
+                  ? CountResult extends true
+                    ? ValidateSelectRequiredColumns<
+                        SelectedColumns<Query["columns"], Row>,
+                        Table,
+                        Columns,
+                        Schema,
+                        Options
+                      > extends infer RequiredResult
+                      ? RequiredResult extends true
+                        ? Options["validateValueTypes"] extends false
+                          ? true
+                          : ValidateSelectTypes<Query["columns"], Row, Table, Columns, Schema>
+                        : RequiredResult
+                      : never
+                    : CountResult
+                  : never
+                : RowResult
+              : never
+          : never
+        : never
+      : SelectResult
+    : never
+  : "Invalid INSERT ... SELECT"
+
+/**
+ * Put the CTEs of the INSERT on its SELECT
+ */
+type WithCTEs<Query extends SelectClause, CTEs> = CTEs extends CTEDefinition[]
+  ? { [K in keyof Query]: K extends "ctes" ? CTEs : Query[K] }
+  : Query
+
+/**
+ * The projected columns of a SELECT, one element per column
+ * Wildcards are expanded from the matched row
+ */
+type SelectedColumns<Columns, Row> = Columns extends SelectItem[]
+  ? [Extract<Columns[number], TableWildcard>] extends [never]
+    ? Columns
+    : UnionToTuple<keyof Row>
+  : UnionToTuple<keyof Row>
+
+/**
+ * Validate the column count of INSERT ... SELECT
+ */
+type ValidateSelectColumnCount<
+  Selected extends unknown[],
+  Table extends TableRef,
+  Columns extends InsertColumnList | undefined,
+  Schema extends DatabaseSchema,
+> = Columns extends InsertColumnList<infer ColList>
+  ? Selected["length"] extends ColList["length"]
     ? true
-    : ValidateValueRows<Rows, Table, Columns, Schema>
-  : Source extends InsertSelectClause
-    ? true // SELECT validation would need full SELECT validation
+    : `SELECT column count (${Selected["length"]}) does not match column count (${ColList["length"]})`
+  : Table extends TableRef<infer TableName, infer _Alias, infer _TableSchema>
+    ? TableColumnNames<Table, Schema> extends infer TableColumns extends unknown[]
+      ? TableColumns extends [...{ [K in keyof Selected]: unknown }, ...unknown[]]
+        ? true
+        : `SELECT column count (${Selected["length"]}) exceeds column count (${TableColumns["length"]}) of table '${TableName}'`
+      : true
     : true
 
+/**
+ * Validate the required columns of INSERT ... SELECT without a column list
+ * The SELECT columns fill the first columns of the table by position
+ */
+type ValidateSelectRequiredColumns<
+  Selected extends unknown[],
+  Table extends TableRef,
+  Columns extends InsertColumnList | undefined,
+  Schema extends DatabaseSchema,
+  Options extends ValidateInsertOptions,
+> = Options["validateRequiredColumns"] extends false
+  ? true
+  : Columns extends InsertColumnList
+    ? true
+    : ValidatePositionalColumns<Table, Selected, Schema>
+
+/**
+ * Validate the types of INSERT ... SELECT columns against the listed columns
+ * Each SELECT item is typed from the matched row by its alias. Without a column
+ * list, or with a wildcard in the SELECT, columns would have to be paired by the
+ * order of an object type's keys, so the check is skipped
+ */
+type ValidateSelectTypes<
+  Items,
+  Row,
+  Table extends TableRef,
+  Columns extends InsertColumnList | undefined,
+  Schema extends DatabaseSchema,
+> = Columns extends InsertColumnList<infer ColList>
+  ? Items extends SelectItem[]
+    ? [Extract<Items[number], TableWildcard>] extends [never]
+      ? Table extends TableRef<infer TableName, infer _Alias, infer TableSchema>
+        ? ValidateSelectItemTypes<
+            Items,
+            ColList,
+            Row,
+            TableColumnTypes<GetTableDefinition<TableName, ResolveSchemaName<TableSchema, Schema>, Schema>>
+          >
+        : true
+      : true
+    : true
+  : true
+
+/**
+ * Check each SELECT item against the column at the same position
+ */
+type ValidateSelectItemTypes<
+  Items extends SelectItem[],
+  ColList extends InsertColumnRef[],
+  Row,
+  ColumnTypes,
+  Position extends unknown[] = [unknown],
+> = Items extends [infer Item, ...infer RestItems extends SelectItem[]]
+  ? ColList extends [
+      InsertColumnRef<infer ColName>,
+      ...infer RestCols extends InsertColumnRef[],
+    ]
+    ? (Item extends { alias: infer Alias extends keyof Row } ? Row[Alias] : unknown) extends infer
+        SelectType
+      ? (ColName extends keyof ColumnTypes ? ColumnTypes[ColName] : unknown) extends infer ColumnType
+        ? IsSelectTypeAssignable<SelectType, ColumnType> extends true
+          ? ValidateSelectItemTypes<RestItems, RestCols, Row, ColumnTypes, [...Position, unknown]>
+          : `Column ${Position["length"]} of SELECT is ${TypeName<SelectType>} but '${ColName}' expects ${TypeName<ColumnType>}`
+        : never
+      : never
+    : true
+  : true
+
+/**
+ * Check a SELECT column type against a column type
+ * NULL is not checked (the rows are not known); numbers are accepted for string
+ * columns, as for literal values
+ */
+type IsSelectTypeAssignable<Value, ColumnType> = unknown extends Value
+  ? true
+  : unknown extends ColumnType
+    ? true
+    : [Extract<ColumnType, object>] extends [never]
+      ? [Exclude<Value, null | undefined>] extends [never]
+        ? true
+        : [Exclude<Value, null | undefined>] extends [ColumnType]
+          ? true
+          : [Exclude<Value, null | undefined>] extends [number]
+            ? string extends ColumnType
+              ? true
+              : false
+            : false
+      : true
+
+/**
+ * Name a type for error messages: string, number, boolean, null or literals
+ */
+type TypeName<T> = boolean extends T
+  ? [Exclude<T, boolean | undefined>] extends [never]
+    ? "boolean"
+    : `boolean | ${TypeName<Exclude<T, boolean>>}`
+  : JoinTypeNames<UnionToTuple<Exclude<T, undefined>>>
+
+/**
+ * Join the names of the members of a union
+ */
+type JoinTypeNames<Members extends unknown[]> = Members extends [infer Only]
+  ? MemberTypeName<Only>
+  : Members extends [infer First, ...infer Rest]
+    ? `${MemberTypeName<First>} | ${JoinTypeNames<Rest>}`
+    : "never"
+
+/**
+ * Name a single member of a union
+ */
+type MemberTypeName<T> = T extends null
+  ? "null"
+  : T extends string
+    ? string extends T
+      ? "string"
+      : `'${T}'`
+    : T extends number
+      ? number extends T
+        ? "number"
+        : `${T}`
+      : T extends boolean
+        ? `${T}`
+        : "object"
+
+/**
+ * Validate value counts unless disabled
+ */
+type ValidateValueCounts<
+  Rows extends InsertValueRow[],
+  Table extends TableRef,
+  Columns extends InsertColumnList | undefined,
+  Schema extends DatabaseSchema,
+  Options extends ValidateInsertOptions,
+> = Options["validateValueCount"] extends false ? true : ValidateValueRows<Rows, Table, Columns, Schema>
+
 /**
  * Validate value rows have correct count
  */
@@ -289,6 +813,70 @@ type ValidateValueCount<
     : `Value count (${Values["length"]}) does not match column count (${ColList["length"]})`
   : true // Without explicit columns, we can't validate count at compile time
 
+/**
+ * Validate literal values of each row against the types of the listed columns
+ * Without a column list, values are positional and the check is skipped
+ */
+type ValidateValueTypes<
+  Rows extends InsertValueRow[],
+  Table extends TableRef,
+  Columns extends InsertColumnList | undefined,
+  Schema extends DatabaseSchema,
+> = Columns extends InsertColumnList<infer ColList>
+  ? Table extends TableRef<infer TableName, infer _Alias, infer TableSchema>
+    ? ValidateRowTypes<Rows, ColList, GetTableDefinition<TableName, ResolveSchemaName<TableSchema, Schema>, Schema>>
+    : true
+  : true
+
+/**
+ * Validate the literal values of each row
+ */
+type ValidateRowTypes<
+  Rows extends InsertValueRow[],
+  ColList extends InsertColumnRef[],
+  TableDef,
+> = Rows extends [infer First, ...infer Rest extends InsertValueRow[]]
+  ? First extends InsertValueRow<infer Values>
+    ? ValidateValueList<Values, ColList, TableDef> extends infer Result
+      ? Result extends true
+        ? ValidateRowTypes<Rest, ColList, TableDef>
+        : Result
+      : never
+    : true
+  : true
+
+/**
+ * Validate values against the columns at the same positions
+ */
+type ValidateValueList<
+  Values extends unknown[],
+  ColList extends InsertColumnRef[],
+  TableDef,
+> = Values extends [infer Value, ...infer RestValues]
+  ? ColList extends [
+      InsertColumnRef<infer ColName>,
+      ...infer RestCols extends InsertColumnRef[],
+    ]
+    ? ValidateValue<Value, ColName, TableDef> extends infer Result
+      ? Result extends true
+        ? ValidateValueList<RestValues, RestCols, TableDef>
+        : Result
+      : never
+    : true
+  : true
+
+/**
+ * Validate a single value (only literals are checked)
+ */
+type ValidateValue<Value, ColName extends string, TableDef> = Value extends {
+  readonly type: "Literal"
+  readonly value: infer Literal
+}
+  ? ColName extends keyof TableDef
+    ? ValidateLiteralValue<Literal, TableDef[ColName], ColName>
+    : true
+  : true
+
 // ============================================================================
 // ON CONFLICT Validation
 // ============================================================================
@@ -357,17 +945,43 @@ type ValidateUpdateSetList<
   Table extends TableRef,
   Schema extends DatabaseSchema,
 > = Updates extends [infer First, ...infer Rest]
-  ? First extends ConflictUpdateSet<infer Col, infer _Val>
+  ? First extends ConflictUpdateSet<infer Col, infer Val>
     ? ValidateColumnExists<Col, Table, Schema> extends infer Result
       ? Result extends true
-        ? Rest extends ConflictUpdateSet[]
-          ? ValidateUpdateSetList<Rest, Table, Schema>
-          : true
+        ? ValidateUpdatedColumn<Col, Val, Table, Schema> extends infer UpdateResult
+          ? UpdateResult extends true
+            ? Rest extends ConflictUpdateSet[]
+              ? ValidateUpdateSetList<Rest, Table, Schema>
+              : true
+            : UpdateResult
+          : "SET column validation failed"
         : Result
       : "SET column validation failed"
     : true
   : true
 
+/**
+ * Validate that a SET column is not GENERATED ALWAYS (unless set to DEFAULT)
+ */
+type ValidateUpdatedColumn<
+  Col extends string,
+  Value,
+  Table extends TableRef,
+  Schema extends DatabaseSchema,
+> = Value extends { readonly type: "Default" }
+  ? true
+  : Table extends TableRef<infer TableName, infer _Alias, infer TableSchema>
+    ? ResolveSchemaName<TableSchema, Schema> extends infer SchemaName extends string
+      ? GetTableDefinition<TableName, SchemaName, Schema> extends infer TableDef
+        ? Col extends keyof TableDef
+          ? IsGeneratedColumn<TableDef[Col]> extends true
+            ? `Cannot update generated column '${Col}'`
+            : true
+          : true
+        : true
+      : true
+    : true
+
 // ============================================================================
 // RETURNING Validation
 // ============================================================================
@@ -440,13 +1054,13 @@ export type GetInsertTableColumns<SQL extends string, Schema extends DatabaseSch
           ? GetDefaultSchema<Schema> extends infer DefaultSchema extends string
             ? DefaultSchema extends keyof Schema["schemas"]
               ? TableName extends keyof Schema["schemas"][DefaultSchema]
-                ? Schema["schemas"][DefaultSchema][TableName]
+                ? TableColumnTypes<Schema["schemas"][DefaultSchema][TableName]>
                 : never
               : never
             : never
           : TableSchema extends keyof Schema["schemas"]
             ? TableName extends keyof Schema["schemas"][TableSchema]
-              ? Schema["schemas"][TableSchema][TableName]
+              ? TableColumnTypes<Schema["schemas"][TableSchema][TableName]>
               : never
             : never
         : never
@@ -0,0 +1,193 @@
+/**
+ * AST type definitions specific to SQL MERGE queries
+ *
+ * This module contains AST nodes that are specific to MERGE:
+ * - MergeClause - the main MERGE statement
+ * - WHEN [NOT] MATCHED clauses and their actions
+ * - RETURNING with merge_action() (PostgreSQL 17+)
+ */
+
+import type { Flatten } from "../common/utils.js"
+import type {
+  TableWildcard,
+  ValidatableColumnRef,
+  TableRef,
+  TableSource,
+  WhereExpr,
+} from "../common/ast.js"
+
+// ============================================================================
+// Action Values
+// ============================================================================
+
+/**
+ * A value in an UPDATE SET assignment or INSERT VALUES list
+ * Expressions keep the column references found in them for validation
+ */
+export type MergeValue =
+  | { readonly type: "Literal"; readonly value: string | number | boolean | null }
+  | { readonly type: "Default" }
+  | { readonly type: "Param"; readonly name: string | number }
+  | { readonly type: "ColumnRef"; readonly ref: ValidatableColumnRef }
+  | { readonly type: "Expression"; readonly expr: string; readonly columnRefs: ValidatableColumnRef[] }
+
+/**
+ * A single SET assignment of WHEN MATCHED THEN UPDATE: column = value
+ */
+export type MergeSetAssignment<
+  Column extends string = string,
+  Value extends MergeValue = MergeValue,
+> = {
+  readonly type: "MergeSetAssignment"
+  readonly column: Column
+  readonly value: Value
+}
+
+// ============================================================================
+// WHEN Clause Actions
+// ============================================================================
+
+/**
+ * THEN UPDATE SET ...
+ */
+export type MergeUpdateAction<Assignments extends MergeSetAssignment[] = MergeSetAssignment[]> = {
+  readonly type: "MergeUpdateAction"
+  readonly assignments: Assignments
+}
+
+/**
+ * THEN DELETE
+ */
+export type MergeDeleteAction = {
+  readonly type: "MergeDeleteAction"
+}
+
+/**
+ * THEN INSERT [(columns)] VALUES (...) or THEN INSERT DEFAULT VALUES
+ * Columns are undefined when the column list is omitted (values are positional)
+ */
+export type MergeInsertAction<
+  Columns extends string[] | undefined = string[] | undefined,
+  Values extends MergeValue[] = MergeValue[],
+> = {
+  readonly type: "MergeInsertAction"
+  readonly columns: Columns
+  readonly values: Values
+}
+
+/**
+ * THEN DO NOTHING
+ */
+export type MergeDoNothingAction = {
+  readonly type: "MergeDoNothingAction"
+}
+
+/**
+ * Union of WHEN clause actions
+ */
+export type MergeAction =
+  | MergeUpdateAction
+  | MergeDeleteAction
+  | MergeInsertAction
+  | MergeDoNothingAction
+
+// ============================================================================
+// WHEN Clauses
+// ============================================================================
+
+/**
+ * Which rows a WHEN clause applies to
+ * - "MATCHED" - a source row joins a target row
+ * - "NOT MATCHED" - a source row has no target row (also written NOT MATCHED BY TARGET)
+ * - "NOT MATCHED BY SOURCE" - a target row has no source row (PostgreSQL 17+)
+ */
+export type MergeMatchKind = "MATCHED" | "NOT MATCHED" | "NOT MATCHED BY SOURCE"
+
+/**
+ * WHEN [NOT] MATCHED [AND condition] THEN action
+ */
+export type MergeWhenClause<
+  Match extends MergeMatchKind = MergeMatchKind,
+  Condition extends WhereExpr | undefined = WhereExpr | undefined,
+  Action extends MergeAction = MergeAction,
+> = {
+  readonly type: "MergeWhenClause"
+  readonly match: Match
+  readonly condition: Condition
+  readonly action: Action
+}
+
+// ============================================================================
+// RETURNING Clause (PostgreSQL 17+)
+// ============================================================================
+
+/**
+ * A column in RETURNING, optionally renamed with AS
+ */
+export type MergeReturningColumn<
+  Ref extends ValidatableColumnRef = ValidatableColumnRef,
+  Alias extends string = string,
+> = {
+  readonly type: "MergeReturningColumn"
+  readonly ref: Ref
+  readonly alias: Alias
+}
+
+/**
+ * merge_action() in RETURNING - the action that produced the row
+ */
+export type MergeActionRef<Alias extends string = string> = {
+  readonly type: "MergeActionRef"
+  readonly alias: Alias
+}
+
+/**
+ * A RETURNING item: column, alias.* or merge_action()
+ */
+export type MergeReturningItem = MergeReturningColumn | TableWildcard | MergeActionRef
+
+/**
+ * RETURNING clause for MERGE
+ * * returns the columns of both the source and the target
+ */
+export type MergeReturningClause<
+  Items extends "*" | MergeReturningItem[] = "*" | MergeReturningItem[],
+> = {
+  readonly type: "ReturningClause"
+  readonly columns: Items
+}
+
+// ============================================================================
+// Merge Clause
+// ============================================================================
+
+/**
+ * The main MERGE clause AST
+ */
+export type MergeClause<
+  Target extends TableRef = TableRef,
+  Source extends TableSource = TableSource,
+  On extends WhereExpr = WhereExpr,
+  When extends MergeWhenClause[] = MergeWhenClause[],
+  Returning extends MergeReturningClause | undefined = MergeReturningClause | undefined,
+> = Flatten<{
+  readonly type: "MergeClause"
+  readonly target: Target
+  readonly source: Source
+  readonly on: On
+  readonly when: When
+  readonly returning: Returning
+}>
+
+// ============================================================================
+// SQL Query Wrapper
+// ============================================================================
+
+/**
+ * The top-level MERGE SQL query AST
+ */
+export type SQLMergeQuery<Query extends MergeClause = MergeClause> = {
+  readonly type: "SQLQuery"
+  readonly queryType: "MERGE"
+  readonly query: Query
+}
@@ -0,0 +1,69 @@
+/**
+ * MERGE Query Module
+ *
+ * This module provides type-level parsing, validation, and schema matching
+ * for SQL MERGE queries (PostgreSQL 15+, RETURNING from PostgreSQL 17).
+ *
+ * @example
+ * ```typescript
+ * import type { ParseMergeSQL, MergeResult, ValidateMergeSQL } from './merge'
+ *
+ * // Parse MERGE query
+ * type AST = ParseMergeSQL<`
+ *   MERGE INTO users AS u USING imports AS i ON u.email = i.email
+ *   WHEN MATCHED THEN UPDATE SET name = i.name
+ *   WHEN NOT MATCHED THEN INSERT (email, name) VALUES (i.email, i.name)
+ * `>
+ *
+ * // Get result type (for RETURNING clause)
+ * type Result = MergeResult<"MERGE INTO users ... RETURNING merge_action(), u.id", Schema>
+ *
+ * // Validate query
+ * type Valid = ValidateMergeSQL<"MERGE INTO users ...", Schema>
+ * ```
+ */
+
+// ============================================================================
+// Parser Exports
+// ============================================================================
+
+export type { ParseMergeSQL } from "./parser.js"
+
+// ============================================================================
+// AST Type Exports
+// ============================================================================
+
+export type {
+  // Query wrapper
+  SQLMergeQuery,
+  // Main clause
+  MergeClause,
+  // WHEN clauses
+  MergeWhenClause,
+  MergeMatchKind,
+  // Actions
+  MergeAction,
+  MergeUpdateAction,
+  MergeDeleteAction,
+  MergeInsertAction,
+  MergeDoNothingAction,
+  MergeSetAssignment,
+  MergeValue,
+  // RETURNING clause
+  MergeReturningClause,
+  MergeReturningItem,
+  MergeReturningColumn,
+  MergeActionRef,
+} from "./ast.js"
+
+// ============================================================================
+// Matcher Exports
+// ============================================================================
+
+export type { MatchMergeQuery, MergeResult, ValidateMergeResult } from "./matcher.js"
+
+// ============================================================================
+// Validator Exports
+// ============================================================================
+
+export type { ValidateMergeSQL, ValidateMergeOptions, IsValidMerge } from "./validator.js"
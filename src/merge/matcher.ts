@@ -0,0 +1,308 @@
+/**
+ * Type-level schema matcher for MERGE queries
+ *
+ * Takes a parsed SQL MERGE AST and a database schema, returns the result row type
+ * (for the PostgreSQL 17+ RETURNING clause).
+ */
+
+import type {
+  SQLMergeQuery,
+  MergeClause,
+  MergeWhenClause,
+  MergeUpdateAction,
+  MergeDeleteAction,
+  MergeInsertAction,
+  MergeReturningClause,
+  MergeReturningColumn,
+  MergeActionRef,
+} from "./ast.js"
+
+import type {
+  TableRef,
+  TableSource,
+  DerivedTableRef,
+  UnboundColumnRef,
+  TableColumnRef,
+  TableWildcard,
+} from "../common/ast.js"
+
+import type {
+  Flatten,
+  MatchError,
+  IsMatchError,
+  DynamicQuery,
+  DynamicQueryResult,
+  IsStringLiteral,
+} from "../common/utils.js"
+import type { DatabaseSchema, GetDefaultSchema, TableColumnTypes } from "../common/schema.js"
+
+import type { SQLSelectQuery, SelectClause, MatchSelectQuery } from "../select/index.js"
+
+// ============================================================================
+// Re-exports for convenience
+// ============================================================================
+
+export type { MatchError } from "../common/utils.js"
+export type { DatabaseSchema } from "../common/schema.js"
+
+// ============================================================================
+// Main Matcher
+// ============================================================================
+
+/**
+ * Match a parsed SQL MERGE query against a schema to get the result type
+ *
+ * For MERGE without RETURNING: returns void
+ * For MERGE with RETURNING *: returns source and target columns
+ * For MERGE with RETURNING columns: returns the listed columns,
+ * merge_action() is typed with the actions of the WHEN clauses
+ * For dynamic queries: returns DynamicQueryResult
+ */
+export type MatchMergeQuery<Query, Schema extends DatabaseSchema> = Query extends DynamicQuery
+  ? DynamicQueryResult
+  : Query extends SQLMergeQuery<infer MergeQuery>
+    ? MatchMergeClause<MergeQuery, Schema>
+    : MatchError<"Invalid query type">
+
+/**
+ * Match a MERGE clause against the schema
+ */
+type MatchMergeClause<Merge extends MergeClause, Schema extends DatabaseSchema> =
+  Merge extends MergeClause<infer Target, infer Source, infer _On, infer When, infer Returning>
+    ? Returning extends undefined
+      ? void // No RETURNING clause, MERGE returns nothing
+      : ResolveTableInSchema<Target, Schema> extends infer TargetDef
+        ? TargetDef extends MatchError<string>
+          ? TargetDef
+          : ResolveSource<Source, Schema> extends infer SourceDef
+            ? SourceDef extends MatchError<string>
+              ? SourceDef
+              : MatchReturningClause<
+                  Returning,
+                  Target["alias"],
+                  TargetDef,
+                  Source["alias"],
+                  HasSourceMissingRows<When> extends true ? NullableColumns<SourceDef> : SourceDef,
+                  MergeActions<When>
+                >
+            : MatchError<"Failed to resolve source">
+        : MatchError<"Failed to resolve table">
+    : MatchError<"Invalid MERGE clause">
+
+// ============================================================================
+// Table Resolution
+// ============================================================================
+
+/**
+ * Resolve a table in the database schema
+ */
+type ResolveTableInSchema<Table extends TableRef, Schema extends DatabaseSchema> =
+  Table extends TableRef<infer TableName, infer _Alias, infer TableSchema>
+    ? TableSchema extends undefined
+      ? GetDefaultSchema<Schema> extends infer DefaultSchema extends string
+        ? DefaultSchema extends keyof Schema["schemas"]
+          ? TableName extends keyof Schema["schemas"][DefaultSchema]
+            ? TableColumnTypes<Schema["schemas"][DefaultSchema][TableName]>
+            : MatchError<`Table '${TableName}' not found in default schema '${DefaultSchema}'`>
+          : MatchError<`Default schema not found`>
+        : MatchError<`Cannot determine default schema`>
+      : TableSchema extends string
+        ? TableSchema extends keyof Schema["schemas"]
+          ? TableName extends keyof Schema["schemas"][TableSchema]
+            ? TableColumnTypes<Schema["schemas"][TableSchema][TableName]>
+            : MatchError<`Table '${TableName}' not found in schema '${TableSchema}'`>
+          : MatchError<`Schema '${TableSchema}' not found`>
+        : MatchError<`Invalid schema type`>
+    : MatchError<`Invalid table reference`>
+
+/**
+ * Resolve the source columns: a table, or the row type of a subquery
+ */
+type ResolveSource<Source extends TableSource, Schema extends DatabaseSchema> =
+  Source extends DerivedTableRef<infer Query extends SelectClause, infer _Alias>
+    ? MatchSelectQuery<SQLSelectQuery<Query>, Schema>
+    : Source extends TableRef
+      ? ResolveTableInSchema<Source, Schema>
+      : MatchError<"Invalid MERGE source">
+
+// ============================================================================
+// WHEN Clause Analysis
+// ============================================================================
+
+/**
+ * The values merge_action() can return: the actions of the WHEN clauses
+ * (DO NOTHING produces no row)
+ */
+type MergeActions<When extends MergeWhenClause[]> = When[number]["action"] extends infer Action
+  ? Action extends MergeInsertAction
+    ? "INSERT"
+    : Action extends MergeUpdateAction
+      ? "UPDATE"
+      : Action extends MergeDeleteAction
+        ? "DELETE"
+        : never
+  : never
+
+/**
+ * Check if a WHEN NOT MATCHED BY SOURCE clause returns rows;
+ * those rows have no source row, so source columns are null
+ */
+type HasSourceMissingRows<When extends MergeWhenClause[]> = When extends [
+  infer First,
+  ...infer Rest extends MergeWhenClause[],
+]
+  ? First extends MergeWhenClause<"NOT MATCHED BY SOURCE", infer _Condition, infer Action>
+    ? Action extends MergeUpdateAction | MergeDeleteAction
+      ? true
+      : HasSourceMissingRows<Rest>
+    : HasSourceMissingRows<Rest>
+  : false
+
+/**
+ * Make every column nullable
+ */
+type NullableColumns<Row> = { [K in keyof Row]: Row[K] | null }
+
+// ============================================================================
+// RETURNING Clause Matching
+// ============================================================================
+
+/**
+ * Match RETURNING clause to get result type
+ * * returns the source columns followed by the target columns,
+ * so a name in both tables is typed from the target
+ */
+type MatchReturningClause<
+  Returning,
+  TargetAlias extends string,
+  TargetDef,
+  SourceAlias extends string,
+  SourceDef,
+  Actions extends string,
+> = Returning extends MergeReturningClause<infer Items>
+  ? Items extends "*"
+    ? Flatten<Omit<SourceDef, keyof TargetDef> & TargetDef>
+    : Items extends unknown[]
+      ? MatchReturningItems<
+          Items,
+          { [K in TargetAlias]: TargetDef } & { [K in SourceAlias]: SourceDef },
+          TargetDef,
+          SourceDef,
+          Actions
+        > extends infer Result
+        ? Result extends MatchError<string>
+          ? Result
+          : Flatten<Result>
+        : never
+      : MatchError<"Invalid RETURNING clause">
+  : MatchError<"Invalid RETURNING clause">
+
+/**
+ * Match RETURNING items to build result type
+ */
+type MatchReturningItems<
+  Items extends unknown[],
+  Context,
+  TargetDef,
+  SourceDef,
+  Actions extends string,
+> = Items extends [infer First, ...infer Rest]
+  ? MatchReturningItem<First, Context, TargetDef, SourceDef, Actions> extends infer ItemResult
+    ? ItemResult extends MatchError<string>
+      ? ItemResult
+      : MatchReturningItems<Rest, Context, TargetDef, SourceDef, Actions> extends infer RestResult
+        ? RestResult extends MatchError<string>
+          ? RestResult
+          : ItemResult & RestResult
+        : never
+    : never
+  : {}
+
+/**
+ * Match a single RETURNING item
+ */
+type MatchReturningItem<Item, Context, TargetDef, SourceDef, Actions extends string> =
+  Item extends MergeActionRef<infer Alias>
+    ? { [K in Alias]: Actions }
+    : Item extends TableWildcard<infer TableOrAlias>
+      ? TableOrAlias extends keyof Context
+        ? Context[TableOrAlias]
+        : MatchError<`Table or alias '${TableOrAlias}' not found`>
+      : Item extends MergeReturningColumn<infer Ref, infer Alias>
+        ? MatchReturningColumn<Ref, Context, TargetDef, SourceDef> extends infer ColumnType
+          ? IsMatchError<ColumnType> extends true
+            ? ColumnType
+            : { [K in Alias]: ColumnType }
+          : never
+        : MatchError<"Invalid RETURNING item">
+
+/**
+ * Get the type of a RETURNING column (unqualified names are looked up in the target first)
+ */
+type MatchReturningColumn<Ref, Context, TargetDef, SourceDef> =
+  Ref extends TableColumnRef<infer TableOrAlias, infer Column, infer _Schema>
+    ? TableOrAlias extends keyof Context
+      ? Column extends keyof Context[TableOrAlias]
+        ? Context[TableOrAlias][Column]
+        : MatchError<`Column '${Column}' not found in '${TableOrAlias}'`>
+      : MatchError<`Table or alias '${TableOrAlias}' not found`>
+    : Ref extends UnboundColumnRef<infer Column>
+      ? Column extends keyof TargetDef
+        ? TargetDef[Column]
+        : Column extends keyof SourceDef
+          ? SourceDef[Column]
+          : MatchError<`Column '${Column}' not found in table`>
+      : MatchError<"Invalid column reference">
+
+// ============================================================================
+// Convenience Types
+// ============================================================================
+
+/**
+ * Parse MERGE and match against schema in one step
+ *
+ * Returns the result type of the MERGE:
+ * - void if no RETURNING clause
+ * - Row type of the RETURNING items otherwise
+ * - DynamicQueryResult for dynamic/non-literal queries
+ */
+export type MergeResult<SQL extends string, Schema extends DatabaseSchema> =
+  IsStringLiteral<SQL> extends false
+    ? DynamicQueryResult
+    : MatchMergeQuery<import("./parser.js").ParseMergeSQL<SQL>, Schema>
+
+/**
+ * Check if a MERGE result has errors
+ */
+export type ValidateMergeResult<Result> = Result extends MatchError<infer E>
+  ? E
+  : Result extends void
+    ? true
+    : FindFirstError<Result> extends never
+      ? true
+      : FindFirstError<Result>
+
+/**
+ * Find the first error in a result object
+ */
+type FindFirstError<T> = IsMatchError<T> extends true
+  ? ExtractError<T>
+  : T extends object
+    ? CollectErrors<T> extends infer Errors
+      ? [Errors] extends [never]
+        ? never
+        : Errors
+      : never
+    : never
+
+/**
+ * Extract error message from a MatchError
+ */
+type ExtractError<T> = T extends { readonly __error: true; readonly message: infer M } ? M : never
+
+/**
+ * Collect errors from direct properties
+ */
+type CollectErrors<T> = {
+  [K in keyof T]: IsMatchError<T[K]> extends true ? ExtractError<T[K]> : never
+}[keyof T]
@@ -0,0 +1,658 @@
+/**
+ * Type-level SQL MERGE parser
+ *
+ * This module handles parsing of MERGE queries specifically.
+ * It uses shared utilities from common/ but maintains its own
+ * execution tree for TypeScript performance.
+ *
+ * MERGE and MATCHED are not tokenizer keywords (so they stay usable as
+ * identifiers); they are matched case-insensitively here, as are
+ * TARGET and SOURCE in NOT MATCHED BY TARGET / BY SOURCE.
+ */
+
+import type {
+  MergeClause,
+  MergeWhenClause,
+  MergeMatchKind,
+  MergeAction,
+  MergeUpdateAction,
+  MergeDeleteAction,
+  MergeInsertAction,
+  MergeDoNothingAction,
+  MergeSetAssignment,
+  MergeValue,
+  MergeReturningClause,
+  MergeReturningItem,
+  MergeReturningColumn,
+  MergeActionRef,
+  SQLMergeQuery,
+} from "./ast.js"
+
+import type {
+  TableRef,
+  TableSource,
+  DerivedTableRef,
+  UnboundColumnRef,
+  ValidatableColumnRef,
+  TableColumnRef,
+  TableWildcard,
+  ParsedCondition,
+  WhereExpr,
+} from "../common/ast.js"
+
+import type {
+  NormalizeSQL,
+  NextToken,
+  ExtractUntil,
+  SplitByComma,
+  IsParamPlaceholder,
+  ParamName,
+} from "../common/tokenizer.js"
+
+import type {
+  Trim,
+  ParseError,
+  RemoveQuotes,
+  ToUpperCase,
+  Increment,
+  Decrement,
+} from "../common/utils.js"
+
+import type { ParseSelectSQL, SQLSelectQuery, SelectClause } from "../select/index.js"
+
+// ============================================================================
+// Main Entry Point
+// ============================================================================
+
+/**
+ * Parse a SQL MERGE query string into an AST
+ */
+export type ParseMergeSQL<T extends string> = ParseMergeQuery<NormalizeSQL<T>>
+
+/**
+ * Parse a normalized MERGE query
+ */
+type ParseMergeQuery<T extends string> = NextToken<T> extends [
+  infer First extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<First> extends "MERGE"
+    ? NextToken<Rest> extends ["INTO", infer AfterInto extends string]
+      ? ParseTargetAndSource<AfterInto>
+      : ParseError<"Expected INTO after MERGE">
+    : ParseError<`Expected MERGE, got: ${First}`>
+  : ParseError<"Empty query">
+
+// ============================================================================
+// Target and Source Parser
+// ============================================================================
+
+/**
+ * Parse target_table [AS alias] USING source [AS alias] ON condition ...
+ */
+type ParseTargetAndSource<T extends string> = ExtractUntil<T, "USING"> extends [
+  infer TargetPart extends string,
+  infer Rest extends string,
+]
+  ? NextToken<Rest> extends ["USING", infer AfterUsing extends string]
+    ? ExtractUntil<AfterUsing, "ON"> extends [
+        infer SourcePart extends string,
+        infer AfterSource extends string,
+      ]
+      ? NextToken<AfterSource> extends ["ON", infer AfterOn extends string]
+        ? ParseSource<SourcePart> extends infer Source
+          ? Source extends TableSource
+            ? ParseOnAndWhen<ParseTableRef<TargetPart>, Source, AfterOn>
+            : Source
+          : never
+        : ParseError<"Expected ON after MERGE source">
+      : ParseError<"Expected ON after MERGE source">
+    : ParseError<"Expected USING after MERGE target">
+  : ParseError<"Expected USING after MERGE target">
+
+/**
+ * Parse the source: a table reference or ( SELECT ... ) alias
+ */
+type ParseSource<T extends string> = NextToken<T> extends ["(", infer InParen extends string]
+  ? ExtractUntilClosingParen<InParen, 1, ""> extends [
+      infer QueryStr extends string,
+      infer AfterParen extends string,
+    ]
+    ? ParseSelectSQL<QueryStr> extends SQLSelectQuery<infer Query extends SelectClause>
+      ? Trim<AfterParen> extends ""
+        ? ParseError<"MERGE source subquery requires an alias">
+        : DerivedTableRef<Query, ParseSubqueryAlias<AfterParen>>
+      : ParseError<"Failed to parse MERGE source subquery">
+    : ParseError<"Invalid MERGE source subquery">
+  : ParseTableRef<T>
+
+/**
+ * Parse the alias after a source subquery: [AS] alias
+ */
+type ParseSubqueryAlias<T extends string> = NextToken<T> extends ["AS", infer Alias extends string]
+  ? RemoveQuotes<Alias>
+  : RemoveQuotes<T>
+
+/**
+ * Parse the ON condition and the WHEN clauses
+ */
+type ParseOnAndWhen<
+  Target extends TableRef,
+  Source extends TableSource,
+  T extends string,
+> = ExtractUntilWhen<T> extends [infer OnPart extends string, infer Rest extends string]
+  ? Trim<Rest> extends ""
+    ? ParseError<"Expected WHEN clause after MERGE condition">
+    : ParseWhenClauses<Rest> extends infer WhenResult
+      ? WhenResult extends {
+          when: infer When extends [MergeWhenClause, ...MergeWhenClause[]]
+          rest: infer AfterWhen extends string
+        }
+        ? ParseReturning<AfterWhen> extends infer ReturnResult
+          ? ReturnResult extends { returning: infer Returning; rest: infer AfterReturn extends string }
+            ? Trim<AfterReturn> extends ""
+              ? SQLMergeQuery<
+                  MergeClause<
+                    Target,
+                    Source,
+                    ParsedCondition<ScanTokensForColumnRefs<Trim<OnPart>, []>>,
+                    When,
+                    Returning extends MergeReturningClause ? Returning : undefined
+                  >
+                >
+              : ParseError<`Unexpected text after MERGE: ${Trim<AfterReturn>}`>
+            : ReturnResult
+          : never
+        : WhenResult extends ParseError<string>
+          ? WhenResult
+          : ParseError<"Expected WHEN clause after MERGE condition">
+      : never
+  : never
+
+// ============================================================================
+// WHEN Clause Parser
+// ============================================================================
+
+/**
+ * Extract text until the next WHEN [NOT] MATCHED or RETURNING at depth 0
+ * (a plain WHEN belongs to a CASE expression)
+ */
+type ExtractUntilWhen<
+  T extends string,
+  Depth extends number = 0,
+  Acc extends string = "",
+> = Trim<T> extends ""
+  ? [Trim<Acc>, ""]
+  : NextToken<T> extends [infer Token extends string, infer Rest extends string]
+    ? Token extends "("
+      ? ExtractUntilWhen<Rest, Increment<Depth>, `${Acc} ${Token}`>
+      : Token extends ")"
+        ? ExtractUntilWhen<Rest, Decrement<Depth>, `${Acc} ${Token}`>
+        : Depth extends 0
+          ? Token extends "RETURNING"
+            ? [Trim<Acc>, Trim<T>]
+            : Token extends "WHEN"
+              ? IsMatchedKeyword<Rest> extends true
+                ? [Trim<Acc>, Trim<T>]
+                : ExtractUntilWhen<Rest, Depth, `${Acc} ${Token}`>
+              : ExtractUntilWhen<Rest, Depth, `${Acc} ${Token}`>
+          : ExtractUntilWhen<Rest, Depth, `${Acc} ${Token}`>
+    : [Trim<Acc>, ""]
+
+/**
+ * Check if text after WHEN starts with MATCHED or NOT MATCHED
+ */
+type IsMatchedKeyword<T extends string> = NextToken<T> extends [
+  infer Token extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<Token> extends "MATCHED"
+    ? true
+    : Token extends "NOT"
+      ? NextToken<Rest> extends [infer Next extends string, infer _]
+        ? ToUpperCase<Next> extends "MATCHED"
+          ? true
+          : false
+        : false
+      : false
+  : false
+
+/**
+ * Parse consecutive WHEN clauses
+ */
+type ParseWhenClauses<
+  T extends string,
+  Acc extends MergeWhenClause[] = [],
+> = NextToken<T> extends ["WHEN", infer AfterWhen extends string]
+  ? ParseSingleWhen<AfterWhen> extends infer Result
+    ? Result extends { clause: infer Clause extends MergeWhenClause; rest: infer Rest extends string }
+      ? ParseWhenClauses<Rest, [...Acc, Clause]>
+      : Result
+    : never
+  : { when: Acc; rest: T }
+
+/**
+ * Parse [NOT] MATCHED [BY TARGET | BY SOURCE] [AND condition] THEN action
+ */
+type ParseSingleWhen<T extends string> = ParseMatchKind<T> extends [
+  infer Match extends MergeMatchKind,
+  infer AfterMatch extends string,
+]
+  ? ParseWhenCondition<AfterMatch> extends infer CondResult
+    ? CondResult extends {
+        condition: infer Condition extends WhereExpr | undefined
+        rest: infer AfterCondition extends string
+      }
+      ? NextToken<AfterCondition> extends ["THEN", infer AfterThen extends string]
+        ? ExtractUntilWhen<AfterThen> extends [
+            infer ActionPart extends string,
+            infer Rest extends string,
+          ]
+          ? ParseAction<Match, ActionPart> extends infer Action
+            ? Action extends MergeAction
+              ? { clause: MergeWhenClause<Match, Condition, Action>; rest: Rest }
+              : Action
+            : never
+          : never
+        : ParseError<"Expected THEN in WHEN clause">
+      : CondResult
+    : never
+  : ParseMatchKind<T>
+
+/**
+ * Parse the match kind of a WHEN clause
+ */
+type ParseMatchKind<T extends string> = NextToken<T> extends [
+  infer Token extends string,
+  infer Rest extends string,
+]
+  ? ToUpperCase<Token> extends "MATCHED"
+    ? ["MATCHED", Rest]
+    : Token extends "NOT"
+      ? NextToken<Rest> extends [infer Matched extends string, infer AfterMatched extends string]
+        ? ToUpperCase<Matched> extends "MATCHED"
+          ? NextToken<AfterMatched> extends ["BY", infer AfterBy extends string]
+            ? NextToken<AfterBy> extends [infer Side extends string, infer AfterSide extends string]
+              ? ToUpperCase<Side> extends "SOURCE"
+                ? ["NOT MATCHED BY SOURCE", AfterSide]
+                : ToUpperCase<Side> extends "TARGET"
+                  ? ["NOT MATCHED", AfterSide]
+                  : ParseError<"Expected TARGET or SOURCE after NOT MATCHED BY">
+              : ParseError<"Expected TARGET or SOURCE after NOT MATCHED BY">
+            : ["NOT MATCHED", AfterMatched]
+          : ParseError<"Expected MATCHED or NOT MATCHED after WHEN">
+        : ParseError<"Expected MATCHED or NOT MATCHED after WHEN">
+      : ParseError<"Expected MATCHED or NOT MATCHED after WHEN">
+  : ParseError<"Expected MATCHED or NOT MATCHED after WHEN">
+
+/**
+ * Parse the optional AND condition of a WHEN clause
+ */
+type ParseWhenCondition<T extends string> = NextToken<T> extends ["AND", infer Rest extends string]
+  ? ExtractUntil<Rest, "THEN"> extends [infer CondPart extends string, infer AfterCond extends string]
+    ? {
+        condition: ParsedCondition<ScanTokensForColumnRefs<CondPart, []>>
+        rest: AfterCond
+      }
+    : ParseError<"Expected THEN in WHEN clause">
+  : { condition: undefined; rest: T }
+
+// ============================================================================
+// Action Parser
+// ============================================================================
+
+/**
+ * Parse the action of a WHEN clause
+ * MATCHED and NOT MATCHED BY SOURCE allow UPDATE, DELETE or DO NOTHING;
+ * NOT MATCHED allows INSERT or DO NOTHING
+ */
+type ParseAction<Match extends MergeMatchKind, T extends string> = T extends "DO NOTHING"
+  ? MergeDoNothingAction
+  : Match extends "NOT MATCHED"
+    ? NextToken<T> extends ["INSERT", infer Rest extends string]
+      ? ParseInsertAction<Rest>
+      : ParseError<"WHEN NOT MATCHED allows only INSERT or DO NOTHING">
+    : T extends "DELETE"
+      ? MergeDeleteAction
+      : T extends `UPDATE SET ${infer Assignments}`
+        ? ParseSetAssignments<Assignments> extends infer Parsed extends MergeSetAssignment[]
+          ? MergeUpdateAction<Parsed>
+          : ParseError<"Failed to parse SET assignments">
+        : ParseError<`WHEN ${Match} allows only UPDATE, DELETE or DO NOTHING`>
+
+/**
+ * Parse INSERT [( columns )] VALUES ( values ) or INSERT DEFAULT VALUES
+ */
+type ParseInsertAction<T extends string> = Trim<T> extends "DEFAULT VALUES"
+  ? MergeInsertAction<undefined, []>
+  : NextToken<T> extends ["(", infer InParen extends string]
+    ? ExtractUntilClosingParen<InParen, 1, ""> extends [
+        infer ColsPart extends string,
+        infer AfterCols extends string,
+      ]
+      ? ParseInsertValues<AfterCols> extends infer Values
+        ? Values extends MergeValue[]
+          ? MergeInsertAction<ParseColumnNames<SplitByComma<ColsPart>>, Values>
+          : Values
+        : never
+      : ParseError<"Invalid INSERT column list">
+    : ParseInsertValues<T> extends infer Values
+      ? Values extends MergeValue[]
+        ? MergeInsertAction<undefined, Values>
+        : Values
+      : never
+
+/**
+ * Parse VALUES ( value, ... )
+ */
+type ParseInsertValues<T extends string> = NextToken<T> extends ["VALUES", infer Rest extends string]
+  ? NextToken<Rest> extends ["(", infer InParen extends string]
+    ? ExtractUntilClosingParen<InParen, 1, ""> extends [
+        infer ValuesPart extends string,
+        infer AfterValues extends string,
+      ]
+      ? Trim<AfterValues> extends ""
+        ? ParseValueList<SplitByComma<ValuesPart>>
+        : ParseError<"WHEN NOT MATCHED THEN INSERT takes a single VALUES row">
+      : ParseError<"Invalid INSERT VALUES list">
+    : ParseError<"Expected ( after VALUES">
+  : ParseError<"Expected VALUES in WHEN NOT MATCHED THEN INSERT">
+
+/**
+ * Parse column names of the INSERT column list
+ */
+type ParseColumnNames<T extends string[]> = T extends [
+  infer First extends string,
+  ...infer Rest extends string[],
+]
+  ? [RemoveQuotes<Trim<First>>, ...ParseColumnNames<Rest>]
+  : []
+
+/**
+ * Parse SET assignments: col1 = val1, col2 = val2, ...
+ */
+type ParseSetAssignments<T extends string> = SplitByComma<T> extends infer Parts extends string[]
+  ? ParseAssignmentList<Parts>
+  : []
+
+/**
+ * Parse list of assignments
+ */
+type ParseAssignmentList<T extends string[]> = T extends [
+  infer First extends string,
+  ...infer Rest extends string[],
+]
+  ? Trim<First> extends `${infer Col} = ${infer Val}`
+    ? [MergeSetAssignment<RemoveQuotes<Trim<Col>>, ParseValue<Trim<Val>>>, ...ParseAssignmentList<Rest>]
+    : []
+  : []
+
+/**
+ * Parse a list of values
+ */
+type ParseValueList<T extends string[]> = T extends [
+  infer First extends string,
+  ...infer Rest extends string[],
+]
+  ? [ParseValue<Trim<First>>, ...ParseValueList<Rest>]
+  : []
+
+/**
+ * Parse a single SET or VALUES value
+ */
+type ParseValue<T extends string> = T extends "DEFAULT"
+  ? { readonly type: "Default" }
+  : T extends "NULL"
+    ? { readonly type: "Literal"; readonly value: null }
+    : T extends "TRUE"
+      ? { readonly type: "Literal"; readonly value: true }
+      : T extends "FALSE"
+        ? { readonly type: "Literal"; readonly value: false }
+        : T extends `'${infer Val}'`
+          ? { readonly type: "Literal"; readonly value: Val }
+          : IsParamPlaceholder<T> extends true
+            ? { readonly type: "Param"; readonly name: ParamName<T> }
+            : T extends `${infer N extends number}`
+              ? { readonly type: "Literal"; readonly value: N }
+              : ExtractColumnFromToken<T> extends infer Ref extends ValidatableColumnRef
+                ? [Ref] extends [never]
+                  ? ParseExpressionValue<T>
+                  : { readonly type: "ColumnRef"; readonly ref: Ref }
+                : ParseExpressionValue<T>
+
+/**
+ * Parse an expression value, keeping its column references
+ */
+type ParseExpressionValue<T extends string> = {
+  readonly type: "Expression"
+  readonly expr: T
+  readonly columnRefs: ScanTokensForColumnRefs<T, []>
+}
+
+// ============================================================================
+// Column Reference Scanner
+// ============================================================================
+
+/**
+ * Scan tokens for column references (simplified - extracts identifiers)
+ * Identifiers followed by ( are function names and are skipped
+ */
+type ScanTokensForColumnRefs<T extends string, Acc extends ValidatableColumnRef[]> = Trim<
+  T
+> extends ""
+  ? Acc
+  : NextToken<Trim<T>> extends [infer Token extends string, infer Rest extends string]
+    ? NextToken<Rest> extends ["(", infer _]
+      ? ScanTokensForColumnRefs<Rest, Acc>
+      : ExtractColumnFromToken<Token> extends infer ColRef
+        ? [ColRef] extends [never]
+          ? ScanTokensForColumnRefs<Rest, Acc>
+          : ColRef extends ValidatableColumnRef
+            ? ScanTokensForColumnRefs<Rest, [...Acc, ColRef]>
+            : ScanTokensForColumnRefs<Rest, Acc>
+        : ScanTokensForColumnRefs<Rest, Acc>
+    : Acc
+
+/**
+ * Try to extract a column reference from a token
+ */
+type ExtractColumnFromToken<T extends string> = T extends `${infer Table}.${infer Column}`
+  ? IsSimpleIdentifier<Table> extends true
+    ? IsSimpleIdentifier<Column> extends true
+      ? T extends `${number}`
+        ? never
+        : TableColumnRef<RemoveQuotes<Table>, RemoveQuotes<Column>, undefined>
+      : never
+    : never
+  : IsSimpleIdentifier<T> extends true
+    ? IsKeywordOrOperator<T> extends true
+      ? never
+      : UnboundColumnRef<RemoveQuotes<T>>
+    : never
+
+/**
+ * Check if a string is a simple identifier
+ */
+type IsSimpleIdentifier<T extends string> = T extends ""
+  ? false
+  : T extends `${string} ${string}`
+    ? false
+    : T extends `'${string}` | `${string}'`
+      ? false
+      : T extends "(" | ")" | "," | "/" | "*" | "+" | "-" | "=" | "||"
+        ? false
+        : true
+
+/**
+ * Check if a token is a SQL keyword or operator
+ */
+type IsKeywordOrOperator<T extends string> = T extends
+  | "AND"
+  | "OR"
+  | "NOT"
+  | "IN"
+  | "IS"
+  | "NULL"
+  | "TRUE"
+  | "FALSE"
+  | "LIKE"
+  | "ILIKE"
+  | "BETWEEN"
+  | "EXISTS"
+  | "CASE"
+  | "WHEN"
+  | "THEN"
+  | "ELSE"
+  | "END"
+  | "DEFAULT"
+  | "INTERVAL"
+  | "CURRENT_DATE"
+  | "CURRENT_TIME"
+  | "CURRENT_TIMESTAMP"
+  | "LOCALTIME"
+  | "LOCALTIMESTAMP"
+  | "!="
+  | "<>"
+  | "<"
+  | ">"
+  | "<="
+  | ">="
+  ? true
+  : IsParamPlaceholder<T> extends true
+    ? true
+    : T extends `${number}`
+      ? true
+      : false
+
+// ============================================================================
+// RETURNING Clause Parser (PostgreSQL 17+)
+// ============================================================================
+
+/**
+ * Parse RETURNING clause
+ * Supports: *, column, alias.column, alias.*, merge_action(), with optional AS name
+ */
+type ParseReturning<T extends string> = Trim<T> extends ""
+  ? { returning: undefined; rest: "" }
+  : NextToken<T> extends ["RETURNING", infer Rest extends string]
+    ? Trim<Rest> extends "*"
+      ? { returning: MergeReturningClause<"*">; rest: "" }
+      : { returning: MergeReturningClause<ParseReturningItems<SplitByComma<Rest>>>; rest: "" }
+    : { returning: undefined; rest: T }
+
+/**
+ * Parse list of RETURNING items
+ */
+type ParseReturningItems<T extends string[]> = T extends [
+  infer First extends string,
+  ...infer Rest extends string[],
+]
+  ? [ParseReturningItem<Trim<First>>, ...ParseReturningItems<Rest>]
+  : []
+
+/**
+ * Parse a single RETURNING item
+ */
+type ParseReturningItem<T extends string> = T extends `${infer Expr} AS ${infer Alias}`
+  ? ParseReturningExpr<Trim<Expr>, RemoveQuotes<Alias>>
+  : ParseReturningExpr<T, undefined>
+
+/**
+ * Parse a RETURNING expression with its optional alias
+ * Unaliased columns are named after the column, merge_action() after the function
+ */
+type ParseReturningExpr<
+  T extends string,
+  Alias extends string | undefined,
+> = T extends `${infer Fn} ( )`
+  ? ToUpperCase<Fn> extends "MERGE_ACTION"
+    ? MergeActionRef<Alias extends string ? Alias : "merge_action">
+    : ParseReturningColumn<T, Alias>
+  : T extends `${infer Table}.*`
+    ? TableWildcard<RemoveQuotes<Table>, undefined>
+    : ParseReturningColumn<T, Alias>
+
+/**
+ * Parse a RETURNING column
+ */
+type ParseReturningColumn<T extends string, Alias extends string | undefined> = T extends `${infer Table}.${infer Column}`
+  ? MergeReturningColumn<
+      TableColumnRef<RemoveQuotes<Table>, RemoveQuotes<Column>, undefined>,
+      Alias extends string ? Alias : RemoveQuotes<Column>
+    >
+  : MergeReturningColumn<
+      UnboundColumnRef<RemoveQuotes<T>>,
+      Alias extends string ? Alias : RemoveQuotes<T>
+    >
+
+// ============================================================================
+// Table Reference Parser
+// ============================================================================
+
+/**
+ * Parse a table reference with optional schema and alias
+ */
+type ParseTableRef<T extends string> = Trim<T> extends `${infer SchemaTable} AS ${infer Alias}`
+  ? ParseSchemaTable<SchemaTable> extends [
+      infer Schema extends string | undefined,
+      infer Table extends string,
+    ]
+    ? TableRef<Table, RemoveQuotes<Alias>, Schema>
+    : TableRef<RemoveQuotes<SchemaTable>, RemoveQuotes<Alias>, undefined>
+  : Trim<T> extends `${infer SchemaTable} ${infer Alias}`
+    ? ParseSchemaTable<SchemaTable> extends [
+        infer Schema extends string | undefined,
+        infer Table extends string,
+      ]
+      ? TableRef<Table, RemoveQuotes<Alias>, Schema>
+      : TableRef<RemoveQuotes<SchemaTable>, RemoveQuotes<Alias>, undefined>
+    : ParseSchemaTable<T> extends [
+          infer Schema extends string | undefined,
+          infer Table extends string,
+        ]
+      ? TableRef<Table, Table, Schema>
+      : TableRef<RemoveQuotes<T>, RemoveQuotes<T>, undefined>
+
+/**
+ * Parse schema.table syntax
+ */
+type ParseSchemaTable<T extends string> = Trim<T> extends `"${infer Schema}"."${infer Table}"`
+  ? [Schema, Table]
+  : Trim<T> extends `${infer Schema}."${infer Table}"`
+    ? IsSimpleIdentifier<Schema> extends true
+      ? [Schema, Table]
+      : [undefined, RemoveQuotes<T>]
+    : Trim<T> extends `"${infer Schema}".${infer Table}`
+      ? IsSimpleIdentifier<Table> extends true
+        ? [Schema, RemoveQuotes<Table>]
+        : [undefined, RemoveQuotes<T>]
+      : Trim<T> extends `${infer Schema}.${infer Table}`
+        ? IsSimpleIdentifier<Schema> extends true
+          ? IsSimpleIdentifier<Table> extends true
+            ? [Schema, Table]
+            : [undefined, RemoveQuotes<T>]
+          : [undefined, RemoveQuotes<T>]
+        : [undefined, RemoveQuotes<T>]
+
+// ============================================================================
+// Utility Types
+// ============================================================================
+
+/**
+ * Extract content until we find the matching closing parenthesis
+ */
+type ExtractUntilClosingParen<
+  T extends string,
+  Depth extends number,
+  Acc extends string,
+> = Depth extends 0
+  ? [Trim<Acc>, Trim<T>]
+  : NextToken<T> extends [infer Token extends string, infer Rest extends string]
+    ? Token extends "("
+      ? ExtractUntilClosingParen<Rest, Increment<Depth>, `${Acc} ${Token}`>
+      : Token extends ")"
+        ? Decrement<Depth> extends 0
+          ? [Trim<Acc>, Trim<Rest>]
+          : ExtractUntilClosingParen<Rest, Decrement<Depth>, `${Acc} ${Token}`>
+        : ExtractUntilClosingParen<Rest, Depth, `${Acc} ${Token}`>
+    : [Trim<Acc>, ""]
@@ -0,0 +1,555 @@
+/**
+ * MERGE Query Validator
+ *
+ * This module provides comprehensive validation for MERGE queries.
+ * It validates:
+ * - Target and source table existence in schema (or the source subquery)
+ * - ON and WHEN condition column references
+ * - UPDATE SET and INSERT columns against the target table
+ * - UPDATE and INSERT value column references and literal value types
+ * - RETURNING clause column validation
+ *
+ * Column references are checked against the rows visible to each clause:
+ * WHEN MATCHED sees both tables, WHEN NOT MATCHED only the source and
+ * WHEN NOT MATCHED BY SOURCE only the target.
+ */
+
+import type {
+  SQLMergeQuery,
+  MergeClause,
+  MergeWhenClause,
+  MergeMatchKind,
+  MergeUpdateAction,
+  MergeInsertAction,
+  MergeSetAssignment,
+  MergeReturningClause,
+  MergeReturningColumn,
+} from "./ast.js"
+
+import type {
+  TableRef,
+  TableSource,
+  DerivedTableRef,
+  UnboundColumnRef,
+  ValidatableColumnRef,
+  TableColumnRef,
+  TableWildcard,
+  ParsedCondition,
+} from "../common/ast.js"
+
+import type { MatchError, ParseError, HasTemplateHoles } from "../common/utils.js"
+import type {
+  DatabaseSchema,
+  GetDefaultSchema,
+  GetTableDefaults,
+  IsRequiredColumn,
+  TableColumnTypes,
+  ValidateLiteralValue,
+} from "../common/schema.js"
+
+import type {
+  SQLSelectQuery,
+  SelectClause,
+  MatchSelectQuery,
+  ValidateQuery,
+} from "../select/index.js"
+
+import type { ParseMergeSQL } from "./parser.js"
+
+// ============================================================================
+// Re-exports for convenience
+// ============================================================================
+
+export type { MatchError } from "../common/utils.js"
+export type { DatabaseSchema } from "../common/schema.js"
+
+// ============================================================================
+// Validation Options
+// ============================================================================
+
+/**
+ * Options for controlling MERGE query validation depth
+ */
+export type ValidateMergeOptions = {
+  /**
+   * Whether to validate ON and WHEN condition column references
+   * @default true
+   */
+  validateConditions?: boolean
+
+  /**
+   * Whether to validate UPDATE SET and INSERT columns and values
+   * @default true
+   */
+  validateActions?: boolean
+
+  /**
+   * Whether to validate RETURNING clause columns
+   * @default true
+   */
+  validateReturning?: boolean
+
+  /**
+   * Whether to validate literal values against column types
+   * @default true
+   */
+  validateValueTypes?: boolean
+}
+
+/**
+ * Default validation options - full validation enabled
+ */
+type DefaultValidateOptions = {
+  validateConditions: true
+  validateActions: true
+  validateReturning: true
+  validateValueTypes: true
+}
+
+// ============================================================================
+// Main Validator Entry Point
+// ============================================================================
+
+/**
+ * Validate a MERGE query against a schema
+ *
+ * Returns true if valid, or an error message if invalid.
+ * For dynamic queries (non-literal strings), returns true (can't validate at compile time).
+ */
+export type ValidateMergeSQL<
+  SQL extends string,
+  Schema extends DatabaseSchema,
+  Options extends ValidateMergeOptions = DefaultValidateOptions,
+> = HasTemplateHoles<SQL> extends true
+  ? true // Dynamic queries bypass validation
+  : ParseMergeSQL<SQL> extends infer Parsed
+    ? Parsed extends ParseError<infer E>
+      ? E
+      : Parsed extends SQLMergeQuery<infer Query>
+        ? ValidateMergeClause<Query, Schema, Options>
+        : "Failed to parse query"
+    : never
+
+// ============================================================================
+// Merge Clause Validation
+// ============================================================================
+
+/**
+ * Validate a MERGE clause
+ */
+type ValidateMergeClause<
+  Merge extends MergeClause,
+  Schema extends DatabaseSchema,
+  Options extends ValidateMergeOptions,
+> = Merge extends MergeClause<
+  infer Target,
+  infer Source,
+  infer On,
+  infer When,
+  infer Returning
+>
+  ? ResolveTableContext<Target, Schema> extends infer TargetContext
+    ? TargetContext extends MatchError<infer E>
+      ? E
+      : ResolveSourceContext<Source, Schema> extends infer SourceContext
+        ? SourceContext extends MatchError<infer E>
+          ? E
+          : ValidateCondition<On, TargetContext & SourceContext, "ON", Options> extends infer OnResult
+            ? OnResult extends true
+              ? ValidateWhenClauses<
+                  When,
+                  Target,
+                  TargetContext,
+                  SourceContext,
+                  Schema,
+                  Options
+                > extends infer WhenResult
+                ? WhenResult extends true
+                  ? ValidateReturningClause<Returning, TargetContext & SourceContext, Options>
+                  : WhenResult
+                : "WHEN validation failed"
+              : OnResult
+            : "ON validation failed"
+        : "Source validation failed"
+    : "Target validation failed"
+  : "Invalid MERGE clause"
+
+// ============================================================================
+// Context Building
+// ============================================================================
+
+/**
+ * Resolve a table to its context entry: { alias: columns }
+ */
+type ResolveTableContext<Table extends TableRef, Schema extends DatabaseSchema> =
+  Table extends TableRef<infer TableName, infer Alias, infer TableSchema>
+    ? TableSchema extends undefined
+      ? GetDefaultSchema<Schema> extends infer DefaultSchema extends string
+        ? DefaultSchema extends keyof Schema["schemas"]
+          ? TableName extends keyof Schema["schemas"][DefaultSchema]
+            ? { [K in Alias]: TableColumnTypes<Schema["schemas"][DefaultSchema][TableName]> }
+            : MatchError<`Table '${TableName}' not found in default schema '${DefaultSchema}'`>
+          : MatchError<`Default schema not found`>
+        : MatchError<`Cannot determine default schema`>
+      : TableSchema extends keyof Schema["schemas"]
+        ? TableName extends keyof Schema["schemas"][TableSchema]
+          ? { [K in Alias]: TableColumnTypes<Schema["schemas"][TableSchema][TableName]> }
+          : MatchError<`Table '${TableName}' not found in schema '${TableSchema}'`>
+        : MatchError<`Schema '${TableSchema}' not found`>
+    : MatchError<`Invalid table reference`>
+
+/**
+ * Resolve the source to its context entry
+ * A subquery source is matched with the SELECT matcher for its row type
+ */
+type ResolveSourceContext<Source extends TableSource, Schema extends DatabaseSchema> =
+  Source extends DerivedTableRef<infer Query extends SelectClause, infer Alias>
+    ? MatchSelectQuery<SQLSelectQuery<Query>, Schema> extends infer Row
+      ? Row extends MatchError<string>
+        ? Row
+        : ValidateQuery<Row> extends infer Result
+          ? Result extends true
+            ? { [K in Alias]: Row }
+            : MatchError<Result & string>
+          : never
+      : never
+    : Source extends TableRef
+      ? ResolveTableContext<Source, Schema>
+      : MatchError<"Invalid MERGE source">
+
+/**
+ * Pick the context visible to a WHEN clause
+ */
+type WhenContext<
+  Match extends MergeMatchKind,
+  TargetContext,
+  SourceContext,
+> = Match extends "MATCHED"
+  ? TargetContext & SourceContext
+  : Match extends "NOT MATCHED"
+    ? SourceContext
+    : TargetContext
+
+// ============================================================================
+// WHEN Clause Validation
+// ============================================================================
+
+/**
+ * Validate each WHEN clause
+ */
+type ValidateWhenClauses<
+  When extends MergeWhenClause[],
+  Target extends TableRef,
+  TargetContext,
+  SourceContext,
+  Schema extends DatabaseSchema,
+  Options extends ValidateMergeOptions,
+> = When extends [infer First, ...infer Rest extends MergeWhenClause[]]
+  ? First extends MergeWhenClause<infer Match, infer Condition, infer Action>
+    ? WhenContext<Match, TargetContext, SourceContext> extends infer Context
+      ? ValidateCondition<Condition, Context, `WHEN ${Match}`, Options> extends infer CondResult
+        ? CondResult extends true
+          ? ValidateAction<Action, Target, Context, `WHEN ${Match}`, Schema, Options> extends infer ActionResult
+            ? ActionResult extends true
+              ? ValidateWhenClauses<Rest, Target, TargetContext, SourceContext, Schema, Options>
+              : ActionResult
+            : never
+          : CondResult
+        : never
+      : never
+    : true
+  : true
+
+/**
+ * Validate the column references of a condition
+ */
+type ValidateCondition<
+  Condition,
+  Context,
+  Clause extends string,
+  Options extends ValidateMergeOptions,
+> = Options["validateConditions"] extends false
+  ? true
+  : Condition extends ParsedCondition<infer ColumnRefs>
+    ? ValidateColumnRefList<ColumnRefs, Context, Clause>
+    : true
+
+// ============================================================================
+// Action Validation
+// ============================================================================
+
+/**
+ * Validate a WHEN clause action
+ */
+type ValidateAction<
+  Action,
+  Target extends TableRef,
+  Context,
+  Clause extends string,
+  Schema extends DatabaseSchema,
+  Options extends ValidateMergeOptions,
+> = Options["validateActions"] extends false
+  ? true
+  : GetTableDefinition<Target, Schema> extends infer TableDef
+    ? Action extends MergeUpdateAction<infer Assignments>
+      ? ValidateSetAssignments<Assignments, Target, TableDef, Context, Clause, Options>
+      : Action extends MergeInsertAction<infer Columns, infer Values>
+        ? Columns extends string[]
+          ? ValidateInsertColumns<Columns, Target, TableDef> extends infer ColResult
+            ? ColResult extends true
+              ? Values["length"] extends Columns["length"]
+                ? ValidateRequiredColumns<Columns, Target, TableDef, Schema> extends infer RequiredResult
+                  ? RequiredResult extends true
+                    ? ValidateValueList<Values, Columns, TableDef, Context, Clause, Options>
+                    : RequiredResult
+                  : never
+                : `Value count (${Values["length"]}) does not match column count (${Columns["length"]})`
+              : ColResult
+            : never
+          : ValidateValueList<Values, [], TableDef, Context, Clause, Options>
+        : true
+    : never
+
+/**
+ * Validate SET assignments: target columns, value references and literal types
+ */
+type ValidateSetAssignments<
+  Assignments extends MergeSetAssignment[],
+  Target extends TableRef,
+  TableDef,
+  Context,
+  Clause extends string,
+  Options extends ValidateMergeOptions,
+> = Assignments extends [
+  MergeSetAssignment<infer Column, infer Value>,
+  ...infer Rest extends MergeSetAssignment[],
+]
+  ? Column extends keyof TableDef
+    ? ValidateValue<Value, Column, TableDef, Context, Clause, Options> extends infer Result
+      ? Result extends true
+        ? ValidateSetAssignments<Rest, Target, TableDef, Context, Clause, Options>
+        : Result
+      : never
+    : `Column '${Column}' not found in table '${Target["table"]}'`
+  : true
+
+/**
+ * Validate that INSERT columns exist in the target table
+ */
+type ValidateInsertColumns<
+  Columns extends string[],
+  Target extends TableRef,
+  TableDef,
+> = Columns extends [infer First extends string, ...infer Rest extends string[]]
+  ? First extends keyof TableDef
+    ? ValidateInsertColumns<Rest, Target, TableDef>
+    : `Column '${First}' not found in table '${Target["table"]}'`
+  : true
+
+/**
+ * Validate that every required column of the target appears in the INSERT column list
+ * A column is required when its type excludes null and it has no default
+ */
+type ValidateRequiredColumns<
+  Columns extends string[],
+  Target extends TableRef,
+  TableDef,
+  Schema extends DatabaseSchema,
+> = Target extends TableRef<infer TableName, infer _Alias, infer TableSchema>
+  ? UnionToTuple<
+      Exclude<
+        RequiredColumnNames<TableDef>,
+        | Columns[number]
+        | GetTableDefaults<Schema, TableName, TableSchema extends string ? TableSchema : GetDefaultSchema<Schema>>
+      >
+    > extends [infer Missing extends string, ...unknown[]]
+    ? `Missing required column '${Missing}' for table '${TableName}'`
+    : true
+  : true
+
+/**
+ * Names of the columns of a table that must be provided on INSERT
+ */
+type RequiredColumnNames<TableDef> = {
+  [K in keyof TableDef]-?: {} extends Pick<TableDef, K>
+    ? never
+    : IsRequiredColumn<TableDef[K]> extends true
+      ? K
+      : never
+}[keyof TableDef]
+
+/**
+ * Validate INSERT values against the columns at the same positions
+ * (without a column list, only the value references are checked)
+ */
+type ValidateValueList<
+  Values extends unknown[],
+  Columns extends string[],
+  TableDef,
+  Context,
+  Clause extends string,
+  Options extends ValidateMergeOptions,
+> = Values extends [infer Value, ...infer RestValues]
+  ? Columns extends [infer Column extends string, ...infer RestColumns extends string[]]
+    ? ValidateValue<Value, Column, TableDef, Context, Clause, Options> extends infer Result
+      ? Result extends true
+        ? ValidateValueList<RestValues, RestColumns, TableDef, Context, Clause, Options>
+        : Result
+      : never
+    : ValidateValue<Value, never, TableDef, Context, Clause, Options> extends infer Result
+      ? Result extends true
+        ? ValidateValueList<RestValues, [], TableDef, Context, Clause, Options>
+        : Result
+      : never
+  : true
+
+/**
+ * Validate a single value: column references against the visible tables,
+ * literals against the column type
+ */
+type ValidateValue<
+  Value,
+  Column extends string,
+  TableDef,
+  Context,
+  Clause extends string,
+  Options extends ValidateMergeOptions,
+> = Value extends { readonly type: "ColumnRef"; readonly ref: infer Ref extends ValidatableColumnRef }
+  ? ValidateColumnRefList<[Ref], Context, Clause>
+  : Value extends {
+        readonly type: "Expression"
+        readonly columnRefs: infer Refs extends ValidatableColumnRef[]
+      }
+    ? ValidateColumnRefList<Refs, Context, Clause>
+    : Value extends { readonly type: "Literal"; readonly value: infer Literal }
+      ? Options["validateValueTypes"] extends false
+        ? true
+        : [Column] extends [never]
+          ? true
+          : Column extends keyof TableDef
+            ? ValidateLiteralValue<Literal, TableDef[Column], Column>
+            : true
+      : true
+
+/**
+ * Get the raw definition of the target table (column descriptors are kept)
+ */
+type GetTableDefinition<Table extends TableRef, Schema extends DatabaseSchema> =
+  Table extends TableRef<infer TableName, infer _Alias, infer TableSchema>
+    ? (TableSchema extends string ? TableSchema : GetDefaultSchema<Schema>) extends infer SchemaName
+      ? SchemaName extends keyof Schema["schemas"]
+        ? TableName extends keyof Schema["schemas"][SchemaName]
+          ? Schema["schemas"][SchemaName][TableName]
+          : {}
+        : {}
+      : {}
+    : {}
+
+/**
+ * Convert a union to a tuple (used to report missing columns one at a time)
+ */
+type UnionToTuple<U, Last = LastOfUnion<U>> = [U] extends [never]
+  ? []
+  : [...UnionToTuple<Exclude<U, Last>>, Last]
+
+type LastOfUnion<U> =
+  UnionToIntersection<U extends unknown ? () => U : never> extends () => infer Last ? Last : never
+
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends (
+  arg: infer I,
+) => void
+  ? I
+  : never
+
+// ============================================================================
+// Column Reference Validation
+// ============================================================================
+
+/**
+ * Validate a list of column references
+ */
+type ValidateColumnRefList<
+  Refs extends ValidatableColumnRef[],
+  Context,
+  Clause extends string,
+> = Refs extends [infer First, ...infer Rest extends ValidatableColumnRef[]]
+  ? ValidateSingleRef<First, Context, Clause> extends infer Result
+    ? Result extends true
+      ? ValidateColumnRefList<Rest, Context, Clause>
+      : Result
+    : never
+  : true
+
+/**
+ * Validate a single column reference
+ */
+type ValidateSingleRef<Ref, Context, Clause extends string> =
+  Ref extends TableColumnRef<infer TableOrAlias, infer Column, infer _Schema>
+    ? TableOrAlias extends keyof Context
+      ? Column extends keyof Context[TableOrAlias]
+        ? true
+        : `Column '${Column}' not found in '${TableOrAlias}'`
+      : `Table or alias '${TableOrAlias}' not found in ${Clause}`
+    : Ref extends UnboundColumnRef<infer Column>
+      ? ColumnExistsInContext<Column, Context, Clause>
+      : true
+
+/**
+ * Check if column exists in any table in context
+ */
+type ColumnExistsInContext<Column extends string, Context, Clause extends string> = true extends {
+  [K in keyof Context]: Column extends keyof Context[K] ? true : never
+}[keyof Context]
+  ? true
+  : `Column '${Column}' not found in ${Clause}`
+
+// ============================================================================
+// RETURNING Clause Validation (PostgreSQL 17+)
+// ============================================================================
+
+/**
+ * Validate RETURNING columns against both tables
+ */
+type ValidateReturningClause<
+  Returning,
+  Context,
+  Options extends ValidateMergeOptions,
+> = Options["validateReturning"] extends false
+  ? true
+  : Returning extends MergeReturningClause<infer Items>
+    ? Items extends unknown[]
+      ? ValidateReturningItems<Items, Context>
+      : true
+    : true
+
+/**
+ * Validate RETURNING items
+ */
+type ValidateReturningItems<Items extends unknown[], Context> = Items extends [
+  infer First,
+  ...infer Rest,
+]
+  ? (
+      First extends MergeReturningColumn<infer Ref>
+        ? ValidateSingleRef<Ref, Context, "RETURNING">
+        : First extends TableWildcard<infer TableOrAlias>
+          ? TableOrAlias extends keyof Context
+            ? true
+            : `Table or alias '${TableOrAlias}' not found in RETURNING`
+          : true
+    ) extends infer Result
+    ? Result extends true
+      ? ValidateReturningItems<Rest, Context>
+      : Result
+    : never
+  : true
+
+// ============================================================================
+// Convenience Types
+// ============================================================================
+
+/**
+ * Check if a MERGE query is valid
+ */
+export type IsValidMerge<SQL extends string, Schema extends DatabaseSchema> =
+  ValidateMergeSQL<SQL, Schema> extends true ? true : false
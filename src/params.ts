@@ -0,0 +1,717 @@
+/**
+ * Query Parameter Type Inference
+ *
+ * Infers the types of query parameters from the columns they are compared
+ * with or assigned to:
+ * - Comparisons in WHERE / ON / HAVING: `col = $1`, `$1 < col`, `col LIKE $1`,
+ *   `col IN ( $1 , $2 )`, `col BETWEEN $1 AND $2`, `COUNT ( * ) > $1`
+ * - INSERT VALUES positions (using the column list)
+ * - UPDATE SET assignments
+ * - LIMIT / OFFSET (number)
+ * - Explicit casts: `$1::int`
+ *
+ * Positional parameters ($1, $2, ...) produce a tuple type, named parameters
+ * (:name, @name, $name) produce an object type. Named queries are rewritten
+ * to positional form for drivers with bindNamedParams.
+ *
+ * Parameters whose type cannot be inferred are `unknown`.
+ * Comparisons exclude null (comparing with NULL never matches), while
+ * INSERT and SET positions keep the column type as declared.
+ * A parameter used several times gets the intersection of its types.
+ *
+ * Queries mixing positional and named parameters, and parameters used with
+ * conflicting types, produce an error message type instead.
+ */
+
+import type { NormalizeSQL, NextToken, ParamName } from "./common/tokenizer.js"
+import type { AggregateFunc, MapSQLTypeToTS, TableRef, TableSource, JoinClause } from "./common/ast.js"
+import type { IsStringLiteral, RemoveQuotes } from "./common/utils.js"
+import type {
+  DatabaseSchema,
+  GetDefaultSchema,
+  TableColumnTypes,
+  UnwrapColumnType,
+} from "./common/schema.js"
+import type { ParseSQL } from "./router.js"
+import type { SQLSelectQuery, SelectClause, UnionClauseAny } from "./select/index.js"
+import type {
+  SQLInsertQuery,
+  InsertClause,
+  InsertColumnList,
+  InsertColumnRef,
+  InsertValuesClause,
+  InsertValueRow,
+} from "./insert/index.js"
+import type { SQLUpdateQuery, UpdateClause, UpdateFromClause, SetClause, SetAssignment } from "./update/index.js"
+import type { SQLDeleteQuery, DeleteClause, UsingClause } from "./delete/index.js"
+import type { SQLMergeQuery, MergeClause } from "./merge/index.js"
+
+// ============================================================================
+// Main Entry Point
+// ============================================================================
+
+/**
+ * Infer the parameters of a query
+ *
+ * @example
+ * ```typescript
+ * type Params = QueryParams<"SELECT * FROM users WHERE id = $1 AND email = $2", Schema>
+ * // [number, string]
+ *
+ * type InsertParams = QueryParams<"INSERT INTO users (name, bio) VALUES ($1, $2)", Schema>
+ * // [string, string | null]
+ *
+ * type NamedParams = QueryParams<"SELECT * FROM users WHERE id = :userId", Schema>
+ * // { userId: number }
+ * ```
+ *
+ * For dynamic queries (non-literal strings), returns unknown[]
+ */
+export type QueryParams<SQL extends string, Schema extends DatabaseSchema> =
+  IsStringLiteral<SQL> extends false
+    ? unknown[]
+    : CollectParams<SQL, Schema> extends infer Entries extends ParamEntry[]
+      ? ParamsError<Entries> extends infer Message extends string
+        ? `[SQL Error] ${Message}`
+        : [Extract<Entries[number]["key"], string>] extends [never]
+          ? BuildParamsTuple<Entries>
+          : { [Name in Extract<Entries[number]["key"], string>]: ParamTypeAt<Entries, Name> }
+      : never
+
+/**
+ * Collect the type constraints of all parameters of a query
+ */
+type CollectParams<SQL extends string, Schema extends DatabaseSchema> = ParseSQL<SQL> extends infer Parsed
+  ? QueryContext<Parsed, Schema> extends infer Context
+    ? [...AssignedParams<Parsed, Schema>, ...ScanParams<CollapseAggregates<NormalizeSQL<SQL>>, Context>]
+    : never
+  : never
+
+// ============================================================================
+// Parameter Entries
+// ============================================================================
+
+/**
+ * A type constraint found for a parameter
+ * Key is the position of positional parameters and the name of named ones
+ */
+type ParamEntry<Key extends number | string = number | string, Type = unknown> = {
+  key: Key
+  type: Type
+}
+
+/**
+ * Maximum number of parameters in the inferred tuple
+ */
+type MaxParams = 100
+
+/**
+ * Build the parameter tuple from the collected entries
+ */
+type BuildParamsTuple<
+  Entries extends ParamEntry[],
+  Result extends unknown[] = [],
+  Covered extends number = never,
+> = Result["length"] extends MaxParams
+  ? Result
+  : [Exclude<Extract<Entries[number]["key"], number>, Covered>] extends [never]
+    ? Result
+    : [...Result, unknown]["length"] extends infer Index extends number
+      ? BuildParamsTuple<Entries, [...Result, ParamTypeAt<Entries, Index>], Covered | Index>
+      : Result
+
+/**
+ * Type of the parameter with the given key: the intersection of the types
+ * of its entries (unknown entries do not narrow it)
+ */
+type ParamTypeAt<
+  Entries extends ParamEntry[],
+  Key extends number | string,
+  Result = unknown,
+> = Entries extends [infer First extends ParamEntry, ...infer Rest extends ParamEntry[]]
+  ? ParamTypeAt<Rest, Key, First["key"] extends Key ? Result & First["type"] : Result>
+  : Result
+
+/**
+ * Error message for parameters that cannot be typed, or false
+ */
+type ParamsError<Entries extends ParamEntry[]> = [Extract<Entries[number]["key"], number>] extends [never]
+  ? ConflictingParams<Entries>
+  : [Extract<Entries[number]["key"], string>] extends [never]
+    ? ConflictingParams<Entries>
+    : "Cannot mix positional and named parameters"
+
+/**
+ * Error message for parameters whose types have no common value, or false
+ */
+type ConflictingParams<Entries extends ParamEntry[]> = {
+  [Key in Entries[number]["key"]]: [ParamTypeAt<Entries, Key>] extends [never] ? Key : never
+}[Entries[number]["key"]] extends infer Key extends number | string
+  ? [Key] extends [never]
+    ? false
+    : `Parameter '${Key extends number ? `$${Key}` : Key}' is used with conflicting types`
+  : false
+
+/**
+ * Key of a parameter name: "1" → 1, "userId" → "userId"
+ */
+type ParamKey<Name extends string> = Name extends `${infer Index extends number}` ? Index : Name
+
+/**
+ * Parse a parameter token: $N, :name, @name, $name with an optional ::type
+ * Returns [Key, Cast] or false
+ */
+type ParseParamToken<Token extends string> = [ParamName<Token>] extends [never]
+  ? false
+  : ParamName<Token> extends `${infer Name}::${infer Cast}`
+    ? [ParamKey<Name>, Cast]
+    : [ParamKey<ParamName<Token>>, ""]
+
+// ============================================================================
+// Table Context
+// ============================================================================
+
+/**
+ * Map of table aliases to column types for a parsed query
+ */
+type QueryContext<Parsed, Schema extends DatabaseSchema> = Parsed extends SQLSelectQuery<infer Query>
+  ? SelectContext<Query, Schema>
+  : Parsed extends SQLInsertQuery<InsertClause<infer Table>>
+    ? TableContext<Table, Schema>
+    : Parsed extends SQLUpdateQuery<UpdateClause<infer Table, infer _Set, infer From>>
+      ? TableContext<Table, Schema> &
+          (From extends UpdateFromClause<infer Tables, infer Joins>
+            ? SourcesContext<Tables, Schema> & JoinsContext<Joins, Schema>
+            : {})
+      : Parsed extends SQLDeleteQuery<DeleteClause<infer Table, infer Using>>
+        ? TableContext<Table, Schema> &
+            (Using extends UsingClause<infer Tables> ? SourcesContext<Tables, Schema> : {})
+        : Parsed extends SQLMergeQuery<MergeClause<infer Target, infer Source>>
+          ? TableContext<Target, Schema> & TableContext<Source, Schema>
+          : {}
+
+/**
+ * Context of a SELECT (both sides of UNION / INTERSECT / EXCEPT)
+ */
+type SelectContext<Query, Schema extends DatabaseSchema> = Query extends SelectClause
+  ? TableContext<Query["from"], Schema> & JoinsContext<Query["joins"], Schema>
+  : Query extends UnionClauseAny
+    ? SelectContext<Query["left"], Schema> & SelectContext<Query["right"], Schema>
+    : {}
+
+type JoinsContext<Joins, Schema extends DatabaseSchema> = Joins extends [
+  infer First extends JoinClause,
+  ...infer Rest,
+]
+  ? TableContext<First["table"], Schema> & JoinsContext<Rest, Schema>
+  : {}
+
+type SourcesContext<Sources, Schema extends DatabaseSchema> = Sources extends [
+  infer First,
+  ...infer Rest,
+]
+  ? TableContext<First, Schema> & SourcesContext<Rest, Schema>
+  : {}
+
+/**
+ * Context entry of a table (derived tables and CTE references are skipped)
+ */
+type TableContext<Source, Schema extends DatabaseSchema> = Source extends TableSource
+  ? Source extends TableRef<infer Table, infer Alias, infer TableSchema>
+    ? GetTable<Table, TableSchema, Schema> extends infer Def extends object
+      ? { [K in Alias]: TableColumnTypes<Def> }
+      : {}
+    : {}
+  : {}
+
+/**
+ * Get the raw definition of a table, or undefined when it does not exist
+ */
+type GetTable<
+  Table extends string,
+  TableSchema extends string | undefined,
+  Schema extends DatabaseSchema,
+> = (TableSchema extends string ? TableSchema : GetDefaultSchema<Schema>) extends infer SchemaName
+  ? SchemaName extends keyof Schema["schemas"]
+    ? Table extends keyof Schema["schemas"][SchemaName]
+      ? Schema["schemas"][SchemaName][Table]
+      : undefined
+    : undefined
+  : undefined
+
+/**
+ * Resolve the type of a column reference token in the context
+ * Unqualified columns are looked up in all tables of the context
+ */
+type ColumnRefType<Ref extends string, Context> = Ref extends `${infer Func extends AggregateFunc}(${infer Arg})`
+  ? AggregateType<Func, Arg, Context>
+  : Ref extends `${infer Column}::${infer Cast}`
+  ? CastType<Cast> extends infer Type
+    ? unknown extends Type
+      ? ColumnRefType<Column, Context>
+      : Type
+    : never
+  : Ref extends `${infer Alias}.${infer Column}`
+    ? RemoveQuotes<Alias> extends infer A extends keyof Context
+      ? RemoveQuotes<Column> extends infer C extends keyof Context[A]
+        ? Context[A][C]
+        : unknown
+      : unknown
+    : UnqualifiedColumnType<RemoveQuotes<Ref>, Context> extends infer Type
+      ? [Type] extends [never]
+        ? unknown
+        : Type
+      : unknown
+
+/**
+ * Type of an aggregate call token (see CollapseAggregates)
+ */
+type AggregateType<Func extends AggregateFunc, Arg extends string, Context> = Func extends
+  | "COUNT"
+  | "SUM"
+  | "AVG"
+  ? number
+  : ColumnRefType<Arg, Context>
+
+type UnqualifiedColumnType<Column extends string, Context> = {
+  [K in keyof Context]: Column extends keyof Context[K] ? Context[K][Column] : never
+}[keyof Context]
+
+/**
+ * TypeScript type of an explicit cast
+ */
+type CastType<Cast extends string> = MapSQLTypeToTS<Lowercase<Cast>>
+
+// ============================================================================
+// INSERT VALUES / UPDATE SET
+// ============================================================================
+
+/**
+ * Parameters assigned to columns (INSERT VALUES positions and UPDATE SET)
+ */
+type AssignedParams<Parsed, Schema extends DatabaseSchema> = Parsed extends SQLInsertQuery<
+  InsertClause<infer Table, infer Columns, infer Source>
+>
+  ? Columns extends InsertColumnList<infer ColList>
+    ? Source extends InsertValuesClause<infer Rows>
+      ? GetTable<Table["table"], Table["schema"], Schema> extends infer Def extends object
+        ? InsertRowsParams<Rows, ColList, Def>
+        : []
+      : []
+    : []
+  : Parsed extends SQLUpdateQuery<UpdateClause<infer Table, infer Set>>
+    ? Set extends SetClause<infer Assignments>
+      ? GetTable<Table["table"], Table["schema"], Schema> extends infer Def extends object
+        ? SetParams<Assignments, Def>
+        : []
+      : []
+    : []
+
+type InsertRowsParams<
+  Rows extends InsertValueRow[],
+  ColList extends InsertColumnRef[],
+  Def,
+> = Rows extends [InsertValueRow<infer Values>, ...infer Rest extends InsertValueRow[]]
+  ? [...InsertValuesParams<Values, ColList, Def>, ...InsertRowsParams<Rest, ColList, Def>]
+  : []
+
+type InsertValuesParams<Values extends unknown[], ColList extends InsertColumnRef[], Def> = Values extends [
+  infer Value,
+  ...infer RestValues,
+]
+  ? ColList extends [InsertColumnRef<infer Column>, ...infer RestCols extends InsertColumnRef[]]
+    ? [...AssignedParam<Value, Column, Def>, ...InsertValuesParams<RestValues, RestCols, Def>]
+    : []
+  : []
+
+type SetParams<Assignments extends SetAssignment[], Def> = Assignments extends [
+  SetAssignment<infer Column, infer Value>,
+  ...infer Rest extends SetAssignment[],
+]
+  ? [...AssignedParam<Value, Column, Def>, ...SetParams<Rest, Def>]
+  : []
+
+/**
+ * Entry for a value assigned to a column, if the value is a parameter
+ * (parameters with a cast are typed by the token scan)
+ */
+type AssignedParam<Value, Column extends string, Def> = Value extends {
+  readonly type: "Param"
+  readonly name: infer Name
+}
+  ? Name extends `${string}::${string}`
+    ? []
+    : Name extends string
+      ? [ParamEntry<ParamKey<Name>, Column extends keyof Def ? UnwrapColumnType<Def[Column]> : unknown>]
+      : []
+  : []
+
+// ============================================================================
+// Token Scanning (comparisons, LIMIT / OFFSET, casts)
+// ============================================================================
+
+/**
+ * Join aggregate calls into single tokens so they are compared like columns:
+ * "COUNT ( * )" → "COUNT(*)", "MAX ( u.age )" → "MAX(u.age)"
+ * Calls with nested parentheses or parameters in their arguments are kept as is
+ */
+type CollapseAggregates<T extends string, Acc extends string = ""> = NextToken<T> extends [
+  infer Token extends string,
+  infer Rest extends string,
+]
+  ? Token extends ""
+    ? Acc
+    : Uppercase<Token> extends infer Func extends AggregateFunc
+      ? NextToken<Rest> extends ["(", infer AfterParen extends string]
+        ? AggregateArg<AfterParen> extends [infer Arg extends string, infer AfterCall extends string]
+          ? CollapseAggregates<AfterCall, `${Acc} ${Func}(${Arg})`>
+          : CollapseAggregates<Rest, `${Acc} ${Token}`>
+        : CollapseAggregates<Rest, `${Acc} ${Token}`>
+      : CollapseAggregates<Rest, `${Acc} ${Token}`>
+  : Acc
+
+/**
+ * Argument tokens of an aggregate call up to its closing parenthesis: [Arg, Rest],
+ * or false for nested parentheses and parameters
+ */
+type AggregateArg<T extends string, Arg extends string = ""> = NextToken<T> extends [
+  infer Token extends string,
+  infer Rest extends string,
+]
+  ? Token extends ")"
+    ? [Arg, Rest]
+    : Token extends "(" | ""
+      ? false
+      : ParseParamToken<Token> extends false
+        ? AggregateArg<Rest, `${Arg}${Token}`>
+        : false
+  : false
+
+/**
+ * Comparison operators that type a parameter from the other operand
+ */
+type ComparisonOperator = "=" | "!=" | "<>" | "<" | ">" | "<=" | ">="
+
+/**
+ * Scan normalized SQL tokens for parameters
+ * Prev1..Prev3 are the previous tokens, InRef the column of an open IN list,
+ * BetweenRef the column of an open BETWEEN and InSet whether the tokens are
+ * SET assignments
+ */
+type ScanParams<
+  T extends string,
+  Context,
+  Prev3 extends string = "",
+  Prev2 extends string = "",
+  Prev1 extends string = "",
+  InRef extends string = "",
+  BetweenRef extends string = "",
+  InSet extends boolean = false,
+  Acc extends ParamEntry[] = [],
+> = NextToken<T> extends [infer Token extends string, infer Rest extends string]
+  ? Token extends ""
+    ? Acc
+    : ScanParams<
+        Rest,
+        Context,
+        Prev2,
+        Prev1,
+        Token,
+        Token extends "("
+          ? Prev1 extends "IN"
+            ? Prev2 extends "NOT"
+              ? Prev3
+              : Prev2
+            : InRef
+          : Token extends ")"
+            ? ""
+            : InRef,
+        Token extends "BETWEEN"
+          ? Prev1 extends "NOT" ? Prev2 : Prev1
+          : Prev1 extends "AND"
+            ? ""
+            : BetweenRef,
+        Token extends "SET" ? true : Token extends SetTerminator ? false : InSet,
+        [...Acc, ...TokenParams<Token, Rest, Prev2, Prev1, InRef, BetweenRef, InSet, Context>]
+      >
+  : Acc
+
+/**
+ * Tokens that end the assignments of a SET clause
+ */
+type SetTerminator = "FROM" | "WHERE" | "RETURNING" | "WHEN"
+
+/**
+ * Entries for the parameters of a single token
+ */
+type TokenParams<
+  Token extends string,
+  Rest extends string,
+  Prev2 extends string,
+  Prev1 extends string,
+  InRef extends string,
+  BetweenRef extends string,
+  InSet extends boolean,
+  Context,
+> = ParseParamToken<Token> extends [infer Key extends number | string, infer Cast extends string]
+  ? [ParamEntry<Key, ParamTokenType<Cast, Rest, Prev2, Prev1, InRef, BetweenRef, InSet, Context>>]
+  : SplitComparison<Token> extends [infer Left extends string, infer Right extends string]
+    ? ParseParamToken<Right> extends [infer Key extends number | string, infer Cast extends string]
+      ? [ParamEntry<Key, Cast extends "" ? LeftOperandType<Left, InSet, Context> : CastType<Cast>>]
+      : ParseParamToken<Left> extends [infer Key extends number | string, infer Cast extends string]
+        ? [ParamEntry<Key, Cast extends "" ? ComparedType<Right, Context> : CastType<Cast>>]
+        : []
+    : []
+
+/**
+ * Type of a standalone parameter token from its surroundings
+ */
+type ParamTokenType<
+  Cast extends string,
+  Rest extends string,
+  Prev2 extends string,
+  Prev1 extends string,
+  InRef extends string,
+  BetweenRef extends string,
+  InSet extends boolean,
+  Context,
+> = Cast extends ""
+  ? InRef extends ""
+    ? Prev1 extends ComparisonOperator
+      ? LeftOperandType<Prev2, InSet, Context>
+      : Prev1 extends "LIKE" | "ILIKE"
+        ? string
+        : Prev1 extends "LIMIT" | "OFFSET"
+          ? number
+          : Prev1 extends "BETWEEN"
+            ? ComparedType<Prev2, Context>
+            : Prev1 extends "AND"
+              ? BetweenRef extends ""
+                ? FollowingComparedType<Rest, Context>
+                : ComparedType<BetweenRef, Context>
+              : SplitTrailingOperator<Prev1> extends infer Left extends string
+                ? LeftOperandType<Left, InSet, Context>
+                : FollowingComparedType<Rest, Context>
+    : ComparedType<InRef, Context>
+  : CastType<Cast>
+
+/**
+ * Type from the column on the left of the parameter: the column type as
+ * declared for SET assignments (col = $1), the compared type otherwise
+ */
+type LeftOperandType<Ref extends string, InSet extends boolean, Context> = InSet extends true
+  ? ColumnRefType<Ref, Context>
+  : ComparedType<Ref, Context>
+
+/**
+ * Type from a comparison that follows the parameter: $1 = col / $1 =col
+ */
+type FollowingComparedType<Rest extends string, Context> = NextToken<Rest> extends [
+  infer Op extends string,
+  infer AfterOp extends string,
+]
+  ? Op extends ComparisonOperator
+    ? ComparedType<NextToken<AfterOp>[0], Context>
+    : SplitLeadingOperator<Op> extends infer Right extends string
+      ? ComparedType<Right, Context>
+      : unknown
+  : unknown
+
+/**
+ * Type of a column compared with a parameter (null excluded)
+ */
+type ComparedType<Ref extends string, Context> = ColumnRefType<Ref, Context> extends infer Type
+  ? unknown extends Type
+    ? unknown
+    : Exclude<Type, null>
+  : unknown
+
+/**
+ * Split "left<op>right" (operators without surrounding spaces)
+ */
+type SplitComparison<Token extends string> = Token extends `${infer L}<>${infer R}`
+  ? [L, R]
+  : Token extends `${infer L}!=${infer R}`
+    ? [L, R]
+    : Token extends `${infer L}>=${infer R}`
+      ? [L, R]
+      : Token extends `${infer L}<=${infer R}`
+        ? [L, R]
+        : Token extends `${infer L}=${infer R}`
+          ? [L, R]
+          : Token extends `${infer L}<${infer R}`
+            ? [L, R]
+            : Token extends `${infer L}>${infer R}`
+              ? [L, R]
+              : false
+
+/**
+ * "col=" → "col", or false when the token does not end with an operator
+ */
+type SplitTrailingOperator<Token extends string> = SplitComparison<Token> extends [
+  infer L extends string,
+  "",
+]
+  ? L extends ""
+    ? false
+    : L
+  : false
+
+/**
+ * "=col" → "col", or false when the token does not start with an operator
+ */
+type SplitLeadingOperator<Token extends string> = SplitComparison<Token> extends [
+  "",
+  infer R extends string,
+]
+  ? R extends ""
+    ? false
+    : R
+  : false
+
+// ============================================================================
+// Runtime Binding
+// ============================================================================
+
+/**
+ * A query rewritten to positional parameters
+ */
+export type BoundQuery = {
+  sql: string
+  params: unknown[]
+}
+
+/**
+ * Rewrite named parameters (:name, @name, $name) to positional form ($1, $2, ...)
+ * and collect their values in order. A name used several times maps to the
+ * same position. String literals (including $tag$ dollar-quoted bodies), quoted
+ * identifiers, comments and :: casts are left unchanged.
+ *
+ * @example
+ * ```typescript
+ * bindNamedParams("SELECT * FROM users WHERE id = :id OR parent_id = :id", { id: 1 })
+ * // { sql: "SELECT * FROM users WHERE id = $1 OR parent_id = $1", params: [1] }
+ * ```
+ *
+ * @throws Error if a parameter has no value or the query also uses positional parameters
+ */
+export function bindNamedParams(sql: string, values: Record<string, unknown>): BoundQuery {
+  const positions = new Map<string, number>()
+  const params: unknown[] = []
+  let result = ""
+  let i = 0
+
+  while (i < sql.length) {
+    const char = sql[i]
+    const next = sql[i + 1] ?? ""
+
+    // Literals, quoted identifiers and comments are copied as is
+    const skipTo =
+      char === "'" || char === '"' || char === "`"
+        ? closingQuoteEnd(sql, i)
+        : char === "-" && next === "-"
+          ? lineEnd(sql, i)
+          : char === "/" && next === "*"
+            ? blockCommentEnd(sql, i)
+            : char === ":" && next === ":"
+              ? i + 2
+              : char === "$"
+                ? dollarQuoteEnd(sql, i)
+                : -1
+    if (skipTo !== -1) {
+      result += sql.slice(i, skipTo)
+      i = skipTo
+      continue
+    }
+
+    if (
+      (char === ":" || char === "@" || char === "$") &&
+      (isNameStart(next) || (char === "$" && isDigit(next))) &&
+      !isNameChar(sql[i - 1] ?? "")
+    ) {
+      let end = i + 1
+      while (end < sql.length && isNameChar(sql[end])) {
+        end++
+      }
+      const name = sql.slice(i + 1, end)
+
+      if (char === "$" && /^\d+$/.test(name)) {
+        throw new Error(`Cannot mix positional parameter '$${name}' with named parameters`)
+      }
+
+      if (!Object.hasOwn(values, name)) {
+        throw new Error(`Missing value for parameter '${name}'`)
+      }
+      let position = positions.get(name)
+      if (position === undefined) {
+        params.push(values[name])
+        position = params.length
+        positions.set(name, position)
+      }
+      result += `$${position}`
+      i = end
+      continue
+    }
+
+    result += char
+    i++
+  }
+
+  return { sql: result, params }
+}
+
+function isNameStart(char: string): boolean {
+  return /^[A-Za-z_]$/.test(char)
+}
+
+function isDigit(char: string): boolean {
+  return /^\d$/.test(char)
+}
+
+function isNameChar(char: string): boolean {
+  return /^[A-Za-z0-9_]$/.test(char)
+}
+
+/**
+ * Index after the closing quote (doubled quotes are escapes)
+ */
+function closingQuoteEnd(sql: string, start: number): number {
+  const quote = sql[start]
+  let i = start + 1
+  while (i < sql.length) {
+    if (sql[i] === quote) {
+      if (sql[i + 1] !== quote) {
+        return i + 1
+      }
+      i++
+    }
+    i++
+  }
+  return sql.length
+}
+
+/**
+ * Index after the closing delimiter of a dollar-quoted string ($$...$$ or
+ * $tag$...$tag$), or -1 when no dollar quote starts at start
+ */
+function dollarQuoteEnd(sql: string, start: number): number {
+  if (isNameChar(sql[start - 1] ?? "")) {
+    return -1
+  }
+  const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(start))
+  if (tag === null) {
+    return -1
+  }
+  const end = sql.indexOf(tag[0], start + tag[0].length)
+  return end === -1 ? sql.length : end + tag[0].length
+}
+
+function lineEnd(sql: string, start: number): number {
+  const end = sql.indexOf("\n", start)
+  return end === -1 ? sql.length : end
+}
+
+function blockCommentEnd(sql: string, start: number): number {
+  const end = sql.indexOf("*/", start + 2)
+  return end === -1 ? sql.length : end + 2
+}
@@ -2,7 +2,7 @@
  * Query Type Router
  * 
  * This module provides the main entry point for parsing SQL queries.
- * It detects the query type (SELECT, INSERT, UPDATE, DELETE) and
+ * It detects the query type (SELECT, INSERT, UPDATE, DELETE, MERGE) and
  * routes to the appropriate parser.
  * 
  * Design Philosophy:
@@ -20,7 +20,14 @@
  */
 
 import type { NormalizeSQL, NextToken } from "./common/tokenizer.js"
-import type { ParseError, Increment, Decrement, IsStringLiteral, DynamicQuery } from "./common/utils.js"
+import type {
+  ParseError,
+  Increment,
+  Decrement,
+  IsStringLiteral,
+  DynamicQuery,
+  ToUpperCase,
+} from "./common/utils.js"
 import type { QueryType } from "./common/ast.js"
 
 // Import parsers from each query type module
@@ -28,6 +35,7 @@ import type { ParseSelectSQL, SQLSelectQuery } from "./select/index.js"
 import type { ParseInsertSQL, SQLInsertQuery } from "./insert/index.js"
 import type { ParseUpdateSQL, SQLUpdateQuery } from "./update/index.js"
 import type { ParseDeleteSQL, SQLDeleteQuery } from "./delete/index.js"
+import type { ParseMergeSQL, SQLMergeQuery } from "./merge/index.js"
 
 // ============================================================================
 // Query Type Detection
@@ -36,7 +44,8 @@ import type { ParseDeleteSQL, SQLDeleteQuery } from "./delete/index.js"
 /**
  * Detect the type of SQL query from the first keyword
  * 
- * For WITH (CTE) queries, looks ahead to find the actual query type
+ * For WITH (CTE) queries, looks ahead to find the actual query type.
+ * MERGE is not a tokenizer keyword, so it is matched case-insensitively.
  */
 export type DetectQueryType<T extends string> = 
   NextToken<NormalizeSQL<T>> extends [infer First extends string, infer Rest extends string]
@@ -50,7 +59,9 @@ export type DetectQueryType<T extends string> =
             ? "UPDATE"
             : First extends "DELETE"
               ? "DELETE"
-              : "UNKNOWN"
+              : ToUpperCase<First> extends "MERGE"
+                ? "MERGE"
+                : "UNKNOWN"
     : "UNKNOWN"
 
 /**
@@ -93,7 +104,12 @@ type FindMainQueryKeyword<T extends string, Depth extends number = 0> =
 /**
  * Union of all SQL query AST types
  */
-export type AnySQLQuery = SQLSelectQuery | SQLInsertQuery | SQLUpdateQuery | SQLDeleteQuery
+export type AnySQLQuery =
+  | SQLSelectQuery
+  | SQLInsertQuery
+  | SQLUpdateQuery
+  | SQLDeleteQuery
+  | SQLMergeQuery
 
 // ============================================================================
 // Main Parser Entry Point
@@ -133,7 +149,9 @@ export type ParseSQL<T extends string> =
             ? ParseUpdateSQL<T>
             : QType extends "DELETE"
               ? ParseDeleteSQL<T>
-              : ParseError<"Unknown query type">
+              : QType extends "MERGE"
+                ? ParseMergeSQL<T>
+                : ParseError<"Unknown query type">
       : never
 
 // ============================================================================
@@ -160,6 +178,11 @@ export type IsUpdateQuery<T> = T extends SQLUpdateQuery ? true : false
  */
 export type IsDeleteQuery<T> = T extends SQLDeleteQuery ? true : false
 
+/**
+ * Check if a parsed query is a MERGE query
+ */
+export type IsMergeQuery<T> = T extends SQLMergeQuery ? true : false
+
 // ============================================================================
 // Re-exports for convenience
 // ============================================================================
@@ -176,6 +199,9 @@ export type { ParseUpdateSQL } from "./update/index.js"
 // Re-export the DELETE-specific parser for direct use
 export type { ParseDeleteSQL } from "./delete/index.js"
 
+// Re-export the MERGE-specific parser for direct use
+export type { ParseMergeSQL } from "./merge/index.js"
+
 // Re-export dynamic query support
 export type { DynamicQuery } from "./common/utils.js"
 
@@ -5,6 +5,8 @@
  * - SelectClause - the main SELECT statement
  * - UnionClause - UNION/INTERSECT/EXCEPT operations
  * - SubqueryExpr - scalar subqueries in SELECT columns
+ * - WindowExpr - window function calls (OVER / WINDOW clause)
+ * - CaseExpr - CASE expressions (searched and simple forms)
  */
 
 import type {
@@ -14,6 +16,7 @@ import type {
     JoinClause,
     LiteralValue,
     OrderByItem,
+    ParsedCondition,
     SubquerySelectClause,
     TableSource,
     TableWildcard,
@@ -118,8 +121,137 @@ export type IntervalExpr<
     readonly value: Value;
 };
 
+// ============================================================================
+// Window Functions (SELECT-specific)
+// ============================================================================
+
+/**
+ * Ranking, offset and value functions that require an OVER clause
+ * Aggregate functions (COUNT, SUM, ...) can also be used with OVER
+ */
+export type WindowFunc =
+    | "ROW_NUMBER"
+    | "RANK"
+    | "DENSE_RANK"
+    | "PERCENT_RANK"
+    | "CUME_DIST"
+    | "NTILE"
+    | "LAG"
+    | "LEAD"
+    | "FIRST_VALUE"
+    | "LAST_VALUE"
+    | "NTH_VALUE";
+
+/**
+ * A window specification: the content of OVER ( ... ) or WINDOW name AS ( ... )
+ * BaseWindow is the name of a window this specification extends
+ * (OVER w is represented as a specification with only BaseWindow set)
+ * Frame is the raw frame clause, e.g. "ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW"
+ */
+export type WindowSpec<
+    PartitionBy extends ColumnRefType[] | undefined =
+        | ColumnRefType[]
+        | undefined,
+    OrderBy extends OrderByItem[] | undefined = OrderByItem[] | undefined,
+    Frame extends string | undefined = string | undefined,
+    BaseWindow extends string | undefined = string | undefined,
+> = {
+    readonly type: "WindowSpec";
+    readonly partitionBy: PartitionBy;
+    readonly orderBy: OrderBy;
+    readonly frame: Frame;
+    readonly baseWindow: BaseWindow;
+};
+
+/**
+ * A window function call: func ( arg ) OVER ( ... ) or func ( arg ) OVER name
+ * Func is the uppercased function name (a WindowFunc or an AggregateFunc)
+ * Argument is the first argument of the call (undefined for ROW_NUMBER ( ) etc.)
+ */
+export type WindowExpr<
+    Func extends string = string,
+    Argument extends ColumnRefType | "*" | undefined =
+        | ColumnRefType
+        | "*"
+        | undefined,
+    Window extends WindowSpec = WindowSpec,
+> = {
+    readonly type: "WindowExpr";
+    readonly func: Func;
+    readonly argument: Argument;
+    readonly window: Window;
+};
+
+/**
+ * A named window from the WINDOW clause
+ * WINDOW w AS ( PARTITION BY ... ORDER BY ... )
+ */
+export type WindowDefinition<
+    Name extends string = string,
+    Spec extends WindowSpec = WindowSpec,
+> = {
+    readonly type: "WindowDefinition";
+    readonly name: Name;
+    readonly spec: Spec;
+};
+
+// ============================================================================
+// CASE Expression (SELECT-specific)
+// ============================================================================
+
 /**
- * Extended column reference type that includes subqueries, literals, SQL constants, EXISTS, and INTERVAL expressions
+ * Base CASE expression type (to avoid circular reference)
+ * Allows CASE expressions to be nested inside THEN / ELSE branches
+ */
+export type CaseExprAny = {
+    readonly type: "CaseExpr";
+    readonly operand: unknown;
+    readonly branches: unknown[];
+    readonly else: unknown;
+};
+
+/**
+ * Values that can appear as a CASE operand, WHEN value (simple form) or THEN / ELSE result
+ */
+export type CaseValue =
+    | ColumnRefType
+    | LiteralExpr
+    | SQLConstantExpr
+    | CaseExprAny;
+
+/**
+ * A single WHEN ... THEN ... branch
+ * Condition is a ParsedCondition in the searched form (CASE WHEN cond THEN ...)
+ * and a value compared to the operand in the simple form (CASE x WHEN value THEN ...)
+ */
+export type CaseWhen<
+    Condition extends ParsedCondition | CaseValue = ParsedCondition | CaseValue,
+    Result extends CaseValue = CaseValue,
+> = {
+    readonly type: "CaseWhen";
+    readonly condition: Condition;
+    readonly result: Result;
+};
+
+/**
+ * A CASE expression
+ * Searched form: CASE WHEN cond THEN result [...] [ELSE result] END (Operand is undefined)
+ * Simple form: CASE operand WHEN value THEN result [...] [ELSE result] END
+ * Else is undefined when there is no ELSE branch (the expression can then be NULL)
+ */
+export type CaseExpr<
+    Operand extends CaseValue | undefined = CaseValue | undefined,
+    Branches extends CaseWhen[] = CaseWhen[],
+    Else extends CaseValue | undefined = CaseValue | undefined,
+> = {
+    readonly type: "CaseExpr";
+    readonly operand: Operand;
+    readonly branches: Branches;
+    readonly else: Else;
+};
+
+/**
+ * Extended column reference type that includes subqueries, literals, SQL constants, EXISTS, INTERVAL, window and CASE expressions
  * Used only in parser output for SELECT columns
  */
 export type ExtendedColumnRefType =
@@ -128,7 +260,9 @@ export type ExtendedColumnRefType =
     | LiteralExpr
     | SQLConstantExpr
     | ExistsExpr
-    | IntervalExpr;
+    | IntervalExpr
+    | WindowExpr
+    | CaseExpr;
 
 /**
  * A column reference with optional alias
@@ -152,6 +286,15 @@ export type ColumnRef<
  */
 export type SelectItem = ColumnRef | AggregateExpr | TableWildcard;
 
+/**
+ * A selected item that may be absent from the result, such as a column
+ * selected inside the query builder's .when()
+ * The matcher unions its type with undefined
+ */
+export type OptionalSelectItem<Item extends SelectItem = SelectItem> =
+    & Item
+    & { readonly optional: true; };
+
 /**
  * Array of selected columns
  */
@@ -176,6 +319,9 @@ export type SelectClause<
     Offset extends number | undefined = number | undefined,
     Distinct extends boolean = boolean,
     CTEs extends CTEDefinition[] | undefined = CTEDefinition[] | undefined,
+    Windows extends WindowDefinition[] | undefined =
+        | WindowDefinition[]
+        | undefined,
 > = Flatten<{
     readonly type: "SelectClause";
     readonly columns: Columns;
@@ -189,6 +335,7 @@ export type SelectClause<
     readonly offset: Offset;
     readonly distinct: Distinct;
     readonly ctes: CTEs;
+    readonly windows: Windows;
 }>;
 
 // ============================================================================
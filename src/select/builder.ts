@@ -0,0 +1,1123 @@
+/**
+ * SELECT Query Builder
+ *
+ * An immutable, chainable builder that assembles a SELECT query from
+ * fragments while keeping full type information:
+ *
+ * ```typescript
+ * const query = createSelectQuery<Schema>()
+ *     .from("users")
+ *     .select(["id", "name"])
+ *     .where("active = true", "active_filter")
+ *     .when(withEmail, b => b.select("email"))
+ *     .limit(10);
+ *
+ * const sql = query.toString();
+ * // "SELECT id, name FROM users WHERE active = true LIMIT 10"
+ * type Row = typeof sql.__type;
+ * // { id: number; name: string; email?: string | undefined }
+ * ```
+ *
+ * Runtime: the builder stores the fragments exactly as given, tagged with
+ * the optional user-provided ID, and toString() concatenates them in SQL
+ * clause order. No parsing happens at runtime.
+ *
+ * Type level: the builder state holds the same fragments as literal types.
+ * Each method assembles the query text of the new state and validates it
+ * with ValidateSelectSQL; an invalid fragment puts the builder into
+ * ErrorState and makes the argument a compile error at the call site.
+ * The result row is inferred with MatchSelectQuery.
+ *
+ * Parts added inside .when() are always part of the type-level state, since
+ * the condition is only known at runtime. Columns selected inside .when(),
+ * and columns of tables joined inside .when(), are optional keys typed as
+ * T | undefined.
+ */
+
+import type { JoinClause, TableColumnRef, TableSource, TableWildcard } from "../common/ast.js";
+import type {
+    AddPart,
+    AnyConditionTreeBuilder,
+    BuilderErrorState,
+    BuilderState,
+    CheckedInput,
+    ConditionPartsSQL,
+    ConditionTreeBuilderState,
+    ConditionTreeSQL,
+    FragmentPart,
+    FragmentText,
+    PartsSQL,
+    RemovePart,
+} from "../common/builder.js";
+import {
+    conditionPartsSQL,
+    fragmentText,
+    partsSQL,
+    requireFragment,
+    requireId,
+    upsertPart,
+} from "../common/builder.js";
+import type { DatabaseSchema } from "../common/schema.js";
+import type { NextToken, NormalizeSQL } from "../common/tokenizer.js";
+import type { Flatten, MatchError, StripTemplateHoles } from "../common/utils.js";
+import type {
+    ColumnRef,
+    OptionalSelectItem,
+    SelectClause,
+    SelectItem,
+    SQLSelectQuery,
+    UnionClause,
+    UnionOperatorType,
+} from "./ast.js";
+import type { MatchSelectQuery } from "./matcher.js";
+import type { ParseSelectSQL, ParseSingleJoin } from "./parser.js";
+import type { ValidateSelectSQL } from "./validator.js";
+
+// ============================================================================
+// Builder State
+// ============================================================================
+
+/**
+ * Strictness of a join, used when a join is replaced by ID
+ * INNER > LEFT = RIGHT > FULL > CROSS
+ */
+export type JoinStrictness = "INNER" | "LEFT" | "RIGHT" | "FULL" | "CROSS";
+
+/**
+ * A query fragment with its user-provided ID
+ * Optional parts were added inside .when()
+ */
+export type BuilderPart<
+    Id extends string | undefined = string | undefined,
+    SQL extends string = string,
+    Optional extends boolean = boolean,
+> = FragmentPart<Id, SQL> & {
+    readonly optional: Optional;
+};
+
+/**
+ * A JOIN fragment with the strictness of its join type
+ */
+export type BuilderJoinPart<
+    Id extends string | undefined = string | undefined,
+    SQL extends string = string,
+    Optional extends boolean = boolean,
+    Strictness extends JoinStrictness = JoinStrictness,
+> = BuilderPart<Id, SQL, Optional> & {
+    readonly strictness: Strictness;
+};
+
+/**
+ * A set operation combining the query with another one
+ */
+export type BuilderUnion<
+    Op extends UnionOperatorType = UnionOperatorType,
+    SQL extends string = string,
+> = {
+    readonly operator: Op;
+    readonly sql: SQL;
+};
+
+/**
+ * State of a SELECT builder
+ * Parts are kept in insertion order; a part added with an existing ID
+ * replaces the old one in place
+ */
+export type SelectBuilderState = {
+    readonly select: BuilderPart[];
+    readonly from: string | undefined;
+    readonly joins: BuilderJoinPart[];
+    readonly where: BuilderPart[];
+    readonly groupBy: BuilderPart[];
+    readonly having: BuilderPart[];
+    readonly orderBy: BuilderPart[];
+    readonly limit: number | undefined;
+    readonly offset: number | undefined;
+    readonly ctes: BuilderPart[];
+    readonly distinct: boolean;
+    readonly union: BuilderUnion | undefined;
+};
+
+/**
+ * Initial builder state
+ */
+export type EmptyState = {
+    readonly select: [];
+    readonly from: undefined;
+    readonly joins: [];
+    readonly where: [];
+    readonly groupBy: [];
+    readonly having: [];
+    readonly orderBy: [];
+    readonly limit: undefined;
+    readonly offset: undefined;
+    readonly ctes: [];
+    readonly distinct: false;
+    readonly union: undefined;
+};
+
+/**
+ * State of a builder after a fragment failed to parse or validate
+ * Once in ErrorState, further calls keep the first error
+ */
+export type ErrorState<
+    Message extends string = string,
+    Previous extends SelectBuilderState = SelectBuilderState,
+> = BuilderErrorState<Message, Previous>;
+
+export type { BuilderState, ExtractError } from "../common/builder.js";
+
+// ============================================================================
+// Builder Interface
+// ============================================================================
+
+/**
+ * Branded SQL string returned by toString()
+ * __type is the result row type, or a MatchError in ErrorState
+ */
+export type SelectQuerySQL<Result> = string & {
+    readonly __type: Result;
+};
+
+/**
+ * Type-safe SELECT query builder
+ *
+ * Every method returns a new builder; IDs (the last argument) allow a part
+ * to be replaced or removed later. Conditional is true for the builder
+ * passed to a .when() callback.
+ *
+ * The type parameters are declared invariant so that comparing two builders
+ * does not make TypeScript measure variance through every state transition.
+ */
+export interface SelectQueryBuilder<
+    in out Schema extends DatabaseSchema,
+    in out State extends SelectBuilderState | ErrorState = EmptyState,
+    in out Conditional extends boolean = false,
+> {
+    /** Type-level state (not available at runtime) */
+    readonly __state?: State;
+
+    /**
+     * Add selected columns; without any select() the query selects *
+     */
+    select<
+        const Columns extends string | readonly string[],
+        Id extends string | undefined = undefined,
+    >(
+        columns: CheckedInput<
+            State,
+            Columns,
+            SelectStep<Schema, State, FragmentText<Columns>, Id, Conditional>
+        >,
+        id?: Id,
+    ): SelectQueryBuilder<
+        Schema,
+        SelectStep<Schema, State, FragmentText<Columns>, Id, Conditional>,
+        Conditional
+    >;
+
+    /** Remove selected columns by ID */
+    removeSelect<Id extends string>(
+        id: Id,
+    ): SelectQueryBuilder<Schema, RemoveStep<Schema, State, "select", Id>, Conditional>;
+
+    /**
+     * Set the source table, or a subquery builder with an alias
+     */
+    from<const Source extends string>(
+        source: CheckedInput<State, Source, FromStep<Schema, State, Source>>,
+    ): SelectQueryBuilder<Schema, FromStep<Schema, State, Source>, Conditional>;
+    from<
+        Subquery extends AnySelectQueryBuilder,
+        const Alias extends string,
+    >(
+        source: Subquery,
+        alias: CheckedInput<State, Alias, SubqueryFromStep<Schema, State, Subquery, Alias>>,
+    ): SelectQueryBuilder<
+        Schema,
+        SubqueryFromStep<Schema, State, Subquery, Alias>,
+        Conditional
+    >;
+
+    /**
+     * Add a JOIN clause; a join with an existing ID replaces it only if the
+     * new join is at least as strict (otherwise the call is a no-op)
+     */
+    join<const Join extends string, Id extends string | undefined = undefined>(
+        join: CheckedInput<State, Join, JoinStep<Schema, State, Join, Id, Conditional>>,
+        id?: Id,
+    ): SelectQueryBuilder<Schema, JoinStep<Schema, State, Join, Id, Conditional>, Conditional>;
+
+    /** Remove a join by ID */
+    removeJoin<Id extends string>(
+        id: Id,
+    ): SelectQueryBuilder<Schema, RemoveStep<Schema, State, "joins", Id>, Conditional>;
+
+    /**
+     * Add a WHERE condition or condition tree; conditions are combined with AND
+     */
+    where<
+        const Condition extends string | AnyConditionTreeBuilder,
+        Id extends string | undefined = undefined,
+    >(
+        condition: CheckedInput<
+            State,
+            Condition,
+            ClauseStep<Schema, State, "where", ConditionText<Condition>, Id, Conditional>
+        >,
+        id?: Id,
+    ): SelectQueryBuilder<
+        Schema,
+        ClauseStep<Schema, State, "where", ConditionText<Condition>, Id, Conditional>,
+        Conditional
+    >;
+
+    /** Remove a WHERE condition by ID */
+    removeWhere<Id extends string>(
+        id: Id,
+    ): SelectQueryBuilder<Schema, RemoveStep<Schema, State, "where", Id>, Conditional>;
+
+    /** Add GROUP BY columns */
+    groupBy<
+        const Columns extends string | readonly string[],
+        Id extends string | undefined = undefined,
+    >(
+        columns: CheckedInput<
+            State,
+            Columns,
+            ClauseStep<Schema, State, "groupBy", FragmentText<Columns>, Id, Conditional>
+        >,
+        id?: Id,
+    ): SelectQueryBuilder<
+        Schema,
+        ClauseStep<Schema, State, "groupBy", FragmentText<Columns>, Id, Conditional>,
+        Conditional
+    >;
+
+    /** Remove GROUP BY columns by ID */
+    removeGroupBy<Id extends string>(
+        id: Id,
+    ): SelectQueryBuilder<Schema, RemoveStep<Schema, State, "groupBy", Id>, Conditional>;
+
+    /**
+     * Add a HAVING condition or condition tree; conditions are combined with AND
+     */
+    having<
+        const Condition extends string | AnyConditionTreeBuilder,
+        Id extends string | undefined = undefined,
+    >(
+        condition: CheckedInput<
+            State,
+            Condition,
+            ClauseStep<Schema, State, "having", ConditionText<Condition>, Id, Conditional>
+        >,
+        id?: Id,
+    ): SelectQueryBuilder<
+        Schema,
+        ClauseStep<Schema, State, "having", ConditionText<Condition>, Id, Conditional>,
+        Conditional
+    >;
+
+    /** Remove a HAVING condition by ID */
+    removeHaving<Id extends string>(
+        id: Id,
+    ): SelectQueryBuilder<Schema, RemoveStep<Schema, State, "having", Id>, Conditional>;
+
+    /** Add ORDER BY items */
+    orderBy<
+        const Ordering extends string | readonly string[],
+        Id extends string | undefined = undefined,
+    >(
+        ordering: CheckedInput<
+            State,
+            Ordering,
+            ClauseStep<Schema, State, "orderBy", FragmentText<Ordering>, Id, Conditional>
+        >,
+        id?: Id,
+    ): SelectQueryBuilder<
+        Schema,
+        ClauseStep<Schema, State, "orderBy", FragmentText<Ordering>, Id, Conditional>,
+        Conditional
+    >;
+
+    /** Remove ORDER BY items by ID */
+    removeOrderBy<Id extends string>(
+        id: Id,
+    ): SelectQueryBuilder<Schema, RemoveStep<Schema, State, "orderBy", Id>, Conditional>;
+
+    /** Set LIMIT */
+    limit<const Limit extends number>(
+        limit: Limit,
+    ): SelectQueryBuilder<Schema, SetStep<State, "limit", Limit>, Conditional>;
+
+    /** Remove LIMIT */
+    removeLimit(): SelectQueryBuilder<Schema, SetStep<State, "limit", undefined>, Conditional>;
+
+    /** Set OFFSET */
+    offset<const Offset extends number>(
+        offset: Offset,
+    ): SelectQueryBuilder<Schema, SetStep<State, "offset", Offset>, Conditional>;
+
+    /** Remove OFFSET */
+    removeOffset(): SelectQueryBuilder<Schema, SetStep<State, "offset", undefined>, Conditional>;
+
+    /** Set the DISTINCT flag */
+    distinct<const Distinct extends boolean>(
+        distinct: Distinct,
+    ): SelectQueryBuilder<Schema, SetStep<State, "distinct", Distinct>, Conditional>;
+
+    /**
+     * Add a CTE: "name AS (SELECT ...)"
+     * A CTE may reference the CTEs added before it
+     */
+    with<const CTE extends string, Id extends string | undefined = undefined>(
+        cte: CheckedInput<State, CTE, WithStep<Schema, State, CTE, Id, Conditional>>,
+        id?: Id,
+    ): SelectQueryBuilder<Schema, WithStep<Schema, State, CTE, Id, Conditional>, Conditional>;
+
+    /** Remove a CTE by ID */
+    removeWith<Id extends string>(
+        id: Id,
+    ): SelectQueryBuilder<Schema, RemoveStep<Schema, State, "ctes", Id>, Conditional>;
+
+    /**
+     * Combine with another query using UNION (default), INTERSECT or EXCEPT
+     * ORDER BY, LIMIT and OFFSET of this builder apply to the combined result;
+     * the other query cannot have them
+     */
+    union<
+        Other extends AnySelectQueryBuilder,
+        Op extends UnionOperatorType = "UNION",
+    >(
+        other: Other,
+        operator?: Op,
+    ): SelectQueryBuilder<Schema, UnionStep<Schema, State, Other, Op>, Conditional>;
+
+    /**
+     * Apply the callback only when the condition is true at runtime
+     * At type level the callback is always applied; columns it selects and
+     * tables it joins become optional keys typed T | undefined. Calls cannot
+     * be nested.
+     */
+    when: Conditional extends true ? never
+        : <Result extends AnySelectQueryBuilder>(
+            condition: boolean,
+            callback: (builder: SelectQueryBuilder<Schema, State, true>) => Result,
+        ) => SelectQueryBuilder<Schema, BuilderState<Result>, Conditional>;
+
+    /**
+     * Assemble the SQL query
+     * The branded return type carries the result row type in __type
+     */
+    toString(): SelectQuerySQL<SelectStateResult<State, Schema>>;
+}
+
+/**
+ * Any SELECT builder, used to accept subqueries and .when() results
+ */
+export type AnySelectQueryBuilder = {
+    readonly __state?: SelectBuilderState | ErrorState;
+};
+
+/**
+ * Result row type of a builder
+ */
+export type SelectBuilderResult<Builder, Schema extends DatabaseSchema> =
+    SelectStateResult<BuilderState<Builder>, Schema>;
+
+// ============================================================================
+// State Transitions
+// ============================================================================
+
+/**
+ * Text of a condition: a string, or the rendered text of a condition tree
+ */
+type ConditionText<Input> = Input extends string ? Input
+    : ConditionTreeSQL<ConditionTreeBuilderState<Input>>;
+
+/**
+ * Fragment text as seen by the type-level parser: words containing
+ * template literal holes are stripped out
+ */
+type StaticText<Fragment extends string> = StripTemplateHoles<Fragment>;
+
+/**
+ * Replace a field of the state
+ */
+type WithField<State extends SelectBuilderState, Field extends keyof SelectBuilderState, Value> =
+    Flatten<Omit<State, Field> & { readonly [K in Field]: Value; }> extends
+        infer Next extends SelectBuilderState ? Next
+        : never;
+
+/**
+ * Validate the query assembled from a new state
+ * Before from() there is no query to validate yet
+ */
+type ValidateStep<
+    Schema extends DatabaseSchema,
+    Previous extends SelectBuilderState,
+    Next extends SelectBuilderState,
+> = Next["from"] extends string
+    ? ValidateSelectSQL<BuildSelectSQL<Next>, Schema> extends infer Result
+        ? Result extends true ? Next
+        : ErrorState<Result extends string ? Result : "Invalid query", Previous>
+    : never
+    : Next;
+
+type RequireFrom<State extends SelectBuilderState, Method extends string, Next> =
+    State["from"] extends string ? Next
+        : ErrorState<`Call from() before ${Method}()`, State>;
+
+/**
+ * select(): add a select part
+ */
+type SelectStep<
+    Schema extends DatabaseSchema,
+    State extends SelectBuilderState | ErrorState,
+    Columns extends string,
+    Id extends string | undefined,
+    Conditional extends boolean,
+> = State extends SelectBuilderState
+    ? StaticText<Columns> extends "" ? State
+    : RequireFrom<
+        State,
+        "select",
+        ValidateStep<
+            Schema,
+            State,
+            WithField<
+                State,
+                "select",
+                AddPart<State["select"], BuilderPart<Id, StaticText<Columns>, Conditional>>
+            >
+        >
+    >
+    : State;
+
+/**
+ * where(), groupBy(), having(), orderBy(): add a clause part
+ */
+type ClauseStep<
+    Schema extends DatabaseSchema,
+    State extends SelectBuilderState | ErrorState,
+    Field extends "where" | "groupBy" | "having" | "orderBy",
+    Fragment extends string,
+    Id extends string | undefined,
+    Conditional extends boolean,
+> = State extends SelectBuilderState
+    ? StaticText<Fragment> extends "" ? State
+    : RequireFrom<
+        State,
+        Field,
+        ValidateStep<
+            Schema,
+            State,
+            WithField<
+                State,
+                Field,
+                AddPart<State[Field], BuilderPart<Id, StaticText<Fragment>, Conditional>>
+            >
+        >
+    >
+    : State;
+
+/**
+ * from(): set the source table
+ */
+type FromStep<
+    Schema extends DatabaseSchema,
+    State extends SelectBuilderState | ErrorState,
+    Source extends string,
+> = State extends SelectBuilderState
+    ? StaticText<Source> extends "" ? State
+    : ValidateStep<Schema, State, WithField<State, "from", StaticText<Source>>>
+    : State;
+
+/**
+ * from(): use a subquery builder as the source table
+ */
+type SubqueryFromStep<
+    Schema extends DatabaseSchema,
+    State extends SelectBuilderState | ErrorState,
+    Subquery,
+    Alias extends string,
+> = State extends SelectBuilderState
+    ? BuilderState<Subquery> extends infer SubState
+        ? SubState extends ErrorState<infer Message> ? ErrorState<Message, State>
+        : SubState extends SelectBuilderState
+            ? SubState["from"] extends string ? ValidateStep<
+                    Schema,
+                    State,
+                    WithField<State, "from", `( ${BuildSelectSQL<SubState>} ) AS ${Alias}`>
+                >
+            : ErrorState<"Subquery has no FROM clause", State>
+        : never
+    : never
+    : State;
+
+/**
+ * join(): add a join, or replace the join with the same ID
+ * if the new join is at least as strict
+ */
+type JoinStep<
+    Schema extends DatabaseSchema,
+    State extends SelectBuilderState | ErrorState,
+    Join extends string,
+    Id extends string | undefined,
+    Conditional extends boolean,
+> = State extends SelectBuilderState
+    ? StaticText<Join> extends "" ? State
+    : BuilderJoinPart<Id, StaticText<Join>, Conditional, FragmentJoinStrictness<StaticText<Join>>> extends
+        infer Part extends BuilderJoinPart
+        ? CanAddJoin<State["joins"], Part> extends true ? RequireFrom<
+                State,
+                "join",
+                ValidateStep<Schema, State, WithField<State, "joins", AddPart<State["joins"], Part>>>
+            >
+        : State
+    : never
+    : State;
+
+/**
+ * A join can be added unless it replaces a stricter join
+ */
+type CanAddJoin<Joins extends BuilderJoinPart[], Part extends BuilderJoinPart> = Part["id"] extends
+    string ? Extract<Joins[number], { readonly id: Part["id"]; }> extends infer Existing
+        ? [ Existing ] extends [ never ] ? true
+        : Existing extends BuilderJoinPart
+            ? CanReplaceJoin<Existing["strictness"], Part["strictness"]>
+        : true
+    : never
+    : true;
+
+/**
+ * A join may be replaced by a join of equal or higher strictness
+ */
+export type CanReplaceJoin<
+    OldStrictness extends JoinStrictness,
+    NewStrictness extends JoinStrictness,
+> = StrictnessRank[NewStrictness][number] extends StrictnessRank[OldStrictness][number]
+    ? StrictnessRank[NewStrictness]["length"] extends StrictnessRank[OldStrictness]["length"]
+        ? true
+    : false
+    : true;
+
+/**
+ * Strictness as tuple length (a longer tuple is a stricter join)
+ */
+type StrictnessRank = {
+    CROSS: [];
+    FULL: [ 1 ];
+    LEFT: [ 1, 2 ];
+    RIGHT: [ 1, 2 ];
+    INNER: [ 1, 2, 3 ];
+};
+
+/**
+ * Strictness of a join fragment from its leading keyword
+ * A plain JOIN is an INNER join
+ */
+type FragmentJoinStrictness<Join extends string> = NextToken<NormalizeSQL<Join>> extends [
+    infer First extends string,
+    infer Rest extends string,
+] ? First extends "NATURAL" ? FragmentJoinStrictness<Rest>
+    : First extends JoinStrictness ? First
+    : "INNER"
+    : "INNER";
+
+/**
+ * with(): add a CTE
+ * Before from() the CTE is validated by selecting from it
+ */
+type WithStep<
+    Schema extends DatabaseSchema,
+    State extends SelectBuilderState | ErrorState,
+    CTE extends string,
+    Id extends string | undefined,
+    Conditional extends boolean,
+> = State extends SelectBuilderState
+    ? StaticText<CTE> extends "" ? State
+    : WithField<State, "ctes", AddPart<State["ctes"], BuilderPart<Id, StaticText<CTE>, Conditional>>> extends
+        infer Next extends SelectBuilderState
+        ? State["from"] extends string ? ValidateStep<Schema, State, Next>
+        : ValidateSelectSQL<
+            `${WithSQL<Next["ctes"]>}SELECT * FROM ${CTEName<StaticText<CTE>>}`,
+            Schema
+        > extends infer Result
+            ? Result extends true ? Next
+            : ErrorState<Result extends string ? Result : "Invalid CTE", State>
+        : never
+    : never
+    : State;
+
+type CTEName<CTE extends string> = NextToken<NormalizeSQL<CTE>> extends
+    [ infer Name extends string, string ] ? Name
+    : CTE;
+
+/**
+ * union(): combine with another query
+ */
+type UnionStep<
+    Schema extends DatabaseSchema,
+    State extends SelectBuilderState | ErrorState,
+    Other,
+    Op extends UnionOperatorType,
+> = State extends SelectBuilderState
+    ? BuilderState<Other> extends infer OtherState
+        ? OtherState extends ErrorState<infer Message> ? ErrorState<Message, State>
+        : OtherState extends SelectBuilderState
+            ? OtherState["from"] extends string ? IsUnionOperand<OtherState> extends true ? RequireFrom<
+                        State,
+                        "union",
+                        ValidateStep<
+                            Schema,
+                            State,
+                            WithField<State, "union", BuilderUnion<Op, BuildSelectSQL<OtherState>>>
+                        >
+                    >
+                : ErrorState<"Union query cannot have ORDER BY, LIMIT or OFFSET", State>
+            : ErrorState<"Union query has no FROM clause", State>
+        : never
+    : never
+    : State;
+
+/**
+ * The other side of a union is emitted unparenthesized, so its own
+ * ORDER BY, LIMIT and OFFSET would apply to the whole union
+ */
+type IsUnionOperand<State extends SelectBuilderState> = State["orderBy"] extends [] ? [
+    State["limit"] | State["offset"],
+] extends [ undefined ] ? true
+    : false
+    : false;
+
+/**
+ * removeX(): remove a part by ID and revalidate
+ */
+type RemoveStep<
+    Schema extends DatabaseSchema,
+    State extends SelectBuilderState | ErrorState,
+    Field extends "select" | "joins" | "where" | "groupBy" | "having" | "orderBy" | "ctes",
+    Id extends string,
+> = State extends SelectBuilderState
+    ? ValidateStep<Schema, State, WithField<State, Field, RemovePart<State[Field], Id>>>
+    : State;
+
+/**
+ * limit(), offset(), distinct() and their removal: set a value
+ */
+type SetStep<
+    State extends SelectBuilderState | ErrorState,
+    Field extends "limit" | "offset" | "distinct",
+    Value,
+> = State extends SelectBuilderState ? WithField<State, Field, Value> : State;
+
+// ============================================================================
+// Type-Level SQL Assembly
+// ============================================================================
+
+/**
+ * Query text of a builder state, mirroring the runtime assembly
+ * Non-literal LIMIT/OFFSET values are left out (they do not affect the result)
+ */
+export type BuildSelectSQL<State extends SelectBuilderState> = `${WithSQL<State["ctes"]>}SELECT ${[
+    State["distinct"],
+] extends [ true ] ? "DISTINCT "
+    : ""}${State["select"] extends [] ? "*"
+    : PartsSQL<State["select"], ", ">} FROM ${State["from"] & string}${JoinsSQL<
+    State["joins"]
+>}${ConditionSQL<" WHERE ", State["where"]>}${ListSQL<" GROUP BY ", State["groupBy"]>}${ConditionSQL<
+    " HAVING ",
+    State["having"]
+>}${UnionSQL<State["union"]>}${ListSQL<" ORDER BY ", State["orderBy"]>}${NumberSQL<
+    " LIMIT ",
+    State["limit"]
+>}${NumberSQL<" OFFSET ", State["offset"]>}`;
+
+type WithSQL<CTEs extends BuilderPart[]> = CTEs extends [] ? ""
+    : `WITH ${PartsSQL<CTEs, ", ">} `;
+
+type JoinsSQL<Joins extends BuilderPart[]> = Joins extends [] ? ""
+    : ` ${PartsSQL<Joins, " ">}`;
+
+type ListSQL<Keyword extends string, Parts extends BuilderPart[]> = Parts extends [] ? ""
+    : `${Keyword}${PartsSQL<Parts, ", ">}`;
+
+type ConditionSQL<Keyword extends string, Parts extends BuilderPart[]> = Parts extends [] ? ""
+    : `${Keyword}${ConditionPartsSQL<Parts>}`;
+
+type NumberSQL<Keyword extends string, Value> = Value extends number
+    ? number extends Value ? "" : `${Keyword}${Value}`
+    : "";
+
+type UnionSQL<Union> = Union extends BuilderUnion<infer Op, infer SQL> ? ` ${Op} ${SQL}`
+    : "";
+
+// ============================================================================
+// Result Inference
+// ============================================================================
+
+/**
+ * Result row type of a builder state
+ */
+type SelectStateResult<State, Schema extends DatabaseSchema> = State extends
+    ErrorState<infer Message> ? MatchError<Message>
+    : State extends SelectBuilderState
+        ? State["from"] extends string
+            ? MatchSelectQuery<MarkOptional<ParseSelectSQL<BuildSelectSQL<State>>, State>, Schema>
+        : MatchError<"Missing FROM clause">
+    : never;
+
+/**
+ * Mark the select items that come from .when() as optional
+ */
+type MarkOptional<Parsed, State extends SelectBuilderState> = HasOptionalParts<State> extends
+    false ? Parsed
+    : Parsed extends SQLSelectQuery<infer Content>
+        ? Content extends SelectClause ? SQLSelectQuery<MarkClause<Content, State>>
+        : Content extends UnionClause<infer Left, infer Op, infer Right>
+            ? SQLSelectQuery<UnionClause<MarkClause<Left, State>, Op, Right>>
+        : Parsed
+    : Parsed;
+
+type HasOptionalParts<State extends SelectBuilderState> = true extends
+    | State["select"][number]["optional"]
+    | State["joins"][number]["optional"] ? true
+    : false;
+
+type MarkClause<Clause extends SelectClause, State extends SelectBuilderState> = MarkedColumns<
+    Clause,
+    State
+> extends infer Columns extends SelectItem[] ? Flatten<
+        & Omit<Clause, "columns">
+        & { readonly columns: Columns; }
+    >
+    : Clause;
+
+/**
+ * Select items of each select part, marking the items of optional parts
+ * and the items taken from optionally joined tables
+ * Without select parts (SELECT *), every table is expanded to table.*
+ */
+type MarkedColumns<
+    Clause extends SelectClause,
+    State extends SelectBuilderState,
+> = OptionalJoinAliases<State["joins"]> extends infer Aliases extends string
+    ? State["select"] extends [] ? MarkItems<SourceWildcards<Clause>, false, Aliases>
+    : MarkParts<State["select"], Clause, Aliases>
+    : never;
+
+type MarkParts<
+    Parts extends BuilderPart[],
+    Clause extends SelectClause,
+    Aliases extends string,
+> = Parts extends [
+    infer First extends BuilderPart,
+    ...infer Rest extends BuilderPart[],
+] ? [
+        ...MarkItems<PartColumns<First["sql"], Clause>, First["optional"], Aliases>,
+        ...MarkParts<Rest, Clause, Aliases>,
+    ]
+    : [];
+
+/**
+ * Select items of a single select part
+ */
+type PartColumns<Columns extends string, Clause extends SelectClause> = ParseSelectSQL<
+    `SELECT ${Columns} FROM builder_part`
+> extends SQLSelectQuery<infer Query extends SelectClause>
+    ? Query["columns"] extends SelectItem[] ? Query["columns"]
+    : SourceWildcards<Clause>
+    : [];
+
+type MarkItems<Items extends SelectItem[], Optional, Aliases extends string> = {
+    [K in keyof Items]: Optional extends true ? OptionalSelectItem<Items[K]>
+        : IsFromAlias<Items[K], Aliases> extends true ? OptionalSelectItem<Items[K]>
+        : Items[K];
+};
+
+type IsFromAlias<Item, Aliases extends string> = Item extends
+    ColumnRef<TableColumnRef<infer Table>> ? Table extends Aliases ? true : false
+    : Item extends TableWildcard<infer Table, undefined> ? Table extends Aliases ? true : false
+    : false;
+
+/**
+ * table.* for the FROM table and each joined table
+ */
+type SourceWildcards<Clause extends SelectClause> = [
+    TableWildcard<SourceAlias<Clause["from"]>, undefined>,
+    ...JoinWildcards<Clause["joins"]>,
+];
+
+type JoinWildcards<Joins> = Joins extends [
+    infer First extends JoinClause,
+    ...infer Rest,
+] ? [ TableWildcard<SourceAlias<First["table"]>, undefined>, ...JoinWildcards<Rest> ]
+    : [];
+
+type SourceAlias<Source extends TableSource> = Source["alias"];
+
+/**
+ * Aliases of the tables joined inside .when()
+ */
+type OptionalJoinAliases<Joins extends BuilderJoinPart[]> = Joins[number] extends infer Join
+    ? Join extends BuilderJoinPart<string | undefined, infer SQL, true>
+        ? ParseSingleJoin<NormalizeSQL<SQL>> extends { join: infer Clause extends JoinClause; }
+            ? SourceAlias<Clause["table"]>
+        : never
+    : never
+    : never;
+
+// ============================================================================
+// Runtime Implementation
+// ============================================================================
+
+const emptyState: SelectBuilderState = {
+    select: [],
+    from: undefined,
+    joins: [],
+    where: [],
+    groupBy: [],
+    having: [],
+    orderBy: [],
+    limit: undefined,
+    offset: undefined,
+    ctes: [],
+    distinct: false,
+    union: undefined,
+};
+
+const strictnessRank: Record<JoinStrictness, number> = {
+    CROSS: 0,
+    FULL: 1,
+    LEFT: 2,
+    RIGHT: 2,
+    INNER: 3,
+};
+
+type PartField = "select" | "where" | "groupBy" | "having" | "orderBy" | "ctes";
+
+class SelectQueryBuilderImpl {
+    constructor(
+        private readonly state: SelectBuilderState,
+        private readonly conditional: boolean,
+    ) {}
+
+    select(columns: string | readonly string[], id?: string) {
+        return this.addPart("select", fragmentText(columns), id);
+    }
+
+    removeSelect(id: string) {
+        return this.removePart("select", id);
+    }
+
+    from(source: string | SelectQueryBuilderImpl, alias?: string) {
+        if (typeof source === "string") {
+            return this.next({ from: requireFragment(source, "from") });
+        }
+        return this.next({
+            from: `(${source.toString()}) AS ${requireFragment(alias ?? "", "from")}`,
+        });
+    }
+
+    join(join: string, id?: string) {
+        const part = {
+            id: requireId(id),
+            sql: requireFragment(join, "join"),
+            optional: this.conditional,
+            strictness: joinStrictness(join),
+        };
+        const index = this.state.joins.findIndex(item =>
+            part.id !== undefined && item.id === part.id
+        );
+        if (index === -1) {
+            return this.next({ joins: [ ...this.state.joins, part ] });
+        }
+        if (strictnessRank[part.strictness] < strictnessRank[this.state.joins[index].strictness]) {
+            return this;
+        }
+        const joins = [ ...this.state.joins ];
+        joins[index] = part;
+        return this.next({ joins });
+    }
+
+    removeJoin(id: string) {
+        return this.next({ joins: this.state.joins.filter(part => part.id !== id) });
+    }
+
+    where(condition: string | AnyConditionTreeBuilder, id?: string) {
+        return this.addCondition("where", condition, id);
+    }
+
+    removeWhere(id: string) {
+        return this.removePart("where", id);
+    }
+
+    groupBy(columns: string | readonly string[], id?: string) {
+        return this.addPart("groupBy", fragmentText(columns), id);
+    }
+
+    removeGroupBy(id: string) {
+        return this.removePart("groupBy", id);
+    }
+
+    having(condition: string | AnyConditionTreeBuilder, id?: string) {
+        return this.addCondition("having", condition, id);
+    }
+
+    removeHaving(id: string) {
+        return this.removePart("having", id);
+    }
+
+    orderBy(ordering: string | readonly string[], id?: string) {
+        return this.addPart("orderBy", fragmentText(ordering), id);
+    }
+
+    removeOrderBy(id: string) {
+        return this.removePart("orderBy", id);
+    }
+
+    limit(limit: number) {
+        return this.next({ limit });
+    }
+
+    removeLimit() {
+        return this.next({ limit: undefined });
+    }
+
+    offset(offset: number) {
+        return this.next({ offset });
+    }
+
+    removeOffset() {
+        return this.next({ offset: undefined });
+    }
+
+    distinct(distinct: boolean) {
+        return this.next({ distinct });
+    }
+
+    with(cte: string, id?: string) {
+        return this.addPart("ctes", cte, id);
+    }
+
+    removeWith(id: string) {
+        return this.removePart("ctes", id);
+    }
+
+    union(other: SelectQueryBuilderImpl, operator: UnionOperatorType = "UNION") {
+        return this.next({ union: { operator, sql: other.toString() } });
+    }
+
+    when(
+        condition: boolean,
+        callback: (builder: SelectQueryBuilderImpl) => SelectQueryBuilderImpl,
+    ) {
+        if (this.conditional) {
+            throw new Error("Nested when() is not supported");
+        }
+        if (!condition) {
+            return this;
+        }
+        const result = callback(new SelectQueryBuilderImpl(this.state, true));
+        return new SelectQueryBuilderImpl(result.state, false);
+    }
+
+    toString() {
+        return assembleSelectSQL(this.state);
+    }
+
+    private addPart(field: PartField, fragment: string, id?: string) {
+        const part = {
+            id: requireId(id),
+            sql: requireFragment(fragment, field),
+            optional: this.conditional,
+        };
+        return this.next({ [field]: upsertPart(this.state[field], part) });
+    }
+
+    /**
+     * An empty condition tree renders as "" and is skipped
+     */
+    private addCondition(
+        field: "where" | "having",
+        condition: string | AnyConditionTreeBuilder,
+        id?: string,
+    ) {
+        if (typeof condition === "string") {
+            return this.addPart(field, condition, id);
+        }
+        const sql = condition.toString();
+        return sql === "" ? this : this.addPart(field, sql, id);
+    }
+
+    private removePart(field: PartField, id: string) {
+        return this.next({ [field]: this.state[field].filter(part => part.id !== id) });
+    }
+
+    private next(changes: Partial<SelectBuilderState>) {
+        return new SelectQueryBuilderImpl({ ...this.state, ...changes }, this.conditional);
+    }
+}
+
+/**
+ * Assemble a SELECT query from builder state, using the fragments as given
+ */
+function assembleSelectSQL(state: SelectBuilderState): string {
+    const sql: string[] = [];
+    if (state.ctes.length > 0) {
+        sql.push(`WITH ${partsSQL(state.ctes, ", ")}`);
+    }
+    sql.push(state.distinct ? "SELECT DISTINCT" : "SELECT");
+    sql.push(state.select.length > 0 ? partsSQL(state.select, ", ") : "*");
+    if (state.from !== undefined) {
+        sql.push(`FROM ${state.from}`);
+    }
+    if (state.joins.length > 0) {
+        sql.push(partsSQL(state.joins, " "));
+    }
+    if (state.where.length > 0) {
+        sql.push(`WHERE ${conditionPartsSQL(state.where)}`);
+    }
+    if (state.groupBy.length > 0) {
+        sql.push(`GROUP BY ${partsSQL(state.groupBy, ", ")}`);
+    }
+    if (state.having.length > 0) {
+        sql.push(`HAVING ${conditionPartsSQL(state.having)}`);
+    }
+    if (state.union !== undefined) {
+        sql.push(`${state.union.operator} ${state.union.sql}`);
+    }
+    if (state.orderBy.length > 0) {
+        sql.push(`ORDER BY ${partsSQL(state.orderBy, ", ")}`);
+    }
+    if (state.limit !== undefined) {
+        sql.push(`LIMIT ${state.limit}`);
+    }
+    if (state.offset !== undefined) {
+        sql.push(`OFFSET ${state.offset}`);
+    }
+    return sql.join(" ");
+}
+
+function joinStrictness(join: string): JoinStrictness {
+    const match = /^\s*(?:natural\s+)?(inner|left|right|full|cross)\b/i.exec(join);
+    return match ? match[1].toUpperCase() as JoinStrictness : "INNER";
+}
+
+/**
+ * Create a SELECT query builder for a schema
+ * The schema is only used at type level
+ *
+ * @example
+ * ```typescript
+ * const query = createSelectQuery<Schema>()
+ *     .from("users AS u")
+ *     .join("LEFT JOIN orders AS o ON o.user_id = u.id", "orders")
+ *     .select(["u.id", "o.total_amount"])
+ *     .orderBy("u.id DESC");
+ * ```
+ */
+export function createSelectQuery<Schema extends DatabaseSchema>(): SelectQueryBuilder<Schema> {
+    return new SelectQueryBuilderImpl(emptyState, false) as unknown as SelectQueryBuilder<Schema>;
+}
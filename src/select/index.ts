@@ -8,6 +8,7 @@
  * - QueryResult - convenience type for parsing and matching in one step
  * - ValidateSQL - validates a query against a schema
  * - ValidateSelectSQL - comprehensive validation with options
+ * - createSelectQuery - type-safe SELECT query builder
  */
 
 // Re-export parser types
@@ -18,6 +19,7 @@ export type {
     IsSimpleIdentifier,
     ParseColumnList,
     ParseColumnRefType,
+    ParseCTEList,
     ParseOrderByItem,
     ParseSelectSQL,
     ParseSingleColumn,
@@ -28,12 +30,18 @@ export type {
 
 // Re-export AST types
 export type {
+    // CASE expression types
+    CaseExpr,
+    CaseExprAny,
+    CaseValue,
+    CaseWhen,
     // Column types
     ColumnRef,
     ExistsExpr,
     ExtendedColumnRefType,
     IntervalExpr,
     LiteralExpr,
+    OptionalSelectItem,
     // Select types
     SelectClause,
     SelectColumns,
@@ -48,6 +56,11 @@ export type {
     UnionClause,
     UnionClauseAny,
     UnionOperatorType,
+    // Window function types
+    WindowDefinition,
+    WindowExpr,
+    WindowFunc,
+    WindowSpec,
 } from "./ast.js";
 
 // Re-export matcher types
@@ -61,4 +74,29 @@ export type {
 } from "./matcher.js";
 
 // Re-export validator types
-export type { ValidateSelectOptions, ValidateSelectSQL } from "./validator.js";
+export type {
+    BuildCTEContext,
+    ValidateSelectClause,
+    ValidateSelectOptions,
+    ValidateSelectSQL,
+} from "./validator.js";
+
+// Re-export the query builder
+export { createSelectQuery } from "./builder.js";
+export type {
+    AnySelectQueryBuilder,
+    BuilderJoinPart,
+    BuilderPart,
+    BuilderState,
+    BuilderUnion,
+    BuildSelectSQL,
+    CanReplaceJoin,
+    EmptyState,
+    ErrorState,
+    ExtractError,
+    JoinStrictness,
+    SelectBuilderResult,
+    SelectBuilderState,
+    SelectQueryBuilder,
+    SelectQuerySQL,
+} from "./builder.js";
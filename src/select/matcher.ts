@@ -6,10 +6,13 @@
  */
 
 import type {
+    CaseExpr,
+    CaseWhen,
     ColumnRef,
     ExistsExpr,
     IntervalExpr,
     LiteralExpr,
+    OptionalSelectItem,
     SelectClause,
     SelectItem,
     SQLConstantExpr,
@@ -19,16 +22,23 @@ import type {
     UnionClause,
     UnionClauseAny,
     UnionOperatorType,
+    WindowExpr,
 } from "./ast.js";
 
 import type {
     AggregateExpr,
+    AggregateFunc,
     ComplexExpr,
     CTEDefinition,
+    DataModifyingQuery,
     DerivedTableRef,
+    FunctionCall,
     JoinClause,
+    JoinType,
+    LiteralValue,
     MapSQLTypeToTS,
     SubquerySelectClause,
+    SubqueryUnionClause,
     TableColumnRef,
     TableRef,
     TableSource,
@@ -37,7 +47,15 @@ import type {
     ValidatableColumnRef,
 } from "../common/ast.js";
 
-import type { DatabaseSchema, GetDefaultSchema } from "../common/schema.js";
+import type { FunctionReturnType } from "../common/functions.js";
+import type {
+    DatabaseSchema,
+    FunctionDefinition,
+    GetDefaultSchema,
+    GetFunctionDefinition,
+    TableColumnTypes,
+    UnwrapColumnType,
+} from "../common/schema.js";
 import type {
     DynamicQuery,
     DynamicQueryResult,
@@ -189,8 +207,8 @@ type BuildCTEContext<
     Schema extends DatabaseSchema,
     Acc = {},
 > = CTEs extends [ infer First, ...infer Rest ]
-    ? First extends CTEDefinition<infer Name, infer Query>
-        ? ResolveCTEQuery<Query, Schema, Acc> extends infer CTEColumns
+    ? First extends CTEDefinition<infer Name, infer Query, infer Names>
+        ? ResolveCTEQuery<Query, Names, Name, Schema, Acc> extends infer CTEColumns
             ? CTEColumns extends MatchError<string> ? CTEColumns
             : Rest extends CTEDefinition[]
                 ? BuildCTEContext<
@@ -205,24 +223,100 @@ type BuildCTEContext<
 
 /**
  * Resolve a CTE query to its column types
+ * A data-modifying CTE has the columns of its RETURNING list;
+ * a set operation (such as a recursive CTE) has the columns of its first member,
+ * with literal columns widened (see WidenLiteralColumns).
+ * An explicit column list renames the columns by position
  */
 type ResolveCTEQuery<
-    Query extends SubquerySelectClause,
+    Query extends SubquerySelectClause | SubqueryUnionClause | DataModifyingQuery,
+    Names extends string[] | undefined,
+    Name extends string,
     Schema extends DatabaseSchema,
     CTEContext,
-> = Query extends
-    {
+> = Query extends DataModifyingQuery<infer _Kind, infer _Table, infer Returning>
+    ? Returning extends SubquerySelectClause
+        ? ResolveCTEQuery<Returning, Names, Name, Schema, CTEContext>
+    : {}
+    : Query extends SubqueryUnionClause
+        ? ResolveCTEQuery<WidenLiteralColumns<Query["left"]>, Names, Name, Schema, CTEContext>
+    : Query extends {
         columns: infer Columns;
         from: infer From extends TableSource;
         joins: infer Joins;
     }
-    ? BuildTableContext<From, Joins, Schema, CTEContext> extends
-        infer InnerContext
-        ? InnerContext extends MatchError<string> ? InnerContext
-        : ExtractColumnsAsObject<Columns, InnerContext, Schema>
-    : never
+        ? BuildTableContext<From, Joins, Schema, CTEContext> extends
+            infer InnerContext
+            ? InnerContext extends MatchError<string> ? InnerContext
+            : Names extends string[]
+                ? NameCTEColumns<Columns, Names, InnerContext, Schema, Name>
+            : ExtractColumnsAsObject<Columns, InnerContext, Schema>
+        : never
     : never;
 
+/**
+ * Widen the literal columns of the first member of a set operation:
+ * the other members (such as the recursive member) fill the same columns
+ * with other values, so `SELECT 0 AS depth` is typed as number, not 0
+ */
+type WidenLiteralColumns<Member extends SubquerySelectClause> = {
+    [K in keyof Member]: K extends "columns" ? WidenLiteralItems<Member[K]> : Member[K];
+};
+
+type WidenLiteralItems<Columns> = Columns extends SelectItem[] ? {
+        [I in keyof Columns]: Columns[I] extends ColumnRef<LiteralExpr<infer Value>, infer Alias>
+            ? ColumnRef<LiteralExpr<WidenLiteral<Value>>, Alias>
+            : Columns[I];
+    }
+    : Columns;
+
+type WidenLiteral<Value> = Value extends null ? null
+    : Value extends boolean ? boolean
+    : Value extends number ? number
+    : Value extends string ? string
+    : Value;
+
+/**
+ * Name the columns of a CTE from its column list, by position
+ * Columns after the end of the list keep their own names
+ */
+type NameCTEColumns<
+    Columns,
+    Names extends string[],
+    Context,
+    Schema extends DatabaseSchema,
+    Name extends string,
+> = Columns extends "*" ? { [K in Names[number]]: unknown; }
+    : Columns extends SelectItem[]
+        ? NameColumnsByPosition<Columns, Names, Context, Schema> extends
+            infer Result
+            ? [ Result ] extends [ never ] ? MatchError<
+                    `CTE '${Name}' has ${Columns["length"]} columns available but ${Names["length"]} columns specified`
+                >
+            : Result
+        : never
+    : {};
+
+/**
+ * Pair SELECT items with column names (never when there are more names than items)
+ */
+type NameColumnsByPosition<
+    Columns extends SelectItem[],
+    Names extends string[],
+    Context,
+    Schema extends DatabaseSchema,
+> = Names extends [ infer Name extends string, ...infer RestNames extends string[] ]
+    ? Columns extends [ infer First, ...infer Rest extends SelectItem[] ]
+        ? ExtractSingleColumnAsObject<First, Context, Schema> extends infer Entry
+            ? NameColumnsByPosition<Rest, RestNames, Context, Schema> extends
+                infer RestResult
+                ? [ RestResult ] extends [ never ] ? never
+                : Flatten<{ [K in Name]: Entry[keyof Entry]; } & RestResult>
+            : never
+        : never
+    : never
+    : ExtractColumnListAsObject<Columns, Context, Schema>;
+
 /**
  * Extract columns from a SELECT as an object type (for CTE/derived table)
  */
@@ -334,7 +428,7 @@ type ResolveTableInSchema<
     ? GetDefaultSchema<Schema> extends infer DefaultSchema extends string
         ? DefaultSchema extends keyof Schema["schemas"]
             ? Table extends keyof Schema["schemas"][DefaultSchema]
-                ? { [K in Alias]: Schema["schemas"][DefaultSchema][Table]; }
+                ? { [K in Alias]: TableColumnTypes<Schema["schemas"][DefaultSchema][Table]>; }
             : MatchError<
                 `Table '${Table}' not found in default schema '${DefaultSchema}'`
             >
@@ -344,7 +438,7 @@ type ResolveTableInSchema<
     : TableSchema extends string
         ? TableSchema extends keyof Schema["schemas"]
             ? Table extends keyof Schema["schemas"][TableSchema]
-                ? { [K in Alias]: Schema["schemas"][TableSchema][Table]; }
+                ? { [K in Alias]: TableColumnTypes<Schema["schemas"][TableSchema][Table]>; }
             : MatchError<
                 `Table '${Table}' not found in schema '${TableSchema}'`
             >
@@ -378,6 +472,11 @@ type ResolveDerivedTable<
  * Merge JOIN tables into the context
  * Note: We don't flatten during recursion to reduce type depth.
  * The intersection is only flattened once at the end.
+ *
+ * Outer joins make the optional side nullable:
+ * - LEFT: the joined table's columns become T | null
+ * - RIGHT: all previously joined tables' columns become T | null
+ * - FULL: both sides become T | null
  */
 type MergeJoinContexts<
     Context,
@@ -385,22 +484,49 @@ type MergeJoinContexts<
     Schema extends DatabaseSchema,
     CTEContext = {},
 > = Joins extends [ infer First, ...infer Rest ]
-    ? First extends JoinClause<infer _Type, infer JoinTable, infer _On>
+    ? First extends JoinClause<infer Type, infer JoinTable, infer _On>
         ? ResolveTableSource<JoinTable, Schema, CTEContext> extends
             infer JoinContext
             ? JoinContext extends MatchError<string> ? JoinContext
-            : Rest extends JoinClause[]
-                ? MergeJoinContexts<
-                    Context & JoinContext,
-                    Rest,
-                    Schema,
-                    CTEContext
-                >
-            : Context & JoinContext
+            : ApplyJoinNullability<Context, JoinContext, Type> extends
+                infer Merged
+                ? Rest extends JoinClause[]
+                    ? MergeJoinContexts<Merged, Rest, Schema, CTEContext>
+                : Merged
+            : never
         : never
     : Context
     : Context;
 
+/**
+ * Combine the existing context with a joined table's context,
+ * making the optional side of an outer join nullable
+ */
+type ApplyJoinNullability<
+    Context,
+    JoinContext,
+    Type extends JoinType,
+> = Type extends "LEFT" | "LEFT OUTER" ? Context & NullableContext<JoinContext>
+    : Type extends "RIGHT" | "RIGHT OUTER"
+        ? NullableContext<Context> & JoinContext
+    : Type extends "FULL" | "FULL OUTER"
+        ? NullableContext<Context> & NullableContext<JoinContext>
+    : Context & JoinContext;
+
+/**
+ * Make every column of every table in a context nullable
+ */
+type NullableContext<Context> = {
+    [Alias in keyof Context]: NullableColumns<Context[Alias]>;
+};
+
+/**
+ * Make every column of a table nullable
+ */
+type NullableColumns<Table> = {
+    [Column in keyof Table]: Table[Column] | null;
+};
+
 // ============================================================================
 // Column Matching
 // ============================================================================
@@ -418,11 +544,14 @@ type MatchColumns<
 
 /**
  * Expand * to all columns from all tables in context
+ * The intersection of the tables is flattened into a single object type
  */
-type ExpandAllColumns<Context> = UnionToIntersection<
-    {
-        [Alias in keyof Context]: Context[Alias];
-    }[keyof Context]
+type ExpandAllColumns<Context> = Flatten<
+    UnionToIntersection<
+        {
+            [Alias in keyof Context]: Context[Alias];
+        }[keyof Context]
+    >
 >;
 
 /**
@@ -433,7 +562,8 @@ type MatchColumnList<
     Context,
     Schema extends DatabaseSchema,
 > = Columns extends [ infer First, ...infer Rest ]
-    ? MatchSingleColumn<First, Context, Schema> extends infer FirstResult
+    ? MatchOptionalColumn<First, MatchSingleColumn<First, Context, Schema>> extends
+        infer FirstResult
         ? FirstResult extends MatchError<string> ? FirstResult
         : Rest extends SelectItem[]
             ? MatchColumnList<Rest, Context, Schema> extends infer RestResult
@@ -444,6 +574,19 @@ type MatchColumnList<
     : never
     : {};
 
+/**
+ * Make the keys of an optional select item optional and union their types
+ * with undefined: { email?: string | undefined }
+ */
+type MatchOptionalColumn<Col, Result> = Col extends OptionalSelectItem
+    ? Result extends MatchError<string> ? Result
+    : {
+        [K in keyof Result]?: [ Result[K] ] extends [ MatchError<string> ]
+            ? Result[K]
+            : Result[K] | undefined;
+    }
+    : Result;
+
 /**
  * Match a single column (ColumnRef, AggregateExpr, or TableWildcard)
  * Note: We use [ColType] extends [...] to prevent distribution over union types
@@ -491,7 +634,7 @@ type ResolveSchemaTableWildcard<
     Schema extends DatabaseSchema,
 > = SchemaName extends keyof Schema["schemas"]
     ? TableName extends keyof Schema["schemas"][SchemaName]
-        ? Schema["schemas"][SchemaName][TableName]
+        ? TableColumnTypes<Schema["schemas"][SchemaName][TableName]>
     : MatchError<`Table '${TableName}' not found in schema '${SchemaName}'`>
     : MatchError<`Schema '${SchemaName}' not found`>;
 
@@ -508,8 +651,13 @@ type ResolveColumnRef<
         ? ResolveSubqueryExpr<Query, CastType, Context, Schema>
     : Ref extends ExistsExpr<infer _Query, infer _Negated> ? boolean // EXISTS and NOT EXISTS always return boolean
     : Ref extends IntervalExpr<infer _Value> ? string // INTERVAL expressions return string (interval values are strings in JS)
-    : Ref extends ComplexExpr<infer ColumnRefs, infer CastType>
-        ? ResolveComplexExpr<ColumnRefs, CastType, Context, Schema>
+    : Ref extends WindowExpr<infer Func, infer Arg, infer _Window>
+        ? ResolveWindowExpr<Func, Arg, Context, Schema>
+    : Ref extends CaseExpr<infer _Operand, infer Branches, infer Else>
+        ? ResolveCaseExpr<Branches, Else, Context, Schema>
+    : Ref extends
+        ComplexExpr<infer ColumnRefs, infer CastType, infer _Expr, infer Call>
+        ? ResolveComplexExpr<ColumnRefs, CastType, Call, Context, Schema>
     : Ref extends TableColumnRef<infer Table, infer Column, infer ColSchema>
         ? ResolveTableColumn<Table, Column, ColSchema, Context, Schema>
     : Ref extends UnboundColumnRef<infer Column>
@@ -545,25 +693,153 @@ type ResolveSQLConstant<Name extends SQLConstantName> =
         : Name extends "CURRENT_ROLE" ? string
         : unknown;
 
+/**
+ * Resolve a window function call to its result type
+ * - Ranking functions (ROW_NUMBER, RANK, NTILE, ...) return number
+ * - LAG/LEAD/NTH_VALUE return the argument's type or null (no row at that offset)
+ * - FIRST_VALUE/LAST_VALUE return the argument's type
+ * - Aggregates over a window resolve like plain aggregates
+ */
+type ResolveWindowExpr<
+    Func extends string,
+    Arg,
+    Context,
+    Schema extends DatabaseSchema = DatabaseSchema,
+> = Func extends
+    | "ROW_NUMBER"
+    | "RANK"
+    | "DENSE_RANK"
+    | "PERCENT_RANK"
+    | "CUME_DIST"
+    | "NTILE" ? number
+    : Func extends "LAG" | "LEAD" | "NTH_VALUE"
+        ? ResolveWindowArg<Arg, Context, Schema> extends infer ArgType
+            ? ArgType extends MatchError<string> ? ArgType
+            : ArgType | null
+        : never
+    : Func extends "FIRST_VALUE" | "LAST_VALUE"
+        ? ResolveWindowArg<Arg, Context, Schema>
+    : Func extends AggregateFunc
+        ? GetAggregateResultType<Func, Arg, Context, Schema>
+    : unknown;
+
+/**
+ * Resolve the argument of a window function
+ * Missing and * arguments have no column type
+ */
+type ResolveWindowArg<
+    Arg,
+    Context,
+    Schema extends DatabaseSchema,
+> = [ Arg ] extends [ undefined ] ? unknown
+    : Arg extends "*" ? unknown
+    : ResolveColumnRef<Arg, Context, Schema>;
+
+/**
+ * Resolve a CASE expression to the union of its THEN / ELSE result types
+ * Without ELSE the expression can be NULL
+ * If any branch fails to resolve, its MatchError is returned instead
+ */
+type ResolveCaseExpr<
+    Branches,
+    Else,
+    Context,
+    Schema extends DatabaseSchema = DatabaseSchema,
+> = ResolveCaseBranches<
+    Branches,
+    Context,
+    Schema,
+    [ Else ] extends [ undefined ] ? null
+        : ResolveColumnRef<Else, Context, Schema>
+> extends infer ResultType
+    ? [ CaseResultError<ResultType> ] extends [ never ] ? ResultType
+    : CaseResultError<ResultType>
+    : never;
+
+/**
+ * Collect the result types of all WHEN ... THEN branches
+ */
+type ResolveCaseBranches<
+    Branches,
+    Context,
+    Schema extends DatabaseSchema,
+    Acc,
+> = Branches extends [ infer First, ...infer Rest ]
+    ? First extends CaseWhen<infer _Condition, infer Result>
+        ? ResolveCaseBranches<
+            Rest,
+            Context,
+            Schema,
+            Acc | ResolveColumnRef<Result, Context, Schema>
+        >
+    : ResolveCaseBranches<Rest, Context, Schema, Acc>
+    : Acc;
+
+/**
+ * Extract MatchError members from a CASE result type
+ */
+type CaseResultError<T> = T extends MatchError<string> ? T : never;
+
 /**
  * Resolve a complex expression
- * Validates all column references exist, then returns the cast type or unknown
+ * Validates all column references exist, then returns the cast type,
+ * the function call's return type from the built-in function catalog, or unknown
  * Note: We use [CastType] extends [undefined] to properly check for undefined,
  * because `undefined extends string` can be true in TypeScript when inferred from constraints
  */
 type ResolveComplexExpr<
     ColumnRefs,
     CastType,
+    Call,
     Context,
     Schema extends DatabaseSchema = DatabaseSchema,
 > = ValidateAllColumnRefs<ColumnRefs, Context, Schema> extends
     infer ValidationResult
     ? ValidationResult extends MatchError<string> ? ValidationResult
-    : [ CastType ] extends [ undefined ] ? unknown
+    : [ CastType ] extends [ undefined ]
+        ? ResolveFunctionCall<Call, Context, Schema>
     : CastType extends string ? MapSQLTypeToTS<CastType>
     : unknown
     : never;
 
+/**
+ * Resolve a function call
+ * Functions declared in the schema take precedence over the built-in catalog
+ * Expressions that are not a single function call resolve to unknown
+ */
+type ResolveFunctionCall<
+    Call,
+    Context,
+    Schema extends DatabaseSchema,
+> = Call extends FunctionCall<infer Name, infer Args>
+    ? GetFunctionDefinition<Schema, Name> extends infer Def
+        ? [Def] extends [never]
+            ? FunctionReturnType<Name, ResolveFunctionArgs<Args, Context, Schema>>
+        : Def extends FunctionDefinition<infer _Params, infer Returns>
+            ? Returns
+        : unknown
+    : unknown
+    : unknown;
+
+/**
+ * Resolve function arguments to their TypeScript types
+ * Literals keep their literal type; arguments that cannot be resolved
+ * (e.g. SQL constants, parameters) are unknown
+ */
+type ResolveFunctionArgs<
+    Args,
+    Context,
+    Schema extends DatabaseSchema,
+> = Args extends [ infer First, ...infer Rest ] ? [
+        First extends LiteralValue<infer Value> ? Value
+            : ResolveColumnRef<First, Context, Schema> extends infer ArgType
+                ? ArgType extends MatchError<string> ? unknown
+                : ArgType
+            : never,
+        ...ResolveFunctionArgs<Rest, Context, Schema>,
+    ]
+    : [];
+
 /**
  * Resolve a scalar subquery expression
  * Builds combined context (outer + inner), matches the inner query,
@@ -756,7 +1032,7 @@ type ResolveSchemaTableColumn<
 > = SchemaName extends keyof Schema["schemas"]
     ? TableName extends keyof Schema["schemas"][SchemaName]
         ? ColumnName extends keyof Schema["schemas"][SchemaName][TableName]
-            ? Schema["schemas"][SchemaName][TableName][ColumnName]
+            ? UnwrapColumnType<Schema["schemas"][SchemaName][TableName][ColumnName]>
         : MatchError<
             `Column '${ColumnName}' not found in '${SchemaName}.${TableName}'`
         >
@@ -803,11 +1079,14 @@ type GetAggregateResultType<
 > = Func extends "COUNT" ? number
     : Func extends "SUM" | "AVG" ? Arg extends "*" ? number
         : Arg extends TableColumnRef<infer T, infer C, infer ColSchema>
-            ? ResolveTableColumn<T, C, ColSchema, Context, Schema> extends
-                number ? number
+            ? Exclude<
+                ResolveTableColumn<T, C, ColSchema, Context, Schema>,
+                null
+            > extends number ? number
             : MatchError<`SUM/AVG requires numeric column`>
         : Arg extends UnboundColumnRef<infer C>
-            ? ResolveUnboundColumn<C, Context> extends number ? number
+            ? Exclude<ResolveUnboundColumn<C, Context>, null> extends number
+                ? number
             : MatchError<`SUM/AVG requires numeric column`>
         : number
     : Func extends "MIN" | "MAX" ? Arg extends "*" ? unknown
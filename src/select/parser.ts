@@ -7,6 +7,9 @@
  */
 
 import type {
+    CaseExpr,
+    CaseValue,
+    CaseWhen,
     ColumnRef,
     ExistsExpr,
     ExtendedColumnRefType,
@@ -21,6 +24,9 @@ import type {
     UnionClause,
     UnionClauseAny,
     UnionOperatorType,
+    WindowDefinition,
+    WindowExpr,
+    WindowSpec,
 } from "./ast.js";
 
 import type {
@@ -30,7 +36,10 @@ import type {
     ColumnRefType,
     ComplexExpr,
     CTEDefinition,
+    DataModifyingQuery,
     DerivedTableRef,
+    FunctionCall,
+    FunctionCallAny,
     JoinClause,
     JoinType,
     LiteralValue,
@@ -49,6 +58,7 @@ import type {
 import type {
     ExtractUntil,
     FromTerminators,
+    IsParamPlaceholder,
     NextToken,
     NormalizeSQL,
     OrderByTerminators,
@@ -63,6 +73,7 @@ import type {
     Increment,
     ParseError,
     RemoveQuotes,
+    ToUpperCase,
     Trim,
 } from "../common/utils.js";
 
@@ -102,6 +113,9 @@ export type { IsComplexExpression };
 /** Scan tokens and extract all column references from a condition */
 export type { ScanTokensForColumnRefs };
 
+/** Scan tokens and extract all function calls from an expression */
+export type { ScanTokensForFunctionCalls };
+
 /** Parse ORDER BY item into OrderByItem AST */
 export type { ParseOrderByItem };
 
@@ -114,6 +128,9 @@ export type { ParseSingleJoin };
 /** Check if string is a simple identifier */
 export type { IsSimpleIdentifier };
 
+/** Parse the CTE list of a WITH clause (SELECT and data-modifying CTEs) */
+export type { ParseCTEList };
+
 /**
  * Parse a query that may contain UNION/INTERSECT/EXCEPT operators
  */
@@ -258,45 +275,186 @@ type ParseUnionOperator<T extends string> = NextToken<T> extends [
     : never
     : never;
 
+/**
+ * Parse the CTE list of a WITH clause, with an optional RECURSIVE keyword
+ * (RECURSIVE is matched case-insensitively so it stays usable as an identifier)
+ */
+type ParseCTEList<T extends string> = NextToken<T> extends
+    [ infer First extends string, infer Rest extends string ]
+    ? ToUpperCase<First> extends "RECURSIVE" ? ParseCTEItems<Rest, true>
+    : ParseCTEItems<T, false>
+    : ParseError<"Expected CTE name">;
+
 /**
  * Parse a comma-separated list of CTEs
  */
-type ParseCTEList<
+type ParseCTEItems<
     T extends string,
+    Recursive extends boolean,
     Acc extends CTEDefinition[] = [],
-> = ParseSingleCTE<T> extends infer CTEResult ? CTEResult extends {
+> = ParseSingleCTE<T, Recursive> extends infer CTEResult ? CTEResult extends {
         cte: infer CTE extends CTEDefinition;
         rest: infer Rest extends string;
     }
         ? NextToken<Rest> extends [ ",", infer AfterComma extends string ]
-            ? ParseCTEList<AfterComma, [ ...Acc, CTE ]>
+            ? ParseCTEItems<AfterComma, Recursive, [ ...Acc, CTE ]>
         : { ctes: [ ...Acc, CTE ]; rest: Rest; }
     : CTEResult extends ParseError<string> ? CTEResult
     : ParseError<"Invalid CTE syntax">
     : never;
 
 /**
- * Parse a single CTE: name AS ( SELECT ... )
+ * Parse a single CTE: name [ ( col, ... ) ] AS ( query )
+ * The query is a SELECT (possibly a UNION) or a data-modifying statement
  */
-type ParseSingleCTE<T extends string> = NextToken<T> extends [
+type ParseSingleCTE<
+    T extends string,
+    Recursive extends boolean,
+> = NextToken<T> extends [
     infer Name extends string,
     infer AfterName extends string,
 ]
-    ? NextToken<AfterName> extends [ "AS", infer AfterAS extends string ]
-        ? NextToken<AfterAS> extends [ "(", infer AfterParen extends string ]
-            ? ExtractCTEQuery<AfterParen> extends
-                [ infer QueryStr extends string, infer Rest extends string ]
-                ? ParseSelectQuery<QueryStr> extends
-                    SQLSelectQuery<infer Query extends SelectClause> ? {
-                        cte: CTEDefinition<RemoveQuotes<Name>, Query>;
-                        rest: Rest;
-                    }
-                : ParseError<"Failed to parse CTE query">
-            : ParseError<"Invalid CTE query syntax">
-        : ParseError<"Expected ( after AS in CTE">
-    : ParseError<"Expected AS after CTE name">
+    ? ParseCTEColumnNames<AfterName> extends infer ColumnsResult
+        ? ColumnsResult extends ParseError<string> ? ColumnsResult
+        : ColumnsResult extends [
+            infer Columns extends string[] | undefined,
+            infer AfterColumns extends string,
+        ]
+            ? NextToken<AfterColumns> extends
+                [ "AS", infer AfterAS extends string ]
+                ? NextToken<AfterAS> extends
+                    [ "(", infer AfterParen extends string ]
+                    ? ExtractCTEQuery<AfterParen> extends
+                        [ infer QueryStr extends string, infer Rest extends string ]
+                        ? ParseCTEQuery<QueryStr> extends infer Query
+                            ? Query extends
+                                | SelectClause
+                                | UnionClauseAny
+                                | DataModifyingQuery ? {
+                                    cte: CTEDefinition<
+                                        RemoveQuotes<Name>,
+                                        Query,
+                                        Columns,
+                                        Recursive
+                                    >;
+                                    rest: Rest;
+                                }
+                            : Query
+                        : never
+                    : ParseError<"Invalid CTE query syntax">
+                : ParseError<"Expected ( after AS in CTE">
+            : ParseError<"Expected AS after CTE name">
+        : never
+    : never
     : ParseError<"Expected CTE name">;
 
+/**
+ * Parse the optional column list after a CTE name: ( col1, col2 )
+ * Returns [columns or undefined, rest]
+ */
+type ParseCTEColumnNames<T extends string> = NextToken<T> extends
+    [ "(", infer AfterParen extends string ]
+    ? ExtractUntilClosingParen<AfterParen, 1, ""> extends [
+        infer ColumnsPart extends string,
+        infer Rest extends string,
+    ]
+        ? SplitByComma<ColumnsPart> extends
+            [ infer First extends string, ...infer Others extends string[] ]
+            ? [ CTEColumnNames<[ First, ...Others ]>, Rest ]
+        : ParseError<"Empty CTE column list">
+    : never
+    : [ undefined, T ];
+
+/**
+ * Unquote the names of a CTE column list
+ */
+type CTEColumnNames<T extends string[]> = {
+    [K in keyof T]: RemoveQuotes<Trim<T[K]>>;
+};
+
+/**
+ * Parse the query of a CTE: a SELECT, a set operation or a data-modifying statement
+ */
+type ParseCTEQuery<T extends string> = NextToken<T> extends
+    [ infer First extends "INSERT" | "UPDATE" | "DELETE", infer Rest extends string ]
+    ? ParseDataModifyingQuery<First, Rest>
+    : ParseSelectQuery<T> extends
+        SQLSelectQuery<infer Query extends SelectClause | UnionClauseAny>
+        ? Query
+    : ParseError<"Failed to parse CTE query">;
+
+// ============================================================================
+// Data-Modifying CTE Parser
+// ============================================================================
+
+/**
+ * Parse INSERT / UPDATE / DELETE ... [RETURNING ...] in a CTE
+ * Only the target table, the RETURNING list and the statement text are kept;
+ * the RETURNING list is parsed as a SELECT list over the target table
+ */
+type ParseDataModifyingQuery<
+    Kind extends "INSERT" | "UPDATE" | "DELETE",
+    T extends string,
+> = ExtractUntil<T, "RETURNING"> extends [
+    infer Body extends string,
+    infer ReturningPart extends string,
+]
+    ? ExtractDataModifyingTarget<Kind, Body> extends infer TablePart
+        ? TablePart extends ParseError<string> ? TablePart
+        : TablePart extends string
+            ? ParseTableRef<TablePart> extends infer Table extends TableRef
+                ? NextToken<ReturningPart> extends
+                    [ "RETURNING", infer Items extends string ]
+                    ? ParseSelectBodyWithCTEsAndRest<
+                        `${Items} FROM ${TablePart}`,
+                        undefined
+                    > extends infer Result
+                        ? Result extends {
+                            query: infer Returning extends SelectClause;
+                            rest: string;
+                        } ? DataModifyingQuery<Kind, Table, Returning, `${Kind} ${T}`>
+                        : Result
+                    : never
+                : DataModifyingQuery<Kind, Table, undefined, `${Kind} ${T}`>
+            : ParseError<"Invalid table reference">
+        : never
+    : never
+    : never;
+
+/**
+ * Extract the target table text ("table", "table alias", "table AS alias")
+ * of a data-modifying statement
+ */
+type ExtractDataModifyingTarget<
+    Kind extends "INSERT" | "UPDATE" | "DELETE",
+    T extends string,
+> = Kind extends "UPDATE"
+    ? ExtractUntil<T, "SET"> extends [ infer TablePart extends string, infer _ ]
+        ? Trim<TablePart> extends "" ? ParseError<"Expected table name after UPDATE">
+        : Trim<TablePart>
+    : never
+    : Kind extends "DELETE"
+        ? NextToken<T> extends [ "FROM", infer Rest extends string ]
+            ? ExtractUntil<Rest, "USING" | "WHERE"> extends
+                [ infer TablePart extends string, infer _ ]
+                ? Trim<TablePart> extends ""
+                    ? ParseError<"Expected table name after DELETE FROM">
+                : Trim<TablePart>
+            : never
+        : ParseError<"Expected FROM after DELETE">
+    : NextToken<T> extends [ "INTO", infer Rest extends string ]
+        ? NextToken<Rest> extends
+            [ infer Table extends string, infer AfterTable extends string ]
+            ? Table extends "" ? ParseError<"Expected table name after INSERT INTO">
+            : NextToken<AfterTable> extends
+                [ "AS", infer AfterAS extends string ]
+                ? NextToken<AfterAS> extends [ infer Alias extends string, infer _ ]
+                    ? `${Table} AS ${Alias}`
+                : Table
+            : Table
+        : never
+    : ParseError<"Expected INTO after INSERT">;
+
 /**
  * Extract the CTE query from parentheses and return rest
  */
@@ -402,10 +560,12 @@ type ParseColumnList<T extends string[]> = T extends [
     : [];
 
 /**
- * Parse a single column (could be aggregate, aliased, or simple)
+ * Parse a single column (could be window function, aggregate, aliased, or simple)
+ * Window functions are checked first since aggregates can also take an OVER clause
  */
 type ParseSingleColumn<T extends string> = Trim<T> extends ""
     ? ParseError<"Empty column">
+    : IsWindowExpression<Trim<T>> extends true ? ParseWindowColumn<Trim<T>>
     : IsAggregate<Trim<T>> extends true ? ParseAggregateColumn<Trim<T>>
     : ParseSimpleColumn<Trim<T>>;
 
@@ -439,6 +599,376 @@ type ParseAggregateColumn<T extends string> = T extends
 type ParseAggregateArg<T extends string> = Trim<T> extends "*" ? "*"
     : ParseColumnRefType<Trim<T>>;
 
+// ============================================================================
+// Window Function Parser
+// ============================================================================
+
+/**
+ * Keywords that start a part of a window specification
+ */
+type WindowSpecKeywords = "PARTITION" | "ORDER" | WindowFrameKeywords;
+
+/**
+ * Keywords that start a window frame clause
+ */
+type WindowFrameKeywords = "ROWS" | "RANGE" | "GROUPS";
+
+/**
+ * Words of a window specification that are not global SQL keywords
+ * They are uppercased only inside OVER ( ... ) / WINDOW definitions
+ */
+type WindowSpecWords =
+    | "PARTITION"
+    | WindowFrameKeywords
+    | "UNBOUNDED"
+    | "PRECEDING"
+    | "FOLLOWING"
+    | "CURRENT"
+    | "ROW"
+    | "EXCLUDE"
+    | "TIES"
+    | "OTHERS";
+
+/**
+ * Uppercase window specification words in a window specification
+ */
+type NormalizeWindowSpec<T extends string> = T extends
+    `${infer Word} ${infer Rest}`
+    ? `${NormalizeWindowWord<Word>} ${NormalizeWindowSpec<Rest>}`
+    : NormalizeWindowWord<T>;
+
+type NormalizeWindowWord<W extends string> = ToUpperCase<W> extends
+    infer Upper extends WindowSpecWords ? Upper
+    : W;
+
+/**
+ * Split a window function call into [name, arguments, text after OVER]
+ * Pattern: func ( args ) OVER ...
+ * Returns never if the expression is not a window function call
+ */
+type SplitWindowCall<T extends string> = T extends
+    `${infer Name} ( ${infer AfterParen}`
+    ? IsSimpleIdentifier<Name> extends true
+        ? ExtractUntilClosingParen<AfterParen, 1, ""> extends
+            [ infer Args extends string, infer Rest extends string ]
+            ? NextToken<Rest> extends
+                [ infer Over extends string, infer AfterOver extends string ]
+                ? ToUpperCase<Over> extends "OVER" ? [ Name, Args, AfterOver ]
+                : never
+            : never
+        : never
+    : never
+    : never;
+
+/**
+ * Check if a column is a window function call (func ( ... ) OVER ...)
+ */
+type IsWindowExpression<T extends string> = [ SplitWindowCall<T> ] extends
+    [ never ] ? false
+    : true;
+
+/**
+ * Parse a window function column
+ * Handles: func ( args ) OVER ( spec ) [AS alias], func ( args ) OVER name [AS alias]
+ * Without an alias the column is named after the function (lowercase), as in PostgreSQL
+ */
+type ParseWindowColumn<T extends string> = SplitWindowCall<T> extends [
+    infer Name extends string,
+    infer Args extends string,
+    infer AfterOver extends string,
+]
+    ? ParseWindowOver<AfterOver> extends [
+        infer Window,
+        infer Rest extends string,
+    ]
+        ? Window extends ParseError<string> ? Window
+        : Window extends WindowSpec
+            ? ToUpperCase<Name> extends infer Func extends string
+                ? Trim<Rest> extends "" ? ColumnRef<
+                        WindowExpr<Func, ParseWindowArg<Args>, Window>,
+                        Lowercase<Func>
+                    >
+                : Trim<Rest> extends `AS ${infer Alias}` ? ColumnRef<
+                        WindowExpr<Func, ParseWindowArg<Args>, Window>,
+                        RemoveQuotes<Alias>
+                    >
+                : ParseError<`Unexpected tokens after window function: ${Rest}`>
+            : never
+        : ParseError<"Invalid window specification">
+    : ParseError<"Invalid OVER clause">
+    : ParseError<`Invalid window function syntax: ${T}`>;
+
+/**
+ * Parse what follows OVER: either ( spec ) or a window name
+ * Returns [WindowSpec, rest]
+ */
+type ParseWindowOver<T extends string> = NextToken<T> extends
+    [ "(", infer AfterParen extends string ]
+    ? ExtractUntilClosingParen<AfterParen, 1, ""> extends
+        [ infer Content extends string, infer Rest extends string ]
+        ? [ ParseWindowSpec<Content>, Rest ]
+    : ParseError<"Invalid OVER clause">
+    : NextToken<T> extends
+        [ infer Name extends string, infer Rest extends string ]
+        ? Name extends "" | "AS" ? ParseError<"Expected window after OVER">
+        : [ WindowSpec<undefined, undefined, undefined, RemoveQuotes<Name>>, Rest ]
+    : ParseError<"Expected window after OVER">;
+
+/**
+ * Parse the content of a window specification
+ * [base_window] [PARTITION BY ...] [ORDER BY ...] [ROWS | RANGE | GROUPS frame]
+ */
+type ParseWindowSpec<T extends string> =
+    ExtractUntil<NormalizeWindowSpec<T>, WindowSpecKeywords> extends [
+        infer Base extends string,
+        infer AfterBase extends string,
+    ]
+        ? ParseWindowPartitionBy<AfterBase> extends {
+            partitionBy: infer PartitionBy;
+            rest: infer AfterPartition extends string;
+        }
+            ? ParseWindowOrderBy<AfterPartition> extends {
+                orderBy: infer OrderBy;
+                rest: infer Frame extends string;
+            }
+                ? Trim<Frame> extends ""
+                    | `${WindowFrameKeywords} ${string}` ? WindowSpec<
+                        PartitionBy extends ColumnRefType[] ? PartitionBy
+                            : undefined,
+                        OrderBy extends OrderByItem[] ? OrderBy : undefined,
+                        Trim<Frame> extends "" ? undefined : Trim<Frame>,
+                        Trim<Base> extends "" ? undefined
+                            : RemoveQuotes<Base>
+                    >
+                : ParseError<`Invalid window frame: ${Frame}`>
+            : ParseError<"Invalid window ORDER BY">
+        : ParseError<"Invalid window PARTITION BY">
+        : ParseError<"Invalid window specification">;
+
+/**
+ * Parse PARTITION BY inside a window specification
+ */
+type ParseWindowPartitionBy<T extends string> = NextToken<T> extends
+    [ "PARTITION", infer Rest extends string ]
+    ? NextToken<Rest> extends [ "BY", infer AfterBy extends string ]
+        ? ExtractUntil<AfterBy, "ORDER" | WindowFrameKeywords> extends [
+            infer PartitionPart extends string,
+            infer Remaining extends string,
+        ] ? {
+                partitionBy: ParseWindowExprList<SplitByComma<PartitionPart>>;
+                rest: Remaining;
+            }
+        : never
+    : ParseError<"Expected BY after PARTITION">
+    : { partitionBy: undefined; rest: T; };
+
+/**
+ * Parse ORDER BY inside a window specification
+ */
+type ParseWindowOrderBy<T extends string> = NextToken<T> extends
+    [ "ORDER", infer Rest extends string ]
+    ? NextToken<Rest> extends [ "BY", infer AfterBy extends string ]
+        ? ExtractUntil<AfterBy, WindowFrameKeywords> extends [
+            infer OrderPart extends string,
+            infer Remaining extends string,
+        ] ? { orderBy: ParseOrderByList<OrderPart>; rest: Remaining; }
+        : never
+    : ParseError<"Expected BY after ORDER">
+    : { orderBy: undefined; rest: T; };
+
+/**
+ * Parse a list of expressions used in PARTITION BY
+ */
+type ParseWindowExprList<T extends string[]> = T extends [
+    infer First extends string,
+    ...infer Rest extends string[],
+] ? [ ParseWindowExprItem<First>, ...ParseWindowExprList<Rest> ]
+    : [];
+
+/**
+ * Parse a single window expression (a column or a complex expression)
+ */
+type ParseWindowExprItem<T extends string> =
+    IsComplexExpression<Trim<T>> extends true ? ParseComplexExpr<Trim<T>>
+        : ParseColumnRefType<Trim<T>>;
+
+/**
+ * Parse the first argument of a window function call
+ * Empty arguments and literal first arguments (e.g. NTILE ( 4 )) yield undefined
+ */
+type ParseWindowArg<T extends string> = SplitByComma<Trim<T>> extends [
+    infer First extends string,
+    ...infer _Rest extends string[],
+] ? Trim<First> extends "*" ? "*"
+    : IsLiteralValue<Trim<First>> extends true ? undefined
+    : ParseWindowExprItem<First>
+    : undefined;
+
+// ============================================================================
+// CASE Expression Parser
+// ============================================================================
+
+/**
+ * Check if a column is a CASE expression: CASE ... END [AS alias]
+ * CASE expressions followed by other operators (e.g. CASE ... END + 1) are left to the complex expression parser
+ */
+type IsCaseExpression<T extends string> = SplitCaseColumn<Trim<T>> extends
+    [ string, infer Rest extends string ]
+    ? Rest extends "" | `AS ${string}` ? true
+    : false
+    : false;
+
+/**
+ * Split a CASE column into [body, rest after END]
+ * Returns false if the column does not start with CASE or has no matching END
+ */
+type SplitCaseColumn<T extends string> = T extends `CASE ${infer AfterCase}`
+    ? ExtractCaseBody<AfterCase, 1, "">
+    : false;
+
+/**
+ * Extract content until the END matching the opening CASE (nested CASE ... END aware)
+ * Returns [body, rest after END] or false if there is no matching END
+ */
+type ExtractCaseBody<
+    T extends string,
+    Depth extends number,
+    Acc extends string,
+> = Trim<T> extends "" ? false
+    : NextToken<T> extends
+        [ infer Token extends string, infer Rest extends string ]
+        ? Token extends "CASE"
+            ? ExtractCaseBody<Rest, Increment<Depth>, `${Acc} ${Token}`>
+        : Token extends "END"
+            ? Decrement<Depth> extends 0 ? [ Trim<Acc>, Trim<Rest> ]
+            : ExtractCaseBody<Rest, Decrement<Depth>, `${Acc} ${Token}`>
+        : ExtractCaseBody<Rest, Depth, `${Acc} ${Token}`>
+    : false;
+
+/**
+ * Parse a CASE column
+ * Without an alias the column is named "case", as in PostgreSQL
+ */
+type ParseCaseColumn<T extends string> = SplitCaseColumn<Trim<T>> extends
+    [ infer Body extends string, infer Rest extends string ]
+    ? ParseCaseExpr<Body> extends infer Expr
+        ? Expr extends CaseExpr
+            ? Rest extends `AS ${infer Alias}`
+                ? ColumnRef<Expr, RemoveQuotes<Alias>>
+            : ColumnRef<Expr, "case">
+        : Expr
+    : never
+    : ParseError<`Invalid CASE expression: ${T}`>;
+
+/**
+ * Parse the body of a CASE expression (everything between CASE and END)
+ * The first section is the operand of the simple form (empty for the searched form)
+ */
+type ParseCaseExpr<Body extends string> = SplitCaseSections<
+    Body,
+    0,
+    "",
+    []
+> extends [ infer OperandPart extends string, ...infer Sections ]
+    ? OperandPart extends "" ? ParseCaseBranches<Sections, undefined, []>
+    : ParseCaseValue<OperandPart> extends infer Operand
+        ? Operand extends CaseValue ? ParseCaseBranches<Sections, Operand, []>
+        : Operand
+    : never
+    : ParseError<"Invalid CASE expression">;
+
+/**
+ * Split a CASE body into sections at top-level WHEN and ELSE keywords
+ * "x WHEN 1 THEN 'a' ELSE 'b'" -> ["x", "WHEN 1 THEN 'a'", "ELSE 'b'"]
+ */
+type SplitCaseSections<
+    T extends string,
+    Depth extends number,
+    Acc extends string,
+    Sections extends string[],
+> = Trim<T> extends "" ? [ ...Sections, Trim<Acc> ]
+    : NextToken<T> extends
+        [ infer Token extends string, infer Rest extends string ]
+        ? Token extends "CASE"
+            ? SplitCaseSections<
+                Rest,
+                Increment<Depth>,
+                `${Acc} ${Token}`,
+                Sections
+            >
+        : Token extends "END" ? SplitCaseSections<
+                Rest,
+                Decrement<Depth>,
+                `${Acc} ${Token}`,
+                Sections
+            >
+        : Depth extends 0
+            ? Token extends "WHEN" | "ELSE"
+                ? SplitCaseSections<Rest, Depth, Token, [ ...Sections, Trim<Acc> ]>
+            : SplitCaseSections<Rest, Depth, `${Acc} ${Token}`, Sections>
+        : SplitCaseSections<Rest, Depth, `${Acc} ${Token}`, Sections>
+    : [ ...Sections, Trim<Acc> ];
+
+/**
+ * Parse WHEN ... THEN ... sections and the optional trailing ELSE section
+ * Operand is undefined for the searched form, where WHEN takes a condition
+ */
+type ParseCaseBranches<
+    Sections,
+    Operand extends CaseValue | undefined,
+    Branches extends CaseWhen[],
+> = Sections extends [ infer First extends string, ...infer Rest ]
+    ? First extends `WHEN ${infer Condition} THEN ${infer Result}`
+        ? ParseCaseCondition<Condition, Operand> extends infer Cond
+            ? Cond extends ParsedCondition | CaseValue
+                ? ParseCaseValue<Result> extends infer Value
+                    ? Value extends CaseValue ? ParseCaseBranches<
+                            Rest,
+                            Operand,
+                            [ ...Branches, CaseWhen<Cond, Value> ]
+                        >
+                    : Value
+                : never
+            : Cond
+        : never
+    : First extends `ELSE ${infer Else}`
+        ? Rest extends [] ? Branches extends [] ? ParseError<
+                    "CASE expression requires at least one WHEN branch"
+                >
+            : ParseCaseValue<Else> extends infer Value
+                ? Value extends CaseValue ? CaseExpr<Operand, Branches, Value>
+                : Value
+            : never
+        : ParseError<"ELSE must be the last branch of a CASE expression">
+    : ParseError<`Invalid CASE branch: ${First}`>
+    : Branches extends []
+        ? ParseError<"CASE expression requires at least one WHEN branch">
+    : CaseExpr<Operand, Branches, undefined>;
+
+/**
+ * Parse a WHEN condition
+ * Searched form: column references are collected for validation
+ * Simple form: the WHEN part is a value compared to the operand
+ */
+type ParseCaseCondition<
+    Condition extends string,
+    Operand extends CaseValue | undefined,
+> = [ Operand ] extends [ undefined ]
+    ? ParsedCondition<ScanTokensForColumnRefs<Trim<Condition>, []>>
+    : ParseCaseValue<Condition>;
+
+/**
+ * Parse a CASE operand or THEN / ELSE result
+ * Handles literals, SQL constants, nested CASE, complex expressions and column references
+ */
+type ParseCaseValue<T extends string> = IsLiteralValue<Trim<T>> extends true
+    ? ParseLiteralExpr<Trim<T>>
+    : IsSQLConstant<Trim<T>> extends true ? ParseSQLConstantExpr<Trim<T>>
+    : SplitCaseColumn<Trim<T>> extends
+        [ infer Body extends string, "" ] ? ParseCaseExpr<Body>
+    : IsComplexExpression<Trim<T>> extends true ? ParseComplexExpr<Trim<T>>
+    : ParseColumnRefType<Trim<T>>;
+
 /**
  * Parse a simple column reference with optional alias
  * Handles PostgreSQL type casting syntax (::type), complex expressions, subqueries, EXISTS, INTERVAL, and literals
@@ -450,6 +980,8 @@ type ParseSimpleColumn<T extends string> =
         : IsSQLConstantExpression<T> extends true ? ParseSQLConstantColumn<T>
         // Check for INTERVAL expressions (INTERVAL '1 day', etc.)
         : IsIntervalExpression<T> extends true ? ParseIntervalColumn<T>
+        // Check for CASE expressions (must be before complex expression check)
+        : IsCaseExpression<T> extends true ? ParseCaseColumn<T>
         // Check for table.* wildcard
         : IsTableWildcard<T> extends true ? ParseTableWildcard<T>
         // Check for EXISTS/NOT EXISTS (must be before scalar subquery)
@@ -893,13 +1425,11 @@ type IsComplexExpression<T extends string> = T extends `${string}->${string}`
     : false;
 
 /**
- * Check if the expression is a parameter placeholder ($1, $2, :name)
+ * Check if the expression is a parameter placeholder ($1, $2, :name, @name)
  * Handles: $1, $1 AS alias, $1::type, $1::type AS alias
  */
 type IsParameterRef<T extends string> = StripAliasAndCast<Trim<T>> extends
-    infer Base extends string ? Base extends `$${number}` ? true
-    : Base extends `:${string}` ? true
-    : false
+    infer Base extends string ? IsParamPlaceholder<Base>
     : false;
 
 /**
@@ -939,13 +1469,62 @@ type ParseComplexColumn<T extends string> = T extends
 /**
  * Parse a complex expression into ComplexExpr AST
  * Extracts all column references for validation, the final cast type,
+ * the function call (when the expression is a single call),
  * and stores the original expression for assembly
  */
-type ParseComplexExpr<T extends string> = ComplexExpr<
-    ExtractAllColumnRefs<T>,
-    ExtractFinalCastType<T>,
-    T
->;
+type ParseComplexExpr<T extends string> = ParseFunctionCall<Trim<T>> extends
+    infer Call extends FunctionCallAny | undefined ? ComplexExpr<
+        ExtractAllColumnRefs<T>,
+        ExtractFinalCastType<T>,
+        T,
+        Call
+    >
+    : never;
+
+/**
+ * Parse an expression that is exactly one function call: name ( args )
+ * Returns undefined for anything else (operators around the call, casts, etc.)
+ */
+type ParseFunctionCall<T extends string> = T extends
+    `${infer Name} ( ${infer AfterParen}`
+    ? IsSimpleIdentifier<Name> extends true
+        ? ExtractUntilClosingParen<AfterParen, 1, ""> extends
+            [ infer Args extends string, "" ]
+            ? FunctionCall<Name, ParseFunctionArgs<Name, Args>>
+        : undefined
+    : undefined
+    : undefined;
+
+/**
+ * Parse the arguments of a function call
+ * EXTRACT ( field FROM source ) is parsed as [field, source]
+ */
+type ParseFunctionArgs<Name extends string, Args extends string> =
+    Trim<Args> extends "" ? []
+        : ToUpperCase<Name> extends "EXTRACT"
+            ? Trim<Args> extends `${infer Field} FROM ${infer Source}`
+                ? [ LiteralValue<Trim<Field>>, ParseFunctionArg<Source> ]
+            : ParseFunctionArgList<SplitByComma<Trim<Args>>>
+        : ParseFunctionArgList<SplitByComma<Trim<Args>>>;
+
+/**
+ * Parse a list of function arguments
+ */
+type ParseFunctionArgList<T extends string[]> = T extends [
+    infer First extends string,
+    ...infer Rest extends string[],
+] ? [ ParseFunctionArg<First>, ...ParseFunctionArgList<Rest> ]
+    : [];
+
+/**
+ * Parse a single function argument (literal, nested expression or column)
+ */
+type ParseFunctionArg<T extends string> = IsLiteralValue<Trim<T>> extends true
+    ? ParseLiteralExpr<Trim<T>> extends LiteralExpr<infer Value>
+        ? LiteralValue<Value>
+    : never
+    : IsComplexExpression<Trim<T>> extends true ? ParseComplexExpr<Trim<T>>
+    : ParseColumnRefType<Trim<T>>;
 
 /**
  * Extract all column references from a complex expression
@@ -1078,6 +1657,63 @@ type IsFunctionName<Token extends string, Rest extends string> =
             : false
         : false;
 
+/**
+ * Scan an expression for function calls
+ * Collects every call, including calls nested in arguments and subqueries.
+ * Keywords followed by a parenthesis (EXISTS, ANY, CAST, ...) are not calls
+ */
+type ScanTokensForFunctionCalls<
+    T extends string,
+    Acc extends FunctionCallAny[] = [],
+> = Trim<T> extends "" ? Acc
+    : NextToken<Trim<T>> extends
+        [ infer Token extends string, infer Rest extends string ]
+        ? IsFunctionName<Token, Rest> extends true
+            ? ToUpperCase<Token> extends NonFunctionKeyword
+                ? ScanTokensForFunctionCalls<Rest, Acc>
+            : NextToken<Trim<Rest>> extends
+                [ "(", infer AfterParen extends string ]
+                ? ExtractUntilClosingParen<AfterParen, 1, ""> extends
+                    [ infer Args extends string, string ]
+                    ? ScanTokensForFunctionCalls<
+                        Rest,
+                        [ ...Acc, FunctionCall<Token, ParseFunctionArgs<Token, Args>> ]
+                    >
+                : ScanTokensForFunctionCalls<Rest, Acc>
+            : ScanTokensForFunctionCalls<Rest, Acc>
+        : ScanTokensForFunctionCalls<Rest, Acc>
+    : Acc;
+
+/**
+ * Keywords that can be followed by a parenthesis but are not function calls
+ */
+type NonFunctionKeyword =
+    | "EXISTS"
+    | "ANY"
+    | "ALL"
+    | "SOME"
+    | "ARRAY"
+    | "ROW"
+    | "CAST"
+    | "CASE"
+    | "WHEN"
+    | "THEN"
+    | "ELSE"
+    | "DISTINCT"
+    | "OVER"
+    | "FILTER"
+    | "WITHIN"
+    | "VALUES";
+
+/**
+ * Parse a WHERE / JOIN ON / HAVING condition
+ * Collects its column references and function calls for validation
+ */
+type ParseCondition<T extends string> = ParsedCondition<
+    ScanTokensForColumnRefs<Trim<T>, []>,
+    ScanTokensForFunctionCalls<Trim<T>>
+>;
+
 /**
  * Try to extract a column reference from a single token
  * Handles: schema.table.col, alias."col", alias."col"::type, "table"."col", "col", "col"::type
@@ -1306,10 +1942,15 @@ type IsKeywordOrOperator<T extends string> =
             | "WITH"
             | "OVER"
             | "PARTITION"
+            | "WINDOW"
             | "ROWS"
             | "RANGE"
+            | "GROUPS"
+            | "UNBOUNDED"
             | "PRECEDING"
             | "FOLLOWING"
+            | "CURRENT"
+            | "ROW"
             // INTERVAL and its unit keywords
             | "INTERVAL"
             | "YEAR"
@@ -1349,8 +1990,8 @@ type IsKeywordOrOperator<T extends string> =
             | "partition"
             | "rows"
             | "range" ? true
-        // Parameter placeholders ($1, $2, etc. or :name)
-        : T extends `$${number}` | `$${string}` | `:${string}` ? true
+        // Parameter placeholders ($1, $2, etc. or :name, @name, $name)
+        : IsParamPlaceholder<T> extends true ? true
         // Numeric literals
         : T extends `${number}` ? true
         : false;
@@ -1757,6 +2398,7 @@ type BuildSelectClauseWithCTEsAndRest<
         where: infer Where;
         groupBy: infer GroupBy;
         having: infer Having;
+        windows: infer Windows;
         orderBy: infer OrderBy;
         limit: infer Limit;
         offset: infer Offset;
@@ -1775,7 +2417,8 @@ type BuildSelectClauseWithCTEsAndRest<
                 Limit extends number ? Limit : undefined,
                 Offset extends number ? Offset : undefined,
                 Distinct,
-                CTEs
+                CTEs,
+                Windows extends WindowDefinition[] ? Windows : undefined
             >;
             rest: Remaining;
         }
@@ -1783,7 +2426,7 @@ type BuildSelectClauseWithCTEsAndRest<
     : never;
 
 /**
- * Parse all optional clauses (JOIN, WHERE, GROUP BY, HAVING, ORDER BY, LIMIT, OFFSET)
+ * Parse all optional clauses (JOIN, WHERE, GROUP BY, HAVING, WINDOW, ORDER BY, LIMIT, OFFSET)
  */
 type ParseOptionalClauses<T extends string> =
     ParseOptionalClausesWithRest<T> extends infer Result
@@ -1811,29 +2454,43 @@ type ParseOptionalClausesWithRest<T extends string> = ParseJoins<T> extends
                                 having: infer Having;
                                 rest: infer AfterHaving extends string;
                             }
-                                ? ParseOrderBy<AfterHaving> extends
-                                    infer OrderByResult
-                                    ? OrderByResult extends {
-                                        orderBy: infer OrderBy;
-                                        rest: infer AfterOrderBy extends string;
-                                    } ? ParseLimitOffsetWithRest<
-                                            AfterOrderBy
-                                        > extends infer LimitResult
-                                            ? LimitResult extends {
-                                                limit: infer Limit;
-                                                offset: infer Offset;
-                                                rest: infer AfterLimitOffset
+                                ? ParseWindowClause<AfterHaving> extends
+                                    infer WindowResult
+                                    ? WindowResult extends ParseError<string>
+                                        ? WindowResult
+                                    : WindowResult extends {
+                                        windows: infer Windows;
+                                        rest: infer AfterWindow extends string;
+                                    }
+                                        ? ParseOrderBy<AfterWindow> extends
+                                            infer OrderByResult
+                                            ? OrderByResult extends {
+                                                orderBy: infer OrderBy;
+                                                rest: infer AfterOrderBy
                                                     extends string;
-                                            } ? {
-                                                    joins: Joins;
-                                                    where: Where;
-                                                    groupBy: GroupBy;
-                                                    having: Having;
-                                                    orderBy: OrderBy;
-                                                    limit: Limit;
-                                                    offset: Offset;
-                                                    rest: AfterLimitOffset;
-                                                }
+                                            } ? ParseLimitOffsetWithRest<
+                                                    AfterOrderBy
+                                                > extends infer LimitResult
+                                                    ? LimitResult extends {
+                                                        limit: infer Limit;
+                                                        offset: infer Offset;
+                                                        rest:
+                                                            infer AfterLimitOffset
+                                                                extends string;
+                                                    } ? {
+                                                            joins: Joins;
+                                                            where: Where;
+                                                            groupBy: GroupBy;
+                                                            having: Having;
+                                                            windows: Windows;
+                                                            orderBy: OrderBy;
+                                                            limit: Limit;
+                                                            offset: Offset;
+                                                            rest:
+                                                                AfterLimitOffset;
+                                                        }
+                                                    : never
+                                                : never
                                             : never
                                         : never
                                     : never
@@ -1917,9 +2574,7 @@ type ParsePlainJoin<T extends string> = NextToken<T> extends
                         join: JoinClause<
                             "INNER",
                             ParseTableRef<TablePart>,
-                            ParsedCondition<
-                                ScanTokensForColumnRefs<Trim<Condition>, []>
-                            >
+                            ParseCondition<Condition>
                         >;
                         rest: Rest;
                     }
@@ -1927,9 +2582,7 @@ type ParsePlainJoin<T extends string> = NextToken<T> extends
                     join: JoinClause<
                         "INNER",
                         ParseTableRef<TablePart>,
-                        ParsedCondition<
-                            ScanTokensForColumnRefs<Trim<ConditionPart>, []>
-                        >
+                        ParseCondition<ConditionPart>
                     >;
                     rest: "";
                 }
@@ -1969,9 +2622,7 @@ type ParseTypedJoin<T extends string, JoinTypeResult> = JoinTypeResult extends
                             join: JoinClause<
                                 JType,
                                 ParseTableRef<TablePart>,
-                                ParsedCondition<
-                                    ScanTokensForColumnRefs<Trim<Condition>, []>
-                                >
+                                ParseCondition<Condition>
                             >;
                             rest: Rest;
                         }
@@ -1979,9 +2630,7 @@ type ParseTypedJoin<T extends string, JoinTypeResult> = JoinTypeResult extends
                         join: JoinClause<
                             JType,
                             ParseTableRef<TablePart>,
-                            ParsedCondition<
-                                ScanTokensForColumnRefs<Trim<ConditionPart>, []>
-                            >
+                            ParseCondition<ConditionPart>
                         >;
                         rest: "";
                     }
@@ -2035,13 +2684,11 @@ type ParseWhereClause<T extends string> = Trim<T> extends ""
             infer WherePart extends string,
             infer Remaining extends string,
         ] ? {
-                where: ParsedCondition<
-                    ScanTokensForColumnRefs<Trim<WherePart>, []>
-                >;
+                where: ParseCondition<WherePart>;
                 rest: Remaining;
             }
         : {
-            where: ParsedCondition<ScanTokensForColumnRefs<Trim<Rest>, []>>;
+            where: ParseCondition<Rest>;
             rest: "";
         }
     : { where: undefined; rest: T; };
@@ -2059,7 +2706,7 @@ type ParseGroupBy<T extends string> = Trim<T> extends ""
         ? NextToken<Rest> extends [ "BY", infer AfterBy extends string ]
             ? ExtractUntil<
                 AfterBy,
-                "HAVING" | "ORDER" | "LIMIT" | "OFFSET"
+                "HAVING" | "WINDOW" | "ORDER" | "LIMIT" | "OFFSET"
             > extends [
                 infer GroupPart extends string,
                 infer Remaining extends string,
@@ -2095,21 +2742,78 @@ type ParseGroupByColumns<T extends string[]> = T extends [
 type ParseHaving<T extends string> = Trim<T> extends ""
     ? { having: undefined; rest: ""; }
     : NextToken<T> extends [ "HAVING", infer Rest extends string ]
-        ? ExtractUntil<Rest, "ORDER" | "LIMIT" | "OFFSET"> extends [
+        ? ExtractUntil<Rest, "WINDOW" | "ORDER" | "LIMIT" | "OFFSET"> extends [
             infer HavingPart extends string,
             infer Remaining extends string,
         ] ? {
-                having: ParsedCondition<
-                    ScanTokensForColumnRefs<Trim<HavingPart>, []>
-                >;
+                having: ParseCondition<HavingPart>;
                 rest: Remaining;
             }
         : {
-            having: ParsedCondition<ScanTokensForColumnRefs<Trim<Rest>, []>>;
+            having: ParseCondition<Rest>;
             rest: "";
         }
     : { having: undefined; rest: T; };
 
+// ============================================================================
+// WINDOW Clause Parser
+// ============================================================================
+
+/**
+ * Parse WINDOW clause
+ * WINDOW w AS ( PARTITION BY ... ), w2 AS ( w ORDER BY ... )
+ */
+type ParseWindowClause<T extends string> = Trim<T> extends ""
+    ? { windows: undefined; rest: ""; }
+    : NextToken<T> extends [ "WINDOW", infer Rest extends string ]
+        ? ExtractUntil<Rest, OrderByTerminators | "ORDER"> extends [
+            infer WindowPart extends string,
+            infer Remaining extends string,
+        ]
+            ? ParseWindowDefinitions<SplitByComma<WindowPart>> extends
+                infer Windows
+                ? Windows extends ParseError<string> ? Windows
+                : { windows: Windows; rest: Remaining; }
+            : never
+        : never
+    : { windows: undefined; rest: T; };
+
+/**
+ * Parse a list of named window definitions
+ */
+type ParseWindowDefinitions<T extends string[]> = T extends [
+    infer First extends string,
+    ...infer Rest extends string[],
+]
+    ? ParseWindowDefinition<First> extends infer Def
+        ? Def extends ParseError<string> ? Def
+        : ParseWindowDefinitions<Rest> extends infer RestDefs
+            ? RestDefs extends ParseError<string> ? RestDefs
+            : RestDefs extends WindowDefinition[] ? [ Def, ...RestDefs ]
+            : ParseError<"Invalid WINDOW clause">
+        : never
+    : never
+    : [];
+
+/**
+ * Parse a single named window definition: name AS ( spec )
+ */
+type ParseWindowDefinition<T extends string> = NextToken<T> extends
+    [ infer Name extends string, infer AfterName extends string ]
+    ? NextToken<AfterName> extends [ "AS", infer AfterAS extends string ]
+        ? NextToken<AfterAS> extends [ "(", infer AfterParen extends string ]
+            ? ExtractUntilClosingParen<AfterParen, 1, ""> extends
+                [ infer Content extends string, infer _Rest extends string ]
+                ? ParseWindowSpec<Content> extends infer Spec
+                    ? Spec extends WindowSpec
+                        ? WindowDefinition<RemoveQuotes<Name>, Spec>
+                    : Spec
+                : never
+            : ParseError<"Invalid window definition">
+        : ParseError<"Expected ( after AS in window definition">
+    : ParseError<"Expected AS after window name">
+    : ParseError<"Expected window name">;
+
 // ============================================================================
 // ORDER BY Parser
 // ============================================================================
@@ -2176,12 +2880,18 @@ type ParseOrderByItem<T extends string> =
 
 /**
  * Parse column reference for ORDER BY, handling JSON accessors
+ * and expressions such as function calls
  */
 type ParseOrderByColumnRef<T extends string> =
     // First try to extract from JSON expression using the token-based extractor
-    ExtractColumnFromToken<Trim<T>> extends
-        infer Result extends ValidatableColumnRef ? Result
-        : ParseColumnRefType<T>; // Fallback to regular parsing for non-JSON columns
+    ExtractColumnFromToken<Trim<T>> extends infer Result
+        ? [ Result ] extends [ never ]
+            ? IsComplexExpression<Trim<T>> extends true
+                ? ParseComplexExpr<Trim<T>>
+            : ParseColumnRefType<T>
+        : Result extends ValidatableColumnRef ? Result
+        : ParseColumnRefType<T> // Fallback to regular parsing for non-JSON columns
+    : never;
 
 // ============================================================================
 // LIMIT/OFFSET Parser
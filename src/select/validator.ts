@@ -17,6 +17,7 @@
  *   - HAVING clause field validation
  *   - GROUP BY field validation
  *   - ORDER BY field validation
+ *   - Window function (OVER / WINDOW clause) validation
  *   - Type compatibility checks (future)
  *
  * This separation allows us to add deeper validation without making
@@ -24,6 +25,8 @@
  */
 
 import type {
+    CaseExpr,
+    CaseWhen,
     ColumnRef,
     SelectClause,
     SelectItem,
@@ -31,19 +34,28 @@ import type {
     SubqueryExpr,
     UnionClause,
     UnionClauseAny,
+    WindowDefinition,
+    WindowExpr,
+    WindowFunc,
+    WindowSpec,
 } from "./ast.js";
 
 import type {
     AggregateExpr,
+    AggregateFunc,
     ColumnRefType,
     ComplexExpr,
     CTEDefinition,
+    DataModifyingQuery,
     DerivedTableRef,
+    FunctionCall,
+    FunctionCallAny,
     JoinClause,
     MapSQLTypeToTS,
     OrderByItem,
     ParsedCondition,
     SubquerySelectClause,
+    SubqueryUnionClause,
     TableColumnRef,
     TableRef,
     TableSource,
@@ -52,7 +64,15 @@ import type {
     ValidatableColumnRef,
 } from "../common/ast.js";
 
-import type { DatabaseSchema, GetDefaultSchema } from "../common/schema.js";
+import type {
+    DatabaseSchema,
+    FunctionDefinition,
+    GetDefaultSchema,
+    GetFunctionDefinition,
+    HasFunctions,
+    TableColumnTypes,
+    UnwrapColumnType,
+} from "../common/schema.js";
 import type {
     DynamicQuery,
     Flatten,
@@ -63,7 +83,11 @@ import type {
     ParseError,
 } from "../common/utils.js";
 
-import type { ParseSelectSQL } from "./parser.js";
+import type { BuiltinFunctionName } from "../common/functions.js";
+import type { ParseSelectSQL, ScanTokensForFunctionCalls } from "./parser.js";
+import type { ValidateDeleteCTE } from "../delete/validator.js";
+import type { ValidateInsertCTE } from "../insert/validator.js";
+import type { ValidateUpdateCTE } from "../update/validator.js";
 
 // ============================================================================
 // Re-exports for convenience
@@ -207,11 +231,16 @@ type ValidateUnionClause<
  * 6. HAVING clause field references (when validateAllFields is true)
  * 7. GROUP BY field references (when validateAllFields is true)
  * 8. ORDER BY field references (when validateAllFields is true)
+ * 9. WINDOW clause field references and named window usage (when validateAllFields is true)
+ *
+ * OuterCTEContext holds the CTEs in scope when the clause is a CTE member
+ * (or the SELECT of an INSERT ... SELECT)
  */
-type ValidateSelectClause<
+export type ValidateSelectClause<
     Select,
     Schema extends DatabaseSchema,
     Options extends ValidateSelectOptions = DefaultValidateOptions,
+    OuterCTEContext = {},
 > = Select extends SelectClause<
     infer Columns,
     infer From,
@@ -223,9 +252,10 @@ type ValidateSelectClause<
     infer _Limit,
     infer _Offset,
     infer _Distinct,
-    infer CTEs
+    infer CTEs,
+    infer Windows
 >
-    ? BuildValidationContext<From, Joins, CTEs, Schema> extends infer Context
+    ? BuildValidationContext<From, Joins, CTEs, Schema, OuterCTEContext> extends infer Context
         ? Context extends MatchError<infer E> ? E
         : ValidateColumns<Columns, Context, Schema> extends infer ColResult
             ? ColResult extends true
@@ -238,7 +268,11 @@ type ValidateSelectClause<
                     OrderBy,
                     Context,
                     Schema
-                >
+                > extends infer ClausesResult
+                    ? ClausesResult extends true
+                        ? ValidateWindows<Windows, Columns, Context, Schema>
+                    : ClausesResult
+                : never
             : ColResult
         : "Column validation failed"
     : "Context building failed"
@@ -280,29 +314,42 @@ type ValidateAllClauses<
     : "JOIN validation failed";
 
 /**
- * Validate WHERE clause column references
+ * Validate WHERE clause column references and function calls
  */
 type ValidateWhereClause<
     Where,
     Context,
     Schema extends DatabaseSchema,
 > = Where extends undefined ? true
-    : Where extends ParsedCondition<infer ColumnRefs>
-        ? ValidateColumnRefList<ColumnRefs, Context, Schema>
+    : Where extends ParsedCondition<infer ColumnRefs, infer Calls>
+        ? ValidateRefsAndCalls<ColumnRefs, Calls, Context, Schema>
     : true; // For other WhereExpr types, skip (backwards compatibility)
 
 /**
- * Validate HAVING clause column references
+ * Validate HAVING clause column references and function calls
  */
 type ValidateHavingClause<
     Having,
     Context,
     Schema extends DatabaseSchema,
 > = Having extends undefined ? true
-    : Having extends ParsedCondition<infer ColumnRefs>
-        ? ValidateColumnRefList<ColumnRefs, Context, Schema>
+    : Having extends ParsedCondition<infer ColumnRefs, infer Calls>
+        ? ValidateRefsAndCalls<ColumnRefs, Calls, Context, Schema>
     : true; // For other WhereExpr types, skip
 
+/**
+ * Validate column references, then function calls
+ */
+type ValidateRefsAndCalls<
+    ColumnRefs extends ValidatableColumnRef[],
+    Calls extends FunctionCallAny[],
+    Context,
+    Schema extends DatabaseSchema,
+> = ValidateColumnRefList<ColumnRefs, Context, Schema> extends infer RefsResult
+    ? RefsResult extends true ? ValidateFunctionCalls<Calls, Schema>
+    : RefsResult
+    : never;
+
 /**
  * Validate GROUP BY clause column references
  */
@@ -346,6 +393,120 @@ type ValidateOrderByItems<
     : true
     : true;
 
+// ============================================================================
+// Window Validation
+// ============================================================================
+
+/**
+ * Validate the WINDOW clause and named window references
+ * - Field references in every WINDOW definition
+ * - Windows referenced by OVER name or as a base window must be defined
+ */
+type ValidateWindows<
+    Windows,
+    Columns,
+    Context,
+    Schema extends DatabaseSchema,
+> = WindowNames<Windows> extends infer Names
+    ? ValidateWindowDefinitions<Windows, Names, Context, Schema> extends
+        infer DefsResult
+        ? DefsResult extends true
+            ? Columns extends SelectItem[]
+                ? ValidateColumnWindowRefs<Columns, Names>
+            : true
+        : DefsResult
+    : never
+    : never;
+
+/**
+ * Names of all windows defined in the WINDOW clause
+ */
+type WindowNames<Windows> = Windows extends WindowDefinition[]
+    ? Windows[number]["name"]
+    : never;
+
+/**
+ * Validate each WINDOW definition
+ */
+type ValidateWindowDefinitions<
+    Windows,
+    Names,
+    Context,
+    Schema extends DatabaseSchema,
+> = Windows extends [ infer First, ...infer Rest ]
+    ? First extends WindowDefinition<infer _Name, infer Spec>
+        ? ValidateBaseWindow<Spec, Names> extends infer BaseResult
+            ? BaseResult extends true
+                ? ValidateWindowSpec<Spec, Context, Schema> extends
+                    infer SpecResult
+                    ? SpecResult extends true
+                        ? ValidateWindowDefinitions<Rest, Names, Context, Schema>
+                    : SpecResult
+                : never
+            : BaseResult
+        : never
+    : "Invalid WINDOW definition"
+    : true;
+
+/**
+ * Validate that windows referenced by SELECT columns are defined
+ */
+type ValidateColumnWindowRefs<
+    Columns extends SelectItem[],
+    Names,
+> = Columns extends [ infer First, ...infer Rest ]
+    ? (
+        First extends ColumnRef<WindowExpr<infer _Func, infer _Arg, infer Spec>>
+            ? ValidateBaseWindow<Spec, Names>
+            : true
+    ) extends infer Result
+        ? Result extends true
+            ? Rest extends SelectItem[] ? ValidateColumnWindowRefs<Rest, Names>
+            : true
+        : Result
+    : never
+    : true;
+
+/**
+ * Validate that a window specification's base window is defined
+ */
+type ValidateBaseWindow<Spec, Names> = Spec extends
+    WindowSpec<infer _PartitionBy, infer _OrderBy, infer _Frame, infer Base>
+    ? [ Base ] extends [ undefined ] ? true
+    : Base extends Names ? true
+    : `Window '${Base & string}' is not defined`
+    : true;
+
+/**
+ * Validate field references in a window specification (PARTITION BY and ORDER BY)
+ */
+type ValidateWindowSpec<
+    Spec,
+    Context,
+    Schema extends DatabaseSchema,
+> = Spec extends
+    WindowSpec<infer PartitionBy, infer OrderBy, infer _Frame, infer _Base>
+    ? ValidateGroupByClause<PartitionBy, Context, Schema> extends
+        infer PartitionResult
+        ? PartitionResult extends true
+            ? ValidateOrderByClause<OrderBy, Context, Schema>
+        : PartitionResult
+    : never
+    : true;
+
+/**
+ * Validate a window function call: its argument and its window specification
+ */
+type ValidateWindowExpr<
+    Arg,
+    Spec,
+    Context,
+    Schema extends DatabaseSchema,
+> = ValidateColumnRefType<Arg, Context, Schema> extends infer ArgResult
+    ? ArgResult extends true ? ValidateWindowSpec<Spec, Context, Schema>
+    : ArgResult
+    : never;
+
 /**
  * Validate a list of ColumnRefType
  */
@@ -374,8 +535,13 @@ type ValidateColumnRefType<
     ? ValidateTableColumn<Table, Column, ColSchema, Context, Schema>
     : Ref extends UnboundColumnRef<infer Column>
         ? ValidateUnboundColumn<Column, Context>
-    : Ref extends ComplexExpr<infer ColumnRefs, infer _CastType>
-        ? ValidateColumnRefList<ColumnRefs, Context, Schema>
+    : Ref extends ComplexExpr<infer ColumnRefs, infer _CastType, infer Expr>
+        ? ValidateRefsAndCalls<
+            ColumnRefs,
+            ScanExprFunctionCalls<Expr, Schema>,
+            Context,
+            Schema
+        >
     : true; // TableWildcard and others are valid
 
 /**
@@ -416,8 +582,8 @@ type ValidateJoinOn<
     Context,
     Schema extends DatabaseSchema,
 > = On extends undefined ? true
-    : On extends ParsedCondition<infer ColumnRefs>
-        ? ValidateColumnRefList<ColumnRefs, Context, Schema>
+    : On extends ParsedCondition<infer ColumnRefs, infer Calls>
+        ? ValidateRefsAndCalls<ColumnRefs, Calls, Context, Schema>
     : true; // For UnparsedExpr or other types, skip
 
 /**
@@ -449,53 +615,183 @@ type BuildValidationContext<
     Joins,
     CTEs,
     Schema extends DatabaseSchema,
-> = BuildCTEContext<CTEs, Schema> extends infer CTEContext
+    OuterCTEContext = {},
+> = BuildCTEContext<CTEs, Schema, OuterCTEContext> extends infer CTEContext
     ? CTEContext extends MatchError<string> ? CTEContext
     : BuildTableContext<From, Joins, Schema, CTEContext>
     : never;
 
 /**
  * Build context from CTE definitions
+ * Maps each CTE name to its column types, or returns the first MatchError.
+ * Each CTE body is validated as a full query; the members of a WITH RECURSIVE
+ * CTE are validated with the CTE itself in scope. Defined collects the CTEs
+ * already built, which a data-modifying CTE body is validated with
  */
-type BuildCTEContext<
+export type BuildCTEContext<
     CTEs,
     Schema extends DatabaseSchema,
     Acc = {},
+    Defined extends CTEDefinition[] = [],
 > = CTEs extends [ infer First, ...infer Rest ]
-    ? First extends CTEDefinition<infer Name, infer Query>
-        ? ResolveCTEQuery<Query, Schema, Acc> extends infer CTEColumns
+    ? First extends
+        CTEDefinition<infer Name, infer Query, infer Names, infer Recursive>
+        ? ResolveCTEQuery<Query, Names, Name, Schema, Acc> extends
+            infer CTEColumns
             ? CTEColumns extends MatchError<string> ? CTEColumns
-            : Rest extends CTEDefinition[]
-                ? BuildCTEContext<
-                    Rest,
-                    Schema,
-                    Acc & { [K in Name]: CTEColumns; }
-                >
-            : Acc & { [K in Name]: CTEColumns; }
+            : ValidateCTEMembers<
+                Query,
+                Schema,
+                Recursive extends true ? Acc & { [K in Name]: CTEColumns; }
+                    : Acc,
+                Defined
+            > extends infer MembersResult
+                ? MembersResult extends MatchError<string> ? MembersResult
+                : Rest extends CTEDefinition[] ? BuildCTEContext<
+                        Rest,
+                        Schema,
+                        Acc & { [K in Name]: CTEColumns; },
+                        [ ...Defined, First ]
+                    >
+                : Acc & { [K in Name]: CTEColumns; }
+            : never
         : never
     : Acc
     : Acc;
 
 /**
- * Resolve a CTE query to its column types
+ * Resolve a CTE query to its column types (after validating its columns)
+ * A data-modifying CTE has the columns of its RETURNING list;
+ * a set operation (such as a recursive CTE) has the columns of its first member.
+ * An explicit column list renames the columns by position
  */
 type ResolveCTEQuery<
-    Query extends SubquerySelectClause,
+    Query extends SubquerySelectClause | SubqueryUnionClause | DataModifyingQuery,
+    Names extends string[] | undefined,
+    Name extends string,
     Schema extends DatabaseSchema,
     CTEContext,
-> = Query extends
-    {
+> = Query extends DataModifyingQuery<infer _Kind, infer _Table, infer Returning>
+    ? Returning extends SubquerySelectClause
+        ? ResolveCTEQuery<Returning, Names, Name, Schema, CTEContext>
+    : {}
+    : Query extends SubqueryUnionClause
+        ? ResolveCTEQuery<Query["left"], Names, Name, Schema, CTEContext>
+    : Query extends {
         columns: infer Columns;
         from: infer From extends TableSource;
         joins: infer Joins;
     }
-    ? BuildTableContext<From, Joins, Schema, CTEContext> extends
-        infer InnerContext
-        ? InnerContext extends MatchError<string> ? InnerContext
-        : ExtractColumnsAsObject<Columns, InnerContext, Schema>
+        ? BuildTableContext<From, Joins, Schema, CTEContext> extends
+            infer InnerContext
+            ? InnerContext extends MatchError<string> ? InnerContext
+            : ValidateColumns<Columns, InnerContext, Schema> extends
+                infer ColResult
+                ? ColResult extends true ? Names extends string[]
+                        ? NameCTEColumns<
+                            Columns,
+                            Names,
+                            InnerContext,
+                            Schema,
+                            Name
+                        >
+                    : ExtractColumnsAsObject<Columns, InnerContext, Schema>
+                : MatchError<ColResult extends string ? ColResult : "Invalid CTE columns">
+            : never
+        : never
+    : never;
+
+/**
+ * Validate each SELECT member of a CTE body (every member of a set operation)
+ * as a full query: JOIN ON, WHERE, GROUP BY, HAVING and ORDER BY included.
+ * A data-modifying body is validated as an INSERT / UPDATE / DELETE statement
+ */
+type ValidateCTEMembers<
+    Query,
+    Schema extends DatabaseSchema,
+    CTEContext,
+    Defined extends CTEDefinition[] = [],
+> = Query extends SubqueryUnionClause
+    ? ValidateCTEMember<Query["left"], Schema, CTEContext> extends infer Result
+        ? Result extends true ? ValidateCTEMembers<Query["right"], Schema, CTEContext>
+        : Result
     : never
+    : Query extends DataModifyingQuery<infer Kind, infer _Table, infer _Returning, infer Statement>
+        ? ValidateDataModifyingCTE<Kind, Statement, Schema, Defined>
+    : ValidateCTEMember<Query, Schema, CTEContext>;
+
+/**
+ * Validate a data-modifying CTE body with the CTEs defined before it in scope
+ */
+type ValidateDataModifyingCTE<
+    Kind extends "INSERT" | "UPDATE" | "DELETE",
+    Statement extends string,
+    Schema extends DatabaseSchema,
+    Defined extends CTEDefinition[],
+> = (
+    Kind extends "DELETE" ? ValidateDeleteCTE<Statement, Schema, Defined>
+    : Kind extends "UPDATE" ? ValidateUpdateCTE<Statement, Schema, Defined>
+    : ValidateInsertCTE<Statement, Schema, Defined>
+) extends infer Result
+    ? Result extends true ? true
+    : MatchError<Result extends string ? Result : "Invalid CTE member">
     : never;
 
+/**
+ * Validate a single CTE member with the CTEs in scope
+ */
+type ValidateCTEMember<
+    Member,
+    Schema extends DatabaseSchema,
+    CTEContext,
+> = Member extends SelectClause
+    ? ValidateSelectClause<Member, Schema, DefaultValidateOptions, CTEContext> extends infer Result
+        ? Result extends true ? true
+        : MatchError<Result extends string ? Result : "Invalid CTE member">
+    : never
+    : MatchError<"Invalid CTE member">;
+
+/**
+ * Name the columns of a CTE from its column list, by position
+ * Columns after the end of the list keep their own names
+ */
+type NameCTEColumns<
+    Columns,
+    Names extends string[],
+    Context,
+    Schema extends DatabaseSchema,
+    Name extends string,
+> = Columns extends "*" ? { [K in Names[number]]: unknown; }
+    : Columns extends SelectItem[]
+        ? NameColumnsByPosition<Columns, Names, Context, Schema> extends
+            infer Result
+            ? [ Result ] extends [ never ] ? MatchError<
+                    `CTE '${Name}' has ${Columns["length"]} columns available but ${Names["length"]} columns specified`
+                >
+            : Result
+        : never
+    : {};
+
+/**
+ * Pair SELECT items with column names (never when there are more names than items)
+ */
+type NameColumnsByPosition<
+    Columns extends SelectItem[],
+    Names extends string[],
+    Context,
+    Schema extends DatabaseSchema,
+> = Names extends [ infer Name extends string, ...infer RestNames extends string[] ]
+    ? Columns extends [ infer First, ...infer Rest extends SelectItem[] ]
+        ? ExtractSingleColumnAsObject<First, Context, Schema> extends infer Entry
+            ? NameColumnsByPosition<Rest, RestNames, Context, Schema> extends
+                infer RestResult
+                ? [ RestResult ] extends [ never ] ? never
+                : Flatten<{ [K in Name]: Entry[keyof Entry]; } & RestResult>
+            : never
+        : never
+    : never
+    : ExtractColumnListAsObject<Columns, Context, Schema>;
+
 /**
  * Extract columns from a SELECT as an object type
  */
@@ -593,7 +889,7 @@ type ResolveTableInSchema<
     ? GetDefaultSchema<Schema> extends infer DefaultSchema extends string
         ? DefaultSchema extends keyof Schema["schemas"]
             ? Table extends keyof Schema["schemas"][DefaultSchema]
-                ? { [K in Alias]: Schema["schemas"][DefaultSchema][Table]; }
+                ? { [K in Alias]: TableColumnTypes<Schema["schemas"][DefaultSchema][Table]>; }
             : MatchError<
                 `Table '${Table}' not found in default schema '${DefaultSchema}'`
             >
@@ -602,7 +898,7 @@ type ResolveTableInSchema<
     : TableSchema extends string
         ? TableSchema extends keyof Schema["schemas"]
             ? Table extends keyof Schema["schemas"][TableSchema]
-                ? { [K in Alias]: Schema["schemas"][TableSchema][Table]; }
+                ? { [K in Alias]: TableColumnTypes<Schema["schemas"][TableSchema][Table]>; }
             : MatchError<
                 `Table '${Table}' not found in schema '${TableSchema}'`
             >
@@ -680,7 +976,7 @@ type ResolveTableWildcard<
     : WildcardSchema extends string
         ? WildcardSchema extends keyof Schema["schemas"]
             ? TableOrAlias extends keyof Schema["schemas"][WildcardSchema]
-                ? Schema["schemas"][WildcardSchema][TableOrAlias]
+                ? TableColumnTypes<Schema["schemas"][WildcardSchema][TableOrAlias]>
             : MatchError<
                 `Table '${TableOrAlias}' not found in schema '${WildcardSchema}'`
             >
@@ -725,7 +1021,7 @@ type ResolveTableColumn<
             ? TableOrAlias extends keyof Schema["schemas"][ColSchema]
                 ? Column extends
                     keyof Schema["schemas"][ColSchema][TableOrAlias]
-                    ? Schema["schemas"][ColSchema][TableOrAlias][Column]
+                    ? UnwrapColumnType<Schema["schemas"][ColSchema][TableOrAlias][Column]>
                 : MatchError<
                     `Column '${Column}' not found in '${ColSchema}.${TableOrAlias}'`
                 >
@@ -817,14 +1113,71 @@ type ValidateColumnRef<
     Schema extends DatabaseSchema,
 > = Ref extends SubqueryExpr<infer Query, infer _CastType>
     ? ValidateSubquery<Query, Context, Schema>
-    : Ref extends ComplexExpr<infer ColumnRefs, infer _CastType>
-        ? ValidateComplexExprRefs<ColumnRefs, Context, Schema>
+    : Ref extends WindowExpr<infer _Func, infer Arg, infer Spec>
+        ? ValidateWindowExpr<Arg, Spec, Context, Schema>
+    : Ref extends CaseExpr<infer Operand, infer Branches, infer Else>
+        ? ValidateCaseExpr<Operand, Branches, Else, Context, Schema>
+    : Ref extends ComplexExpr<infer ColumnRefs, infer _CastType, infer Expr>
+        ? ValidateComplexExprRefs<ColumnRefs, Context, Schema> extends
+            infer RefsResult
+            ? RefsResult extends true
+                ? ValidateFunctionCalls<ScanExprFunctionCalls<Expr, Schema>, Schema>
+            : RefsResult
+        : never
     : Ref extends TableColumnRef<infer Table, infer Column, infer ColSchema>
         ? ValidateTableColumn<Table, Column, ColSchema, Context, Schema>
     : Ref extends UnboundColumnRef<infer Column>
         ? ValidateUnboundColumn<Column, Context>
     : true;
 
+/**
+ * Validate a CASE expression
+ * Checks the operand, the column references in every WHEN condition,
+ * and the THEN / ELSE results
+ */
+type ValidateCaseExpr<
+    Operand,
+    Branches,
+    Else,
+    Context,
+    Schema extends DatabaseSchema,
+> = ValidateColumnRef<Operand, Context, Schema> extends infer OperandResult
+    ? OperandResult extends true
+        ? ValidateCaseBranches<Branches, Context, Schema> extends
+            infer BranchesResult
+            ? BranchesResult extends true
+                ? ValidateColumnRef<Else, Context, Schema>
+            : BranchesResult
+        : never
+    : OperandResult
+    : never;
+
+/**
+ * Validate the WHEN ... THEN branches of a CASE expression
+ */
+type ValidateCaseBranches<
+    Branches,
+    Context,
+    Schema extends DatabaseSchema,
+> = Branches extends [ infer First, ...infer Rest ]
+    ? First extends CaseWhen<infer Condition, infer Result>
+        ? (
+            Condition extends ParsedCondition<infer ColumnRefs>
+                ? ValidateColumnRefList<ColumnRefs, Context, Schema>
+                : ValidateColumnRef<Condition, Context, Schema>
+        ) extends infer ConditionResult
+            ? ConditionResult extends true
+                ? ValidateColumnRef<Result, Context, Schema> extends
+                    infer ResultResult
+                    ? ResultResult extends true
+                        ? ValidateCaseBranches<Rest, Context, Schema>
+                    : ResultResult
+                : never
+            : ConditionResult
+        : never
+    : "Invalid CASE branch"
+    : true;
+
 /**
  * Validate a subquery
  */
@@ -860,6 +1213,84 @@ type ValidateComplexExprRefs<
         : true
     : true;
 
+/**
+ * Function calls of an expression
+ * Expressions are only scanned when the schema declares functions
+ */
+type ScanExprFunctionCalls<
+    Expr extends string,
+    Schema extends DatabaseSchema,
+> = HasFunctions<Schema> extends true ? ScanTokensForFunctionCalls<Expr>
+    : [];
+
+/**
+ * Validate function calls against the functions declared in the schema
+ * Checks the number of arguments of declared functions and reports calls
+ * to functions that are neither declared nor built-in
+ */
+type ValidateFunctionCalls<
+    Calls extends FunctionCallAny[],
+    Schema extends DatabaseSchema,
+> = Calls extends [ infer First, ...infer Rest extends FunctionCallAny[] ]
+    ? First extends FunctionCall<infer Name, infer Args>
+        ? ValidateFunctionSignature<Name, Args, Schema> extends infer Result
+            ? Result extends true ? ValidateFunctionCalls<Rest, Schema>
+            : Result
+        : never
+    : ValidateFunctionCalls<Rest, Schema>
+    : true;
+
+/**
+ * Validate that a function exists and is called with a valid number of arguments
+ */
+type ValidateFunctionSignature<
+    Name extends string,
+    Args extends unknown[],
+    Schema extends DatabaseSchema,
+> = GetFunctionDefinition<Schema, Name> extends infer Def
+    ? [Def] extends [never]
+        ? HasFunctions<Schema> extends true
+            ? Name extends `pg_catalog.${string}` ? true
+            : Uppercase<Name> extends BuiltinCallName ? true
+            : `Unknown function '${Name}'`
+        : true
+    : Def extends FunctionDefinition<infer Params>
+        ? ArityShape<Args> extends ArityShape<Params> ? true
+        : `Function '${Name}' expects ${FunctionArity<Params>} argument(s), got ${Args["length"]}`
+    : true
+    : never;
+
+/**
+ * Names of the built-in functions the parser and the function catalog know
+ */
+type BuiltinCallName = BuiltinFunctionName | AggregateFunc | WindowFunc;
+
+/**
+ * Tuple of the same shape (required, optional and rest elements) as T
+ * with every element unknown, used to compare argument counts
+ */
+type ArityShape<T extends unknown[]> = { [K in keyof T]: unknown };
+
+/**
+ * Describe the accepted number of arguments of a parameter list
+ * ("2", "1 to 2", or "at least 1" for variadic functions)
+ */
+type FunctionArity<Params extends unknown[]> = number extends Params["length"]
+    ? `at least ${RequiredParamCount<Params>}`
+    : RequiredParamCount<Params> extends Required<Params>["length"]
+        ? `${RequiredParamCount<Params>}`
+    : `${RequiredParamCount<Params>} to ${Required<Params>["length"]}`;
+
+/**
+ * Count the leading required parameters of a parameter list
+ */
+type RequiredParamCount<
+    Params extends unknown[],
+    Count extends unknown[] = [],
+> = Params extends [ unknown, ...infer Rest ]
+    ? RequiredParamCount<Rest, [ ...Count, unknown ]>
+    : Count["length"];
+
 /**
  * Validate a single ref in complex expr
  */
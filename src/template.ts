@@ -0,0 +1,158 @@
+/**
+ * SQL Template Queries
+ *
+ * The `sql` tagged template turns each interpolation into a positional
+ * parameter, so values are never spliced into the SQL text:
+ *
+ * ```typescript
+ * const query = sql`SELECT * FROM users WHERE id = ${id} AND email = ${email}`
+ * // { type: "SqlQuery", text: "SELECT * FROM users WHERE id = $1 AND email = $2", values: [id, email] }
+ * ```
+ *
+ * The tag is runtime only. TypeScript (as of 5.9) types the strings of a
+ * tagged template as TemplateStringsArray, never as literal types, so the
+ * text of a `sql` template is not visible at type level. A schema-typed tag
+ * (`sql<Schema>`), type-level substitution of its holes and checking the
+ * interpolated values against their columns cannot be implemented and are
+ * not provided. The typed query functions (createSelectFn, ...) therefore
+ * take string queries only; pass a SqlQuery to the driver directly
+ * (`pool.query(query.text, query.values)`) or use it as a value in the
+ * insert and update builders.
+ */
+
+// ============================================================================
+// Runtime Tagged Template
+// ============================================================================
+
+/**
+ * A query (or query fragment) with positional parameters built by the `sql` tag
+ * `strings` holds the text around the parameters: text is strings[0] $1 strings[1] $2 ...
+ */
+export type SqlQuery = {
+  readonly type: "SqlQuery"
+  readonly text: string
+  readonly values: unknown[]
+  readonly strings: readonly string[]
+}
+
+/**
+ * A fragment whose text is known at type level (sql.ident, sql.raw)
+ * The literal text is not carried into a `sql` template that interpolates the
+ * fragment: splicing happens at runtime only and the tag returns a SqlQuery
+ * whose text is `string`.
+ */
+export type SqlFragment<Text extends string> = SqlQuery & { readonly text: Text }
+
+/**
+ * Text of an identifier fragment: schema.table → "schema"."table"
+ */
+export type QuotedIdentifier<Name extends string> = Name extends `${infer Head}.${infer Rest}`
+  ? `"${Head}".${QuotedIdentifier<Rest>}`
+  : `"${Name}"`
+
+/**
+ * Build a query from a template, turning each interpolation into a
+ * positional parameter ($1, $2, ...)
+ *
+ * Interpolated SqlQuery values (nested `sql` templates, sql.ident, sql.in,
+ * sql.raw) are spliced into the text and their parameters renumbered. The
+ * splicing is runtime only: the result is typed as SqlQuery, not as the
+ * spliced text.
+ *
+ * @example
+ * ```typescript
+ * const active = sql`active = ${true}`
+ * const query = sql`SELECT * FROM ${sql.ident("users")} WHERE ${active} AND id ${sql.in(ids)}`
+ * // text: 'SELECT * FROM "users" WHERE active = $1 AND id IN ($2, $3)'
+ * ```
+ */
+export function sql(strings: TemplateStringsArray, ...values: unknown[]): SqlQuery {
+  const parts = [strings[0]]
+  const params: unknown[] = []
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]
+    if (isSqlQuery(value)) {
+      parts[parts.length - 1] += value.strings[0]
+      parts.push(...value.strings.slice(1))
+      params.push(...value.values)
+      parts[parts.length - 1] += strings[i + 1]
+    } else {
+      params.push(value)
+      parts.push(strings[i + 1])
+    }
+  }
+  return createSqlQuery(parts, params)
+}
+
+/**
+ * Quoted identifier fragment; "schema.table" is quoted per part
+ * Only the identifier syntax is checked; the tag has no schema, so the name
+ * is not checked against one.
+ *
+ * @throws Error if a part is not a plain identifier
+ */
+sql.ident = function ident<const Name extends string>(name: Name): SqlFragment<QuotedIdentifier<Name>> {
+  const quoted = name.split(".").map((part) => {
+    if (!isIdentifier(part)) {
+      throw new Error(`Invalid identifier '${name}'`)
+    }
+    return `"${part}"`
+  })
+  return createSqlQuery([quoted.join(".")], []) as SqlFragment<QuotedIdentifier<Name>>
+}
+
+/**
+ * IN list fragment: IN ($1, $2, ...), or IN (NULL) for an empty list
+ */
+sql.in = function inList(values: readonly unknown[]): SqlQuery {
+  if (values.length === 0) {
+    return createSqlQuery(["IN (NULL)"], [])
+  }
+  return createSqlQuery(["IN (", ...values.slice(1).map(() => ", "), ")"], [...values])
+}
+
+/**
+ * Trusted SQL text fragment, inserted as is
+ */
+sql.raw = function raw<const Text extends string>(text: Text): SqlFragment<Text> {
+  return createSqlQuery([text], []) as SqlFragment<Text>
+}
+
+/**
+ * Check if a name is a plain (unquoted, unqualified) SQL identifier
+ */
+export function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_$]*$/.test(name)
+}
+
+/**
+ * Check if a value is a query built by the `sql` tag
+ */
+export function isSqlQuery(value: unknown): value is SqlQuery {
+  return typeof value === "object" && value !== null && (value as { type?: unknown }).type === "SqlQuery"
+}
+
+/**
+ * Append a value to a parameter list and return its SQL text: a positional
+ * placeholder, or the text of a SqlQuery with its parameters renumbered
+ */
+export function bindValue(value: unknown, params: unknown[]): string {
+  if (!isSqlQuery(value)) {
+    params.push(value)
+    return `$${params.length}`
+  }
+  let text = value.strings[0]
+  for (let i = 1; i < value.strings.length; i++) {
+    params.push(value.values[i - 1])
+    text += `$${params.length}${value.strings[i]}`
+  }
+  return text
+}
+
+function createSqlQuery(strings: string[], values: unknown[]): SqlQuery {
+  let text = strings[0]
+  for (let i = 1; i < strings.length; i++) {
+    text += `$${i}${strings[i]}`
+  }
+  return { type: "SqlQuery", text, values, strings }
+}
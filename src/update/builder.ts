@@ -0,0 +1,618 @@
+/**
+ * UPDATE Query Builder
+ *
+ * An immutable, chainable builder that assembles an UPDATE query from
+ * fragments, following the SELECT builder architecture:
+ *
+ * ```typescript
+ * const query = createUpdateQuery<Schema>()
+ *   .table("users")
+ *   .set({ name: "John", active: true })
+ *   .where("id = 1", "by_id")
+ *   .returning(["id", "name"])
+ *
+ * query.toQuery()
+ * // { sql: "UPDATE users SET name = $1, active = $2 WHERE id = 1 RETURNING id, name", params: ["John", true] }
+ * ```
+ *
+ * SET values are bound as positional parameters in SET order; `sql`
+ * fragments (sql.raw("NOW()"), sql`count + ${1}`) are spliced in with their
+ * parameters renumbered. Placeholders written inside string fragments are
+ * passed through as is. SET column names must be plain identifiers and are
+ * checked before they are put into the query text.
+ *
+ * Type level: each call assembles the query text of the new state and
+ * validates it with ValidateUpdateSQL; the RETURNING rows are inferred with
+ * MatchUpdateQuery. set() values are typed from the table columns.
+ *
+ * execute() refuses to run an UPDATE without a WHERE condition unless
+ * all() was called, both at type level and at runtime.
+ */
+
+import type {
+  AddPart,
+  AnyConditionTreeBuilder,
+  BuilderErrorState,
+  BuilderState,
+  CheckedInput,
+  ConditionPartsSQL,
+  ConditionTreeBuilderState,
+  ConditionTreeSQL,
+  FragmentPart,
+  FragmentText,
+  PartsSQL,
+  RemovePart,
+  ValueColumns,
+} from "../common/builder.js"
+import {
+  conditionPartsSQL,
+  fragmentText,
+  partsSQL,
+  requireColumnName,
+  requireFragment,
+  requireId,
+  upsertPart,
+} from "../common/builder.js"
+import type { DatabaseSchema } from "../common/schema.js"
+import type { Flatten, MatchError, StripTemplateHoles } from "../common/utils.js"
+import type { QueryHandler, ReturningResult } from "../db.js"
+import type { BoundQuery } from "../params.js"
+import type { SqlQuery } from "../template.js"
+import { bindValue } from "../template.js"
+import type { UpdateResult } from "./matcher.js"
+import type { GetUpdateTableColumns, ValidateUpdateSQL } from "./validator.js"
+
+// ============================================================================
+// Builder State
+// ============================================================================
+
+/**
+ * A SET assignment; the column name is its ID
+ * Value is the SQL text of a literal `sql` fragment, or undefined for a
+ * value bound as a parameter
+ */
+export type UpdateSetPart<
+  Column extends string = string,
+  Value extends string | undefined = string | undefined,
+> = {
+  readonly id: Column
+  readonly value: Value
+}
+
+/**
+ * State of an UPDATE builder
+ * Parts are kept in insertion order; a part added with an existing ID
+ * replaces the old one in place
+ */
+export type UpdateBuilderState = {
+  readonly table: string | undefined
+  readonly set: UpdateSetPart[]
+  readonly from: FragmentPart[]
+  readonly where: FragmentPart[]
+  readonly returning: FragmentPart[]
+  readonly all: boolean
+}
+
+/**
+ * Initial UPDATE builder state
+ */
+export type EmptyUpdateState = {
+  readonly table: undefined
+  readonly set: []
+  readonly from: []
+  readonly where: []
+  readonly returning: []
+  readonly all: false
+}
+
+/**
+ * State of an UPDATE builder after a fragment failed to parse or validate
+ */
+export type UpdateErrorState<
+  Message extends string = string,
+  Previous extends UpdateBuilderState = UpdateBuilderState,
+> = BuilderErrorState<Message, Previous>
+
+// ============================================================================
+// Builder Interface
+// ============================================================================
+
+/**
+ * Branded SQL string returned by toString()
+ * __type is the RETURNING row type (void without RETURNING), or a MatchError
+ */
+export type UpdateQuerySQL<Result> = string & {
+  readonly __type: Result
+}
+
+/**
+ * Type-safe UPDATE query builder
+ *
+ * Every method returns a new builder; IDs (the last argument) allow a part
+ * to be replaced or removed later. The type parameters are invariant for
+ * the same reason as in SelectQueryBuilder.
+ */
+export interface UpdateQueryBuilder<
+  in out Schema extends DatabaseSchema,
+  in out State extends UpdateBuilderState | UpdateErrorState = EmptyUpdateState,
+> {
+  /** Type-level state (not available at runtime) */
+  readonly __state?: State
+
+  /** Set the table to update: "users", "public.users AS u" */
+  table<const Table extends string>(
+    table: CheckedInput<State, Table, TableStep<Schema, State, Table>>,
+  ): UpdateQueryBuilder<Schema, TableStep<Schema, State, Table>>
+
+  /**
+   * Assign column values; values are typed from the table columns
+   * A column that is already assigned is replaced
+   */
+  set<const Values extends UpdateSetValues<Schema, State>>(
+    values: CheckedInput<State, Values, SetStep<Schema, State, Values>>,
+  ): UpdateQueryBuilder<Schema, SetStep<Schema, State, Values>>
+
+  /** Remove a column assignment */
+  removeSet<Column extends string>(
+    column: Column,
+  ): UpdateQueryBuilder<Schema, RemoveStep<Schema, State, "set", Column>>
+
+  /** Add a FROM source (UPDATE ... FROM) */
+  from<const Source extends string, Id extends string | undefined = undefined>(
+    source: CheckedInput<State, Source, ClauseStep<Schema, State, "from", Source, Id>>,
+    id?: Id,
+  ): UpdateQueryBuilder<Schema, ClauseStep<Schema, State, "from", Source, Id>>
+
+  /** Remove a FROM source by ID */
+  removeFrom<Id extends string>(
+    id: Id,
+  ): UpdateQueryBuilder<Schema, RemoveStep<Schema, State, "from", Id>>
+
+  /**
+   * Add a WHERE condition or condition tree; conditions are combined with AND
+   */
+  where<
+    const Condition extends string | AnyConditionTreeBuilder,
+    Id extends string | undefined = undefined,
+  >(
+    condition: CheckedInput<
+      State,
+      Condition,
+      ClauseStep<Schema, State, "where", ConditionText<Condition>, Id>
+    >,
+    id?: Id,
+  ): UpdateQueryBuilder<Schema, ClauseStep<Schema, State, "where", ConditionText<Condition>, Id>>
+
+  /** Remove a WHERE condition by ID */
+  removeWhere<Id extends string>(
+    id: Id,
+  ): UpdateQueryBuilder<Schema, RemoveStep<Schema, State, "where", Id>>
+
+  /** Add RETURNING columns */
+  returning<
+    const Columns extends string | readonly string[],
+    Id extends string | undefined = undefined,
+  >(
+    columns: CheckedInput<
+      State,
+      Columns,
+      ClauseStep<Schema, State, "returning", FragmentText<Columns>, Id>
+    >,
+    id?: Id,
+  ): UpdateQueryBuilder<Schema, ClauseStep<Schema, State, "returning", FragmentText<Columns>, Id>>
+
+  /** Remove RETURNING columns by ID */
+  removeReturning<Id extends string>(
+    id: Id,
+  ): UpdateQueryBuilder<Schema, RemoveStep<Schema, State, "returning", Id>>
+
+  /** Allow execute() to update every row when there is no WHERE condition */
+  all(): UpdateQueryBuilder<Schema, AllStep<State>>
+
+  /**
+   * Apply the callback only when the condition is true at runtime
+   * At type level the callback is always applied
+   */
+  when<Result extends AnyUpdateQueryBuilder>(
+    condition: boolean,
+    callback: (builder: UpdateQueryBuilder<Schema, State>) => Result,
+  ): UpdateQueryBuilder<Schema, BuilderState<Result>>
+
+  /**
+   * Assemble the SQL query (SET values as $1, $2, ...)
+   * The branded return type carries the result type in __type
+   */
+  toString(): UpdateQuerySQL<UpdateStateResult<State, Schema>>
+
+  /** Assemble the SQL query with its parameters */
+  toQuery(): BoundQuery
+
+  /**
+   * Run the query with the handler; resolves to the RETURNING rows, or void
+   * The handler argument is an error until where() or all() is called
+   */
+  execute(
+    handler: ExecuteInput<State>,
+  ): Promise<ReturningResult<UpdateStateResult<State, Schema>>>
+}
+
+/**
+ * Any UPDATE builder, used to accept .when() results
+ */
+export type AnyUpdateQueryBuilder = {
+  readonly __state?: UpdateBuilderState | UpdateErrorState
+}
+
+/**
+ * Result type of an UPDATE builder: RETURNING row type, or void
+ */
+export type UpdateBuilderResult<Builder, Schema extends DatabaseSchema> = UpdateStateResult<
+  BuilderState<Builder>,
+  Schema
+>
+
+/**
+ * Values accepted by set(): the columns of the table with their types
+ * `sql` fragments are accepted for any column
+ */
+export type UpdateSetValues<Schema extends DatabaseSchema, State> = State extends UpdateBuilderState
+  ? State["table"] extends string
+    ? TableColumns<Schema, State["table"]> extends infer Columns
+      ? { readonly [K in keyof Columns]?: Columns[K] | SqlQuery }
+      : never
+    : Record<string, unknown>
+  : Record<string, unknown>
+
+type TableColumns<Schema extends DatabaseSchema, Table extends string> = GetUpdateTableColumns<
+  `UPDATE ${Table} SET __builder = 1`,
+  Schema
+>
+
+/**
+ * Validator message for a table that was not found
+ */
+type TableError<Schema extends DatabaseSchema, Table extends string> = ValidateUpdateSQL<
+  `UPDATE ${Table} SET __builder = 1`,
+  Schema
+> extends infer Message extends string
+  ? Message
+  : `Table '${Table}' not found`
+
+// ============================================================================
+// State Transitions
+// ============================================================================
+
+type ConditionText<Input> = Input extends string
+  ? Input
+  : ConditionTreeSQL<ConditionTreeBuilderState<Input>>
+
+type StaticText<Fragment extends string> = StripTemplateHoles<Fragment>
+
+type WithField<State extends UpdateBuilderState, Field extends keyof UpdateBuilderState, Value> =
+  Flatten<Omit<State, Field> & { readonly [K in Field]: Value }> extends infer Next extends
+    UpdateBuilderState
+    ? Next
+    : never
+
+/**
+ * Validate the query assembled from a new state
+ * Without a table or a SET assignment there is no query to validate yet
+ */
+type ValidateStep<
+  Schema extends DatabaseSchema,
+  Previous extends UpdateBuilderState,
+  Next extends UpdateBuilderState,
+> = Next["table"] extends string
+  ? Next["set"] extends []
+    ? Next
+    : ValidateUpdateSQL<BuildUpdateSQL<Next>, Schema> extends infer Result
+      ? Result extends true
+        ? Next
+        : UpdateErrorState<Result extends string ? Result : "Invalid query", Previous>
+      : never
+  : Next
+
+/**
+ * table(): set the table, which must exist in the schema
+ */
+type TableStep<
+  Schema extends DatabaseSchema,
+  State extends UpdateBuilderState | UpdateErrorState,
+  Table extends string,
+> = State extends UpdateBuilderState
+  ? StaticText<Table> extends ""
+    ? State
+    : [TableColumns<Schema, StaticText<Table>>] extends [never]
+      ? UpdateErrorState<TableError<Schema, StaticText<Table>>, State>
+      : ValidateStep<Schema, State, WithField<State, "table", StaticText<Table>>>
+  : State
+
+/**
+ * set(): add or replace column assignments
+ */
+type SetStep<
+  Schema extends DatabaseSchema,
+  State extends UpdateBuilderState | UpdateErrorState,
+  Values,
+> = State extends UpdateBuilderState
+  ? State["table"] extends string
+    ? ValidateStep<
+        Schema,
+        State,
+        WithField<State, "set", AddSetParts<State["set"], ValueColumns<Values>, Values>>
+      >
+    : UpdateErrorState<"Call table() before set()", State>
+  : State
+
+type AddSetParts<
+  Parts extends UpdateSetPart[],
+  Columns extends string[],
+  Values,
+> = Columns extends [infer Column extends string, ...infer Rest extends string[]]
+  ? AddPart<Parts, UpdateSetPart<Column, ValueSQL<Values[Column & keyof Values]>>> extends infer Next extends
+      UpdateSetPart[]
+    ? AddSetParts<Next, Rest, Values>
+    : never
+  : Parts
+
+/**
+ * SQL text of a literal `sql` fragment value, or undefined for a parameter
+ */
+type ValueSQL<Value> = [Value] extends [SqlQuery]
+  ? string extends Value["text"]
+    ? undefined
+    : Value["text"]
+  : undefined
+
+/**
+ * from(), where(), returning(): add a clause part
+ * Requires a table and at least one SET assignment
+ */
+type ClauseStep<
+  Schema extends DatabaseSchema,
+  State extends UpdateBuilderState | UpdateErrorState,
+  Field extends "from" | "where" | "returning",
+  Fragment extends string,
+  Id extends string | undefined,
+> = State extends UpdateBuilderState
+  ? StaticText<Fragment> extends ""
+    ? State
+    : State["set"] extends []
+      ? UpdateErrorState<`Call table() and set() before ${Field}()`, State>
+      : ValidateStep<
+          Schema,
+          State,
+          WithField<State, Field, AddPart<State[Field], FragmentPart<Id, StaticText<Fragment>>>>
+        >
+  : State
+
+/**
+ * removeX(): remove a part by ID and revalidate
+ */
+type RemoveStep<
+  Schema extends DatabaseSchema,
+  State extends UpdateBuilderState | UpdateErrorState,
+  Field extends "set" | "from" | "where" | "returning",
+  Id extends string,
+> = State extends UpdateBuilderState
+  ? ValidateStep<Schema, State, WithField<State, Field, RemovePart<State[Field], Id>>>
+  : State
+
+type AllStep<State extends UpdateBuilderState | UpdateErrorState> = State extends UpdateBuilderState
+  ? WithField<State, "all", true>
+  : State
+
+/**
+ * Handler argument of execute(), or an error message
+ */
+type ExecuteInput<State> = State extends UpdateErrorState<infer Message>
+  ? `[Builder Error] ${Message}`
+  : State extends UpdateBuilderState
+    ? State["set"] extends []
+      ? "[Builder Error] Call table() and set() before execute()"
+      : State["where"] extends []
+        ? State["all"] extends true
+          ? QueryHandler
+          : "[Builder Error] Call where() or all() before execute()"
+        : QueryHandler
+    : never
+
+// ============================================================================
+// Type-Level SQL Assembly
+// ============================================================================
+
+/**
+ * Query text of a builder state, mirroring the runtime assembly
+ */
+export type BuildUpdateSQL<State extends UpdateBuilderState> =
+  `UPDATE ${State["table"] & string} SET ${SetSQL<State["set"]>}${ListSQL<
+    " FROM ",
+    State["from"]
+  >}${State["where"] extends [] ? "" : ` WHERE ${ConditionPartsSQL<State["where"]>}`}${ListSQL<
+    " RETURNING ",
+    State["returning"]
+  >}`
+
+type ListSQL<Keyword extends string, Parts extends FragmentPart[]> = Parts extends []
+  ? ""
+  : `${Keyword}${PartsSQL<Parts, ", ">}`
+
+/**
+ * Assignments with parameters numbered in SET order
+ */
+type SetSQL<Parts extends UpdateSetPart[], Params extends unknown[] = [unknown]> = Parts extends [
+  infer First extends UpdateSetPart,
+  ...infer Rest extends UpdateSetPart[],
+]
+  ? `${First["id"]} = ${First["value"] extends string ? First["value"] : `$${Params["length"]}`}${Rest extends []
+      ? ""
+      : `, ${SetSQL<Rest, First["value"] extends string ? Params : [...Params, unknown]>}`}`
+  : ""
+
+// ============================================================================
+// Result Inference
+// ============================================================================
+
+type UpdateStateResult<State, Schema extends DatabaseSchema> = State extends UpdateErrorState<
+  infer Message
+>
+  ? MatchError<Message>
+  : State extends UpdateBuilderState
+    ? State["set"] extends []
+      ? MatchError<"Missing SET clause">
+      : UpdateResult<BuildUpdateSQL<State>, Schema>
+    : never
+
+// ============================================================================
+// Runtime Implementation
+// ============================================================================
+
+type RuntimeUpdateState = {
+  readonly table: string | undefined
+  readonly set: { readonly id: string; readonly value: unknown }[]
+  readonly from: FragmentPart[]
+  readonly where: FragmentPart[]
+  readonly returning: FragmentPart[]
+  readonly all: boolean
+}
+
+const emptyState: RuntimeUpdateState = {
+  table: undefined,
+  set: [],
+  from: [],
+  where: [],
+  returning: [],
+  all: false,
+}
+
+class UpdateQueryBuilderImpl {
+  constructor(private readonly state: RuntimeUpdateState) {}
+
+  table(table: string) {
+    return this.next({ table: requireFragment(table, "table") })
+  }
+
+  /**
+   * @throws Error if a column name is not a plain identifier
+   */
+  set(values: Record<string, unknown>) {
+    let set = this.state.set
+    for (const [column, value] of Object.entries(values)) {
+      set = upsertPart(set, { id: requireColumnName(column, "set"), value })
+    }
+    return this.next({ set })
+  }
+
+  removeSet(column: string) {
+    return this.next({ set: this.state.set.filter((part) => part.id !== column) })
+  }
+
+  from(source: string, id?: string) {
+    return this.addPart("from", source, id)
+  }
+
+  removeFrom(id: string) {
+    return this.removePart("from", id)
+  }
+
+  where(condition: string | AnyConditionTreeBuilder, id?: string) {
+    if (typeof condition === "string") {
+      return this.addPart("where", condition, id)
+    }
+    const sql = condition.toString()
+    return sql === "" ? this : this.addPart("where", sql, id)
+  }
+
+  removeWhere(id: string) {
+    return this.removePart("where", id)
+  }
+
+  returning(columns: string | readonly string[], id?: string) {
+    return this.addPart("returning", fragmentText(columns), id)
+  }
+
+  removeReturning(id: string) {
+    return this.removePart("returning", id)
+  }
+
+  all() {
+    return this.next({ all: true })
+  }
+
+  when(condition: boolean, callback: (builder: UpdateQueryBuilderImpl) => UpdateQueryBuilderImpl) {
+    return condition ? callback(this) : this
+  }
+
+  toString() {
+    return this.toQuery().sql
+  }
+
+  toQuery(): BoundQuery {
+    return assembleUpdateQuery(this.state)
+  }
+
+  /**
+   * @throws Error if the query has no SET assignment, or no WHERE condition
+   * and all() was not called
+   */
+  execute(handler: QueryHandler) {
+    if (this.state.table === undefined || this.state.set.length === 0) {
+      throw new Error("Call table() and set() before execute()")
+    }
+    if (this.state.where.length === 0 && !this.state.all) {
+      throw new Error("UPDATE without where() requires all()")
+    }
+    const query = this.toQuery()
+    return Promise.resolve(handler(query.sql, query.params))
+  }
+
+  private addPart(field: "from" | "where" | "returning", fragment: string, id?: string) {
+    const part = { id: requireId(id), sql: requireFragment(fragment, field) }
+    return this.next({ [field]: upsertPart(this.state[field], part) })
+  }
+
+  private removePart(field: "from" | "where" | "returning", id: string) {
+    return this.next({ [field]: this.state[field].filter((part) => part.id !== id) })
+  }
+
+  private next(changes: Partial<RuntimeUpdateState>) {
+    return new UpdateQueryBuilderImpl({ ...this.state, ...changes })
+  }
+}
+
+/**
+ * Assemble an UPDATE query from builder state, binding SET values
+ */
+function assembleUpdateQuery(state: RuntimeUpdateState): BoundQuery {
+  const params: unknown[] = []
+  const assignments = state.set.map((part) => `${part.id} = ${bindValue(part.value, params)}`)
+  const sql = [`UPDATE ${state.table} SET ${assignments.join(", ")}`]
+  if (state.from.length > 0) {
+    sql.push(`FROM ${partsSQL(state.from, ", ")}`)
+  }
+  if (state.where.length > 0) {
+    sql.push(`WHERE ${conditionPartsSQL(state.where)}`)
+  }
+  if (state.returning.length > 0) {
+    sql.push(`RETURNING ${partsSQL(state.returning, ", ")}`)
+  }
+  return { sql: sql.join(" "), params }
+}
+
+/**
+ * Create an UPDATE query builder for a schema
+ * The schema is only used at type level
+ *
+ * @example
+ * ```typescript
+ * const deactivate = createUpdateQuery<Schema>()
+ *   .table("users")
+ *   .set({ active: false, updated_at: sql.raw("NOW()") })
+ *   .where("last_login < NOW() - INTERVAL '1 year'")
+ *
+ * await deactivate.execute((sql, params) => pool.query(sql, params))
+ * ```
+ */
+export function createUpdateQuery<Schema extends DatabaseSchema>(): UpdateQueryBuilder<Schema> {
+  return new UpdateQueryBuilderImpl(emptyState) as unknown as UpdateQueryBuilder<Schema>
+}
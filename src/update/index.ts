@@ -65,3 +65,21 @@ export type {
   GetUpdateTableColumns,
 } from "./validator.js"
 
+
+// ============================================================================
+// Query Builder Exports
+// ============================================================================
+
+export { createUpdateQuery } from "./builder.js"
+export type {
+  AnyUpdateQueryBuilder,
+  BuildUpdateSQL,
+  EmptyUpdateState,
+  UpdateBuilderResult,
+  UpdateBuilderState,
+  UpdateErrorState,
+  UpdateQueryBuilder,
+  UpdateQuerySQL,
+  UpdateSetPart,
+  UpdateSetValues,
+} from "./builder.js"
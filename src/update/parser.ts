@@ -30,13 +30,21 @@ import type {
   JoinClause,
   JoinType,
   CTEDefinition,
-  SubquerySelectClause,
 } from "../common/ast.js"
 
-import type { NormalizeSQL, NextToken, ExtractUntil, SplitByComma } from "../common/tokenizer.js"
+import type {
+  NormalizeSQL,
+  NextToken,
+  ExtractUntil,
+  SplitByComma,
+  IsParamPlaceholder,
+  ParamName,
+} from "../common/tokenizer.js"
 
 import type { Trim, ParseError, RemoveQuotes, Increment, Decrement } from "../common/utils.js"
 
+import type { ParseCTEList } from "../select/index.js"
+
 // ============================================================================
 // Main Entry Point
 // ============================================================================
@@ -75,65 +83,6 @@ type ParseWithAndUpdate<T extends string> = ParseCTEList<T> extends infer CTERes
     : CTEResult
   : never
 
-// ============================================================================
-// CTE (Common Table Expression) Parser
-// ============================================================================
-
-/**
- * Parse a list of CTEs: name AS (SELECT ...), name2 AS (SELECT ...)
- */
-type ParseCTEList<T extends string, Acc extends CTEDefinition[] = []> =
-  ParseSingleCTE<T> extends infer CTEResult
-    ? CTEResult extends { cte: infer CTE extends CTEDefinition; rest: infer Rest extends string }
-      ? NextToken<Rest> extends [",", infer AfterComma extends string]
-        ? ParseCTEList<AfterComma, [...Acc, CTE]>
-        : { ctes: [...Acc, CTE]; rest: Rest }
-      : CTEResult extends ParseError<string>
-        ? CTEResult
-        : ParseError<"Invalid CTE syntax">
-    : never
-
-/**
- * Parse a single CTE: name AS ( SELECT ... )
- */
-type ParseSingleCTE<T extends string> = NextToken<T> extends [
-  infer Name extends string,
-  infer AfterName extends string,
-]
-  ? NextToken<AfterName> extends ["AS", infer AfterAs extends string]
-    ? NextToken<AfterAs> extends ["(", infer InParen extends string]
-      ? ExtractParenContent<InParen> extends [
-          infer Content extends string,
-          infer AfterParen extends string,
-        ]
-        ? {
-            cte: CTEDefinition<Name, SubquerySelectClause>
-            rest: AfterParen
-          }
-        : ParseError<"Invalid CTE: missing closing parenthesis">
-      : ParseError<"Invalid CTE: expected ( after AS">
-    : ParseError<"Invalid CTE: expected AS after name">
-  : ParseError<"Invalid CTE: expected name">
-
-/**
- * Extract content within parentheses, handling nested parens
- */
-type ExtractParenContent<
-  T extends string,
-  Depth extends number = 1,
-  Acc extends string = "",
-> = Depth extends 0
-  ? [Acc, T]
-  : T extends `(${infer Rest}`
-    ? ExtractParenContent<Rest, Increment<Depth>, `${Acc}(`>
-    : T extends `)${infer Rest}`
-      ? Depth extends 1
-        ? [Acc, Rest]
-        : ExtractParenContent<Rest, Decrement<Depth>, `${Acc})`>
-      : T extends `${infer Char}${infer Rest}`
-        ? ExtractParenContent<Rest, Depth, `${Acc}${Char}`>
-        : ParseError<"Unclosed parenthesis in CTE">
-
 // ============================================================================
 // UPDATE Body Parser
 // ============================================================================
@@ -214,12 +163,10 @@ type ParseSetValue<T extends string> = T extends "DEFAULT"
         ? { readonly type: "Literal"; readonly value: false }
         : T extends `'${infer Val}'`
           ? { readonly type: "Literal"; readonly value: Val }
-          : T extends `$${infer Num}`
-            ? { readonly type: "Param"; readonly name: Num }
-            : T extends `:${infer Name}`
-              ? { readonly type: "Param"; readonly name: Name }
-              : IsNumericString<T> extends true
-                ? { readonly type: "Literal"; readonly value: T }
+          : IsParamPlaceholder<T> extends true
+            ? { readonly type: "Param"; readonly name: ParamName<T> }
+            : IsNumericString<T> extends true
+                ? { readonly type: "Literal"; readonly value: NumericValue<T> }
                 : T extends `${infer Table}.${infer Col}`
                   ? {
                       readonly type: "ColumnRef"
@@ -235,6 +182,11 @@ type ParseSetValue<T extends string> = T extends "DEFAULT"
  */
 type IsNumericString<T extends string> = T extends `${number}` ? true : false
 
+/**
+ * Convert a numeric string to its number literal type
+ */
+type NumericValue<T extends string> = T extends `${infer N extends number}` ? N : number
+
 // ============================================================================
 // Build Update Clause with Optional Parts
 // ============================================================================
@@ -477,21 +429,42 @@ type ParseWhere<T extends string> = Trim<T> extends ""
 
 /**
  * Scan tokens for column references
+ * Skips parenthesized subqueries, whose columns belong to their own FROM
  */
 type ScanTokensForColumnRefs<T extends string, Acc extends ValidatableColumnRef[]> = Trim<
   T
 > extends ""
   ? Acc
   : NextToken<Trim<T>> extends [infer Token extends string, infer Rest extends string]
-    ? ExtractColumnFromToken<Token> extends infer ColRef
-      ? [ColRef] extends [never]
-        ? ScanTokensForColumnRefs<Rest, Acc>
-        : ColRef extends ValidatableColumnRef
-          ? ScanTokensForColumnRefs<Rest, [...Acc, ColRef]>
-          : ScanTokensForColumnRefs<Rest, Acc>
-      : ScanTokensForColumnRefs<Rest, Acc>
+    ? Token extends "("
+      ? NextToken<Rest> extends ["SELECT", string]
+        ? SkipUntilClosingParen<Rest, 1> extends infer Remainder extends string
+          ? ScanTokensForColumnRefs<Remainder, Acc>
+          : Acc
+        : ScanTokensForColumnRefs<Rest, Acc>
+      : ExtractColumnFromToken<Token> extends infer ColRef
+        ? [ColRef] extends [never]
+          ? ScanTokensForColumnRefs<Rest, Acc>
+          : ColRef extends ValidatableColumnRef
+            ? ScanTokensForColumnRefs<Rest, [...Acc, ColRef]>
+            : ScanTokensForColumnRefs<Rest, Acc>
+        : ScanTokensForColumnRefs<Rest, Acc>
     : Acc
 
+/**
+ * Skip tokens until the matching closing parenthesis
+ * Returns the string after it
+ */
+type SkipUntilClosingParen<T extends string, Depth extends number> = Depth extends 0
+  ? T
+  : NextToken<Trim<T>> extends [infer Token extends string, infer Rest extends string]
+    ? Token extends "("
+      ? SkipUntilClosingParen<Rest, Increment<Depth>>
+      : Token extends ")"
+        ? SkipUntilClosingParen<Rest, Decrement<Depth>>
+        : SkipUntilClosingParen<Rest, Depth>
+    : ""
+
 /**
  * Extract the base column from a JSON operator expression (recursively)
  */
@@ -600,7 +573,7 @@ type IsKeywordOrOperator<T extends string> = T extends `'${string}'`
         | "<="
         | ">="
     ? true
-    : T extends `$${number}` | `$${string}` | `:${string}`
+    : IsParamPlaceholder<T> extends true
       ? true
       : T extends `${number}`
         ? true
@@ -4,7 +4,8 @@
  * This module provides comprehensive validation for UPDATE queries.
  * It validates:
  * - Table existence in schema
- * - SET clause column references
+ * - SET clause column references and literal value types
+ * - GENERATED ALWAYS columns are not written
  * - FROM clause table references
  * - WHERE clause column references
  * - RETURNING clause column validation
@@ -23,6 +24,7 @@ import type {
 } from "./ast.js"
 
 import type {
+  CTEDefinition,
   TableRef,
   TableSource,
   UnboundColumnRef,
@@ -38,9 +40,16 @@ import type {
   IsParseError,
   HasTemplateHoles,
 } from "../common/utils.js"
-import type { DatabaseSchema, GetDefaultSchema } from "../common/schema.js"
+import type {
+  DatabaseSchema,
+  GetDefaultSchema,
+  IsGeneratedColumn,
+  TableColumnTypes,
+  ValidateLiteralValue,
+} from "../common/schema.js"
 
 import type { ParseUpdateSQL } from "./parser.js"
+import type { BuildCTEContext } from "../select/index.js"
 
 // ============================================================================
 // Re-exports for convenience
@@ -74,12 +83,33 @@ export type ValidateUpdateOptions = {
    * @default true
    */
   validateReturning?: boolean
+
+  /**
+   * Whether to validate SET literal values against column types
+   * @default true
+   */
+  validateValueTypes?: boolean
 }
 
 /**
  * Default validation options - full validation enabled
  */
-type DefaultValidateOptions = { validateSet: true; validateWhere: true; validateReturning: true }
+type DefaultValidateOptions = {
+  validateSet: true
+  validateWhere: true
+  validateReturning: true
+  validateValueTypes: true
+}
+
+/**
+ * Options for a CTE body - full validation except RETURNING
+ */
+type CTEValidateOptions = {
+  validateSet: true
+  validateWhere: true
+  validateReturning: false
+  validateValueTypes: true
+}
 
 // ============================================================================
 // Main Validator Entry Point
@@ -105,6 +135,23 @@ export type ValidateUpdateSQL<
         : "Failed to parse query"
     : never
 
+/**
+ * Validate a UPDATE statement used as a CTE body
+ * The CTEs defined before it in the same WITH clause are in scope. The
+ * RETURNING list is left to the CTE, which resolves it as a SELECT list
+ */
+export type ValidateUpdateCTE<
+  SQL extends string,
+  Schema extends DatabaseSchema,
+  CTEs extends CTEDefinition[],
+> = ParseUpdateSQL<SQL> extends infer Parsed
+  ? Parsed extends ParseError<infer E>
+    ? E
+    : Parsed extends SQLUpdateQuery<infer Query>
+      ? ValidateUpdateClause<{ [K in keyof Query]: K extends "ctes" ? CTEs : Query[K] }, Schema, CTEValidateOptions>
+      : "Failed to parse query"
+  : never
+
 // ============================================================================
 // Update Clause Validation
 // ============================================================================
@@ -116,28 +163,39 @@ type ValidateUpdateClause<
   Update extends UpdateClause,
   Schema extends DatabaseSchema,
   Options extends ValidateUpdateOptions = DefaultValidateOptions,
-> = Update extends UpdateClause<infer Table, infer Set, infer From, infer Where, infer Returning>
-  ? ValidateTable<Table, Schema> extends infer TableResult
-    ? TableResult extends true
-      ? ValidateFromClause<From, Schema> extends infer FromResult
-        ? FromResult extends true
-          ? BuildValidationContext<Table, From, Schema> extends infer Context
-            ? Context extends MatchError<string>
-              ? Context
-              : ValidateSetClause<Set, Table, Schema, Options> extends infer SetResult
-                ? SetResult extends true
-                  ? ValidateWhereClause<Where, Context, Schema, Options> extends infer WhereResult
-                    ? WhereResult extends true
-                      ? ValidateReturningClause<Returning, Table, Schema, Options>
-                      : WhereResult
-                    : "WHERE validation failed"
-                  : SetResult
-                : "SET validation failed"
-            : "Context building failed"
-          : FromResult
-        : "FROM validation failed"
-      : TableResult
-    : "Table validation failed"
+> = Update extends UpdateClause<
+  infer Table,
+  infer Set,
+  infer From,
+  infer Where,
+  infer Returning,
+  infer CTEs
+>
+  ? BuildCTEContext<CTEs, Schema> extends infer CTEContext
+    ? CTEContext extends MatchError<infer E>
+      ? E
+      : ValidateTable<Table, Schema> extends infer TableResult
+        ? TableResult extends true
+          ? ValidateFromClause<From, Schema, CTEContext> extends infer FromResult
+            ? FromResult extends true
+              ? BuildValidationContext<Table, From, Schema, CTEContext> extends infer Context
+                ? Context extends MatchError<string>
+                  ? Context
+                  : ValidateSetClause<Set, Table, Schema, Options> extends infer SetResult
+                    ? SetResult extends true
+                      ? ValidateWhereClause<Where, Context, Schema, Options> extends infer WhereResult
+                        ? WhereResult extends true
+                          ? ValidateReturningClause<Returning, Table, Schema, Options>
+                          : WhereResult
+                        : "WHERE validation failed"
+                      : SetResult
+                    : "SET validation failed"
+                : "Context building failed"
+              : FromResult
+            : "FROM validation failed"
+          : TableResult
+        : "Table validation failed"
+    : "CTE validation failed"
   : "Invalid UPDATE clause"
 
 // ============================================================================
@@ -190,7 +248,7 @@ type ValidateSetClause<
 > = Options["validateSet"] extends false
   ? true
   : Set extends SetClause<infer Assignments>
-    ? ValidateSetAssignments<Assignments, Table, Schema>
+    ? ValidateSetAssignments<Assignments, Table, Schema, Options>
     : true
 
 /**
@@ -200,18 +258,78 @@ type ValidateSetAssignments<
   Assignments extends SetAssignment[],
   Table extends TableRef,
   Schema extends DatabaseSchema,
+  Options extends ValidateUpdateOptions,
 > = Assignments extends [infer First, ...infer Rest]
-  ? First extends SetAssignment<infer Column, infer _Value>
+  ? First extends SetAssignment<infer Column, infer Value>
     ? ValidateColumnExists<Column, Table, Schema> extends infer Result
       ? Result extends true
-        ? Rest extends SetAssignment[]
-          ? ValidateSetAssignments<Rest, Table, Schema>
-          : true
+        ? ValidateWritableColumn<Column, Value, Table, Schema> extends infer WritableResult
+          ? WritableResult extends true
+            ? ValidateSetValue<Column, Value, Table, Schema, Options> extends infer ValueResult
+              ? ValueResult extends true
+                ? Rest extends SetAssignment[]
+                  ? ValidateSetAssignments<Rest, Table, Schema, Options>
+                  : true
+                : ValueResult
+              : "SET value validation failed"
+            : WritableResult
+          : "SET column validation failed"
         : Result
       : "SET column validation failed"
     : true
   : true
 
+/**
+ * Validate that a SET column is not GENERATED ALWAYS (unless set to DEFAULT)
+ */
+type ValidateWritableColumn<
+  Column extends string,
+  Value,
+  Table extends TableRef,
+  Schema extends DatabaseSchema,
+> = Value extends { readonly type: "Default" }
+  ? true
+  : IsGeneratedColumn<GetColumnDefinition<Column, Table, Schema>> extends true
+    ? `Cannot update generated column '${Column}'`
+    : true
+
+/**
+ * Validate a literal SET value against the column type
+ * (parameters, expressions and column references are not checked)
+ */
+type ValidateSetValue<
+  Column extends string,
+  Value,
+  Table extends TableRef,
+  Schema extends DatabaseSchema,
+  Options extends ValidateUpdateOptions,
+> = Options["validateValueTypes"] extends false
+  ? true
+  : Value extends { readonly type: "Null" }
+    ? ValidateLiteralValue<null, GetColumnDefinition<Column, Table, Schema>, Column>
+    : Value extends { readonly type: "Literal"; readonly value: infer Literal }
+      ? ValidateLiteralValue<Literal, GetColumnDefinition<Column, Table, Schema>, Column>
+      : true
+
+/**
+ * Get the definition of a column of the target table (column descriptors are kept)
+ */
+type GetColumnDefinition<
+  Column extends string,
+  Table extends TableRef,
+  Schema extends DatabaseSchema,
+> = Table extends TableRef<infer TableName, infer _Alias, infer TableSchema>
+  ? (TableSchema extends string ? TableSchema : GetDefaultSchema<Schema>) extends infer SchemaName
+    ? SchemaName extends keyof Schema["schemas"]
+      ? TableName extends keyof Schema["schemas"][SchemaName]
+        ? Column extends keyof Schema["schemas"][SchemaName][TableName]
+          ? Schema["schemas"][SchemaName][TableName][Column]
+          : unknown
+        : unknown
+      : unknown
+    : unknown
+  : unknown
+
 /**
  * Validate a column exists in the table
  */
@@ -246,12 +364,12 @@ type ValidateColumnExists<
 // ============================================================================
 
 /**
- * Validate FROM clause tables exist
+ * Validate FROM clause tables exist (in the schema or as CTEs)
  */
-type ValidateFromClause<From, Schema extends DatabaseSchema> = From extends undefined
+type ValidateFromClause<From, Schema extends DatabaseSchema, CTEContext> = From extends undefined
   ? true
   : From extends UpdateFromClause<infer Tables>
-    ? ValidateTableList<Tables, Schema>
+    ? ValidateTableList<Tables, Schema, CTEContext>
     : true
 
 /**
@@ -260,18 +378,33 @@ type ValidateFromClause<From, Schema extends DatabaseSchema> = From extends unde
 type ValidateTableList<
   Tables extends TableSource[],
   Schema extends DatabaseSchema,
+  CTEContext,
 > = Tables extends [infer First, ...infer Rest]
   ? First extends TableRef<infer TableName, infer _Alias, infer TableSchema>
-    ? ResolveTableInSchema<TableName, TableSchema, Schema> extends infer Result
+    ? (
+        IsCTEReference<First, CTEContext> extends true
+          ? true
+          : ResolveTableInSchema<TableName, TableSchema, Schema>
+      ) extends infer Result
       ? Result extends true
         ? Rest extends TableSource[]
-          ? ValidateTableList<Rest, Schema>
+          ? ValidateTableList<Rest, Schema, CTEContext>
           : true
         : Result
       : "Table validation failed"
     : true
   : true
 
+/**
+ * Check if a table reference names a CTE (CTE names are never schema-qualified)
+ */
+type IsCTEReference<Table extends TableRef, CTEContext> =
+  Table extends TableRef<infer TableName, infer _Alias, undefined>
+    ? TableName extends keyof CTEContext
+      ? true
+      : false
+    : false
+
 // ============================================================================
 // Context Building
 // ============================================================================
@@ -283,11 +416,12 @@ type BuildValidationContext<
   Table extends TableRef,
   From,
   Schema extends DatabaseSchema,
+  CTEContext,
 > = ResolveTableContext<Table, Schema> extends infer MainContext
   ? MainContext extends MatchError<string>
     ? MainContext
     : From extends UpdateFromClause<infer Tables>
-      ? MergeFromContexts<MainContext, Tables, Schema>
+      ? MergeFromContexts<MainContext, Tables, Schema, CTEContext>
       : MainContext
   : never
 
@@ -300,13 +434,13 @@ type ResolveTableContext<Table extends TableRef, Schema extends DatabaseSchema>
       ? GetDefaultSchema<Schema> extends infer DefaultSchema extends string
         ? DefaultSchema extends keyof Schema["schemas"]
           ? TableName extends keyof Schema["schemas"][DefaultSchema]
-            ? { [K in Alias]: Schema["schemas"][DefaultSchema][TableName] }
+            ? { [K in Alias]: TableColumnTypes<Schema["schemas"][DefaultSchema][TableName]> }
             : MatchError<`Table '${TableName}' not found`>
           : MatchError<`Default schema not found`>
         : MatchError<`Cannot determine default schema`>
       : TableSchema extends keyof Schema["schemas"]
         ? TableName extends keyof Schema["schemas"][TableSchema]
-          ? { [K in Alias]: Schema["schemas"][TableSchema][TableName] }
+          ? { [K in Alias]: TableColumnTypes<Schema["schemas"][TableSchema][TableName]> }
           : MatchError<`Table '${TableName}' not found in schema '${TableSchema}'`>
         : MatchError<`Schema '${TableSchema}' not found`>
     : MatchError<`Invalid table reference`>
@@ -318,13 +452,18 @@ type MergeFromContexts<
   Context,
   Tables extends TableSource[],
   Schema extends DatabaseSchema,
+  CTEContext,
 > = Tables extends [infer First, ...infer Rest]
-  ? First extends TableRef
-    ? ResolveTableContext<First, Schema> extends infer TableContext
+  ? First extends TableRef<infer TableName, infer Alias, infer _Schema>
+    ? (
+        IsCTEReference<First, CTEContext> extends true
+          ? { [K in Alias]: CTEContext[TableName & keyof CTEContext] }
+          : ResolveTableContext<First, Schema>
+      ) extends infer TableContext
       ? TableContext extends MatchError<string>
         ? TableContext
         : Rest extends TableSource[]
-          ? MergeFromContexts<Context & TableContext, Rest, Schema>
+          ? MergeFromContexts<Context & TableContext, Rest, Schema, CTEContext>
           : Context & TableContext
       : Context
     : Context
@@ -510,13 +649,13 @@ export type GetUpdateTableColumns<SQL extends string, Schema extends DatabaseSch
           ? GetDefaultSchema<Schema> extends infer DefaultSchema extends string
             ? DefaultSchema extends keyof Schema["schemas"]
               ? TableName extends keyof Schema["schemas"][DefaultSchema]
-                ? Schema["schemas"][DefaultSchema][TableName]
+                ? TableColumnTypes<Schema["schemas"][DefaultSchema][TableName]>
                 : never
               : never
             : never
           : TableSchema extends keyof Schema["schemas"]
             ? TableName extends keyof Schema["schemas"][TableSchema]
-              ? Schema["schemas"][TableSchema][TableName]
+              ? TableColumnTypes<Schema["schemas"][TableSchema][TableName]>
               : never
             : never
         : never
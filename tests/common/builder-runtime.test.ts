@@ -0,0 +1,39 @@
+/**
+ * Condition Tree Builder Runtime Tests
+ *
+ * Checks the condition text rendered by createConditionTree at runtime.
+ * Run with: npm run test:runtime
+ */
+
+import { createConditionTree } from "../../src/index.js"
+import { expectEqual } from "../helpers.js"
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+// Test: Nested groups are rendered in place
+const nested = createConditionTree("and")
+    .add("age > 18", "age_check")
+    .or((b) => b.add("status = 'active'", "active").add("status = 'pending'", "pending"), "status")
+expectEqual("nested", nested.toString(), "(age > 18 AND (status = 'active' OR status = 'pending'))")
+
+// ============================================================================
+// ID-based Removal
+// ============================================================================
+
+// Test: Remove a top-level part or a whole group by ID
+expectEqual("remove top-level", nested.remove("age_check").toString(), "((status = 'active' OR status = 'pending'))")
+expectEqual("remove group", nested.remove("status").toString(), "(age > 18)")
+
+// Test: Remove a part inside a nested group by ID
+expectEqual("remove nested", nested.remove("pending").toString(), "(age > 18 AND (status = 'active'))")
+
+// Test: A nested group left without parts is removed
+expectEqual("remove emptied group", nested.remove("pending").remove("active").toString(), "(age > 18)")
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type ConditionTreeRuntimeTestsPass = true
@@ -0,0 +1,133 @@
+/**
+ * Condition Tree Builder Type Tests
+ *
+ * Tests for createConditionTree state, rendering and column reference extraction.
+ * If this file compiles without errors, all tests pass.
+ */
+
+import type {
+    ConditionTreeBuilder,
+    ConditionTreeBuilderState,
+    ConditionTreeColumnRefs,
+    ConditionTreeCondition,
+    ConditionTreeSQL,
+    EmptyConditionTree,
+    ParsedCondition,
+    TableColumnRef,
+    UnboundColumnRef,
+} from "../../src/index.js"
+import type { AssertEqual, AssertExtends, RequireTrue } from "../helpers.js"
+
+declare const tree: ConditionTreeBuilder<EmptyConditionTree<"and">>
+declare const dynamic: string
+
+type SQLOf<Builder> = ConditionTreeSQL<ConditionTreeBuilderState<Builder>>
+type RefsOf<Builder> = ConditionTreeColumnRefs<ConditionTreeBuilderState<Builder>>
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+// Test: Parts are combined with the uppercase operator inside parentheses
+const flat = tree.add("age > 18", "age_check").add("status = 'active'", "status_check")
+type _CT1 = RequireTrue<AssertEqual<SQLOf<typeof flat>, "(age > 18 AND status = 'active')">>
+
+// Test: Empty tree renders as ""
+type _CT2 = RequireTrue<AssertEqual<SQLOf<typeof tree>, "">>
+
+// Test: Nested OR group
+const nested = tree
+    .add("age > 18")
+    .or((b) => b.add("status = 'active'").add("status = 'pending'"), "status")
+type _CT3 = RequireTrue<
+    AssertEqual<SQLOf<typeof nested>, "(age > 18 AND (status = 'active' OR status = 'pending'))">
+>
+
+// Test: Nested AND group inside an OR tree, tree passed to add()
+declare const orTree: ConditionTreeBuilder<EmptyConditionTree<"or">>
+const grouped = orTree.add("deleted = false").and((b) => b.add(flat))
+type _CT4 = RequireTrue<
+    AssertEqual<SQLOf<typeof grouped>, "(deleted = false OR ((age > 18 AND status = 'active')))">
+>
+
+// Test: String parts containing AND / OR are parenthesized
+const logical = tree.add("a = 1 or b = 2").add("c BETWEEN 1 and 5").add("organization = 1")
+type _CT5 = RequireTrue<
+    AssertEqual<SQLOf<typeof logical>, "((a = 1 or b = 2) AND (c BETWEEN 1 and 5) AND organization = 1)">
+>
+
+// ============================================================================
+// ID-based Replacement and Removal
+// ============================================================================
+
+// Test: A part with an existing ID is replaced in place
+const replaced = flat.add("age > 21", "age_check")
+type _CT6 = RequireTrue<AssertEqual<SQLOf<typeof replaced>, "(age > 21 AND status = 'active')">>
+
+// Test: Remove by ID, nested groups included
+const removed = nested.remove("status").remove("missing")
+type _CT7 = RequireTrue<AssertEqual<SQLOf<typeof removed>, "(age > 18)">>
+
+// Test: Remove a part inside a nested group by ID
+const nestedIds = tree
+    .add("age > 18")
+    .or((b) => b.add("status = 'active'", "active").add("status = 'pending'", "pending"))
+const removedNested = nestedIds.remove("pending")
+type _CT7b = RequireTrue<AssertEqual<SQLOf<typeof removedNested>, "(age > 18 AND (status = 'active'))">>
+type _CT7c = RequireTrue<
+    AssertEqual<RefsOf<typeof removedNested>, [UnboundColumnRef<"age">, UnboundColumnRef<"status">]>
+>
+
+// Test: A nested group left without parts is removed
+const emptiedGroup = removedNested.remove("active")
+type _CT7d = RequireTrue<AssertEqual<SQLOf<typeof emptiedGroup>, "(age > 18)">>
+
+// Test: when() always applies the callback at type level
+const conditional = flat.when(false, (b) => b.add("id = 1"))
+type _CT8 = RequireTrue<
+    AssertEqual<SQLOf<typeof conditional>, "(age > 18 AND status = 'active' AND id = 1)">
+>
+
+// Test: Fully dynamic parts and empty groups are skipped
+const skipped = flat.add(dynamic).or((b) => b)
+type _CT9 = RequireTrue<
+    AssertEqual<ConditionTreeBuilderState<typeof skipped>, ConditionTreeBuilderState<typeof flat>>
+>
+
+// ============================================================================
+// Column References
+// ============================================================================
+
+// Test: Column refs of all parts, literals and keywords skipped
+type _CT10 = RequireTrue<
+    AssertEqual<RefsOf<typeof nested>, [UnboundColumnRef<"age">, UnboundColumnRef<"status">, UnboundColumnRef<"status">]>
+>
+
+// Test: Qualified refs, function names, casts and parameters
+const qualified = tree.add(`u.email = $1 AND LOWER ( "users"."name" ) = 'john smith' AND created::date IS NOT NULL`)
+type _CT11 = RequireTrue<
+    AssertEqual<
+        RefsOf<typeof qualified>,
+        [TableColumnRef<"u", "email", undefined>, TableColumnRef<"users", "name", undefined>, UnboundColumnRef<"created">]
+    >
+>
+
+// Test: Subqueries are skipped
+const subquery = tree.add("id IN ( SELECT user_id FROM orders ) AND active = true")
+type _CT12 = RequireTrue<
+    AssertEqual<RefsOf<typeof subquery>, [UnboundColumnRef<"id">, UnboundColumnRef<"active">]>
+>
+
+// Test: The tree as a WhereExpr
+type _CT13 = RequireTrue<
+    AssertExtends<
+        ConditionTreeCondition<ConditionTreeBuilderState<typeof removed>>,
+        ParsedCondition<[UnboundColumnRef<"age">]>
+    >
+>
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type ConditionTreeTestsPass = true
@@ -0,0 +1,71 @@
+/**
+ * Function Catalog Type Tests
+ *
+ * Tests for the built-in function catalog: FunctionReturnType.
+ * If this file compiles without errors, all tests pass.
+ */
+
+import type { FunctionReturnType } from "../../src/index.js"
+import type { AssertEqual, RequireTrue } from "../helpers.js"
+
+// ============================================================================
+// Null Handling Functions
+// ============================================================================
+
+// Test: COALESCE returns the non-null union when any argument is non-nullable
+type F_Coalesce = FunctionReturnType<"COALESCE", [string | null, string]>
+type _F1 = RequireTrue<AssertEqual<F_Coalesce, string>>
+
+// Test: COALESCE stays nullable when every argument is nullable
+type F_CoalesceNullable = FunctionReturnType<"COALESCE", [string | null, number | null]>
+type _F2 = RequireTrue<AssertEqual<F_CoalesceNullable, string | number | null>>
+
+// Test: COALESCE keeps literal types
+type F_CoalesceLiteral = FunctionReturnType<"COALESCE", ["a" | "b" | null, "none"]>
+type _F3 = RequireTrue<AssertEqual<F_CoalesceLiteral, "a" | "b" | "none">>
+
+// Test: NULLIF adds null to the first argument type
+type F_Nullif = FunctionReturnType<"NULLIF", [number, 0]>
+type _F4 = RequireTrue<AssertEqual<F_Nullif, number | null>>
+
+// ============================================================================
+// Null Propagation
+// ============================================================================
+
+// Test: LOWER of a non-nullable argument
+type F_Lower = FunctionReturnType<"LOWER", [string]>
+type _F5 = RequireTrue<AssertEqual<F_Lower, string>>
+
+// Test: LOWER of a nullable argument is nullable
+type F_LowerNullable = FunctionReturnType<"LOWER", [string | null]>
+type _F6 = RequireTrue<AssertEqual<F_LowerNullable, string | null>>
+
+// Test: DATE_TRUNC is nullable by its source (second) argument
+type F_DateTrunc = FunctionReturnType<"DATE_TRUNC", ["day", string | null]>
+type _F7 = RequireTrue<AssertEqual<F_DateTrunc, string | null>>
+
+// Test: unknown arguments are not treated as nullable
+type F_UpperUnknown = FunctionReturnType<"UPPER", [unknown]>
+type _F8 = RequireTrue<AssertEqual<F_UpperUnknown, string>>
+
+// Test: CONCAT never returns null
+type F_Concat = FunctionReturnType<"CONCAT", [string | null, string]>
+type _F9 = RequireTrue<AssertEqual<F_Concat, string>>
+
+// ============================================================================
+// Name Handling
+// ============================================================================
+
+// Test: Function names are case-insensitive
+type F_Lowercase = FunctionReturnType<"extract", ["YEAR", string]>
+type _F10 = RequireTrue<AssertEqual<F_Lowercase, number>>
+
+// Test: Unknown functions return unknown
+type F_Unknown = FunctionReturnType<"split_part", [string, "@", 1]>
+type _F11 = RequireTrue<AssertEqual<F_Unknown, unknown>>
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type FunctionsTestsPass = true
@@ -8,6 +8,9 @@
 
 export type { TokenizerTestsPass } from "./tokenizer.test.js"
 export type { UtilsTestsPass } from "./utils.test.js"
+export type { FunctionsTestsPass } from "./functions.test.js"
+export type { ConditionTreeTestsPass } from "./builder.test.js"
+export type { ConditionTreeRuntimeTestsPass } from "./builder-runtime.test.js"
 
 /**
  * All common tests pass if this type is true
@@ -17,6 +17,8 @@ import type {
     CountOpen,
     CountClose,
     ParensBalanced,
+    ParamName,
+    IsParamPlaceholder,
 } from "../../src/index.js"
 import type { AssertEqual, RequireTrue } from "../helpers.js"
 
@@ -260,6 +262,33 @@ type _PB6 = RequireTrue<AssertEqual<PB_ExtraClose, false>>
 type PB_None = ParensBalanced<"abc">
 type _PB7 = RequireTrue<AssertEqual<PB_None, true>>
 
+// ============================================================================
+// Parameter Placeholder Tests
+// ============================================================================
+
+// Test: Positional and named placeholders
+type PN_Positional = ParamName<"$1">
+type _PN1 = RequireTrue<AssertEqual<PN_Positional, "1">>
+
+type PN_Colon = ParamName<":userId">
+type _PN2 = RequireTrue<AssertEqual<PN_Colon, "userId">>
+
+type PN_At = ParamName<"@user_id">
+type _PN3 = RequireTrue<AssertEqual<PN_At, "user_id">>
+
+type PN_Dollar = ParamName<"$name">
+type _PN4 = RequireTrue<AssertEqual<PN_Dollar, "name">>
+
+// Test: Casts and operators are not placeholders
+type PN_Cast = IsParamPlaceholder<"::int">
+type _PN5 = RequireTrue<AssertEqual<PN_Cast, false>>
+
+type PN_Contains = IsParamPlaceholder<"@>">
+type _PN6 = RequireTrue<AssertEqual<PN_Contains, false>>
+
+type PN_Column = IsParamPlaceholder<"email">
+type _PN7 = RequireTrue<AssertEqual<PN_Column, false>>
+
 // ============================================================================
 // Terminator Type Tests
 // ============================================================================
@@ -17,6 +17,7 @@ import type {
     IsMatchError,
     IsStringLiteral,
     HasTemplateHoles,
+    StripTemplateHoles,
     DynamicQuery,
     IsDynamicQuery,
 } from "../../src/index.js"
@@ -186,6 +187,16 @@ type _IDQ1 = RequireTrue<IDQ_True>
 type IDQ_False = IsDynamicQuery<{ foo: "bar" }>
 type _IDQ2 = RequireFalse<IDQ_False>
 
+// Test: StripTemplateHoles keeps literals and drops words with holes
+type STH_Literal = StripTemplateHoles<"users AS u">
+type _STH1 = RequireTrue<AssertEqual<STH_Literal, "users AS u">>
+
+type STH_Hole = StripTemplateHoles<`users ${string} AS u`>
+type _STH2 = RequireTrue<AssertEqual<STH_Hole, "users AS u">>
+
+type STH_String = StripTemplateHoles<string>
+type _STH3 = RequireTrue<AssertEqual<STH_String, "">>
+
 // ============================================================================
 // Export for verification
 // ============================================================================
@@ -0,0 +1,166 @@
+/**
+ * Database Integration Type Tests
+ *
+ * Tests for the query function factories in db.ts.
+ * If this file compiles without errors, all type tests pass.
+ * Parameter binding errors are checked at runtime (npm run test:runtime).
+ */
+
+import { createSelectFn } from "../src/index.js"
+import type {
+  createInsertFn,
+  createUpdateFn,
+  createDeleteFn,
+  createQueryFn,
+  ValidAnyQuery,
+  ValidInsertQuery,
+  ValidUpdateQuery,
+  ValidDeleteQuery,
+} from "../src/index.js"
+import type { AssertEqual, RequireTrue } from "./helpers.js"
+import { expectEqual } from "./helpers.js"
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type TestSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      users: {
+        id: { type: number; generated: "always" }
+        email: string
+        name: string | null
+      }
+    }
+  }
+}
+
+declare const select: ReturnType<typeof createSelectFn<TestSchema>>
+declare const insert: ReturnType<typeof createInsertFn<TestSchema>>
+declare const update: ReturnType<typeof createUpdateFn<TestSchema>>
+declare const remove: ReturnType<typeof createDeleteFn<TestSchema>>
+declare const query: ReturnType<typeof createQueryFn<TestSchema>>
+
+// ============================================================================
+// SELECT Tests
+// ============================================================================
+
+// Test: Rows typed from the select list, params from the placeholders
+type S_Rows = Awaited<ReturnType<typeof select<"SELECT id, name FROM users WHERE email = $1">>>
+type _D1 = RequireTrue<AssertEqual<S_Rows, { id: number; name: string | null }[]>>
+type S_Params = Parameters<typeof select<"SELECT id, name FROM users WHERE email = $1">>[1]
+type _D2 = RequireTrue<AssertEqual<S_Params, [string] | undefined>>
+
+// ============================================================================
+// INSERT Tests
+// ============================================================================
+
+// Test: Without RETURNING resolves to void
+type I_Void = Awaited<ReturnType<typeof insert<"INSERT INTO users ( email ) VALUES ( $1 )">>>
+type _D3 = RequireTrue<AssertEqual<I_Void, void>>
+
+// Test: RETURNING rows
+type I_Returning = Awaited<ReturnType<typeof insert<"INSERT INTO users ( email ) VALUES ( $1 ) RETURNING id , email">>>
+type _D4 = RequireTrue<AssertEqual<I_Returning, { id: number; email: string }[]>>
+
+// Test: Params typed from the column list
+type I_Params = Parameters<typeof insert<"INSERT INTO users ( email , name ) VALUES ( $1 , $2 )">>[1]
+type _D5 = RequireTrue<AssertEqual<I_Params, [string, string | null] | undefined>>
+
+// Test: Invalid queries become an error message
+type I_Invalid = ValidInsertQuery<"INSERT INTO users ( bad ) VALUES ( 1 )", TestSchema>
+type _D6 = RequireTrue<AssertEqual<I_Invalid, "[SQL Error] Column 'bad' not found in table 'users'">>
+
+// ============================================================================
+// UPDATE Tests
+// ============================================================================
+
+// Test: Without RETURNING resolves to void
+type U_Void = Awaited<ReturnType<typeof update<"UPDATE users SET name = $1 WHERE id = $2">>>
+type _D7 = RequireTrue<AssertEqual<U_Void, void>>
+
+// Test: RETURNING rows
+type U_Returning = Awaited<ReturnType<typeof update<"UPDATE users SET name = $1 RETURNING *">>>
+type _D8 = RequireTrue<AssertEqual<U_Returning, { id: number; email: string; name: string | null }[]>>
+
+// Test: Invalid queries become an error message
+type U_Invalid = ValidUpdateQuery<"UPDATE users SET bad = 1", TestSchema>
+type _D9 = RequireTrue<AssertEqual<U_Invalid, "[SQL Error] Column 'bad' not found in table 'users'">>
+
+// ============================================================================
+// DELETE Tests
+// ============================================================================
+
+// Test: Without RETURNING resolves to void
+type R_Void = Awaited<ReturnType<typeof remove<"DELETE FROM users WHERE id = $1">>>
+type _D10 = RequireTrue<AssertEqual<R_Void, void>>
+
+// Test: RETURNING rows
+type R_Returning = Awaited<ReturnType<typeof remove<"DELETE FROM users WHERE id = $1 RETURNING email">>>
+type _D11 = RequireTrue<AssertEqual<R_Returning, { email: string }[]>>
+
+// Test: Invalid queries become an error message
+type R_Invalid = ValidDeleteQuery<"DELETE FROM missing", TestSchema>
+type _D12 = RequireTrue<
+  AssertEqual<R_Invalid, "[SQL Error] Table 'missing' not found in default schema 'public'">
+>
+
+// ============================================================================
+// createQueryFn Tests
+// ============================================================================
+
+// Test: SELECT rows from the select list
+type Q_Select = Awaited<ReturnType<typeof query<"SELECT id FROM users WHERE email = $1">>>
+type _D13 = RequireTrue<AssertEqual<Q_Select, { rows: { id: number }[]; rowCount: number }>>
+
+// Test: RETURNING rows for INSERT / UPDATE / DELETE
+type Q_Insert = Awaited<ReturnType<typeof query<"INSERT INTO users ( email ) VALUES ( $1 ) RETURNING id">>>
+type _D14 = RequireTrue<AssertEqual<Q_Insert["rows"], { id: number }[]>>
+type Q_Update = Awaited<ReturnType<typeof query<"UPDATE users SET name = $1 RETURNING name">>>
+type _D15 = RequireTrue<AssertEqual<Q_Update["rows"], { name: string | null }[]>>
+
+// Test: No rows without RETURNING
+type Q_Delete = Awaited<ReturnType<typeof query<"DELETE FROM users WHERE id = $1">>>
+type _D16 = RequireTrue<AssertEqual<Q_Delete, { rows: []; rowCount: number }>>
+
+// Test: Params typed for each statement type
+type Q_Params = Parameters<typeof query<"UPDATE users SET email = $1 WHERE id = $2">>[1]
+type _D17 = RequireTrue<AssertEqual<Q_Params, [string, number] | undefined>>
+
+// Test: Each statement type uses its own validator
+type Q_ValidSelect = ValidAnyQuery<"SELECT id FROM users", TestSchema>
+type _D18 = RequireTrue<AssertEqual<Q_ValidSelect, "SELECT id FROM users">>
+type Q_InvalidInsert = ValidAnyQuery<"INSERT INTO users ( bad ) VALUES ( 1 )", TestSchema>
+type _D19 = RequireTrue<AssertEqual<Q_InvalidInsert, "[SQL Error] Column 'bad' not found in table 'users'">>
+
+// Test: Unknown statement types are rejected
+type Q_Unknown = ValidAnyQuery<"TRUNCATE users", TestSchema>
+type _D20 = RequireTrue<
+  AssertEqual<Q_Unknown, "[SQL Error] Expected SELECT, INSERT, UPDATE, DELETE or MERGE statement">
+>
+
+// ============================================================================
+// Runtime Binding Tests
+// ============================================================================
+
+// Test: Binding errors reject the promise instead of throwing
+const unbound = createSelectFn<TestSchema>(() => [])(
+  "SELECT id FROM users WHERE email = :email",
+  {} as { email: string },
+)
+expectEqual("binding error returns a promise", unbound instanceof Promise, true)
+unbound.then(
+  () => {
+    throw new Error("binding error: expected a rejection")
+  },
+  (error: Error) =>
+    expectEqual("binding error", error.message, "Missing value for parameter 'email'"),
+)
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type DBTestsPass = true
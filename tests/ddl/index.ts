@@ -0,0 +1,10 @@
+/**
+ * DDL Tests Module
+ *
+ * Re-exports all DDL-related test results.
+ * Import this file to verify all DDL tests pass.
+ */
+
+export type { DDLParserTestsPass } from "./parser.test.js"
+export type { DDLSchemaTestsPass } from "./schema.test.js"
+export type { DDLMigrationsTestsPass } from "./migrations.test.js"
@@ -0,0 +1,236 @@
+/**
+ * DDL Migration Type Tests
+ *
+ * Tests for ApplyMigrations / ApplyDDL that evolve a DatabaseSchema through
+ * ALTER TABLE, DROP TABLE and CREATE SCHEMA statements.
+ * If this file compiles without errors, all tests pass.
+ */
+
+import type {
+  ApplyMigrations,
+  ApplyDDL,
+  ParseDDL,
+  DatabaseSchema,
+  QueryResult,
+  ValidateSQL,
+} from "../../src/index.js"
+import type { AssertEqual, AssertNotEqual, AssertExtends, RequireTrue, AssertIsMatchError, AssertIsParseError } from "../helpers.js"
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type Initial = ParseDDL<`
+  CREATE TABLE users (
+    id serial PRIMARY KEY,
+    name text NOT NULL,
+    age int,
+    legacy text
+  );
+
+  CREATE TABLE posts (
+    id serial PRIMARY KEY,
+    author_id int NOT NULL REFERENCES users (id),
+    title text NOT NULL
+  );
+`>
+
+// ============================================================================
+// Column Tests
+// ============================================================================
+
+// Test: ADD COLUMN, DROP COLUMN and RENAME COLUMN
+type M_Columns = ApplyMigrations<
+  Initial,
+  [
+    "ALTER TABLE users ADD COLUMN nickname varchar(50)",
+    "ALTER TABLE users DROP COLUMN legacy",
+    "ALTER TABLE users RENAME COLUMN name TO full_name",
+  ]
+>
+type _M1 = RequireTrue<AssertExtends<M_Columns, DatabaseSchema>>
+type _M2 = RequireTrue<
+  AssertEqual<
+    M_Columns["schemas"]["public"]["users"],
+    { id: { type: number; default: true; primaryKey: true }; full_name: string; age: number | null; nickname: string | null }
+  >
+>
+
+// Test: ALTER COLUMN TYPE keeps nullability, SET / DROP NOT NULL
+type M_Types = ApplyDDL<
+  Initial,
+  `
+    ALTER TABLE users ALTER COLUMN age TYPE text, ALTER COLUMN name TYPE int;
+    ALTER TABLE posts ALTER COLUMN title DROP NOT NULL;
+    ALTER TABLE users ALTER age SET NOT NULL;
+  `
+>
+type _M3 = RequireTrue<
+  AssertEqual<
+    M_Types["schemas"]["public"]["users"],
+    { id: { type: number; default: true; primaryKey: true }; name: number; age: string; legacy: string | null }
+  >
+>
+type _M4 = RequireTrue<AssertEqual<M_Types["schemas"]["public"]["posts"]["title"], string | null>>
+
+// Test: SET / DROP DEFAULT add and remove the default, ALTER TYPE keeps it
+type M_Defaults = ApplyDDL<
+  Initial,
+  `
+    ALTER TABLE users ALTER COLUMN name SET DEFAULT '', ALTER COLUMN id DROP DEFAULT;
+    ALTER TABLE posts ALTER COLUMN id TYPE bigint;
+  `
+>
+type _M4b = RequireTrue<
+  AssertEqual<
+    M_Defaults["schemas"]["public"]["users"],
+    {
+      id: { type: number; primaryKey: true }
+      name: { type: string; default: true }
+      age: number | null
+      legacy: string | null
+    }
+  >
+>
+type _M4d = RequireTrue<
+  AssertEqual<M_Defaults["schemas"]["public"]["posts"]["id"], { type: number; default: true; primaryKey: true }>
+>
+
+// Test: Primary key columns cannot be made nullable
+type _M4c = RequireTrue<
+  AssertEqual<
+    ApplyMigrations<Initial, ["ALTER TABLE posts ALTER COLUMN id DROP NOT NULL"]>["message"],
+    "Column 'id' is in the primary key of 'posts'"
+  >
+>
+
+// Test: ADD PRIMARY KEY makes the key columns NOT NULL and marks them
+type M_AddKey = ApplyMigrations<
+  Initial,
+  ["CREATE TABLE tags (name text, label text)", "ALTER TABLE tags ADD CONSTRAINT tags_pkey PRIMARY KEY (name)"]
+>
+type _M4e = RequireTrue<
+  AssertEqual<
+    M_AddKey["schemas"]["public"]["tags"],
+    { name: { type: string; primaryKey: true }; label: string | null }
+  >
+>
+
+// Test: IF [NOT] EXISTS skips missing / existing columns
+type M_IfExists = ApplyMigrations<
+  Initial,
+  ["ALTER TABLE users ADD COLUMN IF NOT EXISTS name int, DROP COLUMN IF EXISTS missing"]
+>
+type _M5 = RequireTrue<AssertEqual<M_IfExists["schemas"]["public"]["users"], Initial["schemas"]["public"]["users"]>>
+
+// ============================================================================
+// Table Tests
+// ============================================================================
+
+// Test: RENAME TO moves the table and following actions apply to the new name
+type M_Rename = ApplyMigrations<Initial, ["ALTER TABLE posts RENAME TO articles, ADD COLUMN body text"]>
+type _M6 = RequireTrue<AssertEqual<keyof M_Rename["schemas"]["public"], "users" | "articles">>
+type _M7 = RequireTrue<
+  AssertEqual<
+    M_Rename["schemas"]["public"]["articles"],
+    { id: { type: number; default: true; primaryKey: true }; author_id: number; title: string; body: string | null }
+  >
+>
+
+// Test: DROP TABLE and CREATE SCHEMA
+type M_Drop = ApplyMigrations<
+  Initial,
+  ["DROP TABLE posts", "CREATE SCHEMA billing", "CREATE TABLE billing.invoices (id serial PRIMARY KEY)"]
+>
+type _M8 = RequireTrue<AssertEqual<keyof M_Drop["schemas"]["public"], "users">>
+type _M9 = RequireTrue<
+  AssertEqual<
+    M_Drop["schemas"]["billing"],
+    { invoices: { id: { type: number; default: true; primaryKey: true } } }
+  >
+>
+
+// ============================================================================
+// Relation Tests
+// ============================================================================
+
+// Test: Dropping a table removes its relations
+type _M10 = RequireTrue<AssertEqual<M_Drop["relations"], {}>>
+
+// Test: Renaming a table or column updates relations
+type M_RenameRelations = ApplyMigrations<
+  Initial,
+  ["ALTER TABLE users RENAME COLUMN id TO user_id", "ALTER TABLE posts RENAME TO articles"]
+>
+type _M11 = RequireTrue<
+  AssertEqual<
+    M_RenameRelations["relations"]["posts_author_id_fkey"],
+    {
+      from: { schema?: "public"; table: "articles"; column: "author_id" }
+      to: { schema?: "public"; table: "users"; column: "user_id" }
+      type: "many-to-one"
+    }
+  >
+>
+
+// Test: ADD CONSTRAINT / DROP CONSTRAINT and ADD COLUMN ... REFERENCES
+type M_Constraints = ApplyMigrations<
+  Initial,
+  [
+    "ALTER TABLE posts DROP CONSTRAINT posts_author_id_fkey",
+    "ALTER TABLE posts ADD COLUMN editor_id int REFERENCES users",
+    "ALTER TABLE users ADD CONSTRAINT users_self_fk FOREIGN KEY (age) REFERENCES users (id)",
+  ]
+>
+type _M12 = RequireTrue<AssertEqual<keyof M_Constraints["relations"], "posts_editor_id_fkey" | "users_self_fk">>
+
+// ============================================================================
+// Query Integration Tests
+// ============================================================================
+
+type M_Current = ApplyMigrations<Initial, ["ALTER TABLE users RENAME COLUMN name TO full_name"]>
+
+// Test: Queries see the migrated columns
+type _M13 = RequireTrue<
+  AssertEqual<QueryResult<"SELECT id, full_name FROM users", M_Current>, { id: number; full_name: string }>
+>
+
+// Test: Queries using a renamed column fail validation
+type _M14 = RequireTrue<AssertEqual<ValidateSQL<"SELECT id, full_name FROM users", M_Current>, true>>
+type _M15 = RequireTrue<AssertNotEqual<ValidateSQL<"SELECT name FROM users", M_Current>, true>>
+
+// ============================================================================
+// Error Tests
+// ============================================================================
+
+// Test: Unknown table
+type _M16 = RequireTrue<AssertIsMatchError<ApplyMigrations<Initial, ["ALTER TABLE missing ADD COLUMN x int"]>>>
+
+// Test: Unknown table with IF EXISTS is skipped
+type _M17 = RequireTrue<AssertEqual<ApplyMigrations<Initial, ["ALTER TABLE IF EXISTS missing DROP COLUMN x"]>, Initial>>
+
+// Test: Unknown column and duplicate column
+type _M18 = RequireTrue<AssertIsMatchError<ApplyMigrations<Initial, ["ALTER TABLE users DROP COLUMN missing"]>>>
+type _M19 = RequireTrue<AssertIsMatchError<ApplyMigrations<Initial, ["ALTER TABLE users ADD COLUMN name text"]>>>
+
+// Test: DROP TABLE of a missing table, and existing schema
+type _M20 = RequireTrue<AssertIsMatchError<ApplyMigrations<Initial, ["DROP TABLE missing"]>>>
+type _M21 = RequireTrue<AssertEqual<ApplyMigrations<Initial, ["DROP TABLE IF EXISTS missing"]>, Initial>>
+type _M22 = RequireTrue<AssertIsMatchError<ApplyMigrations<Initial, ["CREATE SCHEMA public"]>>>
+
+// Test: Error message names the table and column
+type _M23 = RequireTrue<
+  AssertEqual<
+    ApplyMigrations<Initial, ["ALTER TABLE users RENAME COLUMN missing TO other"]>["message"],
+    "Column 'missing' not found in 'users'"
+  >
+>
+
+// Test: Parse errors stop the migration
+type _M24 = RequireTrue<AssertIsParseError<ApplyMigrations<Initial, ["ALTER TABLE users ADD COLUMN nickname"]>>>
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type DDLMigrationsTestsPass = true
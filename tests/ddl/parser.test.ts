@@ -0,0 +1,330 @@
+/**
+ * DDL Parser Type Tests
+ *
+ * Tests for the ParseDDLStatements type and related parsing functionality.
+ * If this file compiles without errors, all tests pass.
+ */
+
+import type {
+  ParseDDLStatements,
+  NormalizeDataType,
+  CreateTableStatement,
+  ColumnDefinition,
+  ForeignKeyConstraint,
+  ForeignKeyReference,
+  PrimaryKeyConstraint,
+  UniqueConstraint,
+  AlterTableStatement,
+  AddColumnAction,
+  DropColumnAction,
+  RenameColumnAction,
+  AlterColumnTypeAction,
+  AlterColumnDefaultAction,
+  AlterColumnNullAction,
+  RenameTableAction,
+  AddConstraintAction,
+  DropConstraintAction,
+  DropTableStatement,
+  QualifiedTableName,
+  CreateSchemaStatement,
+} from "../../src/index.js"
+import type { AssertEqual, AssertExtends, RequireTrue, AssertIsParseError } from "../helpers.js"
+
+// ============================================================================
+// Statement Tests
+// ============================================================================
+
+// Test: Single CREATE TABLE
+type P_Basic = ParseDDLStatements<"CREATE TABLE users (id int)">
+type _P1 = RequireTrue<AssertExtends<P_Basic, [CreateTableStatement<undefined, "users">]>>
+
+// Test: Lowercase keywords, schema-qualified name and IF NOT EXISTS
+type P_Qualified = ParseDDLStatements<"create table if not exists audit.logs (id int)">
+type _P2 = RequireTrue<AssertExtends<P_Qualified, [CreateTableStatement<"audit", "logs">]>>
+
+// Test: Multiple statements, comments and unsupported statements
+type P_Script = ParseDDLStatements<`
+  -- users; the main table
+  CREATE TABLE users (id int);
+  CREATE INDEX users_id ON users (id);
+  /* posts */
+  CREATE TABLE posts (id int);
+`>
+type _P3 = RequireTrue<
+  AssertExtends<P_Script, [CreateTableStatement<undefined, "users">, CreateTableStatement<undefined, "posts">]>
+>
+
+// Test: Quoted table and column names
+type P_Quoted = ParseDDLStatements<`CREATE TABLE "userAccounts" ("firstName" text)`>
+type _P4 = RequireTrue<
+  AssertExtends<P_Quoted, [CreateTableStatement<undefined, "userAccounts", [ColumnDefinition<"firstName", "text">]>]>
+>
+
+// ============================================================================
+// Column Definition Tests
+// ============================================================================
+
+// Test: Column constraints
+type P_Columns = ParseDDLStatements<`
+  CREATE TABLE users (
+    id serial PRIMARY KEY,
+    email varchar(255) NOT NULL UNIQUE,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    note text DEFAULT NULL
+  )
+`>
+type _P5 = RequireTrue<
+  AssertEqual<
+    P_Columns,
+    [
+      CreateTableStatement<
+        undefined,
+        "users",
+        [
+          ColumnDefinition<"id", "serial", false, true, false, undefined, undefined, undefined>,
+          ColumnDefinition<"email", "varchar", true, false, true, undefined, undefined, undefined>,
+          ColumnDefinition<"created_at", "timestamptz", true, false, false, "now ( )", undefined, undefined>,
+          ColumnDefinition<"note", "text", false, false, false, "NULL", undefined, undefined>,
+        ],
+        []
+      >,
+    ]
+  >
+>
+
+// Test: Generated columns
+type P_Generated = ParseDDLStatements<`
+  CREATE TABLE items (
+    id bigint GENERATED ALWAYS AS IDENTITY,
+    seq int GENERATED BY DEFAULT AS IDENTITY (START WITH 10),
+    total numeric GENERATED ALWAYS AS (price * qty) STORED NOT NULL
+  )
+`>
+type _P6 = RequireTrue<
+  AssertExtends<
+    P_Generated,
+    [
+      CreateTableStatement<
+        undefined,
+        "items",
+        [
+          ColumnDefinition<"id", "bigint", false, false, false, undefined, "ALWAYS">,
+          ColumnDefinition<"seq", "int", false, false, false, undefined, "BY DEFAULT">,
+          ColumnDefinition<"total", "numeric", true, false, false, undefined, "ALWAYS">,
+        ]
+      >,
+    ]
+  >
+>
+
+// Test: Inline REFERENCES with referential actions
+type P_References = ParseDDLStatements<`
+  CREATE TABLE posts (
+    author_id int REFERENCES users (id) ON DELETE SET NULL ON UPDATE CASCADE NOT NULL,
+    editor_id int REFERENCES app.users
+  )
+`>
+type _P7 = RequireTrue<
+  AssertExtends<
+    P_References,
+    [
+      CreateTableStatement<
+        undefined,
+        "posts",
+        [
+          ColumnDefinition<"author_id", "int", true, false, false, undefined, undefined, ForeignKeyReference<undefined, "users", ["id"]>>,
+          ColumnDefinition<"editor_id", "int", false, false, false, undefined, undefined, ForeignKeyReference<"app", "users", undefined>>,
+        ]
+      >,
+    ]
+  >
+>
+
+// ============================================================================
+// Table Constraint Tests
+// ============================================================================
+
+// Test: Table-level PRIMARY KEY, UNIQUE and FOREIGN KEY; CHECK is skipped
+type P_Constraints = ParseDDLStatements<`
+  CREATE TABLE memberships (
+    user_id int,
+    group_id int,
+    CONSTRAINT memberships_pk PRIMARY KEY (user_id, group_id),
+    UNIQUE (group_id),
+    CONSTRAINT memberships_user_fk FOREIGN KEY (user_id) REFERENCES users (id),
+    CHECK (user_id > 0)
+  )
+`>
+type _P8 = RequireTrue<
+  AssertExtends<
+    P_Constraints,
+    [
+      CreateTableStatement<
+        undefined,
+        "memberships",
+        ColumnDefinition[],
+        [
+          PrimaryKeyConstraint<["user_id", "group_id"]>,
+          UniqueConstraint<["group_id"]>,
+          ForeignKeyConstraint<"memberships_user_fk", ["user_id"], ForeignKeyReference<undefined, "users", ["id"]>>,
+        ]
+      >,
+    ]
+  >
+>
+
+// ============================================================================
+// Data Type Tests
+// ============================================================================
+
+type _P9 = RequireTrue<AssertEqual<NormalizeDataType<"VARCHAR ( 255 )">, "varchar">>
+type _P10 = RequireTrue<AssertEqual<NormalizeDataType<"numeric ( 10 , 2 )">, "numeric">>
+type _P11 = RequireTrue<AssertEqual<NormalizeDataType<"timestamp ( 3 ) WITH time zone">, "timestamptz">>
+type _P12 = RequireTrue<AssertEqual<NormalizeDataType<"integer[]">, "integer[]">>
+type _P13 = RequireTrue<AssertEqual<NormalizeDataType<"text ARRAY">, "text[]">>
+type _P14 = RequireTrue<AssertEqual<NormalizeDataType<"character varying ( 20 ) [][]">, "character varying[][]">>
+
+// ============================================================================
+// ALTER / DROP / CREATE SCHEMA Tests
+// ============================================================================
+
+// Test: ALTER TABLE with several actions
+type P_Alter = ParseDDLStatements<`
+  ALTER TABLE IF EXISTS ONLY public.users
+    ADD COLUMN IF NOT EXISTS nickname varchar(50) NOT NULL,
+    DROP COLUMN legacy,
+    RENAME COLUMN name TO full_name,
+    ALTER COLUMN age TYPE bigint USING age::bigint,
+    ALTER age SET NOT NULL,
+    ALTER COLUMN bio DROP NOT NULL,
+    ALTER COLUMN bio SET DEFAULT ''
+`>
+type _P18 = RequireTrue<
+  AssertExtends<
+    P_Alter,
+    [
+      AlterTableStatement<
+        "public",
+        "users",
+        true,
+        [
+          AddColumnAction<ColumnDefinition<"nickname", "varchar", true>, true>,
+          DropColumnAction<"legacy", false>,
+          RenameColumnAction<"name", "full_name">,
+          AlterColumnTypeAction<"age", "bigint">,
+          AlterColumnNullAction<"age", true>,
+          AlterColumnNullAction<"bio", false>,
+          AlterColumnDefaultAction<"bio", true>,
+        ]
+      >,
+    ]
+  >
+>
+
+// Test: RENAME TO and constraints
+type P_AlterConstraints = ParseDDLStatements<`
+  ALTER TABLE posts ADD CONSTRAINT posts_author_fk FOREIGN KEY (author_id) REFERENCES users (id);
+  ALTER TABLE posts DROP CONSTRAINT posts_author_fk;
+  ALTER TABLE posts RENAME TO articles;
+`>
+type _P19 = RequireTrue<
+  AssertExtends<
+    P_AlterConstraints,
+    [
+      AlterTableStatement<
+        undefined,
+        "posts",
+        false,
+        [AddConstraintAction<ForeignKeyConstraint<"posts_author_fk", ["author_id"]>>]
+      >,
+      AlterTableStatement<undefined, "posts", false, [DropConstraintAction<"posts_author_fk">]>,
+      AlterTableStatement<undefined, "posts", false, [RenameTableAction<"articles">]>,
+    ]
+  >
+>
+
+// Test: DROP TABLE and CREATE SCHEMA
+type P_Drop = ParseDDLStatements<`
+  drop table if exists users, audit.logs cascade;
+  CREATE SCHEMA IF NOT EXISTS billing;
+`>
+type _P20 = RequireTrue<
+  AssertEqual<
+    P_Drop,
+    [
+      DropTableStatement<[QualifiedTableName<undefined, "users">, QualifiedTableName<"audit", "logs">], true>,
+      CreateSchemaStatement<"billing", true>,
+    ]
+  >
+>
+
+// Test: Semicolons, parentheses and commas inside quoted defaults
+type P_QuotedDefaults = ParseDDLStatements<`
+  CREATE TABLE notes (
+    sep text NOT NULL DEFAULT 'a;b',
+    open text DEFAULT '(',
+    list text DEFAULT 'x, y' NOT NULL,
+    quote text DEFAULT 'it''s ('
+  );
+  ALTER TABLE notes ALTER COLUMN sep SET DEFAULT 'c,d', ADD COLUMN extra int;
+`>
+type _P21 = RequireTrue<
+  AssertExtends<
+    P_QuotedDefaults,
+    [
+      CreateTableStatement<
+        undefined,
+        "notes",
+        [
+          ColumnDefinition<"sep", "text", true>,
+          ColumnDefinition<"open", "text", false>,
+          ColumnDefinition<"list", "text", true>,
+          ColumnDefinition<"quote", "text", false>,
+        ]
+      >,
+      AlterTableStatement<
+        undefined,
+        "notes",
+        false,
+        [AlterColumnDefaultAction<"sep", true>, AddColumnAction<ColumnDefinition<"extra", "int">>]
+      >,
+    ]
+  >
+>
+
+// Test: Parentheses inside quoted CHECK constraint values
+type P_QuotedChecks = ParseDDLStatements<`
+  CREATE TABLE orders (
+    status text CHECK (status IN ('open)', 'closed')) NOT NULL,
+    note text,
+    CHECK (note <> '(')
+  )
+`>
+type _P22 = RequireTrue<
+  AssertExtends<
+    P_QuotedChecks,
+    [CreateTableStatement<undefined, "orders", [ColumnDefinition<"status", "text", true>, ColumnDefinition<"note", "text", false>], []>]
+  >
+>
+
+// ============================================================================
+// Error Tests
+// ============================================================================
+
+// Test: Missing column list
+type P_NoColumns = ParseDDLStatements<"CREATE TABLE users">
+type _P15 = RequireTrue<AssertIsParseError<P_NoColumns>>
+
+// Test: Missing data type
+type P_NoType = ParseDDLStatements<"CREATE TABLE users (id PRIMARY KEY)">
+type _P16 = RequireTrue<AssertIsParseError<P_NoType>>
+
+// Test: Unbalanced parentheses
+type P_Unbalanced = ParseDDLStatements<"CREATE TABLE users (id int">
+type _P17 = RequireTrue<AssertIsParseError<P_Unbalanced>>
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type DDLParserTestsPass = true
@@ -0,0 +1,180 @@
+/**
+ * DDL Schema Type Tests
+ *
+ * Tests for the ParseDDL type that builds a DatabaseSchema from CREATE TABLE statements.
+ * If this file compiles without errors, all tests pass.
+ */
+
+import type { ParseDDL, DatabaseSchema, QueryResult, ValidateInsertSQL, ValidateSQL } from "../../src/index.js"
+import type { AssertEqual, AssertExtends, RequireTrue, AssertIsParseError } from "../helpers.js"
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type Schema = ParseDDL<`
+  CREATE TABLE users (
+    id serial PRIMARY KEY,
+    email varchar(255) NOT NULL UNIQUE,
+    name text NOT NULL,
+    tags text[],
+    is_active boolean NOT NULL DEFAULT true,
+    settings jsonb,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    deleted_at timestamptz
+  );
+
+  CREATE TABLE profiles (
+    user_id int PRIMARY KEY REFERENCES users,
+    bio text
+  );
+
+  CREATE TABLE audit.logs (
+    id bigint GENERATED ALWAYS AS IDENTITY,
+    user_id int,
+    action varchar(50) NOT NULL,
+    PRIMARY KEY (id),
+    CONSTRAINT logs_user_fk FOREIGN KEY (user_id) REFERENCES public.users (id) ON DELETE CASCADE
+  );
+`>
+
+// ============================================================================
+// Table Tests
+// ============================================================================
+
+// Test: Result is a valid DatabaseSchema
+type _S1 = RequireTrue<AssertExtends<Schema, DatabaseSchema>>
+
+// Test: Column types, nullability and defaults
+type _S2 = RequireTrue<
+  AssertEqual<
+    Schema["schemas"]["public"]["users"],
+    {
+      id: { type: number; default: true; primaryKey: true }
+      email: string
+      name: string
+      tags: string[] | null
+      is_active: { type: boolean; default: true }
+      settings: object | null
+      created_at: { type: string; default: true }
+      deleted_at: string | null
+    }
+  >
+>
+
+// Test: Inline primary key is not nullable and is marked as the primary key
+type _S3 = RequireTrue<
+  AssertEqual<
+    Schema["schemas"]["public"]["profiles"],
+    { user_id: { type: number; primaryKey: true }; bio: string | null }
+  >
+>
+
+// Test: Schema-qualified tables, table-level primary keys and identity columns
+type _S4 = RequireTrue<
+  AssertEqual<
+    Schema["schemas"]["audit"]["logs"],
+    { id: { type: number; generated: "always"; primaryKey: true }; user_id: number | null; action: string }
+  >
+>
+
+// Test: Custom default schema
+type CustomDefault = ParseDDL<"CREATE TABLE items (id int)", "app">
+type _S5 = RequireTrue<
+  AssertEqual<CustomDefault["schemas"], { app: { items: { id: number | null } } }>
+>
+type _S6 = RequireTrue<AssertEqual<CustomDefault["defaultSchema"], "app">>
+
+// ============================================================================
+// Relation Tests
+// ============================================================================
+
+// Test: Inline REFERENCES without columns resolves the primary key, unique column is one-to-one
+type ProfileRelation = Schema["relations"]["profiles_user_id_fkey"]
+type _S7 = RequireTrue<
+  AssertEqual<ProfileRelation["from"], { schema?: "public"; table: "profiles"; column: "user_id" }>
+>
+type _S8 = RequireTrue<
+  AssertEqual<ProfileRelation["to"], { schema?: "public"; table: "users"; column: "id" }>
+>
+type _S9 = RequireTrue<AssertEqual<ProfileRelation["type"], "one-to-one">>
+
+// Test: Named FOREIGN KEY constraint
+type LogRelation = Schema["relations"]["logs_user_fk"]
+type _S10 = RequireTrue<
+  AssertEqual<LogRelation["from"], { schema?: "audit"; table: "logs"; column: "user_id" }>
+>
+type _S11 = RequireTrue<AssertEqual<LogRelation["type"], "many-to-one">>
+
+// Test: Only foreign keys produce relations
+type _S12 = RequireTrue<AssertEqual<keyof Schema["relations"], "profiles_user_id_fkey" | "logs_user_fk">>
+
+// ============================================================================
+// Query Integration Tests
+// ============================================================================
+
+// Test: Parsed schema works with QueryResult
+type Q_Join = QueryResult<
+  "SELECT u.email, p.bio, l.action FROM users u JOIN profiles p ON p.user_id = u.id JOIN audit.logs l ON l.user_id = u.id",
+  Schema
+>
+type _S13 = RequireTrue<AssertEqual<Q_Join, { email: string; bio: string | null; action: string }>>
+
+// Test: Parsed schema works with ValidateSQL
+type _S14 = RequireTrue<AssertEqual<ValidateSQL<"SELECT id, name FROM users", Schema>, true>>
+
+// Test: Defaulted, serial and identity columns may be omitted on INSERT
+type Orders = ParseDDL<`
+  CREATE TABLE orders (
+    id bigserial PRIMARY KEY,
+    user_id int NOT NULL,
+    total numeric NOT NULL,
+    status text NOT NULL DEFAULT 'new',
+    seq int GENERATED BY DEFAULT AS IDENTITY,
+    amount_cents int GENERATED ALWAYS AS (total * 100) STORED
+  );
+`>
+type _S14b = RequireTrue<
+  AssertEqual<ValidateInsertSQL<"INSERT INTO orders (user_id, total) VALUES (1, 2)", Orders>, true>
+>
+type _S14c = RequireTrue<
+  AssertEqual<
+    ValidateInsertSQL<"INSERT INTO orders (id, seq, user_id, total, status) VALUES (1, 2, 3, 4, 'paid')", Orders>,
+    true
+  >
+>
+
+// Test: Required columns and GENERATED ALWAYS columns are still checked
+type _S14d = RequireTrue<
+  AssertEqual<
+    ValidateInsertSQL<"INSERT INTO orders (user_id) VALUES (1)", Orders>,
+    "Missing required column 'total' for table 'orders'"
+  >
+>
+type _S14e = RequireTrue<
+  AssertEqual<
+    ValidateInsertSQL<"INSERT INTO orders (user_id, total, amount_cents) VALUES (1, 2, 200)", Orders>,
+    "Cannot insert into generated column 'amount_cents'"
+  >
+>
+
+// Test: Queries see the plain column types
+type _S14f = RequireTrue<
+  AssertEqual<
+    QueryResult<"SELECT id, status, amount_cents FROM orders", Orders>,
+    { id: number; status: string; amount_cents: number | null }
+  >
+>
+
+// ============================================================================
+// Error Tests
+// ============================================================================
+
+// Test: Parse errors are returned instead of a schema
+type _S15 = RequireTrue<AssertIsParseError<ParseDDL<"CREATE TABLE users (id int">>>
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type DDLSchemaTestsPass = true
@@ -0,0 +1,72 @@
+/**
+ * DELETE Query Builder Runtime Tests
+ *
+ * Checks the SQL text and errors of createDeleteQuery at runtime.
+ * Run with: npm run test:runtime
+ */
+
+import { createDeleteQuery } from "../../src/index.js"
+import { expectEqual, expectThrows } from "../helpers.js"
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type TestSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      users: {
+        id: number
+        active: boolean
+      }
+      sessions: {
+        id: number
+        user_id: number
+      }
+    }
+  }
+}
+
+const users = createDeleteQuery<TestSchema>().table("users")
+
+// ============================================================================
+// Query Assembly
+// ============================================================================
+
+// Test: USING sources, WHERE conditions and RETURNING columns in clause order
+expectEqual(
+  "delete using",
+  users
+    .using("sessions")
+    .returning("id")
+    .where("sessions.user_id = users.id", "session")
+    .where("users.active = false")
+    .toString(),
+  "DELETE FROM users USING sessions WHERE (sessions.user_id = users.id) AND (users.active = false) RETURNING id",
+)
+
+// Test: Removed parts are left out
+expectEqual(
+  "remove parts",
+  users.where("id = 1", "by_id").returning("id", "ret").removeReturning("ret").toString(),
+  "DELETE FROM users WHERE id = 1",
+)
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+// Test: execute() refuses a DELETE without where() unless all() was called
+expectThrows(
+  "delete without where",
+  // @ts-expect-error the handler is rejected at type level as well
+  () => users.execute(() => []),
+  "DELETE without where() requires all()",
+)
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type DeleteBuilderRuntimeTestsPass = true
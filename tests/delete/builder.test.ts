@@ -0,0 +1,158 @@
+/**
+ * DELETE Query Builder Type Tests
+ *
+ * Tests for createDeleteQuery state transitions, validation, result types
+ * and the WHERE guard of execute().
+ * If this file compiles without errors, all tests pass.
+ */
+
+import type {
+  BuilderState,
+  BuildDeleteSQL,
+  ConditionTreeBuilder,
+  DeleteBuilderResult,
+  DeleteBuilderState,
+  DeleteQueryBuilder,
+  EmptyConditionTree,
+  ExtractError,
+  MatchError,
+  QueryHandler,
+} from "../../src/index.js"
+import type { AssertEqual, RequireTrue } from "../helpers.js"
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type TestSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      users: {
+        id: number
+        name: string
+        email: string | null
+        active: boolean
+      }
+      sessions: {
+        id: number
+        user_id: number
+        expires_at: string
+      }
+    }
+  }
+}
+
+declare const query: DeleteQueryBuilder<TestSchema>
+declare const dynamic: string
+declare const conditions: ConditionTreeBuilder<EmptyConditionTree<"or">>
+
+type Row<Builder> = DeleteBuilderResult<Builder, TestSchema>
+type SQLOf<Builder> = BuilderState<Builder> extends infer State extends DeleteBuilderState
+  ? BuildDeleteSQL<State>
+  : never
+type HandlerOf<Builder> = Builder extends { execute(handler: infer Handler): unknown } ? Handler : never
+
+// ============================================================================
+// Basic Usage
+// ============================================================================
+
+// Test: where and returning
+const basic = query.table("users").where("active = false", "inactive").returning(["id", "email"])
+type _DB1 = RequireTrue<
+  AssertEqual<SQLOf<typeof basic>, "DELETE FROM users WHERE active = false RETURNING id, email">
+>
+type _DB2 = RequireTrue<AssertEqual<Row<typeof basic>, { id: number; email: string | null }>>
+
+// Test: toString() carries the result type
+const basicSQL = basic.toString()
+type _DB3 = RequireTrue<
+  AssertEqual<(typeof basicSQL)["__type"], { id: number; email: string | null }>
+>
+
+// Test: Without RETURNING the result is void
+const noReturning = query.table("sessions").where("id = 1")
+type _DB4 = RequireTrue<AssertEqual<Row<typeof noReturning>, void>>
+
+// Test: USING sources, several conditions are ANDed, condition trees
+const using = query
+  .table("sessions")
+  .using("users")
+  .where("sessions.user_id = users.id")
+  .where(conditions.add("users.active = false").add("users.email IS NULL"), "stale")
+type _DB5 = RequireTrue<
+  AssertEqual<
+    SQLOf<typeof using>,
+    "DELETE FROM sessions USING users WHERE ( sessions.user_id = users.id ) AND ( (users.active = false OR users.email IS NULL) )"
+  >
+>
+
+// ============================================================================
+// Replacement and Removal
+// ============================================================================
+
+// Test: A part with an existing ID is replaced
+const replaced = basic.where("email IS NULL", "inactive")
+type _DB6 = RequireTrue<
+  AssertEqual<SQLOf<typeof replaced>, "DELETE FROM users WHERE email IS NULL RETURNING id, email">
+>
+
+// Test: Remove by ID; fully dynamic fragments are skipped
+const removed = using.removeWhere("stale").where(dynamic)
+type _DB7 = RequireTrue<
+  AssertEqual<
+    SQLOf<typeof removed>,
+    "DELETE FROM sessions USING users WHERE sessions.user_id = users.id"
+  >
+>
+
+// ============================================================================
+// WHERE Guard
+// ============================================================================
+
+// Test: execute() requires where() or all()
+const everything = query.table("sessions")
+type _DB8 = RequireTrue<
+  AssertEqual<HandlerOf<typeof everything>, "[Builder Error] Call where() or all() before execute()">
+>
+type _DB9 = RequireTrue<AssertEqual<HandlerOf<ReturnType<typeof everything.all>>, QueryHandler>>
+type _DB10 = RequireTrue<AssertEqual<HandlerOf<typeof basic>, QueryHandler>>
+
+// Test: execute() requires table()
+type _DB11 = RequireTrue<
+  AssertEqual<HandlerOf<typeof query>, "[Builder Error] Call table() before execute()">
+>
+
+// ============================================================================
+// Validation Errors
+// ============================================================================
+
+// Test: Unknown table
+type BadTableArg = Parameters<typeof query.table<"nope">>[0]
+type _DB12 = RequireTrue<
+  AssertEqual<BadTableArg, "[Builder Error] Table 'nope' not found in default schema 'public'">
+>
+
+// Test: Clauses before table()
+type EarlyWhereArg = Parameters<typeof query.where<"id = 1", undefined>>[0]
+type _DB13 = RequireTrue<AssertEqual<EarlyWhereArg, "[Builder Error] Call table() before where()">>
+
+// Test: Unknown column in RETURNING; the error state is kept
+type BadReturningArg = Parameters<typeof everything.returning<"bad", undefined>>[0]
+type _DB14 = RequireTrue<
+  AssertEqual<BadReturningArg, "[Builder Error] Column 'bad' not found in table 'sessions'">
+>
+declare const failed: ReturnType<typeof everything.returning<"bad", undefined>>
+const afterError = failed.where("id = 1")
+type _DB15 = RequireTrue<
+  AssertEqual<ExtractError<BuilderState<typeof afterError>>, "Column 'bad' not found in table 'sessions'">
+>
+type _DB16 = RequireTrue<
+  AssertEqual<Row<typeof afterError>, MatchError<"Column 'bad' not found in table 'sessions'">>
+>
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type DeleteBuilderTestsPass = true
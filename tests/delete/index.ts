@@ -9,3 +9,5 @@ export type { DeleteParserTestsPass } from "./parser.test.js"
 export type { DeleteMatcherTestsPass } from "./matcher.test.js"
 export type { DeleteValidatorTestsPass } from "./validator.test.js"
 
+export type { DeleteBuilderTestsPass } from "./builder.test.js"
+export type { DeleteBuilderRuntimeTestsPass } from "./builder-runtime.test.js"
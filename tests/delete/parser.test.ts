@@ -14,6 +14,8 @@ import type {
   DeleteReturningClause,
   TableRef,
   UnboundColumnRef,
+  ParsedCondition,
+  CTEDefinition,
   ParseError,
 } from "../../src/index.js"
 import type {
@@ -188,6 +190,39 @@ type P_AsAlias_Check = P_AsAlias extends SQLDeleteQuery<infer Q>
   : false
 type _P19 = RequireTrue<P_AsAlias_Check>
 
+// ============================================================================
+// CTE (WITH clause) Tests
+// ============================================================================
+
+// Test: WITH ... DELETE keeps the CTEs on the DELETE clause
+type P_WithCTE = ParseDeleteSQL<`
+  WITH stale AS (SELECT id FROM sessions WHERE expired = TRUE)
+  DELETE FROM sessions WHERE id IN (SELECT id FROM stale)
+`>
+type P_WithCTE_Check = P_WithCTE extends SQLDeleteQuery<infer Q>
+  ? Q extends { ctes: [CTEDefinition<"stale">] }
+    ? true
+    : false
+  : false
+type _P20 = RequireTrue<P_WithCTE_Check>
+
+// Test: Columns of a WHERE subquery are not collected
+type _P21 = RequireTrue<
+  AssertEqual<
+    P_WithCTE extends SQLDeleteQuery<infer Q> ? Q["where"] : never,
+    ParsedCondition<[UnboundColumnRef<"id">]>
+  >
+>
+
+// Test: Without WITH there are no CTEs
+type P_NoCTE = ParseDeleteSQL<"DELETE FROM sessions">
+type _P22 = RequireTrue<
+  AssertEqual<P_NoCTE extends SQLDeleteQuery<infer Q> ? Q["ctes"] : never, undefined>
+>
+
+// Test: WITH must be followed by DELETE
+type _P23 = RequireTrue<AssertIsParseError<ParseDeleteSQL<"WITH s AS (SELECT id FROM t) SELECT * FROM s">>>
+
 // ============================================================================
 // Export for verification
 // ============================================================================
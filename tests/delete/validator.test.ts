@@ -129,6 +129,46 @@ type _V10 = RequireTrue<
   AssertEqual<V_BadUsingTable, "Table 'nonexistent' not found in default schema 'public'">
 >
 
+// ============================================================================
+// Parameter Placeholder Tests
+// ============================================================================
+
+// Test: Named placeholders are values, not columns
+type V_NamedParams = ValidateDeleteSQL<"DELETE FROM users WHERE id = @id OR email = :email", TestSchema>
+type _V11 = RequireTrue<AssertEqual<V_NamedParams, true>>
+
+// ============================================================================
+// CTE Tests
+// ============================================================================
+
+// Test: CTE referenced from a WHERE subquery
+type V_CTESubquery = ValidateDeleteSQL<
+  "WITH inactive AS (SELECT id FROM users WHERE active = FALSE) DELETE FROM posts WHERE author_id IN (SELECT id FROM inactive)",
+  TestSchema
+>
+type _V12 = RequireTrue<AssertEqual<V_CTESubquery, true>>
+
+// Test: CTE in USING resolves to its columns
+type V_CTEUsing = ValidateDeleteSQL<
+  "WITH inactive AS (SELECT id AS user_id FROM users WHERE active = FALSE) DELETE FROM posts p USING inactive i WHERE p.author_id = i.user_id RETURNING id",
+  TestSchema
+>
+type _V13 = RequireTrue<AssertEqual<V_CTEUsing, true>>
+
+// Test: Column not in the CTE
+type V_CTEBadColumn = ValidateDeleteSQL<
+  "WITH inactive AS (SELECT id FROM users) DELETE FROM posts p USING inactive i WHERE p.author_id = i.account_id",
+  TestSchema
+>
+type _V14 = RequireTrue<AssertEqual<V_CTEBadColumn, "Column 'account_id' not found in 'i'">>
+
+// Test: Invalid CTE
+type V_BadCTE = ValidateDeleteSQL<
+  "WITH inactive AS (SELECT nope FROM users) DELETE FROM posts",
+  TestSchema
+>
+type _V15 = RequireTrue<AssertEqual<V_BadCTE, "Column 'nope' not found in any table">>
+
 // ============================================================================
 // IsValidDelete Tests
 // ============================================================================
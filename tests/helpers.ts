@@ -18,6 +18,14 @@ export type AssertEqual<T, U> = [T] extends [U]
         : false
     : false
 
+/**
+ * Assert two types are identical, including how they are written
+ * (an intersection of object types is not identical to the merged object type)
+ */
+export type AssertIdentical<T, U> = (<V>() => V extends T ? 1 : 2) extends (<V>() => V extends U ? 1 : 2)
+    ? true
+    : false
+
 /**
  * Assert two types are NOT equal
  */
@@ -182,3 +190,32 @@ export type AssertExactKeys<T, Keys extends string> = [keyof T] extends [Keys]
 export type AssertPropertyType<T, K extends keyof T, V> =
     T[K] extends V ? (V extends T[K] ? true : false) : false
 
+
+// ============================================================================
+// Runtime Assertions
+// ============================================================================
+
+/**
+ * Throw if a runtime value differs from the expected value (compared as JSON)
+ * Runtime checks run with: npm run test:runtime
+ */
+export function expectEqual<T>(name: string, actual: T, expected: T): void {
+    const actualJSON = JSON.stringify(actual)
+    const expectedJSON = JSON.stringify(expected)
+    if (actualJSON !== expectedJSON) {
+        throw new Error(`${name}: expected ${expectedJSON}, got ${actualJSON}`)
+    }
+}
+
+/**
+ * Throw if a function does not throw an error with the expected message
+ */
+export function expectThrows(name: string, fn: () => unknown, message: string): void {
+    try {
+        fn()
+    } catch (error) {
+        expectEqual(name, (error as Error).message, message)
+        return
+    }
+    throw new Error(`${name}: expected an error "${message}"`)
+}
@@ -8,7 +8,13 @@
  */
 
 // Common utilities tests (shared by all query types)
-export type { CommonTestsPass, TokenizerTestsPass, UtilsTestsPass } from "./common/index.js"
+export type {
+  CommonTestsPass,
+  TokenizerTestsPass,
+  UtilsTestsPass,
+  FunctionsTestsPass,
+  ConditionTreeTestsPass,
+} from "./common/index.js"
 
 // SELECT query tests
 export type {
@@ -17,6 +23,7 @@ export type {
   UnionTestsPass,
   DynamicTestsPass,
   ASTTestsPass,
+  BuilderTestsPass,
   MatcherTestsPass,
   ValidatorTestsPass,
 } from "./select/index.js"
@@ -26,6 +33,7 @@ export type {
   InsertParserTestsPass,
   InsertMatcherTestsPass,
   InsertValidatorTestsPass,
+  InsertBuilderTestsPass,
 } from "./insert/index.js"
 
 // UPDATE query tests
@@ -33,6 +41,7 @@ export type {
   UpdateParserTestsPass,
   UpdateMatcherTestsPass,
   UpdateValidatorTestsPass,
+  UpdateBuilderTestsPass,
 } from "./update/index.js"
 
 // DELETE query tests
@@ -40,8 +49,28 @@ export type {
   DeleteParserTestsPass,
   DeleteMatcherTestsPass,
   DeleteValidatorTestsPass,
+  DeleteBuilderTestsPass,
 } from "./delete/index.js"
 
+// MERGE query tests
+export type {
+  MergeParserTestsPass,
+  MergeMatcherTestsPass,
+  MergeValidatorTestsPass,
+} from "./merge/index.js"
+
+// DDL tests
+export type { DDLMigrationsTestsPass, DDLParserTestsPass, DDLSchemaTestsPass } from "./ddl/index.js"
+
+// Query parameter tests
+export type { ParamsTestsPass } from "./params.test.js"
+
+// Database integration tests
+export type { DBTestsPass } from "./db.test.js"
+
+// SQL template tests
+export type { TemplateTestsPass } from "./template.test.js"
+
 /**
  * Master test result - true if all tests pass
  */
@@ -0,0 +1,107 @@
+/**
+ * INSERT Query Builder Runtime Tests
+ *
+ * Checks the SQL text, parameters and errors of createInsertQuery at runtime.
+ * Run with: npm run test:runtime
+ */
+
+import { createInsertQuery, sql } from "../../src/index.js"
+import { expectEqual, expectThrows } from "../helpers.js"
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type TestSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      users: {
+        id: { type: number; default: true }
+        name: string
+        email: string | null
+        score: number
+      }
+    }
+  }
+}
+
+const users = createInsertQuery<TestSchema>().into("users")
+
+// ============================================================================
+// Query Assembly
+// ============================================================================
+
+// Test: Rows are bound row by row; a missing column gets DEFAULT
+expectEqual(
+  "multi-row values",
+  users
+    .values([
+      { id: 1, name: "John", email: "john@example.com", score: 1 },
+      { name: "Jane", email: null, score: 2 },
+    ])
+    .toQuery(),
+  {
+    sql: "INSERT INTO users (id, name, email, score) VALUES ($1, $2, $3, $4), (DEFAULT, $5, $6, $7)",
+    params: [1, "John", "john@example.com", 1, "Jane", null, 2],
+  },
+)
+
+// Test: DO UPDATE values are bound after the rows, fragments are renumbered
+expectEqual(
+  "upsert",
+  users
+    .values({ name: "John", email: null, score: 1 })
+    .onConflict("email")
+    .doUpdate({ name: "Johnny", score: sql`score + ${1}` })
+    .returning("id")
+    .toQuery(),
+  {
+    sql: "INSERT INTO users (name, email, score) VALUES ($1, $2, $3) ON CONFLICT (email) DO UPDATE SET name = $4, score = score + $5 RETURNING id",
+    params: ["John", null, 1, "Johnny", 1],
+  },
+)
+
+// Test: doUpdate() with columns takes the EXCLUDED values
+expectEqual(
+  "upsert excluded",
+  users.values({ name: "John", email: null, score: 1 }).onConflict("email").doUpdate(["name", "score"]).toString(),
+  "INSERT INTO users (name, email, score) VALUES ($1, $2, $3) ON CONFLICT (email) DO UPDATE SET name = EXCLUDED.name, score = EXCLUDED.score",
+)
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+// Test: Column names from row keys are checked before they reach the query text
+expectThrows(
+  "invalid values column",
+  // @ts-expect-error not a column of users
+  () => users.values({ "name) VALUES (1); DROP TABLE users; --": 1 }),
+  "Invalid column name 'name) VALUES (1); DROP TABLE users; --' passed to values()",
+)
+
+// Test: Column names passed to doUpdate() are checked too
+expectThrows(
+  "invalid doUpdate column",
+  () =>
+    users
+      .values({ name: "John", email: null, score: 1 })
+      .onConflict("email")
+      // @ts-expect-error not a column of users
+      .doUpdate(["name = 'x' --"]),
+  "Invalid column name 'name = 'x' --' passed to doUpdate()",
+)
+
+// Test: A query without rows has no SQL
+expectThrows(
+  "empty values",
+  () => users.values([]).toString(),
+  "Call into() and values() before toString()",
+)
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type InsertBuilderRuntimeTestsPass = true
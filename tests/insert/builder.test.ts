@@ -0,0 +1,171 @@
+/**
+ * INSERT Query Builder Type Tests
+ *
+ * Tests for createInsertQuery row typing, multi-row VALUES assembly,
+ * ON CONFLICT, validation and result types.
+ * If this file compiles without errors, all tests pass.
+ */
+
+import type {
+  BuilderState,
+  BuildInsertSQL,
+  ExtractError,
+  InsertBuilderResult,
+  InsertBuilderState,
+  InsertQueryBuilder,
+  InsertRowValues,
+  MatchError,
+  QueryHandler,
+  SqlFragment,
+} from "../../src/index.js"
+import type { AssertEqual, AssertExtends, RequireTrue } from "../helpers.js"
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type TestSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      users: {
+        id: { type: number; default: true }
+        name: string
+        email: string | null
+        score: number
+        slug: { type: string; generated: "always" }
+      }
+    }
+  }
+}
+
+declare const query: InsertQueryBuilder<TestSchema>
+declare const zero: SqlFragment<"0">
+declare const rows: { name: string; email: string | null; score: number }[]
+
+type Row<Builder> = InsertBuilderResult<Builder, TestSchema>
+type SQLOf<Builder> = BuilderState<Builder> extends infer State extends InsertBuilderState
+  ? BuildInsertSQL<State>
+  : never
+type HandlerOf<Builder> = Builder extends { execute(handler: infer Handler): unknown } ? Handler : never
+
+const users = query.into("users")
+
+// ============================================================================
+// Row Typing
+// ============================================================================
+
+// Test: Rows are typed from InsertInput; columns with defaults are optional,
+// GENERATED ALWAYS columns are left out, any column accepts a sql fragment
+type UserRow = InsertRowValues<TestSchema, BuilderState<typeof users>>
+type _IB1 = RequireTrue<AssertEqual<UserRow["score"], number | SqlFragment<string>>>
+type _IB2 = RequireTrue<AssertEqual<undefined extends UserRow["id"] ? true : false, true>>
+type _IB3 = RequireTrue<AssertEqual<"slug" extends keyof UserRow ? true : false, false>>
+
+// ============================================================================
+// VALUES Assembly
+// ============================================================================
+
+// Test: Columns in first-seen order, missing columns get DEFAULT,
+// literal fragments are spliced, values are numbered row by row
+const multi = users
+  .values([
+    { name: "John", email: "john@example.com", score: 1 },
+    { name: "Jane", email: null, score: zero, id: 5 },
+  ])
+  .returning(["id", "name"], "columns")
+type _IB4 = RequireTrue<
+  AssertEqual<
+    SQLOf<typeof multi>,
+    "INSERT INTO users (name, email, score, id) VALUES ($1, $2, $3, DEFAULT), ($4, $5, 0, $6) RETURNING id, name"
+  >
+>
+type _IB5 = RequireTrue<AssertEqual<Row<typeof multi>, { id: number; name: string }>>
+
+// Test: toString() carries the result type; without RETURNING it is void
+const multiSQL = multi.toString()
+type _IB6 = RequireTrue<AssertEqual<(typeof multiSQL)["__type"], { id: number; name: string }>>
+type _IB7 = RequireTrue<AssertEqual<Row<ReturnType<typeof multi.removeReturning<"columns">>>, void>>
+
+// Test: A single row; an array of unknown length has no fixed query text
+const single = users.values({ name: "John", email: null, score: 1 })
+type _IB8 = RequireTrue<
+  AssertEqual<SQLOf<typeof single>, "INSERT INTO users (name, email, score) VALUES ($1, $2, $3)">
+>
+const dynamicRows = users.values(rows)
+type _IB9 = RequireTrue<AssertEqual<SQLOf<typeof dynamicRows>, string>>
+type _IB9b = RequireTrue<AssertEqual<Row<ReturnType<typeof dynamicRows.returning<"id">>>, { id: number }>>
+
+// ============================================================================
+// ON CONFLICT
+// ============================================================================
+
+// Test: DO UPDATE from EXCLUDED and from values, parameters after the rows
+const upsert = single.onConflict("id").doUpdate(["name"]).doUpdate({ score: 0 })
+type _IB10 = RequireTrue<
+  AssertEqual<
+    SQLOf<typeof upsert>,
+    "INSERT INTO users (name, email, score) VALUES ($1, $2, $3) ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name, score = $4"
+  >
+>
+
+// Test: DO NOTHING without a target replaces the DO UPDATE assignments
+const ignore = upsert.onConflict().doNothing()
+type _IB11 = RequireTrue<
+  AssertEqual<
+    SQLOf<typeof ignore>,
+    "INSERT INTO users (name, email, score) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING"
+  >
+>
+
+// Test: DO UPDATE requires a conflict target
+type NoTargetArg = Parameters<ReturnType<typeof single.onConflict<undefined>>["doUpdate"]>[0]
+type _IB12 = RequireTrue<
+  AssertExtends<NoTargetArg, "[Builder Error] Call onConflict() with columns before doUpdate()">
+>
+
+// Test: Unknown conflict target column
+const badTarget = single.onConflict("nope").doNothing()
+type _IB13 = RequireTrue<
+  AssertEqual<ExtractError<BuilderState<typeof badTarget>>, "Column 'nope' not found in table 'users'">
+>
+
+// ============================================================================
+// execute()
+// ============================================================================
+
+type _IB14 = RequireTrue<AssertEqual<HandlerOf<typeof single>, QueryHandler>>
+type _IB15 = RequireTrue<
+  AssertEqual<HandlerOf<typeof users>, "[Builder Error] Call into() and values() before execute()">
+>
+type _IB16 = RequireTrue<
+  AssertEqual<
+    HandlerOf<ReturnType<typeof single.onConflict<"id">>>,
+    "[Builder Error] Call doNothing() or doUpdate() after onConflict()"
+  >
+>
+
+// ============================================================================
+// Validation Errors
+// ============================================================================
+
+// Test: Unknown table
+type BadTableArg = Parameters<typeof query.into<"nope">>[0]
+type _IB17 = RequireTrue<
+  AssertEqual<BadTableArg, "[Builder Error] Table 'nope' not found in default schema 'public'">
+>
+
+// Test: Unknown RETURNING column; the error state is kept
+declare const failed: ReturnType<typeof single.returning<"bad", undefined>>
+type _IB18 = RequireTrue<
+  AssertEqual<ExtractError<BuilderState<typeof failed>>, "Column 'bad' not found in table 'users'">
+>
+type _IB19 = RequireTrue<
+  AssertEqual<Row<typeof failed>, MatchError<"Column 'bad' not found in table 'users'">>
+>
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type InsertBuilderTestsPass = true
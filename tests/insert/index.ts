@@ -9,3 +9,5 @@ export type { InsertParserTestsPass } from "./parser.test.js"
 export type { InsertMatcherTestsPass } from "./matcher.test.js"
 export type { InsertValidatorTestsPass } from "./validator.test.js"
 
+export type { InsertBuilderTestsPass } from "./builder.test.js"
+export type { InsertBuilderRuntimeTestsPass } from "./builder-runtime.test.js"
@@ -11,6 +11,7 @@ import type {
   MatchInsertQuery,
   ParseInsertSQL,
   DatabaseSchema,
+  GetColumnType,
 } from "../../src/index.js"
 import type { AssertEqual, RequireTrue, AssertIsMatchError } from "../helpers.js"
 
@@ -169,6 +170,62 @@ type _I2 = RequireTrue<
   AssertEqual<I_AllCols, { id: number; name: string; email: string; active: boolean }>
 >
 
+// ============================================================================
+// Column Descriptor Tests
+// ============================================================================
+
+type DescriptorSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      accounts: {
+        id: { type: number; generated: "always"; primaryKey: true }
+        code: { type: number; generated: "by default" }
+        email: string
+        status: { type: "active" | "disabled"; default: true }
+        note: string | null
+      }
+    }
+  }
+}
+
+// Test: GetColumnType unwraps descriptors
+type _I3 = RequireTrue<AssertEqual<GetColumnType<DescriptorSchema, "accounts", "status">, "active" | "disabled">>
+type _I4 = RequireTrue<AssertEqual<GetColumnType<DescriptorSchema, "accounts", "email">, string>>
+
+// Test: Defaulted columns are optional, generated columns are omitted
+type I_DescriptorRow = InsertInput<"INSERT INTO accounts VALUES ( 'a@b.c' , NULL )", DescriptorSchema>
+type _I5 = RequireTrue<
+  AssertEqual<
+    I_DescriptorRow,
+    { email: string; note: string | null; code?: number; status?: "active" | "disabled" }
+  >
+>
+
+// Test: Defaulted columns in a column list are optional
+type I_DescriptorCols = InsertInput<
+  "INSERT INTO accounts ( email , status ) VALUES ( 'a@b.c' , 'active' )",
+  DescriptorSchema
+>
+type _I6 = RequireTrue<AssertEqual<I_DescriptorCols, { email: string; status?: "active" | "disabled" }>>
+
+// Test: Writing a generated column is an error
+type I_DescriptorGenerated = InsertInput<
+  "INSERT INTO accounts ( id , email ) VALUES ( 1 , 'a@b.c' )",
+  DescriptorSchema
+>
+type _I7 = RequireTrue<AssertIsMatchError<I_DescriptorGenerated>>
+type _I8 = RequireTrue<
+  AssertEqual<I_DescriptorGenerated["message"], "Cannot insert into generated column 'id'">
+>
+
+// Test: RETURNING unwraps descriptors
+type M_DescriptorReturning = InsertResult<
+  "INSERT INTO accounts ( email ) VALUES ( 'a@b.c' ) RETURNING id , status",
+  DescriptorSchema
+>
+type _I9 = RequireTrue<AssertEqual<M_DescriptorReturning, { id: number; status: "active" | "disabled" }>>
+
 // ============================================================================
 // Error Cases Tests
 // ============================================================================
@@ -19,6 +19,10 @@ import type {
   OnConflictClause,
   TableRef,
   UnboundColumnRef,
+  InsertSelectClause,
+  SelectClause,
+  CTEDefinition,
+  DataModifyingQuery,
   ParseError,
 } from "../../src/index.js"
 import type {
@@ -92,10 +96,60 @@ type _P8 = RequireTrue<AssertExtends<P_BoolValues, SQLInsertQuery>>
 type P_NumericValues = ParseInsertSQL<"INSERT INTO products ( price , quantity ) VALUES ( 19.99 , 100 )">
 type _P9 = RequireTrue<AssertExtends<P_NumericValues, SQLInsertQuery>>
 
+// Test: Numeric literals are numbers, quoted literals are strings
+type P_LiteralValues = ParseInsertSQL<"INSERT INTO products ( price , code ) VALUES ( 19.99 , '100' )">
+type _P27 = RequireTrue<
+  AssertExtends<
+    P_LiteralValues,
+    SQLInsertQuery<
+      InsertClause<
+        any,
+        any,
+        InsertValuesClause<
+          [
+            InsertValueRow<
+              [{ readonly type: "Literal"; readonly value: 19.99 }, { readonly type: "Literal"; readonly value: "100" }]
+            >,
+          ]
+        >,
+        any,
+        any
+      >
+    >
+  >
+>
+
 // Test: Parameter placeholders
 type P_ParamValues = ParseInsertSQL<"INSERT INTO users ( id , name ) VALUES ( $1 , $2 )">
 type _P10 = RequireTrue<AssertExtends<P_ParamValues, SQLInsertQuery>>
 
+// Test: Named parameter placeholders
+type P_NamedParams = ParseInsertSQL<"INSERT INTO users ( id , name , email ) VALUES ( :id , @name , $email )">
+type _P28 = RequireTrue<
+  AssertExtends<
+    P_NamedParams,
+    SQLInsertQuery<
+      InsertClause<
+        any,
+        any,
+        InsertValuesClause<
+          [
+            InsertValueRow<
+              [
+                { readonly type: "Param"; readonly name: "id" },
+                { readonly type: "Param"; readonly name: "name" },
+                { readonly type: "Param"; readonly name: "email" },
+              ]
+            >,
+          ]
+        >,
+        any,
+        any
+      >
+    >
+  >
+>
+
 // ============================================================================
 // RETURNING Tests
 // ============================================================================
@@ -240,6 +294,38 @@ type P_QuotedCols_Check = P_QuotedCols extends SQLInsertQuery<infer Q>
   : false
 type _P26 = RequireTrue<P_QuotedCols_Check>
 
+// ============================================================================
+// INSERT ... SELECT and CTE Tests
+// ============================================================================
+
+// Test: WITH ... INSERT ... SELECT keeps the CTEs and parses the SELECT
+type P_WithSelect = ParseInsertSQL<`
+  WITH moved AS (DELETE FROM jobs WHERE attempts > 3 RETURNING *)
+  INSERT INTO archive SELECT * FROM moved
+`>
+type P_WithSelect_Query = P_WithSelect extends SQLInsertQuery<infer Q> ? Q : never
+type _P29 = RequireTrue<
+  AssertExtends<P_WithSelect_Query["ctes"], [CTEDefinition<"moved", DataModifyingQuery<"DELETE">>]>
+>
+type _P30 = RequireTrue<AssertExtends<P_WithSelect_Query["source"], InsertSelectClause<SelectClause<"*">>>>
+type _P31 = RequireTrue<
+  AssertEqual<P_WithSelect_Query["source"]["query"]["from"], TableRef<"moved", "moved", undefined>>
+>
+
+// Test: ON of a JOIN belongs to the SELECT, ON CONFLICT ends it
+type P_SelectJoin = ParseInsertSQL<`
+  INSERT INTO archive (id, payload)
+  SELECT j.id, u.name FROM jobs j JOIN users u ON u.id = j.owner_id
+  ON CONFLICT DO NOTHING RETURNING id
+`>
+type P_SelectJoin_Query = P_SelectJoin extends SQLInsertQuery<infer Q> ? Q : never
+type _P32 = RequireTrue<AssertEqual<P_SelectJoin_Query["source"]["query"]["joins"]["length"], 1>>
+type _P33 = RequireTrue<AssertExtends<P_SelectJoin_Query["onConflict"], OnConflictClause<undefined, "DO NOTHING">>>
+type _P34 = RequireTrue<AssertEqual<P_SelectJoin_Query["ctes"], undefined>>
+
+// Test: WITH must be followed by INSERT
+type _P35 = RequireTrue<AssertIsParseError<ParseInsertSQL<"WITH s AS (SELECT id FROM t) DELETE FROM t">>>
+
 // ============================================================================
 // Export for verification
 // ============================================================================
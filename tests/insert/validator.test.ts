@@ -33,6 +33,12 @@ type TestSchema = {
         content: string
         author_id: number
       }
+      users_archive: {
+        id: number
+        name: string
+        email: string
+        active: boolean
+      }
     }
     admin: {
       settings: {
@@ -41,6 +47,9 @@ type TestSchema = {
       }
     }
   }
+  defaults: {
+    users: ["email", "active"]
+  }
 }
 
 // ============================================================================
@@ -171,6 +180,298 @@ type V_TooManyValues = ValidateInsertSQL<
 >
 type _V16 = RequireTrue<AssertEqual<V_TooManyValues, "Value count (3) does not match column count (2)">>
 
+// ============================================================================
+// Required Column Validation Tests
+// ============================================================================
+
+type RequiredSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      users: {
+        id: { type: number; generated: "always" }
+        email: string
+        name: string
+        role: { type: string; default: true }
+        bio: string | null
+        nickname?: string
+      }
+    }
+    audit: {
+      logs: {
+        id: number
+        action: string
+        created_at: string
+      }
+    }
+  }
+  defaults: {
+    "audit.logs": ["id", "created_at"]
+  }
+}
+
+// Test: Missing non-nullable column without a default
+type V_MissingRequired = ValidateInsertSQL<"INSERT INTO users ( name ) VALUES ( 'John' )", RequiredSchema>
+type _V17 = RequireTrue<AssertEqual<V_MissingRequired, "Missing required column 'email' for table 'users'">>
+
+// Test: Nullable, optional, defaulted and generated columns may be omitted
+type V_RequiredListed = ValidateInsertSQL<
+  "INSERT INTO users ( email , name ) VALUES ( 'a@b.c' , 'John' )",
+  RequiredSchema
+>
+type _V18 = RequireTrue<AssertEqual<V_RequiredListed, true>>
+
+// Test: Per-table defaults list (schema-qualified key)
+type V_DefaultsList = ValidateInsertSQL<"INSERT INTO audit.logs ( action ) VALUES ( 'login' )", RequiredSchema>
+type _V19 = RequireTrue<AssertEqual<V_DefaultsList, true>>
+type V_DefaultsMissing = ValidateInsertSQL<"INSERT INTO audit.logs ( id ) VALUES ( 1 )", RequiredSchema>
+type _V20 = RequireTrue<AssertEqual<V_DefaultsMissing, "Missing required column 'action' for table 'logs'">>
+
+// Test: DEFAULT VALUES gives no columns
+type V_DefaultValues = ValidateInsertSQL<"INSERT INTO audit.logs DEFAULT VALUES", RequiredSchema>
+type _V20a = RequireTrue<AssertEqual<V_DefaultValues, "Missing required column 'action' for table 'logs'">>
+
+// Test: Positional values must cover the required columns
+type V_PositionalMissing = ValidateInsertSQL<"INSERT INTO users_archive VALUES ( 1 )", TestSchema>
+type _V20b = RequireTrue<
+  AssertEqual<V_PositionalMissing, "Missing required columns for table 'users_archive' (4 required, 1 given)">
+>
+type V_PositionalDefault = ValidateInsertSQL<
+  "INSERT INTO users_archive VALUES ( 1 , 'John' , 'john@example.com' , DEFAULT )",
+  TestSchema
+>
+type _V20c = RequireTrue<
+  AssertEqual<V_PositionalDefault, "Missing required columns for table 'users_archive' (4 required, 3 given)">
+>
+type V_PositionalAll = ValidateInsertSQL<
+  "INSERT INTO users_archive VALUES ( 1 , 'John' , 'john@example.com' , TRUE )",
+  TestSchema
+>
+type _V20d = RequireTrue<AssertEqual<V_PositionalAll, true>>
+
+// Test: Check can be disabled
+type V_RequiredDisabled = ValidateInsertSQL<
+  "INSERT INTO users ( name ) VALUES ( 'John' )",
+  RequiredSchema,
+  { validateRequiredColumns: false }
+>
+type _V21 = RequireTrue<AssertEqual<V_RequiredDisabled, true>>
+
+// ============================================================================
+// Generated Column Validation Tests
+// ============================================================================
+
+// Test: GENERATED ALWAYS columns cannot be listed
+type V_GeneratedListed = ValidateInsertSQL<
+  "INSERT INTO users ( id , email , name ) VALUES ( 1 , 'a@b.c' , 'John' )",
+  RequiredSchema
+>
+type _V21b = RequireTrue<AssertEqual<V_GeneratedListed, "Cannot insert into generated column 'id'">>
+
+// Test: Listing a generated column is allowed when every row inserts DEFAULT
+type V_GeneratedDefault = ValidateInsertSQL<
+  "INSERT INTO users ( id , email , name ) VALUES ( DEFAULT , 'a@b.c' , 'John' ) , ( DEFAULT , 'c@d.e' , 'Jane' )",
+  RequiredSchema
+>
+type _V21c = RequireTrue<AssertEqual<V_GeneratedDefault, true>>
+type V_GeneratedSomeDefault = ValidateInsertSQL<
+  "INSERT INTO users ( id , email , name ) VALUES ( DEFAULT , 'a@b.c' , 'John' ) , ( 2 , 'c@d.e' , 'Jane' )",
+  RequiredSchema
+>
+type _V21d = RequireTrue<AssertEqual<V_GeneratedSomeDefault, "Cannot insert into generated column 'id'">>
+
+// Test: GENERATED ALWAYS columns cannot be filled from a SELECT
+type V_GeneratedSelect = ValidateInsertSQL<
+  "INSERT INTO users ( id , email , name ) SELECT id , name , name FROM users",
+  RequiredSchema
+>
+type _V21e = RequireTrue<AssertEqual<V_GeneratedSelect, "Cannot insert into generated column 'id'">>
+
+// Test: GENERATED ALWAYS columns cannot be updated on conflict
+type V_GeneratedConflict = ValidateInsertSQL<
+  "INSERT INTO users ( email , name ) VALUES ( 'a@b.c' , 'John' ) ON CONFLICT ( email ) DO UPDATE SET id = 5",
+  RequiredSchema
+>
+type _V21f = RequireTrue<AssertEqual<V_GeneratedConflict, "Cannot update generated column 'id'">>
+
+// ============================================================================
+// Value Type Validation Tests
+// ============================================================================
+
+type TypedSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      users: {
+        id: number
+        role: "admin" | "moderator" | "customer"
+        email_verified: boolean
+        bio: string | null
+        price: string
+      }
+    }
+  }
+}
+
+// Test: Literals matching the column types
+type V_TypedValid = ValidateInsertSQL<
+  "INSERT INTO users ( id , role , email_verified , bio , price ) VALUES ( 1 , 'admin' , FALSE , NULL , 9.99 ) , ( '2' , 'customer' , TRUE , 'hi' , '1.50' )",
+  TypedSchema
+>
+type _V22 = RequireTrue<AssertEqual<V_TypedValid, true>>
+
+// Test: Non-numeric string into a number column
+type V_TypedNumber = ValidateInsertSQL<
+  "INSERT INTO users ( id , role , email_verified , price ) VALUES ( 'abc' , 'admin' , TRUE , '1' )",
+  TypedSchema
+>
+type _V23 = RequireTrue<AssertEqual<V_TypedNumber, "Value 'abc' is not assignable to column 'id'">>
+
+// Test: Value outside a literal union (checked in every row)
+type V_TypedUnion = ValidateInsertSQL<
+  "INSERT INTO users ( id , role , email_verified , price ) VALUES ( 1 , 'admin' , TRUE , '1' ) , ( 2 , 'superuser' , TRUE , '1' )",
+  TypedSchema
+>
+type _V24 = RequireTrue<AssertEqual<V_TypedUnion, "Value 'superuser' is not assignable to column 'role'">>
+
+// Test: NULL into a non-nullable column
+type V_TypedNull = ValidateInsertSQL<
+  "INSERT INTO users ( id , role , email_verified , price ) VALUES ( 1 , 'admin' , NULL , '1' )",
+  TypedSchema
+>
+type _V25 = RequireTrue<AssertEqual<V_TypedNull, "Cannot assign NULL to non-nullable column 'email_verified'">>
+
+// Test: Parameters and DEFAULT are not checked
+type V_TypedParams = ValidateInsertSQL<
+  "INSERT INTO users ( id , role , email_verified , price ) VALUES ( $1 , $2 , DEFAULT , $3 )",
+  TypedSchema
+>
+type _V26 = RequireTrue<AssertEqual<V_TypedParams, true>>
+
+// ============================================================================
+// INSERT ... SELECT and CTE Tests
+// ============================================================================
+
+// Test: Rows moved by a data-modifying CTE
+type V_MoveRows = ValidateInsertSQL<
+  `WITH moved AS (DELETE FROM users WHERE active = FALSE RETURNING *)
+   INSERT INTO users_archive SELECT * FROM moved`,
+  TestSchema
+>
+type _V27 = RequireTrue<AssertEqual<V_MoveRows, true>>
+
+// Test: The WHERE clause of the data-modifying CTE is validated
+type V_MoveRowsBadWhere = ValidateInsertSQL<
+  `WITH moved AS (DELETE FROM users WHERE nope = FALSE RETURNING *)
+   INSERT INTO users_archive SELECT * FROM moved`,
+  TestSchema
+>
+type _V27a = RequireTrue<AssertEqual<V_MoveRowsBadWhere, "Column 'nope' not found in any table">>
+
+// Test: SELECT column count must match the column list
+type V_SelectCount = ValidateInsertSQL<
+  `WITH src AS (SELECT id, name FROM users)
+   INSERT INTO users_archive (id, name, email, active) SELECT id, name FROM src`,
+  TestSchema
+>
+type _V28 = RequireTrue<AssertEqual<V_SelectCount, "SELECT column count (2) does not match column count (4)">>
+
+// Test: Without a column list the SELECT may not return more columns than the table has
+type V_SelectTooWide = ValidateInsertSQL<
+  "INSERT INTO users_archive SELECT u.*, p.title FROM users u JOIN posts p ON p.author_id = u.id",
+  TestSchema
+>
+type _V29 = RequireTrue<
+  AssertEqual<V_SelectTooWide, "SELECT column count (5) exceeds column count (4) of table 'users_archive'">
+>
+
+// Test: SELECT columns are validated
+type V_SelectBadColumn = ValidateInsertSQL<"INSERT INTO users_archive SELECT nope FROM users", TestSchema>
+type _V30 = RequireTrue<AssertEqual<V_SelectBadColumn, "Column 'nope' not found in any table">>
+
+// Test: The WHERE clause of the SELECT is validated
+type V_SelectBadWhere = ValidateInsertSQL<
+  "INSERT INTO users_archive (id, name, email, active) SELECT u.id, u.name, u.email, u.active FROM users u WHERE u.nope = 1",
+  TestSchema
+>
+type _V30a = RequireTrue<AssertEqual<V_SelectBadWhere, "Column 'nope' not found in 'u'">>
+
+// Test: A SELECT of literals only
+type V_SelectLiterals = ValidateInsertSQL<
+  "INSERT INTO users_archive (id, name, email, active) SELECT 1, 'x', 'x@example.com', TRUE FROM users",
+  TestSchema
+>
+type _V30b = RequireTrue<AssertEqual<V_SelectLiterals, true>>
+
+// Test: Without a column list the SELECT must cover the required columns
+type V_SelectMissingRequired = ValidateInsertSQL<
+  "WITH src AS (SELECT id, name FROM users) INSERT INTO users_archive SELECT * FROM src",
+  TestSchema
+>
+type _V30c = RequireTrue<
+  AssertEqual<V_SelectMissingRequired, "Missing required columns for table 'users_archive' (4 required, 2 given)">
+>
+
+// Test: Columns left unfilled are allowed when they have defaults
+type V_SelectLeavesDefaults = ValidateInsertSQL<"INSERT INTO users SELECT id, name FROM users_archive", TestSchema>
+type _V30d = RequireTrue<AssertEqual<V_SelectLeavesDefaults, true>>
+
+// Test: Invalid CTE
+type V_BadCTE = ValidateInsertSQL<
+  "WITH src AS (SELECT nope FROM users) INSERT INTO users_archive SELECT * FROM src",
+  TestSchema
+>
+type _V31 = RequireTrue<AssertEqual<V_BadCTE, "Column 'nope' not found in any table">>
+
+// Test: Disabled value count check
+type V_NoSelectCount = ValidateInsertSQL<
+  "INSERT INTO users_archive (id, name, email, active) SELECT id FROM users",
+  TestSchema,
+  { validateValueCount: false }
+>
+type _V32 = RequireTrue<AssertEqual<V_NoSelectCount, true>>
+
+// Test: SELECT column types match the listed columns
+type V_SelectTypes = ValidateInsertSQL<
+  "INSERT INTO posts (id, title, content, author_id) SELECT id, name, email, id FROM users",
+  TestSchema
+>
+type _V33 = RequireTrue<AssertEqual<V_SelectTypes, true>>
+
+// Test: SELECT column of the wrong type
+type V_SelectWrongType = ValidateInsertSQL<
+  "INSERT INTO posts (id, title, content, author_id) SELECT id, name, email, name FROM users",
+  TestSchema
+>
+type _V34 = RequireTrue<
+  AssertEqual<V_SelectWrongType, "Column 4 of SELECT is string but 'author_id' expects number">
+>
+
+// Test: CTE columns are typed from the CTE's SELECT
+type V_CTEWrongType = ValidateInsertSQL<
+  `WITH src AS (SELECT id, name, email AS flag FROM users)
+   INSERT INTO users_archive (id, name, email, active) SELECT id, name, flag, flag FROM src`,
+  TestSchema
+>
+type _V35 = RequireTrue<
+  AssertEqual<V_CTEWrongType, "Column 4 of SELECT is string but 'active' expects boolean">
+>
+
+// Test: Numbers are accepted for string columns, as for literal values
+type V_NumberToString = ValidateInsertSQL<
+  "INSERT INTO posts (id, title, content, author_id) SELECT id, id, name, id FROM users",
+  TestSchema
+>
+type _V36 = RequireTrue<AssertEqual<V_NumberToString, true>>
+
+// Test: Disabled type check
+type V_NoSelectTypes = ValidateInsertSQL<
+  "INSERT INTO posts (id, title, content, author_id) SELECT id, name, email, name FROM users",
+  TestSchema,
+  { validateValueTypes: false }
+>
+type _V37 = RequireTrue<AssertEqual<V_NoSelectTypes, true>>
+
 // ============================================================================
 // IsValidInsert Tests
 // ============================================================================
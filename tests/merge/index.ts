@@ -0,0 +1,10 @@
+/**
+ * MERGE Tests Module
+ *
+ * Re-exports all MERGE-related test results.
+ * Import this file to verify all MERGE tests pass.
+ */
+
+export type { MergeParserTestsPass } from "./parser.test.js"
+export type { MergeMatcherTestsPass } from "./matcher.test.js"
+export type { MergeValidatorTestsPass } from "./validator.test.js"
@@ -0,0 +1,130 @@
+/**
+ * MERGE Matcher Type Tests
+ *
+ * Tests for the MergeResult type and schema matching functionality.
+ * If this file compiles without errors, all tests pass.
+ */
+
+import type { MergeResult, MatchMergeQuery, ParseMergeSQL } from "../../src/index.js"
+import type { AssertEqual, RequireTrue, AssertIsMatchError } from "../helpers.js"
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type TestSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      inventory: {
+        id: number
+        sku: string
+        qty: number
+        note: string | null
+      }
+      incoming: {
+        sku: string
+        qty: number
+        discontinued: boolean
+      }
+    }
+  }
+}
+
+// ============================================================================
+// MERGE without RETURNING
+// ============================================================================
+
+// Test: MERGE without RETURNING returns void
+type M_NoReturning = MergeResult<
+  "MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN MATCHED THEN DELETE",
+  TestSchema
+>
+type _M1 = RequireTrue<AssertEqual<M_NoReturning, void>>
+
+// ============================================================================
+// RETURNING Tests
+// ============================================================================
+
+// Test: merge_action() is typed with the actions of the WHEN clauses
+type M_Action = MergeResult<
+  `MERGE INTO inventory t USING incoming s ON t.sku = s.sku
+   WHEN MATCHED AND s.discontinued = TRUE THEN DELETE
+   WHEN MATCHED THEN UPDATE SET qty = s.qty
+   WHEN NOT MATCHED THEN DO NOTHING
+   RETURNING merge_action(), t.id`,
+  TestSchema
+>
+type _M2 = RequireTrue<AssertEqual<M_Action, { merge_action: "UPDATE" | "DELETE"; id: number }>>
+
+// Test: Aliased merge_action() and source columns
+type M_Aliased = MergeResult<
+  `MERGE INTO inventory t USING incoming s ON t.sku = s.sku
+   WHEN NOT MATCHED THEN INSERT (sku, qty) VALUES (s.sku, s.qty)
+   RETURNING merge_action() AS action, s.discontinued, qty`,
+  TestSchema
+>
+type _M3 = RequireTrue<AssertEqual<M_Aliased, { action: "INSERT"; discontinued: boolean; qty: number }>>
+
+// Test: alias.* expands one table
+type M_TargetStar = MergeResult<
+  "MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN MATCHED THEN DELETE RETURNING t.*",
+  TestSchema
+>
+type _M4 = RequireTrue<
+  AssertEqual<M_TargetStar, { id: number; sku: string; qty: number; note: string | null }>
+>
+
+// Test: * returns source and target columns, shared names typed from the target
+type M_Star = MergeResult<
+  "MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN MATCHED THEN DELETE RETURNING *",
+  TestSchema
+>
+type _M5 = RequireTrue<
+  AssertEqual<
+    M_Star,
+    { discontinued: boolean; id: number; sku: string; qty: number; note: string | null }
+  >
+>
+
+// Test: Source columns are nullable when NOT MATCHED BY SOURCE returns rows
+type M_BySource = MergeResult<
+  `MERGE INTO inventory t USING incoming s ON t.sku = s.sku
+   WHEN MATCHED THEN UPDATE SET qty = s.qty
+   WHEN NOT MATCHED BY SOURCE THEN DELETE
+   RETURNING t.sku, s.qty AS incoming_qty`,
+  TestSchema
+>
+type _M6 = RequireTrue<AssertEqual<M_BySource, { sku: string; incoming_qty: number | null }>>
+
+// Test: Subquery source columns come from the SELECT
+type M_Subquery = MergeResult<
+  `MERGE INTO inventory t
+   USING (SELECT sku, qty AS amount FROM incoming) AS s ON t.sku = s.sku
+   WHEN MATCHED THEN UPDATE SET qty = s.amount
+   RETURNING s.amount`,
+  TestSchema
+>
+type _M7 = RequireTrue<AssertEqual<M_Subquery, { amount: number }>>
+
+// ============================================================================
+// Direct Matcher and Error Tests
+// ============================================================================
+
+type M_Direct = MatchMergeQuery<
+  ParseMergeSQL<"MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN MATCHED THEN DELETE RETURNING t.id">,
+  TestSchema
+>
+type _M8 = RequireTrue<AssertEqual<M_Direct, { id: number }>>
+
+type M_NoTable = MergeResult<
+  "MERGE INTO stock t USING incoming s ON t.sku = s.sku WHEN MATCHED THEN DELETE RETURNING t.id",
+  TestSchema
+>
+type _M9 = RequireTrue<AssertIsMatchError<M_NoTable>>
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type MergeMatcherTestsPass = true
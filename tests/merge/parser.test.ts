@@ -0,0 +1,202 @@
+/**
+ * MERGE Parser Type Tests
+ *
+ * Tests for the ParseMergeSQL type and related parsing functionality.
+ * If this file compiles without errors, all tests pass.
+ */
+
+import type {
+  ParseSQL,
+  ParseMergeSQL,
+  DetectQueryType,
+  SQLMergeQuery,
+  MergeClause,
+  MergeWhenClause,
+  MergeUpdateAction,
+  MergeDeleteAction,
+  MergeInsertAction,
+  MergeDoNothingAction,
+  MergeSetAssignment,
+  MergeReturningClause,
+  MergeReturningColumn,
+  MergeActionRef,
+  TableRef,
+  TableColumnRef,
+  TableWildcard,
+  DerivedTableRef,
+  ParsedCondition,
+} from "../../src/index.js"
+import type { AssertEqual, AssertExtends, RequireTrue, AssertIsParseError } from "../helpers.js"
+
+type Query<SQL extends string> = ParseMergeSQL<SQL> extends SQLMergeQuery<infer Q> ? Q : never
+
+// ============================================================================
+// Basic MERGE Tests
+// ============================================================================
+
+const upsert = `
+  MERGE INTO inventory AS t
+  USING incoming AS s ON t.sku = s.sku
+  WHEN MATCHED THEN UPDATE SET qty = s.qty
+  WHEN NOT MATCHED THEN INSERT (sku, qty) VALUES (s.sku, s.qty)
+`
+
+// Test: Target and source with aliases, ON condition column references
+type P_Basic = Query<typeof upsert>
+type _P1 = RequireTrue<AssertEqual<P_Basic["target"], TableRef<"inventory", "t", undefined>>>
+type _P2 = RequireTrue<AssertEqual<P_Basic["source"], TableRef<"incoming", "s", undefined>>>
+type _P3 = RequireTrue<
+  AssertEqual<
+    P_Basic["on"],
+    ParsedCondition<[TableColumnRef<"t", "sku", undefined>, TableColumnRef<"s", "sku", undefined>]>
+  >
+>
+
+// Test: WHEN clauses in order with their actions
+type _P4 = RequireTrue<
+  AssertExtends<
+    P_Basic["when"],
+    [
+      MergeWhenClause<"MATCHED", undefined, MergeUpdateAction<[MergeSetAssignment<"qty">]>>,
+      MergeWhenClause<"NOT MATCHED", undefined, MergeInsertAction<["sku", "qty"]>>,
+    ]
+  >
+>
+type _P5 = RequireTrue<AssertEqual<P_Basic["returning"], undefined>>
+
+// Test: MERGE and MATCHED are case-insensitive, aliases without AS
+type P_Lower = Query<"merge into inventory t using incoming s on t.sku = s.sku when matched then delete">
+type _P6 = RequireTrue<AssertEqual<P_Lower["target"], TableRef<"inventory", "t", undefined>>>
+type _P7 = RequireTrue<
+  AssertEqual<P_Lower["when"], [MergeWhenClause<"MATCHED", undefined, MergeDeleteAction>]>
+>
+
+// Test: Schema-qualified target
+type P_Schema = Query<"MERGE INTO audit.events e USING events_staging s ON e.id = s.id WHEN MATCHED THEN DELETE">
+type _P8 = RequireTrue<AssertEqual<P_Schema["target"], TableRef<"events", "e", "audit">>>
+
+// ============================================================================
+// WHEN Clause Tests
+// ============================================================================
+
+// Test: AND conditions, DO NOTHING, NOT MATCHED BY TARGET / BY SOURCE
+type P_Kinds = Query<`
+  MERGE INTO inventory t USING incoming s ON t.sku = s.sku
+  WHEN MATCHED AND s.discontinued = TRUE THEN DELETE
+  WHEN MATCHED THEN DO NOTHING
+  WHEN NOT MATCHED BY TARGET AND s.qty > 0 THEN INSERT VALUES (s.sku, s.qty)
+  WHEN NOT MATCHED BY SOURCE THEN UPDATE SET qty = 0
+`>
+type _P9 = RequireTrue<
+  AssertEqual<
+    P_Kinds["when"][0],
+    MergeWhenClause<
+      "MATCHED",
+      ParsedCondition<[TableColumnRef<"s", "discontinued", undefined>]>,
+      MergeDeleteAction
+    >
+  >
+>
+type _P10 = RequireTrue<AssertEqual<P_Kinds["when"][1]["action"], MergeDoNothingAction>>
+type _P11 = RequireTrue<AssertEqual<P_Kinds["when"][2]["match"], "NOT MATCHED">>
+type _P12 = RequireTrue<AssertEqual<P_Kinds["when"][2]["action"]["columns"], undefined>>
+type _P13 = RequireTrue<AssertEqual<P_Kinds["when"][3]["match"], "NOT MATCHED BY SOURCE">>
+
+// Test: CASE inside an action does not end the WHEN clause
+type P_Case = Query<`
+  MERGE INTO inventory t USING incoming s ON t.sku = s.sku
+  WHEN MATCHED THEN UPDATE SET qty = CASE WHEN s.qty > 0 THEN s.qty ELSE 0 END
+`>
+type _P14 = RequireTrue<AssertEqual<P_Case["when"]["length"], 1>>
+
+// Test: Values are literals, parameters, column references or expressions;
+// function names are not column references
+type P_Values = Query<`
+  MERGE INTO inventory t USING incoming s ON t.sku = s.sku
+  WHEN MATCHED THEN UPDATE SET qty = t.qty + s.qty, note = 'synced', updated_at = now(), price = $1
+`>
+type P_Assignments = P_Values["when"][0]["action"]["assignments"]
+type _P15 = RequireTrue<
+  AssertEqual<
+    P_Assignments[0]["value"]["columnRefs"],
+    [TableColumnRef<"t", "qty", undefined>, TableColumnRef<"s", "qty", undefined>]
+  >
+>
+type _P16 = RequireTrue<
+  AssertEqual<P_Assignments[1]["value"], { readonly type: "Literal"; readonly value: "synced" }>
+>
+type _P17 = RequireTrue<AssertEqual<P_Assignments[2]["value"]["columnRefs"], []>>
+type _P18 = RequireTrue<AssertEqual<P_Assignments[3]["value"], { readonly type: "Param"; readonly name: "1" }>>
+
+// ============================================================================
+// Source Subquery Tests
+// ============================================================================
+
+// Test: A subquery source is parsed with the SELECT parser
+type P_Subquery = Query<`
+  MERGE INTO inventory t
+  USING (SELECT sku, SUM(qty) AS qty FROM incoming GROUP BY sku) AS s ON t.sku = s.sku
+  WHEN MATCHED THEN DELETE
+`>
+type _P19 = RequireTrue<AssertExtends<P_Subquery["source"], DerivedTableRef<any, "s">>>
+
+// ============================================================================
+// RETURNING Tests (PostgreSQL 17+)
+// ============================================================================
+
+// Test: merge_action(), alias.*, renamed columns
+type P_Returning = Query<`
+  MERGE INTO inventory t USING incoming s ON t.sku = s.sku
+  WHEN MATCHED THEN DELETE
+  RETURNING merge_action(), t.*, s.qty AS incoming_qty, t.sku
+`>
+type _P20 = RequireTrue<
+  AssertEqual<
+    P_Returning["returning"],
+    MergeReturningClause<
+      [
+        MergeActionRef<"merge_action">,
+        TableWildcard<"t", undefined>,
+        MergeReturningColumn<TableColumnRef<"s", "qty", undefined>, "incoming_qty">,
+        MergeReturningColumn<TableColumnRef<"t", "sku", undefined>, "sku">,
+      ]
+    >
+  >
+>
+
+// Test: RETURNING *
+type P_Star = Query<"MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN MATCHED THEN DELETE RETURNING *">
+type _P21 = RequireTrue<AssertEqual<P_Star["returning"], MergeReturningClause<"*">>>
+
+// ============================================================================
+// Router Tests
+// ============================================================================
+
+// Test: The router detects MERGE in any case
+type _P22 = RequireTrue<AssertEqual<DetectQueryType<typeof upsert>, "MERGE">>
+type _P23 = RequireTrue<AssertExtends<ParseSQL<"merge into t using s on t.id = s.id when matched then delete">, SQLMergeQuery>>
+
+// ============================================================================
+// Error Tests
+// ============================================================================
+
+// Test: Missing parts
+type _P24 = RequireTrue<AssertIsParseError<ParseMergeSQL<"MERGE inventory USING incoming ON true WHEN MATCHED THEN DELETE">>>
+type _P25 = RequireTrue<AssertIsParseError<ParseMergeSQL<"MERGE INTO inventory t USING incoming s ON t.sku = s.sku">>>
+type _P26 = RequireTrue<AssertIsParseError<ParseMergeSQL<"MERGE INTO inventory USING incoming WHEN MATCHED THEN DELETE">>>
+
+// Test: Actions not allowed for the match kind
+type P_BadInsert = ParseMergeSQL<"MERGE INTO t USING s ON t.id = s.id WHEN MATCHED THEN INSERT VALUES (1)">
+type _P27 = RequireTrue<AssertIsParseError<P_BadInsert>>
+type P_BadDelete = ParseMergeSQL<"MERGE INTO t USING s ON t.id = s.id WHEN NOT MATCHED THEN DELETE">
+type _P28 = RequireTrue<AssertIsParseError<P_BadDelete>>
+
+// Test: A source subquery needs an alias
+type P_NoAlias = ParseMergeSQL<"MERGE INTO t USING (SELECT id FROM s) ON t.id = id WHEN MATCHED THEN DELETE">
+type _P29 = RequireTrue<AssertIsParseError<P_NoAlias>>
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type MergeParserTestsPass = true
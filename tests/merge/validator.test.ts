@@ -0,0 +1,199 @@
+/**
+ * MERGE Validator Type Tests
+ *
+ * Tests for ValidateMergeSQL and related validation functionality.
+ * If this file compiles without errors, all tests pass.
+ */
+
+import type { ValidateMergeSQL, IsValidMerge } from "../../src/index.js"
+import type { AssertEqual, RequireTrue, RequireFalse } from "../helpers.js"
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type TestSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      inventory: {
+        id: { type: number; generated: "by default"; primaryKey: true }
+        sku: string
+        qty: number
+        note: string | null
+      }
+      incoming: {
+        sku: string
+        qty: number
+        discontinued: boolean
+      }
+    }
+    archive: {
+      inventory: {
+        sku: string
+        qty: number
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Valid MERGE Tests
+// ============================================================================
+
+// Test: Upsert with both tables visible in WHEN MATCHED
+type V_Upsert = ValidateMergeSQL<
+  `MERGE INTO inventory t USING incoming s ON t.sku = s.sku
+   WHEN MATCHED AND s.discontinued = TRUE THEN DELETE
+   WHEN MATCHED THEN UPDATE SET qty = t.qty + s.qty, note = 'synced'
+   WHEN NOT MATCHED THEN INSERT (sku, qty) VALUES (s.sku, s.qty)`,
+  TestSchema
+>
+type _V1 = RequireTrue<AssertEqual<V_Upsert, true>>
+
+// Test: NOT MATCHED BY SOURCE sees the target only
+type V_BySource = ValidateMergeSQL<
+  `MERGE INTO inventory t USING incoming s ON t.sku = s.sku
+   WHEN NOT MATCHED BY SOURCE AND t.qty > 0 THEN UPDATE SET qty = 0`,
+  TestSchema
+>
+type _V2 = RequireTrue<AssertEqual<V_BySource, true>>
+
+// Test: Schema-qualified target, subquery source, functions in values
+type V_Subquery = ValidateMergeSQL<
+  `MERGE INTO archive.inventory a
+   USING (SELECT sku, qty FROM incoming WHERE discontinued = TRUE) AS s ON a.sku = s.sku
+   WHEN MATCHED THEN UPDATE SET qty = coalesce(s.qty, 0)
+   WHEN NOT MATCHED THEN INSERT VALUES (s.sku, s.qty)`,
+  TestSchema
+>
+type _V3 = RequireTrue<AssertEqual<V_Subquery, true>>
+
+// Test: RETURNING with merge_action()
+type V_Returning = ValidateMergeSQL<
+  `MERGE INTO inventory t USING incoming s ON t.sku = s.sku
+   WHEN MATCHED THEN DELETE
+   RETURNING merge_action(), t.*, s.qty AS incoming_qty`,
+  TestSchema
+>
+type _V4 = RequireTrue<AssertEqual<V_Returning, true>>
+
+// ============================================================================
+// Table Error Tests
+// ============================================================================
+
+type V_NoTarget = ValidateMergeSQL<
+  "MERGE INTO stock t USING incoming s ON t.sku = s.sku WHEN MATCHED THEN DELETE",
+  TestSchema
+>
+type _V5 = RequireTrue<AssertEqual<V_NoTarget, "Table 'stock' not found in default schema 'public'">>
+
+type V_BadSubquery = ValidateMergeSQL<
+  "MERGE INTO inventory t USING (SELECT nope FROM incoming) s ON t.sku = s.sku WHEN MATCHED THEN DELETE",
+  TestSchema
+>
+type _V6 = RequireTrue<AssertEqual<V_BadSubquery, "Column 'nope' not found in any table">>
+
+// ============================================================================
+// Condition Error Tests
+// ============================================================================
+
+type V_BadOn = ValidateMergeSQL<
+  "MERGE INTO inventory t USING incoming s ON t.sku = s.code WHEN MATCHED THEN DELETE",
+  TestSchema
+>
+type _V7 = RequireTrue<AssertEqual<V_BadOn, "Column 'code' not found in 's'">>
+
+// Test: The target is not visible in WHEN NOT MATCHED
+type V_TargetInNotMatched = ValidateMergeSQL<
+  "MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN NOT MATCHED AND t.qty > 0 THEN DO NOTHING",
+  TestSchema
+>
+type _V8 = RequireTrue<AssertEqual<V_TargetInNotMatched, "Table or alias 't' not found in WHEN NOT MATCHED">>
+
+// Test: The source is not visible in WHEN NOT MATCHED BY SOURCE
+type V_SourceInBySource = ValidateMergeSQL<
+  "MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN NOT MATCHED BY SOURCE THEN UPDATE SET qty = s.qty",
+  TestSchema
+>
+type _V9 = RequireTrue<
+  AssertEqual<V_SourceInBySource, "Table or alias 's' not found in WHEN NOT MATCHED BY SOURCE">
+>
+
+// ============================================================================
+// Action Error Tests
+// ============================================================================
+
+type V_BadSet = ValidateMergeSQL<
+  "MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN MATCHED THEN UPDATE SET discontinued = s.discontinued",
+  TestSchema
+>
+type _V10 = RequireTrue<AssertEqual<V_BadSet, "Column 'discontinued' not found in table 'inventory'">>
+
+type V_MissingRequired = ValidateMergeSQL<
+  "MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN NOT MATCHED THEN INSERT (sku) VALUES (s.sku)",
+  TestSchema
+>
+type _V11 = RequireTrue<AssertEqual<V_MissingRequired, "Missing required column 'qty' for table 'inventory'">>
+
+type V_ValueCount = ValidateMergeSQL<
+  "MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN NOT MATCHED THEN INSERT (sku, qty) VALUES (s.sku)",
+  TestSchema
+>
+type _V12 = RequireTrue<AssertEqual<V_ValueCount, "Value count (1) does not match column count (2)">>
+
+// Test: Literal values are checked against the column type
+type V_BadLiteral = ValidateMergeSQL<
+  "MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN MATCHED THEN UPDATE SET qty = 'many'",
+  TestSchema
+>
+type _V13 = RequireTrue<AssertEqual<V_BadLiteral extends true ? false : true, true>>
+
+// ============================================================================
+// RETURNING Error Tests
+// ============================================================================
+
+type V_BadReturning = ValidateMergeSQL<
+  "MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN MATCHED THEN DELETE RETURNING s.nope",
+  TestSchema
+>
+type _V14 = RequireTrue<AssertEqual<V_BadReturning, "Column 'nope' not found in 's'">>
+
+// ============================================================================
+// Options Tests
+// ============================================================================
+
+// Test: Disabled checks skip their errors
+type V_NoActions = ValidateMergeSQL<
+  "MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN MATCHED THEN UPDATE SET discontinued = TRUE",
+  TestSchema,
+  { validateActions: false }
+>
+type _V15 = RequireTrue<AssertEqual<V_NoActions, true>>
+
+type V_NoConditions = ValidateMergeSQL<
+  "MERGE INTO inventory t USING incoming s ON t.sku = s.code WHEN MATCHED THEN DELETE",
+  TestSchema,
+  { validateConditions: false }
+>
+type _V16 = RequireTrue<AssertEqual<V_NoConditions, true>>
+
+// ============================================================================
+// Dynamic Query and IsValidMerge Tests
+// ============================================================================
+
+type V_Dynamic = ValidateMergeSQL<`MERGE INTO ${string} USING incoming s ON true WHEN MATCHED THEN DELETE`, TestSchema>
+type _V17 = RequireTrue<AssertEqual<V_Dynamic, true>>
+
+type _V18 = RequireTrue<
+  IsValidMerge<"MERGE INTO inventory t USING incoming s ON t.sku = s.sku WHEN MATCHED THEN DELETE", TestSchema>
+>
+type _V19 = RequireFalse<
+  IsValidMerge<"MERGE INTO inventory t USING incoming s ON t.nope = s.sku WHEN MATCHED THEN DELETE", TestSchema>
+>
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type MergeValidatorTestsPass = true
@@ -0,0 +1,202 @@
+/**
+ * Query Parameter Type Tests
+ *
+ * Tests for QueryParams inference of $1, $2, ... placeholder types.
+ * If this file compiles without errors, all type tests pass.
+ * bindNamedParams is checked at runtime (npm run test:runtime).
+ */
+
+import type { QueryParams } from "../src/index.js"
+import { bindNamedParams } from "../src/index.js"
+import type { AssertEqual, RequireTrue } from "./helpers.js"
+import { expectEqual, expectThrows } from "./helpers.js"
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type TestSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      users: {
+        id: { type: number; generated: "always" }
+        email: string
+        name: string | null
+        age: number | null
+      }
+      posts: {
+        id: number
+        author_id: number
+        title: string
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Comparison Tests
+// ============================================================================
+
+// Test: WHERE comparisons
+type P_Where = QueryParams<"SELECT * FROM users WHERE id = $1 AND email = $2", TestSchema>
+type _P1 = RequireTrue<AssertEqual<P_Where, [number, string]>>
+
+// Test: Nullable columns exclude null in comparisons
+type P_Nullable = QueryParams<"SELECT id FROM users WHERE age > $1", TestSchema>
+type _P2 = RequireTrue<AssertEqual<P_Nullable, [number]>>
+
+// Test: Aliases, JOIN ON, LIKE, LIMIT and OFFSET (out-of-order numbering)
+type P_Join = QueryParams<
+  "select u.id from users u join posts p on p.author_id=u.id where p.title like $2 and u.age > $1 limit $3 offset $4",
+  TestSchema
+>
+type _P3 = RequireTrue<AssertEqual<P_Join, [number, string, number, number]>>
+
+// Test: IN lists, BETWEEN, reversed operands and casts
+type P_Forms = QueryParams<
+  "SELECT id FROM users WHERE id IN ( $1 , $2 ) OR age BETWEEN $3 AND $4 OR $5 = email OR name = $6::int",
+  TestSchema
+>
+type _P4 = RequireTrue<AssertEqual<P_Forms, [number, number, number, number, string, number]>>
+
+// Test: HAVING comparisons
+type P_Having = QueryParams<
+  "SELECT author_id FROM posts GROUP BY author_id HAVING author_id <> $1",
+  TestSchema
+>
+type _P5 = RequireTrue<AssertEqual<P_Having, [number]>>
+
+// Test: Aggregates compared in HAVING
+type P_HavingAggregates = QueryParams<
+  "SELECT author_id FROM posts WHERE id > $1 GROUP BY author_id HAVING COUNT(*) > $3 AND SUM ( id ) < $2 AND $4 <= MAX ( title )",
+  TestSchema
+>
+type _P5b = RequireTrue<AssertEqual<P_HavingAggregates, [number, number, number, string]>>
+
+// ============================================================================
+// INSERT / UPDATE Tests
+// ============================================================================
+
+// Test: INSERT VALUES positions keep nullability
+type P_Insert = QueryParams<"INSERT INTO users ( email , name ) VALUES ( $1 , $2 )", TestSchema>
+type _P6 = RequireTrue<AssertEqual<P_Insert, [string, string | null]>>
+
+// Test: UPDATE SET assignments and WHERE
+type P_Update = QueryParams<"UPDATE users SET name = $1 , age = $2 WHERE id = $3", TestSchema>
+type _P7 = RequireTrue<AssertEqual<P_Update, [string | null, number | null, number]>>
+
+// Test: DELETE WHERE
+type P_Delete = QueryParams<"DELETE FROM posts WHERE author_id = $1", TestSchema>
+type _P8 = RequireTrue<AssertEqual<P_Delete, [number]>>
+
+// ============================================================================
+// Named Parameter Tests
+// ============================================================================
+
+// Test: Named parameters produce an object type
+type P_Named = QueryParams<"SELECT * FROM users WHERE id = :userId AND email = @email", TestSchema>
+type _P12 = RequireTrue<AssertEqual<P_Named, { userId: number; email: string }>>
+
+// Test: A name used several times is a single property
+type P_NamedRepeated = QueryParams<
+  "SELECT id FROM users WHERE age > $minAge OR ( id = :userId AND age <> :minAge ) LIMIT :limit",
+  TestSchema
+>
+type _P13 = RequireTrue<AssertEqual<P_NamedRepeated, { minAge: number; userId: number; limit: number }>>
+
+// Test: Named INSERT and UPDATE parameters
+type P_NamedInsert = QueryParams<"INSERT INTO users ( email , name ) VALUES ( :email , :name )", TestSchema>
+type _P14 = RequireTrue<AssertEqual<P_NamedInsert, { email: string; name: string | null }>>
+
+type P_NamedUpdate = QueryParams<"UPDATE users SET name = @name WHERE id = @id", TestSchema>
+type _P15 = RequireTrue<AssertEqual<P_NamedUpdate, { name: string | null; id: number }>>
+
+// Test: A name used several times takes the intersection of its types
+type P_NamedIntersect = QueryParams<
+  "UPDATE users SET name = :name WHERE email = :name",
+  TestSchema
+>
+type _P16 = RequireTrue<AssertEqual<P_NamedIntersect, { name: string }>>
+
+// Test: A name used with types that have no common value is an error
+type P_NamedConflict = QueryParams<"SELECT id FROM users WHERE id = :id OR email = :id", TestSchema>
+type _P17 = RequireTrue<
+  AssertEqual<P_NamedConflict, "[SQL Error] Parameter 'id' is used with conflicting types">
+>
+
+// Test: Positional parameters are checked the same way
+type P_PositionalConflict = QueryParams<"SELECT id FROM posts WHERE id = $1 OR title = $1", TestSchema>
+type _P18 = RequireTrue<
+  AssertEqual<P_PositionalConflict, "[SQL Error] Parameter '$1' is used with conflicting types">
+>
+
+// Test: Mixing positional and named parameters is an error
+type P_Mixed = QueryParams<"SELECT id FROM users WHERE email = :email AND id = $1", TestSchema>
+type _P19 = RequireTrue<
+  AssertEqual<P_Mixed, "[SQL Error] Cannot mix positional and named parameters">
+>
+
+// ============================================================================
+// Unknown Parameter Tests
+// ============================================================================
+
+// Test: No parameters
+type P_None = QueryParams<"SELECT id FROM users", TestSchema>
+type _P9 = RequireTrue<AssertEqual<P_None, []>>
+
+// Test: Untyped parameters and numbering gaps are unknown
+type P_Unknown = QueryParams<"SELECT id FROM users WHERE missing = $1 OR id = $3", TestSchema>
+type _P10 = RequireTrue<AssertEqual<P_Unknown, [unknown, unknown, number]>>
+
+// Test: Dynamic queries
+type P_Dynamic = QueryParams<string, TestSchema>
+type _P11 = RequireTrue<AssertEqual<P_Dynamic, unknown[]>>
+
+// ============================================================================
+// Runtime Binding Tests
+// ============================================================================
+
+// Test: Named parameters become positional, repeated names share a position
+expectEqual(
+  "bind repeated",
+  bindNamedParams("SELECT * FROM users WHERE id = :id OR parent_id = :id AND email = @email", {
+    id: 1,
+    email: "a@b.c",
+  }),
+  { sql: "SELECT * FROM users WHERE id = $1 OR parent_id = $1 AND email = $2", params: [1, "a@b.c"] },
+)
+
+// Test: Strings, comments and casts are left unchanged
+expectEqual(
+  "bind skips literals",
+  bindNamedParams("SELECT ':a' , name::text -- :b\nFROM users WHERE id = $id", { id: 2 }),
+  { sql: "SELECT ':a' , name::text -- :b\nFROM users WHERE id = $1", params: [2] },
+)
+
+// Test: Dollar-quoted strings are left unchanged
+expectEqual(
+  "bind skips dollar quotes",
+  bindNamedParams("SELECT $$a:b$$ , $fn$ :c $fn$ FROM users WHERE id = :id", { id: 3 }),
+  { sql: "SELECT $$a:b$$ , $fn$ :c $fn$ FROM users WHERE id = $1", params: [3] },
+)
+
+// Test: Only own properties are values
+expectThrows(
+  "bind prototype key",
+  () => bindNamedParams("SELECT id FROM users WHERE name = :toString", {}),
+  "Missing value for parameter 'toString'",
+)
+
+// Test: Mixing positional and named parameters
+expectThrows(
+  "bind mixed",
+  () => bindNamedParams("SELECT id FROM users WHERE id = $1 AND name = :name", { name: "a" }),
+  "Cannot mix positional parameter '$1' with named parameters",
+)
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type ParamsTestsPass = true
@@ -0,0 +1,17 @@
+/**
+ * SQL Type Parser - Runtime Tests
+ *
+ * Imports the test modules that contain runtime checks; each check throws
+ * on failure. Run with: npm run test:runtime
+ */
+
+import "./params.test.js"
+import "./db.test.js"
+import "./template.test.js"
+import "./common/builder-runtime.test.js"
+import "./select/builder-runtime.test.js"
+import "./insert/builder-runtime.test.js"
+import "./update/builder-runtime.test.js"
+import "./delete/builder-runtime.test.js"
+
+console.log("Runtime tests passed")
@@ -0,0 +1,67 @@
+/**
+ * SELECT Query Builder Runtime Tests
+ *
+ * Checks the SQL text assembled by createSelectQuery at runtime.
+ * Run with: npm run test:runtime
+ */
+
+import { createSelectQuery } from "../../src/index.js";
+import { expectEqual } from "../helpers.js";
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type TestSchema = {
+    defaultSchema: "public";
+    schemas: {
+        public: {
+            users: {
+                id: number;
+                email: string;
+            };
+            orders: {
+                id: number;
+                user_id: number;
+            };
+        };
+    };
+};
+
+const query = createSelectQuery<TestSchema>();
+
+// ============================================================================
+// Unions
+// ============================================================================
+
+// Test: The union comes before ORDER BY, LIMIT and OFFSET
+expectEqual(
+    "union before order by",
+    query
+        .from("users")
+        .select("id")
+        .orderBy("id")
+        .limit(10)
+        .offset(5)
+        .union(query.from("orders").select("user_id AS id"), "UNION ALL")
+        .toString(),
+    "SELECT id FROM users UNION ALL SELECT user_id AS id FROM orders ORDER BY id LIMIT 10 OFFSET 5",
+);
+
+// Test: Conditional parts are included only when the condition is true
+expectEqual(
+    "when",
+    query
+        .from("users")
+        .select("id")
+        .when(false, b => b.select("email"))
+        .when(true, b => b.where("id > 1"))
+        .toString(),
+    "SELECT id FROM users WHERE id > 1",
+);
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type BuilderRuntimeTestsPass = true;
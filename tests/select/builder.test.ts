@@ -0,0 +1,324 @@
+/**
+ * SELECT Query Builder Type Tests
+ *
+ * Tests for createSelectQuery state transitions, validation and result types.
+ * If this file compiles without errors, all tests pass.
+ */
+
+import type {
+    BuilderState,
+    ConditionTreeBuilder,
+    EmptyConditionTree,
+    BuildSelectSQL,
+    CanReplaceJoin,
+    ExtractError,
+    MatchError,
+    SelectBuilderResult,
+    SelectBuilderState,
+    SelectQueryBuilder,
+} from "../../src/index.js";
+import type { AssertEqual, RequireFalse, RequireTrue } from "../helpers.js";
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type TestSchema = {
+    defaultSchema: "public";
+    schemas: {
+        public: {
+            users: {
+                id: number;
+                name: string;
+                email: string;
+                status: "active" | "suspended";
+                active: boolean;
+                age: number;
+            };
+            orders: {
+                id: number;
+                user_id: number;
+                total: number;
+                notes: string | null;
+            };
+        };
+    };
+};
+
+declare const query: SelectQueryBuilder<TestSchema>;
+declare const dynamic: string;
+declare const conditions: ConditionTreeBuilder<EmptyConditionTree<"and">>;
+
+type Row<Builder> = SelectBuilderResult<Builder, TestSchema>;
+type SQLOf<Builder> = BuilderState<Builder> extends infer State extends SelectBuilderState
+    ? BuildSelectSQL<State>
+    : never;
+
+// ============================================================================
+// Basic Usage
+// ============================================================================
+
+// Test: select, where and limit
+const basic = query
+    .from("users")
+    .select([ "id", "name" ])
+    .where("active = true", "active_filter")
+    .limit(10);
+type _B1 = RequireTrue<AssertEqual<Row<typeof basic>, { id: number; name: string; }>>;
+type _B2 = RequireTrue<
+    AssertEqual<
+        SQLOf<typeof basic>,
+        "SELECT id, name FROM users WHERE active = true LIMIT 10"
+    >
+>;
+
+// Test: toString() carries the result type
+const basicSQL = basic.toString();
+type _B3 = RequireTrue<
+    AssertEqual<(typeof basicSQL)["__type"], { id: number; name: string; }>
+>;
+
+// Test: Without select() the query selects *
+const selectAll = query.from("orders");
+type _B4 = RequireTrue<
+    AssertEqual<
+        Row<typeof selectAll>,
+        { id: number; user_id: number; total: number; notes: string | null; }
+    >
+>;
+
+// Test: Multiple select calls are combined
+const multiSelect = query.from("users AS u").select("u.id").select("u.email AS mail");
+type _B5 = RequireTrue<
+    AssertEqual<Row<typeof multiSelect>, { id: number; mail: string; }>
+>;
+
+// ============================================================================
+// Clause Assembly
+// ============================================================================
+
+// Test: Clauses are assembled in SQL order, several conditions are ANDed
+const clauses = query
+    .from("users")
+    .orderBy("status DESC")
+    .select([ "status", "COUNT ( * ) AS total" ])
+    .where("age > 18")
+    .where("status = 'active' OR active = true")
+    .groupBy("status")
+    .having("COUNT ( * ) > 1")
+    .distinct(true)
+    .offset(20);
+type _B6 = RequireTrue<
+    AssertEqual<
+        SQLOf<typeof clauses>,
+        "SELECT DISTINCT status, COUNT ( * ) AS total FROM users WHERE ( age > 18 ) AND ( status = 'active' OR active = true ) GROUP BY status HAVING COUNT ( * ) > 1 ORDER BY status DESC OFFSET 20"
+    >
+>;
+type _B7 = RequireTrue<
+    AssertEqual<Row<typeof clauses>, { status: "active" | "suspended"; total: number; }>
+>;
+
+// ============================================================================
+// ID-based Replacement and Removal
+// ============================================================================
+
+// Test: A part with an existing ID is replaced in place
+const replaced = query
+    .from("users")
+    .select("id", "cols")
+    .select("age")
+    .select([ "name", "email" ], "cols");
+type _B8 = RequireTrue<
+    AssertEqual<SQLOf<typeof replaced>, "SELECT name, email, age FROM users">
+>;
+
+// Test: Removal by ID, removing a missing ID is a no-op
+const removed = query
+    .from("users")
+    .select("id")
+    .where("age > 18", "adults")
+    .where("active = true")
+    .removeWhere("adults")
+    .removeWhere("missing")
+    .limit(5)
+    .removeLimit();
+type _B9 = RequireTrue<
+    AssertEqual<SQLOf<typeof removed>, "SELECT id FROM users WHERE active = true">
+>;
+
+// Test: Join strictness ordering
+type _B10 = RequireTrue<CanReplaceJoin<"LEFT", "INNER">>;
+type _B11 = RequireTrue<CanReplaceJoin<"LEFT", "RIGHT">>;
+type _B12 = RequireFalse<CanReplaceJoin<"INNER", "LEFT">>;
+type _B13 = RequireFalse<CanReplaceJoin<"FULL", "CROSS">>;
+
+// Test: Loosening a join is a no-op, tightening replaces it
+const innerJoin = query
+    .from("users")
+    .join("INNER JOIN orders ON orders.user_id = users.id", "orders_join")
+    .select([ "users.id", "orders.total" ]);
+const loosened = innerJoin.join("LEFT JOIN orders ON orders.user_id = users.id", "orders_join");
+type _B14 = RequireTrue<AssertEqual<BuilderState<typeof loosened>, BuilderState<typeof innerJoin>>>;
+const tightened = query
+    .from("users")
+    .join("LEFT JOIN orders ON orders.user_id = users.id", "orders_join")
+    .select([ "users.id", "orders.total" ])
+    .join("INNER JOIN orders ON orders.user_id = users.id AND orders.id > 10", "orders_join");
+type _B15 = RequireTrue<
+    AssertEqual<
+        SQLOf<typeof tightened>,
+        "SELECT users.id, orders.total FROM users INNER JOIN orders ON orders.user_id = users.id AND orders.id > 10"
+    >
+>;
+type _B16 = RequireTrue<AssertEqual<Row<typeof tightened>, { id: number; total: number; }>>;
+
+// ============================================================================
+// Conditional Parts (.when)
+// ============================================================================
+
+// Test: Columns selected in .when() are optional keys typed T | undefined
+const conditional = query
+    .from("users")
+    .select("users.id")
+    .when(false, b => b.select("email"))
+    .when(true, b => b.join("LEFT JOIN orders ON orders.user_id = users.id"))
+    .when(true, b => b.select(`orders.id as "orderId"`));
+type _B17 = RequireTrue<
+    AssertEqual<
+        Row<typeof conditional>,
+        { id: number; email?: string | undefined; orderId?: number | null | undefined; }
+    >
+>;
+
+// Test: Columns of a table joined in .when() are optional keys typed T | undefined
+const conditionalJoin = query
+    .from("users")
+    .when(true, b => b.join("INNER JOIN orders AS o ON o.user_id = users.id"))
+    .select([ "users.name", "o.total" ]);
+type _B18 = RequireTrue<
+    AssertEqual<Row<typeof conditionalJoin>, { name: string; total?: number | undefined; }>
+>;
+
+// Test: .when() cannot be nested
+type NestedWhen = SelectQueryBuilder<TestSchema, BuilderState<typeof conditional>, true>["when"];
+type _B19 = RequireTrue<AssertEqual<NestedWhen, never>>;
+
+// ============================================================================
+// CTEs, Subqueries and Unions
+// ============================================================================
+
+// Test: CTE as a source table
+const withCTE = query
+    .with("active_users AS (SELECT * FROM users WHERE active = true)", "cte1")
+    .from("active_users AS au")
+    .select([ "au.id", "au.name" ])
+    .where("au.age > 30");
+type _B20 = RequireTrue<AssertEqual<Row<typeof withCTE>, { id: number; name: string; }>>;
+
+// Test: Subquery builder as a source table
+const subquery = query.from(query.from("users").select([ "id", "name" ]), "u").select("u.name");
+type _B21 = RequireTrue<AssertEqual<Row<typeof subquery>, { name: string; }>>;
+
+// Test: Union with another builder
+const union = query
+    .from("users")
+    .select("id")
+    .union(query.from("orders").select("user_id AS id"), "UNION ALL");
+type _B22 = RequireTrue<
+    AssertEqual<SQLOf<typeof union>, "SELECT id FROM users UNION ALL SELECT user_id AS id FROM orders">
+>;
+
+// Test: ORDER BY, LIMIT and OFFSET come after the union and apply to the combined result
+const orderedUnion = query
+    .from("users")
+    .select("id")
+    .orderBy("id")
+    .limit(10)
+    .offset(5)
+    .union(query.from("orders").select("user_id AS id"));
+type _B22b = RequireTrue<
+    AssertEqual<
+        SQLOf<typeof orderedUnion>,
+        "SELECT id FROM users UNION SELECT user_id AS id FROM orders ORDER BY id LIMIT 10 OFFSET 5"
+    >
+>;
+type _B22c = RequireTrue<AssertEqual<Row<typeof orderedUnion>, { id: number; }>>;
+
+// Test: The other side of a union cannot have ORDER BY, LIMIT or OFFSET
+const userIds = query.from("users").select("id");
+const limitedOrders = query.from("orders").select("user_id AS id").limit(1);
+type OrderedUnionArg = BuilderState<ReturnType<typeof userIds.union<typeof limitedOrders>>>;
+type _B22d = RequireTrue<
+    AssertEqual<ExtractError<OrderedUnionArg>, "Union query cannot have ORDER BY, LIMIT or OFFSET">
+>;
+
+// ============================================================================
+// Validation Errors
+// ============================================================================
+
+// Test: Unknown column puts the builder into ErrorState
+const users = query.from("users");
+type BadColumnArg = Parameters<typeof users.select<"bad", undefined>>[0];
+type _B23 = RequireTrue<
+    AssertEqual<BadColumnArg, "[Builder Error] Column 'bad' not found in any table">
+>;
+
+// Test: Columns cannot be selected before from()
+type EarlySelectArg = Parameters<typeof query.select<"id", undefined>>[0];
+type _B24 = RequireTrue<
+    AssertEqual<EarlySelectArg, "[Builder Error] Call from() before select()">
+>;
+
+// Test: ErrorState keeps the first error and toString() types it as MatchError
+declare const failed: ReturnType<typeof users.select<"bad", undefined>>;
+const afterError = failed.where("nope = 1").limit(1);
+type _B25 = RequireTrue<
+    AssertEqual<ExtractError<BuilderState<typeof afterError>>, "Column 'bad' not found in any table">
+>;
+type _B26 = RequireTrue<
+    AssertEqual<Row<typeof afterError>, MatchError<"Column 'bad' not found in any table">>
+>;
+
+// Test: Unknown table in a join
+type BadJoinArg = Parameters<typeof users.join<"JOIN nope ON nope.id = users.id", undefined>>[0];
+type _B27 = RequireTrue<
+    AssertEqual<BadJoinArg, "[Builder Error] Table 'nope' not found in default schema 'public'">
+>;
+
+// ============================================================================
+// Condition Trees
+// ============================================================================
+
+// Test: A condition tree is rendered into WHERE and validated there
+const tree = conditions.add("age > 18", "age_check").add("status = 'active'", "status_check");
+const treeWhere = query.from("users").where(tree);
+type _B30 = RequireTrue<
+    AssertEqual<SQLOf<typeof treeWhere>, "SELECT * FROM users WHERE (age > 18 AND status = 'active')">
+>;
+const badTree = conditions.or(b => b.add("users.id = 1").add("orders.id = 1"));
+type BadTreeArg = Parameters<typeof users.where<typeof badTree, undefined>>[0];
+type _B31 = RequireTrue<
+    AssertEqual<BadTreeArg, "[Builder Error] Table or alias 'orders' not found">
+>;
+
+// Test: An empty tree is skipped
+const emptyTree = query.from("users").having(conditions);
+type _B32 = RequireTrue<AssertEqual<SQLOf<typeof emptyTree>, "SELECT * FROM users">>;
+
+// ============================================================================
+// Dynamic Fragments
+// ============================================================================
+
+// Test: Words with template holes are stripped, fully dynamic fragments are skipped
+const dynamicParts = query
+    .from(`users ${dynamic}`)
+    .select("id")
+    .where(dynamic);
+type _B28 = RequireTrue<AssertEqual<SQLOf<typeof dynamicParts>, "SELECT id FROM users">>;
+type _B29 = RequireTrue<AssertEqual<Row<typeof dynamicParts>, { id: number; }>>;
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type BuilderTestsPass = true;
@@ -6,6 +6,8 @@
  */
 
 export type { ASTTestsPass } from "./ast.test.js";
+export type { BuilderRuntimeTestsPass } from "./builder-runtime.test.js";
+export type { BuilderTestsPass } from "./builder.test.js";
 export type { DynamicTestsPass } from "./dynamic.test.js";
 export type { MatcherTestsPass } from "./matcher.test.js";
 export type { ParserTestsPass } from "./parser.test.js";
@@ -16,6 +16,7 @@ import type {
 import type {
     AssertEqual,
     AssertExtends,
+    AssertIdentical,
     AssertIsMatchError,
     AssertNotMatchError,
     IsNever,
@@ -86,6 +87,15 @@ type CamelCaseTestSchema = {
     };
 };
 
+type FunctionsTestSchema = TestSchema & {
+    functions: {
+        "public.calc_discount": { params: [ number, number? ]; returns: number; };
+        "billing.tax_rate": { params: [ string ]; returns: number | null; };
+        active_user_ids: { params: []; returns: number; setReturning: true; };
+        lower: { params: [ string ]; returns: "lowered"; };
+    };
+};
+
 // ============================================================================
 // Basic Column Type Inference Tests
 // ============================================================================
@@ -231,7 +241,105 @@ type M_LeftJoin = QueryResult<
     TestSchema
 >;
 type _M17 = RequireTrue<
-    AssertEqual<M_LeftJoin, { name: string; title: string; }>
+    AssertEqual<M_LeftJoin, { name: string; title: string | null; }>
+>;
+
+// Test: RIGHT JOIN makes the left side nullable
+type M_RightJoin = QueryResult<
+    "SELECT u.name, p.title FROM users AS u RIGHT JOIN posts AS p ON u.id = p.author_id",
+    TestSchema
+>;
+type _M17a = RequireTrue<
+    AssertEqual<M_RightJoin, { name: string | null; title: string; }>
+>;
+
+// Test: FULL OUTER JOIN makes both sides nullable
+type M_FullJoin = QueryResult<
+    "SELECT u.name, p.title FROM users AS u FULL OUTER JOIN posts AS p ON u.id = p.author_id",
+    TestSchema
+>;
+type _M17b = RequireTrue<
+    AssertEqual<M_FullJoin, { name: string | null; title: string | null; }>
+>;
+
+// Test: LEFT JOIN nullability does not double up already nullable columns
+type M_LeftJoinNullable = QueryResult<
+    "SELECT p.published_at FROM users AS u LEFT OUTER JOIN posts AS p ON u.id = p.author_id",
+    TestSchema
+>;
+type _M17c = RequireTrue<
+    AssertEqual<M_LeftJoinNullable, { published_at: string | null; }>
+>;
+
+// Test: LEFT JOIN nullability applies to alias.* expansion
+type M_LeftJoinWildcard = QueryResult<
+    "SELECT u.id, c.* FROM users AS u LEFT JOIN comments AS c ON u.id = c.user_id",
+    TestSchema
+>;
+type _M17d = RequireTrue<
+    AssertEqual<
+        M_LeftJoinWildcard,
+        {
+            id: number;
+            post_id: number | null;
+            user_id: number | null;
+            content: string | null;
+            created_at: string | null;
+        }
+    >
+>;
+
+// Test: LEFT JOIN nullability applies to * expansion
+type M_LeftJoinStar = QueryResult<
+    "SELECT * FROM posts AS p LEFT JOIN comments AS c ON p.id = c.post_id",
+    TestSchema
+>;
+type _M17e = RequireTrue<AssertEqual<M_LeftJoinStar["title"], string>>;
+type _M17f = RequireTrue<
+    AssertEqual<M_LeftJoinStar["post_id"], number | null>
+>;
+
+// Test: RIGHT JOIN after INNER JOIN makes all earlier tables nullable
+type M_InnerThenRight = QueryResult<
+    `
+SELECT u.name, p.title, c.content
+FROM users AS u
+INNER JOIN posts AS p ON u.id = p.author_id
+RIGHT JOIN comments AS c ON p.id = c.post_id
+`,
+    TestSchema
+>;
+type _M17g = RequireTrue<
+    AssertEqual<
+        M_InnerThenRight,
+        { name: string | null; title: string | null; content: string; }
+    >
+>;
+
+// Test: SUM over an outer-joined numeric column is still numeric
+type M_LeftJoinSum = QueryResult<
+    "SELECT SUM ( p.views ) AS total FROM users AS u LEFT JOIN posts AS p ON u.id = p.author_id",
+    TestSchema
+>;
+type _M17h = RequireTrue<AssertEqual<M_LeftJoinSum, { total: number; }>>;
+
+// Test: SELECT * over a FULL JOIN is a single flat object type
+type M_FullJoinStar = QueryResult<
+    "SELECT * FROM audit.logs AS l FULL JOIN comments AS c ON l.id = c.id",
+    TestSchema
+>;
+type _M17i = RequireTrue<
+    AssertIdentical<
+        M_FullJoinStar,
+        {
+            id: number | null;
+            user_id: number | null;
+            action: string | null;
+            created_at: string | null;
+            post_id: number | null;
+            content: string | null;
+        }
+    >
 >;
 
 // Test: Multiple JOINs
@@ -359,6 +467,85 @@ INNER JOIN users AS u ON a.author_id = u.id
 >;
 type _M28 = RequireTrue<AssertEqual<M_CTEJoin, { name: string; }>>;
 
+// Test: Data-modifying CTE columns come from its RETURNING list
+type M_DeleteCTE = QueryResult<
+    `
+WITH removed AS (
+  DELETE FROM comments WHERE post_id = 1 RETURNING *
+)
+SELECT r.id, r.content FROM removed AS r
+`,
+    TestSchema
+>;
+type _M28a = RequireTrue<AssertEqual<M_DeleteCTE, { id: number; content: string; }>>;
+
+// Test: RETURNING aliases and qualified columns in UPDATE / INSERT CTEs
+type M_UpdateCTE = QueryResult<
+    `
+WITH published AS (
+  UPDATE posts AS p SET status = 'published' WHERE p.id = 1 RETURNING p.id AS post_id, status
+),
+logged AS (
+  INSERT INTO audit.logs (user_id, action) VALUES (NULL, 'publish') RETURNING id, user_id
+)
+SELECT published.post_id, published.status, logged.user_id
+FROM published
+CROSS JOIN logged
+`,
+    TestSchema
+>;
+type _M28b = RequireTrue<
+    AssertEqual<
+        M_UpdateCTE,
+        { post_id: number; status: "draft" | "published"; user_id: number | null; }
+    >
+>;
+
+// Test: Recursive CTE is typed from its anchor member, renamed by its column list,
+// with literal columns widened
+type M_RecursiveCTE = QueryResult<
+    `
+WITH RECURSIVE thread(comment_id, depth) AS (
+  SELECT id, 1 FROM comments WHERE post_id = 1
+  UNION ALL
+  SELECT c.id, t.depth + 1 FROM comments AS c INNER JOIN thread AS t ON c.post_id = t.comment_id
+)
+SELECT * FROM thread
+`,
+    TestSchema
+>;
+type _M28c = RequireTrue<AssertEqual<M_RecursiveCTE, { comment_id: number; depth: number; }>>;
+
+// Test: Aliased literal columns of the anchor are widened as well
+type M_RecursiveCTEAliases = QueryResult<
+    `
+WITH RECURSIVE thread AS (
+  SELECT id, 0 AS depth, 'root' AS kind, TRUE AS top FROM comments WHERE post_id = 1
+  UNION ALL
+  SELECT c.id, t.depth + 1, 'reply', FALSE FROM comments AS c INNER JOIN thread AS t ON c.post_id = t.id
+)
+SELECT id, depth, kind, top FROM thread
+`,
+    TestSchema
+>;
+type _M28f = RequireTrue<
+    AssertEqual<M_RecursiveCTEAliases, { id: number; depth: number; kind: string; top: boolean; }>
+>;
+
+// Test: Columns past the end of the column list keep their names
+type M_PartialColumnList = QueryResult<
+    "WITH named(user_id) AS ( SELECT id, name FROM users ) SELECT * FROM named",
+    TestSchema
+>;
+type _M28d = RequireTrue<AssertEqual<M_PartialColumnList, { user_id: number; name: string; }>>;
+
+// Test: More names than columns
+type M_TooManyNames = QueryResult<
+    "WITH named(a, b) AS ( SELECT id FROM users ) SELECT * FROM named",
+    TestSchema
+>;
+type _M28e = RequireTrue<AssertIsMatchError<M_TooManyNames>>;
+
 // ============================================================================
 // Derived Table Tests
 // ============================================================================
@@ -574,8 +761,8 @@ type _M44 = RequireTrue<
             id: number;
             name: string;
             email: string;
-            post_count: number;
-            total_views: number;
+            post_count: number | null;
+            total_views: number | null;
         }
     >
 >;
@@ -736,14 +923,15 @@ type _VQ2 = RequireTrue<AssertExtends<VQ_Invalid, string>>;
 // ============================================================================
 // PostgreSQL Function Tests
 // ============================================================================
-// Functions resolve to `unknown` by default, unless type-casted.
+// Built-in functions are typed from the function catalog; other functions
+// resolve to `unknown` unless type-casted.
 
-// Test: length() function returns unknown by default
+// Test: length() function returns number
 type M_LengthFunc = QueryResult<
     "SELECT length ( name ) AS name_len FROM users",
     TestSchema
 >;
-type _F1 = RequireTrue<AssertEqual<M_LengthFunc, { name_len: unknown; }>>;
+type _F1 = RequireTrue<AssertEqual<M_LengthFunc, { name_len: number; }>>;
 
 // Test: length() with type cast returns the casted type
 type M_LengthFuncCast = QueryResult<
@@ -752,12 +940,12 @@ type M_LengthFuncCast = QueryResult<
 >;
 type _F2 = RequireTrue<AssertEqual<M_LengthFuncCast, { name_len: number; }>>;
 
-// Test: concat() function returns unknown by default
+// Test: concat() function returns string
 type M_ConcatFunc = QueryResult<
     "SELECT concat ( name, ' ', email ) AS full_info FROM users",
     TestSchema
 >;
-type _F3 = RequireTrue<AssertEqual<M_ConcatFunc, { full_info: unknown; }>>;
+type _F3 = RequireTrue<AssertEqual<M_ConcatFunc, { full_info: string; }>>;
 
 // Test: concat() with type cast returns string
 type M_ConcatFuncCast = QueryResult<
@@ -780,12 +968,12 @@ type M_SplitPartFuncCast = QueryResult<
 >;
 type _F6 = RequireTrue<AssertEqual<M_SplitPartFuncCast, { username: string; }>>;
 
-// Test: coalesce() function returns unknown
+// Test: coalesce() function returns the first non-nullable argument type
 type M_CoalesceFunc = QueryResult<
     "SELECT coalesce ( deleted_at, created_at ) AS date FROM users",
     TestSchema
 >;
-type _F7 = RequireTrue<AssertEqual<M_CoalesceFunc, { date: unknown; }>>;
+type _F7 = RequireTrue<AssertEqual<M_CoalesceFunc, { date: string; }>>;
 
 // Test: coalesce() with type cast
 type M_CoalesceFuncCast = QueryResult<
@@ -794,12 +982,12 @@ type M_CoalesceFuncCast = QueryResult<
 >;
 type _F8 = RequireTrue<AssertEqual<M_CoalesceFuncCast, { date: string; }>>;
 
-// Test: upper() function returns unknown
+// Test: upper() function returns string
 type M_UpperFunc = QueryResult<
     "SELECT upper ( name ) /*comment*/ AS upper_name FROM users",
     TestSchema
 >;
-type _F9 = RequireTrue<AssertEqual<M_UpperFunc, { upper_name: unknown; }>>;
+type _F9 = RequireTrue<AssertEqual<M_UpperFunc, { upper_name: string; }>>;
 
 // Test: upper() with type cast
 type M_UpperFuncCast = QueryResult<
@@ -808,12 +996,12 @@ type M_UpperFuncCast = QueryResult<
 >;
 type _F10 = RequireTrue<AssertEqual<M_UpperFuncCast, { upper_name: string; }>>;
 
-// Test: lower() function returns unknown
+// Test: lower() function returns string
 type M_LowerFunc = QueryResult<
     "SELECT lower ( email ) AS lower_email FROM users",
     TestSchema
 >;
-type _F11 = RequireTrue<AssertEqual<M_LowerFunc, { lower_email: unknown; }>>;
+type _F11 = RequireTrue<AssertEqual<M_LowerFunc, { lower_email: string; }>>;
 
 // Test: substring() function returns unknown
 type M_SubstringFunc = QueryResult<
@@ -831,12 +1019,12 @@ type _F13 = RequireTrue<
     AssertEqual<M_SubstringFuncCast, { short_name: string; }>
 >;
 
-// Test: now() function (no arguments) returns unknown
+// Test: now() function (no arguments) returns string
 type M_NowFunc = QueryResult<
     "SELECT now ( ) AS current_time FROM users",
     TestSchema
 >;
-type _F14 = RequireTrue<AssertEqual<M_NowFunc, { current_time: unknown; }>>;
+type _F14 = RequireTrue<AssertEqual<M_NowFunc, { current_time: string; }>>;
 
 // Test: now() with type cast
 type M_NowFuncCast = QueryResult<
@@ -926,12 +1114,12 @@ type _F26 = RequireTrue<
     AssertEqual<M_StringAggFuncCast, { all_names: string; }>
 >;
 
-// Test: abs() function returns unknown
+// Test: abs() function returns number
 type M_AbsFunc = QueryResult<
     "SELECT abs ( views ) AS abs_views FROM posts",
     TestSchema
 >;
-type _F27 = RequireTrue<AssertEqual<M_AbsFunc, { abs_views: unknown; }>>;
+type _F27 = RequireTrue<AssertEqual<M_AbsFunc, { abs_views: number; }>>;
 
 // Test: abs() with type cast returns number
 type M_AbsFuncCast = QueryResult<
@@ -940,12 +1128,12 @@ type M_AbsFuncCast = QueryResult<
 >;
 type _F28 = RequireTrue<AssertEqual<M_AbsFuncCast, { abs_views: number; }>>;
 
-// Test: round() function returns unknown
+// Test: round() function returns number
 type M_RoundFunc = QueryResult<
     "SELECT round ( views / 10.0, 2 ) AS rounded_views FROM posts",
     TestSchema
 >;
-type _F29 = RequireTrue<AssertEqual<M_RoundFunc, { rounded_views: unknown; }>>;
+type _F29 = RequireTrue<AssertEqual<M_RoundFunc, { rounded_views: number; }>>;
 
 // Test: round() with type cast
 type M_RoundFuncCast = QueryResult<
@@ -968,12 +1156,12 @@ type _F31 = RequireTrue<
     >
 >;
 
-// Test: Nested functions return unknown
+// Test: Nested functions are typed by the outer function
 type M_NestedFuncs = QueryResult<
     "SELECT upper ( trim ( name ) ) AS cleaned_name FROM users",
     TestSchema
 >;
-type _F32 = RequireTrue<AssertEqual<M_NestedFuncs, { cleaned_name: unknown; }>>;
+type _F32 = RequireTrue<AssertEqual<M_NestedFuncs, { cleaned_name: string; }>>;
 
 // Test: Nested functions with type cast
 type M_NestedFuncsCast = QueryResult<
@@ -1040,12 +1228,12 @@ type M_CastToInt = QueryResult<
 >;
 type _F38c = RequireTrue<AssertEqual<M_CastToInt, { name_num: number; }>>;
 
-// Test: to_char() function returns unknown
+// Test: to_char() function returns string
 type M_ToCharFunc = QueryResult<
     "SELECT to_char ( created_at, 'YYYY-MM-DD' ) AS date_str FROM users",
     TestSchema
 >;
-type _F39 = RequireTrue<AssertEqual<M_ToCharFunc, { date_str: unknown; }>>;
+type _F39 = RequireTrue<AssertEqual<M_ToCharFunc, { date_str: string; }>>;
 
 // Test: to_char() with type cast
 type M_ToCharFuncCast = QueryResult<
@@ -1188,26 +1376,26 @@ type _PP3 = RequireTrue<
 // Function Call Type Inference Tests
 // ============================================================================
 
-// Test: now() returns unknown
+// Test: now() returns string
 type M_FuncNow = QueryResult<
     "SELECT now ( ) AS created_at FROM users",
     TestSchema
 >;
-type _FN1 = RequireTrue<AssertEqual<M_FuncNow, { created_at: unknown; }>>;
+type _FN1 = RequireTrue<AssertEqual<M_FuncNow, { created_at: string; }>>;
 
-// Test: concat() returns unknown
+// Test: concat() returns string
 type M_FuncConcat2 = QueryResult<
     "SELECT concat ( 'a' , 'b' ) AS combined FROM users",
     TestSchema
 >;
-type _FN2 = RequireTrue<AssertEqual<M_FuncConcat2, { combined: unknown; }>>;
+type _FN2 = RequireTrue<AssertEqual<M_FuncConcat2, { combined: string; }>>;
 
 // Test: Function with column argument validates the column
 type M_FuncWithCol = QueryResult<
     "SELECT upper ( name ) AS upper_name FROM users",
     TestSchema
 >;
-type _FN3 = RequireTrue<AssertEqual<M_FuncWithCol, { upper_name: unknown; }>>;
+type _FN3 = RequireTrue<AssertEqual<M_FuncWithCol, { upper_name: string; }>>;
 
 // Test: Function with type cast returns cast type
 type M_FuncCast = QueryResult<
@@ -1223,6 +1411,113 @@ type V_FuncInvalidCol2 = ValidateSQL<
 >;
 type _FN5 = RequireTrue<AssertExtends<V_FuncInvalidCol2, string>>;
 
+// Test: COALESCE with a non-nullable fallback is not nullable
+type M_FuncCoalesce = QueryResult<
+    "SELECT COALESCE ( u.deleted_at, u.name ) AS display FROM users AS u",
+    TestSchema
+>;
+type _FN6 = RequireTrue<AssertEqual<M_FuncCoalesce, { display: string; }>>;
+
+// Test: COALESCE keeps literal fallback types
+type M_FuncCoalesceLiteral = QueryResult<
+    "SELECT coalesce ( p.published_at, 'never' ) AS published FROM posts AS p",
+    TestSchema
+>;
+type _FN7 = RequireTrue<
+    AssertEqual<M_FuncCoalesceLiteral, { published: string; }>
+>;
+
+// Test: Null propagates through string functions
+type M_FuncNullable = QueryResult<
+    "SELECT lower ( deleted_at ) AS lowered, length ( deleted_at ) AS len FROM users",
+    TestSchema
+>;
+type _FN8 = RequireTrue<
+    AssertEqual<M_FuncNullable, { lowered: string | null; len: number | null; }>
+>;
+
+// Test: NULLIF is nullable
+type M_FuncNullif = QueryResult<
+    "SELECT nullif ( views, 0 ) AS views FROM posts",
+    TestSchema
+>;
+type _FN9 = RequireTrue<AssertEqual<M_FuncNullif, { views: number | null; }>>;
+
+// Test: Date functions
+type M_FuncDates = QueryResult<
+    "SELECT date_trunc ( 'day', created_at ) AS day, extract ( year from deleted_at ) AS deleted_year FROM users",
+    TestSchema
+>;
+type _FN10 = RequireTrue<
+    AssertEqual<M_FuncDates, { day: string; deleted_year: number | null; }>
+>;
+
+// Test: GREATEST / LEAST return the union of argument types
+type M_FuncGreatest = QueryResult<
+    "SELECT greatest ( views, 1 ) AS at_least_one, least ( id, author_id ) AS smallest FROM posts",
+    TestSchema
+>;
+type _FN11 = RequireTrue<
+    AssertEqual<M_FuncGreatest, { at_least_one: number; smallest: number; }>
+>;
+
+// Test: Nested built-in functions
+type M_FuncNested = QueryResult<
+    "SELECT upper ( coalesce ( deleted_at, 'active' ) ) AS state FROM users",
+    TestSchema
+>;
+type _FN12 = RequireTrue<AssertEqual<M_FuncNested, { state: string; }>>;
+
+// Test: Functions outside the catalog return unknown
+type M_FuncUnknown = QueryResult<
+    "SELECT split_part ( email, '@', 2 ) AS domain FROM users",
+    TestSchema
+>;
+type _FN13 = RequireTrue<AssertEqual<M_FuncUnknown, { domain: unknown; }>>;
+
+// Test: Function used inside a larger expression returns unknown
+type M_FuncInArithmetic = QueryResult<
+    "SELECT length ( name ) + 1 AS len FROM users",
+    TestSchema
+>;
+type _FN14 = RequireTrue<AssertEqual<M_FuncInArithmetic, { len: unknown; }>>;
+
+// Test: User-defined functions are typed from the schema declaration
+type M_UserFunc = QueryResult<
+    "SELECT calc_discount ( views ) AS discount, public.calc_discount ( views, 5 ) AS qualified FROM posts",
+    FunctionsTestSchema
+>;
+type _FN15 = RequireTrue<
+    AssertEqual<M_UserFunc, { discount: number; qualified: number; }>
+>;
+
+// Test: Functions in other schemas are typed by their qualified name
+type M_UserFuncOtherSchema = QueryResult<
+    "SELECT billing.tax_rate ( role ) AS rate FROM users",
+    FunctionsTestSchema
+>;
+type _FN16 = RequireTrue<
+    AssertEqual<M_UserFuncOtherSchema, { rate: number | null; }>
+>;
+
+// Test: Set-returning functions are typed by their element type
+type M_UserFuncSetReturning = QueryResult<
+    "SELECT active_user_ids ( ) AS user_id FROM users",
+    FunctionsTestSchema
+>;
+type _FN17 = RequireTrue<
+    AssertEqual<M_UserFuncSetReturning, { user_id: number; }>
+>;
+
+// Test: Declared functions take precedence over built-ins
+type M_UserFuncOverride = QueryResult<
+    "SELECT LOWER ( name ) AS lowered FROM users",
+    FunctionsTestSchema
+>;
+type _FN18 = RequireTrue<
+    AssertEqual<M_UserFuncOverride, { lowered: "lowered"; }>
+>;
+
 // ============================================================================
 // Arithmetic Expression Type Inference Tests
 // ============================================================================
@@ -1332,7 +1627,7 @@ type M_ConstantInFunc = QueryResult<
     "SELECT concat ( '1' , '2' , current_date ) AS result FROM users",
     TestSchema
 >;
-type _SC12 = RequireTrue<AssertEqual<M_ConstantInFunc, { result: unknown; }>>;
+type _SC12 = RequireTrue<AssertEqual<M_ConstantInFunc, { result: string; }>>;
 
 // Test: SQL constants in function calls with uppercase
 type M_ConstantInFuncUpper = QueryResult<
@@ -1340,7 +1635,7 @@ type M_ConstantInFuncUpper = QueryResult<
     TestSchema
 >;
 type _SC13 = RequireTrue<
-    AssertEqual<M_ConstantInFuncUpper, { result: unknown; }>
+    AssertEqual<M_ConstantInFuncUpper, { result: string; }>
 >;
 
 // ============================================================================
@@ -1584,6 +1879,188 @@ type _NF6 = RequireTrue<
     AssertEqual<M_LowerNulls, { id: number; name: string; }>
 >;
 
+// ============================================================================
+// Window Function Tests
+// ============================================================================
+
+// Test: Ranking window functions return number
+type M_WindowRank = QueryResult<
+    "SELECT id, ROW_NUMBER() OVER (PARTITION BY author_id ORDER BY views DESC) AS rn, RANK() OVER (ORDER BY views) AS r, DENSE_RANK() OVER (ORDER BY views) AS dr FROM posts",
+    TestSchema
+>;
+type _W1 = RequireTrue<
+    AssertEqual<M_WindowRank, { id: number; rn: number; r: number; dr: number; }>
+>;
+
+// Test: Window function without alias uses function name
+type M_WindowDefaultAlias = QueryResult<
+    "SELECT row_number() OVER (ORDER BY id) FROM posts",
+    TestSchema
+>;
+type _W2 = RequireTrue<
+    AssertEqual<M_WindowDefaultAlias, { row_number: number; }>
+>;
+
+// Test: LAG / LEAD are nullable, FIRST_VALUE keeps the column type
+type M_WindowOffset = QueryResult<
+    "SELECT LAG(views, 1) OVER (ORDER BY id) AS prev_views, LEAD(title) OVER (ORDER BY id) AS next_title, FIRST_VALUE(title) OVER (PARTITION BY author_id ORDER BY id) AS first_title FROM posts",
+    TestSchema
+>;
+type _W3 = RequireTrue<
+    AssertEqual<
+        M_WindowOffset,
+        {
+            prev_views: number | null;
+            next_title: string | null;
+            first_title: string;
+        }
+    >
+>;
+
+// Test: Aggregates with OVER and a frame clause
+type M_WindowAggregate = QueryResult<
+    "SELECT id, SUM(views) OVER (PARTITION BY author_id ORDER BY id ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW) AS running_views, COUNT(*) OVER (PARTITION BY author_id) AS author_posts FROM posts",
+    TestSchema
+>;
+type _W4 = RequireTrue<
+    AssertEqual<
+        M_WindowAggregate,
+        { id: number; running_views: number; author_posts: number; }
+    >
+>;
+
+// Test: Named windows from the WINDOW clause
+type M_WindowNamed = QueryResult<
+    "SELECT id, ROW_NUMBER() OVER w AS rn, LAG(views) OVER (w) AS prev_views FROM posts WINDOW w AS (PARTITION BY author_id ORDER BY id)",
+    TestSchema
+>;
+type _W5 = RequireTrue<
+    AssertEqual<
+        M_WindowNamed,
+        { id: number; rn: number; prev_views: number | null; }
+    >
+>;
+
+// Test: Lowercase window syntax
+type M_WindowLowercase = QueryResult<
+    "select id, lead(views) over (partition by author_id order by id rows between current row and unbounded following) as next_views from posts",
+    TestSchema
+>;
+type _W7 = RequireTrue<
+    AssertEqual<M_WindowLowercase, { id: number; next_views: number | null; }>
+>;
+
+// Test: Window function over an unknown column is an error
+type M_WindowBadColumn = QueryResult<
+    "SELECT LAG(bogus) OVER (ORDER BY id) AS prev FROM posts",
+    TestSchema
+>;
+type M_WindowBadColumn_IsError = M_WindowBadColumn extends
+    { prev: MatchError<string>; } ? true : false;
+type _W6 = RequireTrue<M_WindowBadColumn_IsError>;
+
+// ============================================================================
+// CASE Expression Tests
+// ============================================================================
+
+// Test: Searched CASE with literal branches keeps literal types
+type M_CaseLiterals = QueryResult<
+    "SELECT id, CASE WHEN views > 100 THEN 'popular' ELSE 'niche' END AS tier FROM posts",
+    TestSchema
+>;
+type _CE1 = RequireTrue<
+    AssertEqual<M_CaseLiterals, { id: number; tier: "popular" | "niche"; }>
+>;
+
+// Test: Missing ELSE adds null
+type M_CaseNoElse = QueryResult<
+    "SELECT CASE WHEN views > 100 THEN 1 WHEN views > 10 THEN 2 END AS score FROM posts",
+    TestSchema
+>;
+type _CE2 = RequireTrue<
+    AssertEqual<M_CaseNoElse, { score: 1 | 2 | null; }>
+>;
+
+// Test: Simple CASE resolves column branches
+type M_CaseColumns = QueryResult<
+    "SELECT CASE p.status WHEN 'draft' THEN p.title ELSE p.published_at END AS label FROM posts AS p",
+    TestSchema
+>;
+type _CE3 = RequireTrue<
+    AssertEqual<M_CaseColumns, { label: string | null; }>
+>;
+
+// Test: CASE without alias is named "case"
+type M_CaseDefaultAlias = QueryResult<
+    "select case when views > 0 then true else false end from posts",
+    TestSchema
+>;
+type _CE4 = RequireTrue<
+    AssertEqual<M_CaseDefaultAlias, { case: boolean; }>
+>;
+
+// Test: Nested CASE
+type M_CaseNested = QueryResult<
+    "SELECT CASE WHEN views > 100 THEN CASE WHEN views > 1000 THEN 'viral' ELSE 'popular' END ELSE 'niche' END AS tier FROM posts",
+    TestSchema
+>;
+type _CE5 = RequireTrue<
+    AssertEqual<M_CaseNested, { tier: "viral" | "popular" | "niche"; }>
+>;
+
+// Test: Unknown column in a THEN branch is an error
+type M_CaseBadColumn = QueryResult<
+    "SELECT CASE WHEN views > 100 THEN bogus ELSE 'niche' END AS tier FROM posts",
+    TestSchema
+>;
+type M_CaseBadColumn_IsError = M_CaseBadColumn extends
+    { tier: MatchError<string>; } ? true : false;
+type _CE6 = RequireTrue<M_CaseBadColumn_IsError>;
+
+// ============================================================================
+// Column Descriptor Tests
+// ============================================================================
+
+type DescriptorSchema = {
+    defaultSchema: "public";
+    schemas: {
+        public: {
+            accounts: {
+                id: { type: number; generated: "always"; primaryKey: true; };
+                email: string;
+                status: { type: "active" | "disabled"; default: true; };
+            };
+        };
+    };
+};
+
+// Test: Descriptors are unwrapped to their value types
+type M_DescriptorColumns = QueryResult<
+    "SELECT id, status FROM accounts",
+    DescriptorSchema
+>;
+type _CD1 = RequireTrue<
+    AssertEqual<M_DescriptorColumns, { id: number; status: "active" | "disabled"; }>
+>;
+
+// Test: SELECT * unwraps descriptors
+type M_DescriptorStar = QueryResult<"SELECT * FROM accounts", DescriptorSchema>;
+type _CD2 = RequireTrue<
+    AssertEqual<
+        M_DescriptorStar,
+        { id: number; email: string; status: "active" | "disabled"; }
+    >
+>;
+
+// Test: Schema-qualified column reference
+type M_DescriptorQualified = QueryResult<
+    "SELECT public.accounts.status AS s FROM accounts",
+    DescriptorSchema
+>;
+type _CD3 = RequireTrue<
+    AssertEqual<M_DescriptorQualified, { s: "active" | "disabled"; }>
+>;
+
 // ============================================================================
 // Export for verification
 // ============================================================================
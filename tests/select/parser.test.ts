@@ -21,10 +21,20 @@ import type {
     OrderByItem,
     AggregateExpr,
     CTEDefinition,
+    DataModifyingQuery,
+    UnionClause,
     UnparsedExpr,
     ParsedCondition,
     ParseError,
     SQLConstantExpr,
+    WindowExpr,
+    WindowSpec,
+    WindowDefinition,
+    CaseExpr,
+    CaseWhen,
+    LiteralExpr,
+    FunctionCall,
+    LiteralValue,
 } from "../../src/index.js"
 import type { AssertEqual, AssertExtends, RequireTrue, AssertIsParseError } from "../helpers.js"
 
@@ -524,6 +534,105 @@ type P_NoCTE_Check = P_NoCTE extends SQLSelectQuery<infer Q>
     : false
 type _P48 = RequireTrue<P_NoCTE_Check>
 
+// Test: Data-modifying CTE keeps the target table and the RETURNING list as a SELECT
+type P_DeleteCTE = ParseSQL<`
+  WITH moved AS (
+    DELETE FROM queue q WHERE q.attempts > 3 RETURNING q.id, payload
+  )
+  SELECT * FROM moved
+`>
+type P_DeleteCTE_Query = P_DeleteCTE extends SQLSelectQuery<infer Q>
+    ? Q extends { ctes: [CTEDefinition<"moved", infer CTEQuery>] } ? CTEQuery : never
+    : never
+type _PDM1 = RequireTrue<AssertExtends<P_DeleteCTE_Query, DataModifyingQuery<"DELETE", TableRef<"queue", "q", undefined>>>>
+type _PDM2 = RequireTrue<
+    AssertEqual<
+        P_DeleteCTE_Query["returning"]["columns"],
+        [
+            ColumnRef<TableColumnRef<"q", "id", undefined>, "id">,
+            ColumnRef<UnboundColumnRef<"payload">, "payload">,
+        ]
+    >
+>
+
+// Test: UPDATE and INSERT CTE targets, CTE without RETURNING
+type P_DMLCTEs = ParseSQL<`
+  WITH
+    upd AS (UPDATE jobs AS j SET status = 'done' WHERE j.id = 1 RETURNING *),
+    ins AS (INSERT INTO audit.logs AS l (action) VALUES ('done') RETURNING l.id),
+    del AS (DELETE FROM sessions WHERE expired = TRUE)
+  SELECT * FROM upd
+`>
+type P_DMLCTEs_Check = P_DMLCTEs extends SQLSelectQuery<infer Q>
+    ? Q extends {
+        ctes: [
+            CTEDefinition<"upd", DataModifyingQuery<"UPDATE", TableRef<"jobs", "j", undefined>, SelectClause<"*">>>,
+            CTEDefinition<"ins", DataModifyingQuery<"INSERT", TableRef<"logs", "l", "audit">, SelectClause>>,
+            CTEDefinition<"del", DataModifyingQuery<"DELETE", TableRef<"sessions", "sessions", undefined>, undefined>>,
+        ]
+    }
+    ? true
+    : false
+    : false
+type _PDM3 = RequireTrue<P_DMLCTEs_Check>
+
+// Test: Invalid data-modifying CTE
+type _PDM4 = RequireTrue<AssertIsParseError<ParseSQL<"WITH d AS (DELETE queue RETURNING id) SELECT * FROM d">>>
+
+// Test: WITH RECURSIVE with a column list keeps both members of the union
+type P_RecursiveCTE = ParseSQL<`
+  WITH RECURSIVE tree(id, parent_id, depth) AS (
+    SELECT id, parent_id, 1 FROM categories WHERE parent_id IS NULL
+    UNION ALL
+    SELECT c.id, c.parent_id, t.depth + 1 FROM categories c JOIN tree t ON c.parent_id = t.id
+  )
+  SELECT * FROM tree
+`>
+type P_RecursiveCTE_Check = P_RecursiveCTE extends SQLSelectQuery<infer Q>
+    ? Q extends {
+        ctes: [
+            CTEDefinition<
+                "tree",
+                UnionClause<SelectClause, "UNION ALL", SelectClause>,
+                ["id", "parent_id", "depth"],
+                true
+            >,
+        ]
+    }
+    ? true
+    : false
+    : false
+type _PRC1 = RequireTrue<P_RecursiveCTE_Check>
+
+// Test: RECURSIVE is case-insensitive and applies to every CTE of the list
+type P_RecursiveLower = ParseSQL<`
+  with recursive a AS (SELECT id FROM t), b ("Id") AS (SELECT id FROM a)
+  SELECT * FROM b
+`>
+type P_RecursiveLower_Check = P_RecursiveLower extends SQLSelectQuery<infer Q>
+    ? Q extends {
+        ctes: [
+            CTEDefinition<"a", SelectClause, undefined, true>,
+            CTEDefinition<"b", SelectClause, ["Id"], true>,
+        ]
+    }
+    ? true
+    : false
+    : false
+type _PRC2 = RequireTrue<P_RecursiveLower_Check>
+
+// Test: A CTE without RECURSIVE is not recursive
+type _PRC3 = RequireTrue<
+    P_CTE extends SQLSelectQuery<infer Q>
+        ? Q extends { ctes: [CTEDefinition<"active_users", SelectClause, undefined, false>] }
+        ? true
+        : false
+        : false
+>
+
+// Test: Empty column list
+type _PRC4 = RequireTrue<AssertIsParseError<ParseSQL<"WITH RECURSIVE t() AS (SELECT 1) SELECT * FROM t">>>
+
 // ============================================================================
 // Derived Table (Subquery in FROM) Tests
 // ============================================================================
@@ -967,6 +1076,208 @@ type _PSC4 = RequireTrue<P_MultiConstants_Check>
 type P_MixedSQLConst = ParseSQL<"SELECT id, CURRENT_DATE AS dt FROM users">
 type _PSC5 = RequireTrue<AssertExtends<P_MixedSQLConst, SQLSelectQuery>>
 
+// ============================================================================
+// Window Function Tests
+// ============================================================================
+
+// Test: ROW_NUMBER with PARTITION BY and ORDER BY
+type P_WindowRowNumber = ParseSQL<"SELECT ROW_NUMBER() OVER (PARTITION BY author_id ORDER BY views DESC) AS rn FROM posts">
+type P_WindowRowNumber_Check = P_WindowRowNumber extends SQLSelectQuery<infer Q>
+    ? Q extends {
+        columns: [
+            ColumnRef<
+                WindowExpr<
+                    "ROW_NUMBER",
+                    undefined,
+                    WindowSpec<[UnboundColumnRef<"author_id">], [OrderByItem<UnboundColumnRef<"views">, "DESC">], undefined, undefined>
+                >,
+                "rn"
+            >
+        ]
+    }
+    ? true
+    : false
+    : false
+type _PW1 = RequireTrue<P_WindowRowNumber_Check>
+
+// Test: Window function without alias uses lowercased function name
+type P_WindowNoAlias = ParseSQL<"SELECT rank() OVER (ORDER BY id) FROM posts">
+type P_WindowNoAlias_Check = P_WindowNoAlias extends SQLSelectQuery<infer Q>
+    ? Q extends { columns: [ColumnRef<WindowExpr<"RANK", undefined, WindowSpec>, "rank">] }
+    ? true
+    : false
+    : false
+type _PW2 = RequireTrue<P_WindowNoAlias_Check>
+
+// Test: LAG takes its first argument as the column reference
+type P_WindowLag = ParseSQL<"SELECT LAG(p.views, 1) OVER (ORDER BY p.id) AS prev FROM posts AS p">
+type P_WindowLag_Check = P_WindowLag extends SQLSelectQuery<infer Q>
+    ? Q extends { columns: [ColumnRef<WindowExpr<"LAG", TableColumnRef<"p", "views", undefined>, WindowSpec>, "prev">] }
+    ? true
+    : false
+    : false
+type _PW3 = RequireTrue<P_WindowLag_Check>
+
+// Test: Aggregate with OVER and frame clause
+type P_WindowFrame = ParseSQL<"SELECT SUM(views) OVER (ORDER BY id ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW) AS total FROM posts">
+type P_WindowFrame_Check = P_WindowFrame extends SQLSelectQuery<infer Q>
+    ? Q extends { columns: [ColumnRef<WindowExpr<"SUM", UnboundColumnRef<"views">, WindowSpec<undefined, [OrderByItem<UnboundColumnRef<"id">, "ASC">], string>>, "total">] }
+    ? true
+    : false
+    : false
+type _PW4 = RequireTrue<P_WindowFrame_Check>
+
+// Test: OVER a named window and the WINDOW clause
+type P_WindowClause = ParseSQL<"SELECT id, RANK() OVER w AS r FROM posts WINDOW w AS (PARTITION BY author_id) ORDER BY id">
+type P_WindowClause_Check = P_WindowClause extends SQLSelectQuery<infer Q>
+    ? Q extends {
+        columns: [
+            ColumnRef<UnboundColumnRef<"id">, "id">,
+            ColumnRef<WindowExpr<"RANK", undefined, WindowSpec<undefined, undefined, undefined, "w">>, "r">
+        ]
+        windows: [WindowDefinition<"w", WindowSpec<[UnboundColumnRef<"author_id">], undefined, undefined, undefined>>]
+        orderBy: [OrderByItem<UnboundColumnRef<"id">, "ASC">]
+    }
+    ? true
+    : false
+    : false
+type _PW5 = RequireTrue<P_WindowClause_Check>
+
+// Test: Query without window functions has no windows
+type P_NoWindows = ParseSQL<"SELECT id FROM posts">
+type P_NoWindows_Check = P_NoWindows extends SQLSelectQuery<infer Q>
+    ? Q extends { windows: undefined } ? true : false
+    : false
+type _PW6 = RequireTrue<P_NoWindows_Check>
+
+// ============================================================================
+// CASE Expression Tests
+// ============================================================================
+
+// Test: Searched CASE with ELSE
+type P_CaseSearched = ParseSQL<"SELECT CASE WHEN views > 100 THEN 'popular' ELSE 'niche' END AS tier FROM posts">
+type P_CaseSearched_Check = P_CaseSearched extends SQLSelectQuery<infer Q>
+    ? Q extends {
+        columns: [
+            ColumnRef<
+                CaseExpr<
+                    undefined,
+                    [CaseWhen<ParsedCondition<[UnboundColumnRef<"views">]>, LiteralExpr<"popular">>],
+                    LiteralExpr<"niche">
+                >,
+                "tier"
+            >
+        ]
+    }
+    ? true
+    : false
+    : false
+type _PCE1 = RequireTrue<P_CaseSearched_Check>
+
+// Test: Simple CASE without ELSE and without alias (lowercase)
+type P_CaseSimple = ParseSQL<"select case p.status when 'draft' then 0 when 'published' then p.views end from posts as p">
+type P_CaseSimple_Check = P_CaseSimple extends SQLSelectQuery<infer Q>
+    ? Q extends {
+        columns: [
+            ColumnRef<
+                CaseExpr<
+                    TableColumnRef<"p", "status", undefined>,
+                    [
+                        CaseWhen<LiteralExpr<"draft">, LiteralExpr<0>>,
+                        CaseWhen<LiteralExpr<"published">, TableColumnRef<"p", "views", undefined>>
+                    ],
+                    undefined
+                >,
+                "case"
+            >
+        ]
+    }
+    ? true
+    : false
+    : false
+type _PCE2 = RequireTrue<P_CaseSimple_Check>
+
+// Test: Nested CASE in a THEN branch
+type P_CaseNested = ParseSQL<"SELECT CASE WHEN views > 100 THEN CASE WHEN views > 1000 THEN 'viral' ELSE 'popular' END ELSE 'niche' END AS tier FROM posts">
+type P_CaseNested_Check = P_CaseNested extends SQLSelectQuery<infer Q>
+    ? Q extends {
+        columns: [
+            ColumnRef<
+                CaseExpr<
+                    undefined,
+                    [CaseWhen<ParsedCondition, CaseExpr<undefined, [CaseWhen<ParsedCondition, LiteralExpr<"viral">>], LiteralExpr<"popular">>>],
+                    LiteralExpr<"niche">
+                >,
+                "tier"
+            >
+        ]
+    }
+    ? true
+    : false
+    : false
+type _PCE3 = RequireTrue<P_CaseNested_Check>
+
+// Test: CASE used inside a larger expression stays a ComplexExpr
+type P_CaseInExpr = ParseSQL<"SELECT CASE WHEN views > 100 THEN 1 ELSE 0 END + 1 AS score FROM posts">
+type P_CaseInExpr_Check = P_CaseInExpr extends SQLSelectQuery<infer Q>
+    ? Q extends { columns: [ColumnRef<ComplexExpr, "score">] }
+    ? true
+    : false
+    : false
+type _PCE4 = RequireTrue<P_CaseInExpr_Check>
+
+// Test: ELSE must be the last branch
+type P_CaseElseNotLast = ParseSQL<"SELECT CASE WHEN views > 1 THEN 1 ELSE 0 WHEN views > 2 THEN 2 END AS n FROM posts">
+type _PCE5 = RequireTrue<AssertIsParseError<P_CaseElseNotLast>>
+
+// ============================================================================
+// Function Call Tests
+// ============================================================================
+
+// Test: A single function call is recorded on the ComplexExpr
+type P_FuncCall = ParseSQL<"SELECT COALESCE ( u.nickname, u.name, 'anonymous' ) AS display FROM users AS u">
+type P_FuncCall_Check = P_FuncCall extends SQLSelectQuery<infer Q>
+    ? Q extends {
+        columns: [
+            ColumnRef<
+                ComplexExpr<
+                    [TableColumnRef<"u", "nickname", undefined>, TableColumnRef<"u", "name", undefined>],
+                    undefined,
+                    string,
+                    FunctionCall<
+                        "COALESCE",
+                        [TableColumnRef<"u", "nickname", undefined>, TableColumnRef<"u", "name", undefined>, LiteralValue<"anonymous">]
+                    >
+                >,
+                "display"
+            >
+        ]
+    }
+    ? true
+    : false
+    : false
+type _PFC1 = RequireTrue<P_FuncCall_Check>
+
+// Test: EXTRACT ( field FROM source ) arguments
+type P_FuncExtract = ParseSQL<"SELECT extract ( year from created_at ) AS y FROM users">
+type P_FuncExtract_Check = P_FuncExtract extends SQLSelectQuery<infer Q>
+    ? Q extends {
+        columns: [ColumnRef<ComplexExpr<any, undefined, string, FunctionCall<"extract", [LiteralValue<"YEAR">, UnboundColumnRef<"created_at">]>>, "y">]
+    }
+    ? true
+    : false
+    : false
+type _PFC2 = RequireTrue<P_FuncExtract_Check>
+
+// Test: Expressions around a call have no function call
+type P_FuncInExpr = ParseSQL<"SELECT length ( name ) + 1 AS len FROM users">
+type P_FuncInExpr_Check = P_FuncInExpr extends SQLSelectQuery<infer Q>
+    ? Q extends { columns: [ColumnRef<ComplexExpr<any, undefined, string, undefined>, "len">] }
+    ? true
+    : false
+    : false
+type _PFC3 = RequireTrue<P_FuncInExpr_Check>
+
 // ============================================================================
 // Export for verification
 // ============================================================================
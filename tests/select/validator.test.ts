@@ -63,6 +63,14 @@ type TestSchema = {
     };
 };
 
+type FunctionsTestSchema = TestSchema & {
+    functions: {
+        calc_discount: { params: [ number, number? ]; returns: number; };
+        "audit.log_action": { params: [ string ]; returns: boolean; };
+        greatest_of: { params: [ number, ...number[] ]; returns: number; };
+    };
+};
+
 type JsonFieldSchema = {
     defaultSchema: "public";
     schemas: {
@@ -324,6 +332,176 @@ INNER JOIN cte2 AS c2 ON c1.author_id = c2.id
 >;
 type _V27 = RequireTrue<AssertEqual<V_MultiCTE, true>>;
 
+// Test: Data-modifying CTE returns true
+type V_DeleteCTE = ValidateSelectSQL<
+    `
+WITH removed AS (
+  DELETE FROM posts AS p WHERE p.author_id = 1 RETURNING p.id, title
+)
+SELECT r.id, r.title FROM removed AS r
+`,
+    TestSchema
+>;
+type _V27a = RequireTrue<AssertEqual<V_DeleteCTE, true>>;
+
+// Test: Invalid RETURNING column in a data-modifying CTE
+type V_BadReturningCTE = ValidateSelectSQL<
+    `
+WITH removed AS ( DELETE FROM posts RETURNING slug )
+SELECT * FROM removed
+`,
+    TestSchema
+>;
+type _V27b = RequireTrue<AssertEqual<V_BadReturningCTE, "Column 'slug' not found in any table">>;
+
+// Test: Data-modifying CTE on an unknown table
+type V_BadTableCTE = ValidateSelectSQL<
+    `
+WITH removed AS ( DELETE FROM drafts RETURNING id )
+SELECT * FROM removed
+`,
+    TestSchema
+>;
+type _V27c = RequireTrue<AssertEqual<V_BadTableCTE, "Table 'drafts' not found in default schema 'public'">>;
+
+// Test: Invalid column in a SELECT CTE
+type V_BadCTEColumn = ValidateSelectSQL<
+    `
+WITH cte AS ( SELECT slug FROM posts )
+SELECT * FROM cte
+`,
+    TestSchema
+>;
+type _V27d = RequireTrue<AssertEqual<V_BadCTEColumn, "Column 'slug' not found in any table">>;
+
+// Test: The recursive member of a WITH RECURSIVE CTE can reference the CTE
+type V_RecursiveCTE = ValidateSelectSQL<
+    `
+WITH RECURSIVE thread(comment_id, depth) AS (
+  SELECT id, 1 FROM comments WHERE post_id = 1
+  UNION ALL
+  SELECT c.id, t.depth + 1 FROM comments AS c INNER JOIN thread AS t ON c.post_id = t.comment_id
+)
+SELECT comment_id, depth FROM thread
+`,
+    TestSchema
+>;
+type _V27e = RequireTrue<AssertEqual<V_RecursiveCTE, true>>;
+
+// Test: Without RECURSIVE the CTE is not visible in its own body
+type V_SelfReferenceCTE = ValidateSelectSQL<
+    `
+WITH thread AS (
+  SELECT id FROM comments
+  UNION ALL
+  SELECT c.id FROM comments AS c INNER JOIN thread AS t ON c.post_id = t.id
+)
+SELECT * FROM thread
+`,
+    TestSchema
+>;
+type _V27f = RequireTrue<AssertEqual<V_SelfReferenceCTE, "Table 'thread' not found in default schema 'public'">>;
+
+// Test: Invalid column in the recursive member
+type V_BadRecursiveMember = ValidateSelectSQL<
+    `
+WITH RECURSIVE thread(comment_id) AS (
+  SELECT id FROM comments
+  UNION ALL
+  SELECT t.id FROM comments AS c INNER JOIN thread AS t ON c.post_id = t.comment_id
+)
+SELECT * FROM thread
+`,
+    TestSchema
+>;
+type _V27g = RequireTrue<AssertEqual<V_BadRecursiveMember, "Column 'id' not found in 't'">>;
+
+// Test: Invalid column in the JOIN ON condition of the recursive member
+type V_BadRecursiveJoin = ValidateSelectSQL<
+    `
+WITH RECURSIVE thread(comment_id) AS (
+  SELECT id FROM comments
+  UNION ALL
+  SELECT c.id FROM comments AS c INNER JOIN thread AS t ON c.post_id = t.nope
+)
+SELECT * FROM thread
+`,
+    TestSchema
+>;
+type _V27i = RequireTrue<AssertEqual<V_BadRecursiveJoin, "Column 'nope' not found in 't'">>;
+
+// Test: Invalid column in the WHERE clause of the recursive member
+type V_BadRecursiveWhere = ValidateSelectSQL<
+    `
+WITH RECURSIVE thread(comment_id) AS (
+  SELECT id FROM comments
+  UNION ALL
+  SELECT c.id FROM comments AS c INNER JOIN thread AS t ON c.post_id = t.comment_id WHERE t.nope > 1
+)
+SELECT * FROM thread
+`,
+    TestSchema
+>;
+type _V27j = RequireTrue<AssertEqual<V_BadRecursiveWhere, "Column 'nope' not found in 't'">>;
+
+// Test: Invalid column in the WHERE clause of a plain CTE
+type V_BadCTEWhere = ValidateSelectSQL<
+    "WITH recent AS ( SELECT id FROM comments WHERE nope = 1 ) SELECT * FROM recent",
+    TestSchema
+>;
+type _V27k = RequireTrue<AssertEqual<V_BadCTEWhere, "Column 'nope' not found in any table">>;
+
+// Test: Column list longer than the anchor's columns
+type V_TooManyNames = ValidateSelectSQL<
+    "WITH RECURSIVE named(a, b) AS ( SELECT id FROM users ) SELECT * FROM named",
+    TestSchema
+>;
+type _V27h = RequireTrue<
+    AssertEqual<V_TooManyNames, "CTE 'named' has 1 columns available but 2 columns specified">
+>;
+
+// Test: The WHERE clause of a DELETE CTE is validated
+type V_BadDeleteCTEWhere = ValidateSelectSQL<
+    "WITH moved AS ( DELETE FROM posts WHERE nope = true RETURNING id ) SELECT id FROM moved",
+    TestSchema
+>;
+type _V27l = RequireTrue<AssertEqual<V_BadDeleteCTEWhere, "Column 'nope' not found in any table">>;
+
+// Test: The SET clause of an UPDATE CTE is validated
+type V_BadUpdateCTESet = ValidateSelectSQL<
+    "WITH moved AS ( UPDATE posts SET nope = true RETURNING id ) SELECT id FROM moved",
+    TestSchema
+>;
+type _V27m = RequireTrue<AssertEqual<V_BadUpdateCTESet, "Column 'nope' not found in table 'posts'">>;
+
+// Test: SET values of an UPDATE CTE are checked against the column types
+type V_BadUpdateCTEValue = ValidateSelectSQL<
+    "WITH moved AS ( UPDATE users SET is_active = 'yes' RETURNING id ) SELECT id FROM moved",
+    TestSchema
+>;
+type _V27n = RequireTrue<
+    AssertEqual<V_BadUpdateCTEValue, "Value 'yes' is not assignable to column 'is_active'">
+>;
+
+// Test: The column list of an INSERT CTE is validated
+type V_BadInsertCTEColumn = ValidateSelectSQL<
+    "WITH moved AS ( INSERT INTO posts ( nope ) VALUES ( 1 ) RETURNING id ) SELECT id FROM moved",
+    TestSchema
+>;
+type _V27o = RequireTrue<AssertEqual<V_BadInsertCTEColumn, "Column 'nope' not found in table 'posts'">>;
+
+// Test: A data-modifying CTE can reference the CTEs defined before it
+type V_DeleteCTEUsingCTE = ValidateSelectSQL<
+    `
+WITH
+  stale AS ( SELECT id FROM posts WHERE views = 0 ),
+  removed AS ( DELETE FROM posts USING stale WHERE posts.id = stale.id RETURNING posts.id )
+SELECT * FROM removed
+`,
+    TestSchema
+>;
+type _V27p = RequireTrue<AssertEqual<V_DeleteCTEUsingCTE, true>>;
+
 // ============================================================================
 // Derived Table Validation Tests
 // ============================================================================
@@ -746,6 +924,213 @@ type V_MultiNulls = ValidateSelectSQL<
 >;
 type _V71 = RequireTrue<AssertEqual<V_MultiNulls, true>>;
 
+// ============================================================================
+// Window Function Validation Tests
+// ============================================================================
+
+// Test: Window functions with OVER and WINDOW clause validate successfully
+type V_WindowValid = ValidateSelectSQL<
+    "SELECT id, ROW_NUMBER() OVER (PARTITION BY author_id ORDER BY views DESC) AS rn, LAG(views, 1) OVER w AS prev_views FROM posts WINDOW w AS (PARTITION BY author_id ORDER BY id)",
+    TestSchema
+>;
+type _V72 = RequireTrue<AssertEqual<V_WindowValid, true>>;
+
+// Test: Invalid PARTITION BY column is detected
+type V_WindowInvalidPartition = ValidateSelectSQL<
+    "SELECT RANK() OVER (PARTITION BY bogus ORDER BY id) AS r FROM posts",
+    TestSchema
+>;
+type _V73 = RequireTrue<AssertExtends<V_WindowInvalidPartition, string>>;
+
+// Test: Invalid window ORDER BY column is detected
+type V_WindowInvalidOrder = ValidateSelectSQL<
+    "SELECT RANK() OVER (ORDER BY bogus) AS r FROM posts",
+    TestSchema
+>;
+type _V74 = RequireTrue<AssertExtends<V_WindowInvalidOrder, string>>;
+
+// Test: Invalid window function argument is detected
+type V_WindowInvalidArg = ValidateSelectSQL<
+    "SELECT LAG(bogus) OVER (ORDER BY id) AS r FROM posts",
+    TestSchema
+>;
+type _V75 = RequireTrue<AssertExtends<V_WindowInvalidArg, string>>;
+
+// Test: Invalid column in WINDOW clause definition is detected
+type V_WindowClauseInvalid = ValidateSelectSQL<
+    "SELECT id FROM posts WINDOW w AS (PARTITION BY bogus)",
+    TestSchema
+>;
+type _V76 = RequireTrue<AssertExtends<V_WindowClauseInvalid, string>>;
+
+// Test: Reference to an undefined named window is detected
+type V_WindowUndefined = ValidateSelectSQL<
+    "SELECT RANK() OVER w2 AS r FROM posts WINDOW w AS (ORDER BY id)",
+    TestSchema
+>;
+type _V77 = RequireTrue<
+    AssertEqual<V_WindowUndefined, "Window 'w2' is not defined">
+>;
+
+// ============================================================================
+// CASE Expression Validation Tests
+// ============================================================================
+
+// Test: Valid CASE expressions validate successfully
+type V_CaseValid = ValidateSelectSQL<
+    "SELECT CASE WHEN u.is_active = TRUE THEN u.name ELSE 'inactive' END AS label, CASE role WHEN 'admin' THEN 1 ELSE 0 END AS is_admin FROM users AS u",
+    TestSchema
+>;
+type _V78 = RequireTrue<AssertEqual<V_CaseValid, true>>;
+
+// Test: Invalid column in WHEN condition is detected
+type V_CaseInvalidCondition = ValidateSelectSQL<
+    "SELECT CASE WHEN bogus = 1 THEN 'x' END AS label FROM users",
+    TestSchema
+>;
+type _V79 = RequireTrue<AssertExtends<V_CaseInvalidCondition, string>>;
+
+// Test: Invalid CASE operand is detected
+type V_CaseInvalidOperand = ValidateSelectSQL<
+    "SELECT CASE bogus WHEN 1 THEN 'x' END AS label FROM users",
+    TestSchema
+>;
+type _V80 = RequireTrue<AssertExtends<V_CaseInvalidOperand, string>>;
+
+// Test: Invalid column in nested CASE condition is detected
+type V_CaseInvalidNested = ValidateSelectSQL<
+    "SELECT CASE WHEN id > 1 THEN CASE WHEN u.bogus = 1 THEN 1 END END AS n FROM users AS u",
+    TestSchema
+>;
+type _V81 = RequireTrue<AssertExtends<V_CaseInvalidNested, string>>;
+
+// ============================================================================
+// User-defined Function Validation Tests
+// ============================================================================
+
+// Test: Calls to declared functions with a valid number of arguments
+type V_FuncValid = ValidateSelectSQL<
+    "SELECT calc_discount ( views ) AS a, public.calc_discount ( views, 10 ) AS b, audit.log_action ( title ) AS c, greatest_of ( id, views, author_id ) AS d, upper ( title ) AS e FROM posts",
+    FunctionsTestSchema
+>;
+type _V82 = RequireTrue<AssertEqual<V_FuncValid, true>>;
+
+// Test: Wrong number of arguments is reported
+type V_FuncArity = ValidateSelectSQL<
+    "SELECT calc_discount ( views, 1, 2 ) AS a FROM posts",
+    FunctionsTestSchema
+>;
+type _V83 = RequireTrue<
+    AssertEqual<V_FuncArity, "Function 'calc_discount' expects 1 to 2 argument(s), got 3">
+>;
+
+// Test: Too few arguments for a variadic function are reported
+type V_FuncVariadicArity = ValidateSelectSQL<
+    "SELECT greatest_of ( ) AS a FROM posts",
+    FunctionsTestSchema
+>;
+type _V84 = RequireTrue<
+    AssertEqual<V_FuncVariadicArity, "Function 'greatest_of' expects at least 1 argument(s), got 0">
+>;
+
+// Test: Unknown schema-qualified function is reported
+type V_FuncUnknown = ValidateSelectSQL<
+    "SELECT audit.bogus ( title ) AS a FROM posts",
+    FunctionsTestSchema
+>;
+type _V85 = RequireTrue<AssertEqual<V_FuncUnknown, "Unknown function 'audit.bogus'">>;
+
+// Test: Wrong arity in a nested call is reported
+type V_FuncNestedArity = ValidateSelectSQL<
+    "SELECT upper ( audit.log_action ( ) ) AS a FROM posts",
+    FunctionsTestSchema
+>;
+type _V86 = RequireTrue<
+    AssertEqual<V_FuncNestedArity, "Function 'audit.log_action' expects 1 argument(s), got 0">
+>;
+
+// Test: Schema-qualified calls are not checked without a functions declaration
+type V_FuncNoDeclarations = ValidateSelectSQL<
+    "SELECT audit.bogus ( title ) AS a FROM posts",
+    TestSchema
+>;
+type _V87 = RequireTrue<AssertEqual<V_FuncNoDeclarations, true>>;
+
+// Test: Unqualified undeclared calls are reported unless they are built-ins
+type V_FuncUnqualifiedUnknown = ValidateSelectSQL<
+    "SELECT nosuch ( views ) AS a FROM posts",
+    FunctionsTestSchema
+>;
+type _V87b = RequireTrue<AssertEqual<V_FuncUnqualifiedUnknown, "Unknown function 'nosuch'">>;
+
+// Test: Built-in, aggregate and pg_catalog calls are not reported
+type V_FuncBuiltins = ValidateSelectSQL<
+    "SELECT author_id, COUNT ( * ) AS n FROM posts WHERE lower ( title ) = 'a' AND pg_catalog.md5 ( title ) <> '' GROUP BY author_id HAVING MAX ( views ) > 1",
+    FunctionsTestSchema
+>;
+type _V87c = RequireTrue<AssertEqual<V_FuncBuiltins, true>>;
+
+// Test: Calls in WHERE are checked
+type V_FuncWhereArity = ValidateSelectSQL<
+    "SELECT id FROM posts AS p WHERE public.calc_discount ( p.views, 1, 2 ) > 1",
+    FunctionsTestSchema
+>;
+type _V87d = RequireTrue<
+    AssertEqual<V_FuncWhereArity, "Function 'public.calc_discount' expects 1 to 2 argument(s), got 3">
+>;
+
+// Test: Nested calls in WHERE are checked
+type V_FuncWhereNested = ValidateSelectSQL<
+    "SELECT id FROM posts WHERE calc_discount ( greatest_of ( ) ) > 1",
+    FunctionsTestSchema
+>;
+type _V87e = RequireTrue<
+    AssertEqual<V_FuncWhereNested, "Function 'greatest_of' expects at least 1 argument(s), got 0">
+>;
+
+// Test: Calls in JOIN ON are checked
+type V_FuncJoinOn = ValidateSelectSQL<
+    "SELECT p.id FROM posts AS p JOIN users AS u ON u.id = nosuch ( p.author_id )",
+    FunctionsTestSchema
+>;
+type _V87f = RequireTrue<AssertEqual<V_FuncJoinOn, "Unknown function 'nosuch'">>;
+
+// Test: Calls in HAVING are checked
+type V_FuncHaving = ValidateSelectSQL<
+    "SELECT author_id FROM posts GROUP BY author_id HAVING calc_discount ( SUM ( views ), 1, 2 ) > 1",
+    FunctionsTestSchema
+>;
+type _V87g = RequireTrue<
+    AssertEqual<V_FuncHaving, "Function 'calc_discount' expects 1 to 2 argument(s), got 3">
+>;
+
+// Test: Calls in ORDER BY are checked
+type V_FuncOrderBy = ValidateSelectSQL<
+    "SELECT id FROM posts ORDER BY audit.bogus ( title ) DESC",
+    FunctionsTestSchema
+>;
+type _V87h = RequireTrue<AssertEqual<V_FuncOrderBy, "Unknown function 'audit.bogus'">>;
+
+// Test: Calls inside larger select expressions are checked
+type V_FuncInExpression = ValidateSelectSQL<
+    "SELECT calc_discount ( ) + 1 AS a FROM posts",
+    FunctionsTestSchema
+>;
+type _V87i = RequireTrue<
+    AssertEqual<V_FuncInExpression, "Function 'calc_discount' expects 1 to 2 argument(s), got 0">
+>;
+
+// ============================================================================
+// Parameter Placeholder Tests
+// ============================================================================
+
+// Test: Named placeholders are values, not columns
+type V_NamedParams = ValidateSelectSQL<
+    "SELECT id FROM users WHERE id = :userId AND email = @email AND name = $name",
+    TestSchema
+>;
+type _V88 = RequireTrue<AssertEqual<V_NamedParams, true>>;
+
 // ============================================================================
 // Export for verification
 // ============================================================================
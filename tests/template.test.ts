@@ -0,0 +1,101 @@
+/**
+ * SQL Template Type Tests
+ *
+ * Tests for the `sql` tagged template and its fragment helpers.
+ * If this file compiles without errors, all type tests pass; the runtime
+ * checks run with `npm run test:runtime`.
+ */
+
+import type {
+  SqlQuery,
+  SqlFragment,
+  QuotedIdentifier,
+  createQueryFn,
+  createSelectFn,
+} from "../src/index.js"
+import { sql } from "../src/index.js"
+import type { AssertEqual, AssertNotExtends, RequireTrue } from "./helpers.js"
+import { expectEqual, expectThrows } from "./helpers.js"
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type TestSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      users: {
+        id: number
+        email: string
+        name: string | null
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Tagged Template Tests
+// ============================================================================
+
+// Test: The tag returns a SqlQuery
+type _T10 = RequireTrue<AssertEqual<ReturnType<typeof sql>, SqlQuery>>
+
+// Test: Typed query functions do not accept SqlQuery values (their text cannot be validated)
+declare const select: ReturnType<typeof createSelectFn<TestSchema>>
+declare const query: ReturnType<typeof createQueryFn<TestSchema>>
+type _T11 = RequireTrue<AssertNotExtends<SqlQuery, Parameters<typeof select<string>>[0]>>
+type _T11b = RequireTrue<AssertNotExtends<SqlQuery, Parameters<typeof query<string>>[0]>>
+
+// ============================================================================
+// Fragment Tests
+// ============================================================================
+
+// Test: Identifier fragments are quoted per part
+type _T12 = RequireTrue<AssertEqual<QuotedIdentifier<"users">, '"users"'>>
+type _T13 = RequireTrue<AssertEqual<QuotedIdentifier<"public.users">, '"public"."users"'>>
+
+// Test: Fragment text is known at type level
+declare const users: ReturnType<typeof sql.ident<"users">>
+type _T14 = RequireTrue<AssertEqual<typeof users, SqlFragment<'"users"'>>>
+declare const order: ReturnType<typeof sql.raw<"ORDER BY id">>
+type _T15 = RequireTrue<AssertEqual<(typeof order)["text"], "ORDER BY id">>
+
+// Test: Splicing is runtime only, so a template with a fragment has plain string text
+type _T16 = RequireTrue<AssertEqual<ReturnType<typeof sql>["text"], string>>
+
+// Test: IN list fragments are plain SqlQuery values
+type _T18 = RequireTrue<AssertEqual<ReturnType<typeof sql.in>, SqlQuery>>
+
+// ============================================================================
+// Runtime Tests
+// ============================================================================
+
+// Test: Interpolations become positional parameters
+const byId = sql`SELECT * FROM users WHERE id = ${1} AND email = ${"a@b.c"}`
+expectEqual("tag params", [byId.text, byId.values], [
+  "SELECT * FROM users WHERE id = $1 AND email = $2",
+  [1, "a@b.c"],
+])
+
+// Test: Nested fragments are spliced and their parameters renumbered
+const active = sql`active = ${true} AND age > ${18}`
+const nested = sql`SELECT * FROM ${sql.ident("public.users")} WHERE id = ${7} AND ${active} AND id ${sql.in([1, 2])} ${sql.raw("ORDER BY id")}`
+expectEqual("tag nested", [nested.text, nested.values], [
+  'SELECT * FROM "public"."users" WHERE id = $1 AND active = $2 AND age > $3 AND id IN ($4, $5) ORDER BY id',
+  [7, true, 18, 1, 2],
+])
+
+// Test: A fragment nested twice keeps its parameters in order
+const twice = sql`${sql`(${sql`a = ${1}`} OR b = ${2})`} AND c = ${3}`
+expectEqual("tag twice nested", [twice.text, twice.values], ["(a = $1 OR b = $2) AND c = $3", [1, 2, 3]])
+
+// Test: Empty IN lists and invalid identifiers
+expectEqual("tag empty in", sql.in([]).text, "IN (NULL)")
+expectThrows("tag invalid ident", () => sql.ident("users; DROP TABLE users"), "Invalid identifier 'users; DROP TABLE users'")
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type TemplateTestsPass = true
@@ -0,0 +1,91 @@
+/**
+ * UPDATE Query Builder Runtime Tests
+ *
+ * Checks the SQL text, parameters and errors of createUpdateQuery at runtime.
+ * Run with: npm run test:runtime
+ */
+
+import { createUpdateQuery, sql } from "../../src/index.js"
+import { expectEqual, expectThrows } from "../helpers.js"
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type TestSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      users: {
+        id: number
+        name: string
+        active: boolean
+        login_count: number
+      }
+      accounts: {
+        id: number
+        user_id: number
+        status: string
+      }
+    }
+  }
+}
+
+const users = createUpdateQuery<TestSchema>().table("users")
+
+// ============================================================================
+// Query Assembly
+// ============================================================================
+
+// Test: SET values are bound in SET order, fragments are renumbered
+expectEqual(
+  "set values",
+  users
+    .set({ name: "John", login_count: sql`login_count + ${1}` })
+    .set({ active: true })
+    .where("id = 1")
+    .returning(["id", "name"])
+    .toQuery(),
+  {
+    sql: "UPDATE users SET name = $1, login_count = login_count + $2, active = $3 WHERE id = 1 RETURNING id, name",
+    params: ["John", 1, true],
+  },
+)
+
+// Test: FROM sources and removed SET columns
+expectEqual(
+  "from and removeSet",
+  users
+    .set({ name: "John", active: false })
+    .removeSet("name")
+    .from("accounts")
+    .where("accounts.user_id = users.id AND accounts.status = 'closed'")
+    .toString(),
+  "UPDATE users SET active = $1 FROM accounts WHERE accounts.user_id = users.id AND accounts.status = 'closed'",
+)
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+// Test: Column names from set() keys are checked before they reach the query text
+expectThrows(
+  "invalid set column",
+  // @ts-expect-error not a column of users
+  () => users.set({ "name = 'x' --": 1 }),
+  "Invalid column name 'name = 'x' --' passed to set()",
+)
+
+// Test: execute() refuses an UPDATE without where() unless all() was called
+expectThrows(
+  "update without where",
+  // @ts-expect-error the handler is rejected at type level as well
+  () => users.set({ active: false }).execute(() => []),
+  "UPDATE without where() requires all()",
+)
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type UpdateBuilderRuntimeTestsPass = true
@@ -0,0 +1,185 @@
+/**
+ * UPDATE Query Builder Type Tests
+ *
+ * Tests for createUpdateQuery state transitions, SET value typing,
+ * validation, result types and the WHERE guard of execute().
+ * If this file compiles without errors, all tests pass.
+ */
+
+import type {
+  BuilderState,
+  BuildUpdateSQL,
+  ConditionTreeBuilder,
+  EmptyConditionTree,
+  ExtractError,
+  MatchError,
+  QueryHandler,
+  SqlFragment,
+  UpdateBuilderResult,
+  UpdateBuilderState,
+  UpdateQueryBuilder,
+  UpdateSetValues,
+} from "../../src/index.js"
+import type { AssertEqual, RequireTrue } from "../helpers.js"
+
+// ============================================================================
+// Test Schema
+// ============================================================================
+
+type TestSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      users: {
+        id: number
+        name: string
+        email: string | null
+        active: boolean
+        login_count: number
+      }
+      accounts: {
+        id: number
+        user_id: number
+        status: string
+      }
+    }
+  }
+}
+
+declare const query: UpdateQueryBuilder<TestSchema>
+declare const now: SqlFragment<"NOW()">
+declare const conditions: ConditionTreeBuilder<EmptyConditionTree<"and">>
+
+type Row<Builder> = UpdateBuilderResult<Builder, TestSchema>
+type SQLOf<Builder> = BuilderState<Builder> extends infer State extends UpdateBuilderState
+  ? BuildUpdateSQL<State>
+  : never
+type HandlerOf<Builder> = Builder extends { execute(handler: infer Handler): unknown } ? Handler : never
+
+// ============================================================================
+// Basic Usage
+// ============================================================================
+
+// Test: Values are bound as parameters, fragments are spliced
+const basic = query
+  .table("users")
+  .set({ name: "John", active: true })
+  .where("id = 1", "by_id")
+  .returning(["id", "name"])
+type _UB1 = RequireTrue<
+  AssertEqual<
+    SQLOf<typeof basic>,
+    "UPDATE users SET name = $1, active = $2 WHERE id = 1 RETURNING id, name"
+  >
+>
+type _UB2 = RequireTrue<AssertEqual<Row<typeof basic>, { id: number; name: string }>>
+
+// Test: toString() carries the result type
+const basicSQL = basic.toString()
+type _UB3 = RequireTrue<AssertEqual<(typeof basicSQL)["__type"], { id: number; name: string }>>
+
+// Test: Without RETURNING the result is void
+const noReturning = query.table("users").set({ active: false }).where("id = 1")
+type _UB4 = RequireTrue<AssertEqual<Row<typeof noReturning>, void>>
+
+// Test: Literal sql fragments keep their text
+const touched = query.table("users").set({ login_count: now }).all()
+type _UB5 = RequireTrue<AssertEqual<SQLOf<typeof touched>, "UPDATE users SET login_count = NOW()">>
+
+// Test: FROM sources and condition trees
+const joined = query
+  .table("users")
+  .set({ active: false })
+  .from("accounts")
+  .where(conditions.add("accounts.user_id = users.id").add("accounts.status = 'closed'"))
+type _UB6 = RequireTrue<
+  AssertEqual<
+    SQLOf<typeof joined>,
+    "UPDATE users SET active = $1 FROM accounts WHERE (accounts.user_id = users.id AND accounts.status = 'closed')"
+  >
+>
+
+// ============================================================================
+// SET Value Typing
+// ============================================================================
+
+// Test: set() accepts the table columns with their types, or sql fragments
+type UserValues = UpdateSetValues<TestSchema, BuilderState<ReturnType<typeof query.table<"users">>>>
+type _UB7 = RequireTrue<AssertEqual<UserValues["email"], string | null | SqlFragment<string> | undefined>>
+
+// Test: Unknown columns are rejected
+type BadColumnArg = Parameters<ReturnType<typeof query.table<"users">>["set"]>[0]
+type _UB8 = RequireTrue<AssertEqual<"nope" extends keyof BadColumnArg ? true : false, false>>
+
+// ============================================================================
+// Replacement and Removal
+// ============================================================================
+
+// Test: A column set twice is replaced in place
+const replaced = basic.set({ name: "Jane", email: null })
+type _UB9 = RequireTrue<
+  AssertEqual<
+    SQLOf<typeof replaced>,
+    "UPDATE users SET name = $1, active = $2, email = $3 WHERE id = 1 RETURNING id, name"
+  >
+>
+
+// Test: Remove SET columns and parts by ID
+const removed = basic.removeSet("active").removeWhere("by_id")
+type _UB10 = RequireTrue<
+  AssertEqual<SQLOf<typeof removed>, "UPDATE users SET name = $1 RETURNING id, name">
+>
+
+// ============================================================================
+// WHERE Guard
+// ============================================================================
+
+// Test: execute() requires where() or all()
+type _UB11 = RequireTrue<
+  AssertEqual<HandlerOf<typeof removed>, "[Builder Error] Call where() or all() before execute()">
+>
+type _UB12 = RequireTrue<AssertEqual<HandlerOf<typeof basic>, QueryHandler>>
+type _UB13 = RequireTrue<AssertEqual<HandlerOf<ReturnType<typeof removed.all>>, QueryHandler>>
+
+// Test: execute() requires set()
+type _UB14 = RequireTrue<
+  AssertEqual<
+    HandlerOf<ReturnType<typeof query.table<"users">>>,
+    "[Builder Error] Call table() and set() before execute()"
+  >
+>
+
+// ============================================================================
+// Validation Errors
+// ============================================================================
+
+// Test: Unknown table
+type BadTableArg = Parameters<typeof query.table<"nope">>[0]
+type _UB15 = RequireTrue<
+  AssertEqual<BadTableArg, "[Builder Error] Table 'nope' not found in default schema 'public'">
+>
+
+// Test: Clauses before table() and set()
+type EarlyWhereArg = Parameters<typeof query.where<"id = 1", undefined>>[0]
+type _UB16 = RequireTrue<
+  AssertEqual<EarlyWhereArg, "[Builder Error] Call table() and set() before where()">
+>
+
+// Test: Unknown column in a condition; the error state is kept
+type BadWhereArg = Parameters<typeof basic.where<"bad = 1", undefined>>[0]
+type _UB17 = RequireTrue<
+  AssertEqual<BadWhereArg, "[Builder Error] Column 'bad' not found in any table">
+>
+declare const failed: ReturnType<typeof basic.where<"bad = 1", undefined>>
+type _UB18 = RequireTrue<
+  AssertEqual<ExtractError<BuilderState<typeof failed>>, "Column 'bad' not found in any table">
+>
+type _UB19 = RequireTrue<
+  AssertEqual<Row<typeof failed>, MatchError<"Column 'bad' not found in any table">>
+>
+
+// ============================================================================
+// Export for verification
+// ============================================================================
+
+export type UpdateBuilderTestsPass = true
@@ -9,3 +9,5 @@ export type { UpdateParserTestsPass } from "./parser.test.js"
 export type { UpdateMatcherTestsPass } from "./matcher.test.js"
 export type { UpdateValidatorTestsPass } from "./validator.test.js"
 
+export type { UpdateBuilderTestsPass } from "./builder.test.js"
+export type { UpdateBuilderRuntimeTestsPass } from "./builder-runtime.test.js"
@@ -76,6 +76,29 @@ type _P8 = RequireTrue<AssertExtends<P_SetNum, SQLUpdateQuery>>
 type P_SetParams = ParseUpdateSQL<"UPDATE users SET name = $1 , email = $2">
 type _P9 = RequireTrue<AssertExtends<P_SetParams, SQLUpdateQuery>>
 
+// Test: SET with named parameter placeholders
+type P_SetNamed = ParseUpdateSQL<"UPDATE users SET name = :name , email = @email">
+type _P27 = RequireTrue<
+  AssertExtends<
+    P_SetNamed,
+    SQLUpdateQuery<
+      UpdateClause<
+        any,
+        SetClause<
+          [
+            SetAssignment<"name", { readonly type: "Param"; readonly name: "name" }>,
+            SetAssignment<"email", { readonly type: "Param"; readonly name: "email" }>,
+          ]
+        >,
+        any,
+        any,
+        any,
+        any
+      >
+    >
+  >
+>
+
 // Test: SET with column reference
 type P_SetColRef = ParseUpdateSQL<"UPDATE users SET updated_name = name">
 type _P10 = RequireTrue<AssertExtends<P_SetColRef, SQLUpdateQuery>>
@@ -134,6 +134,121 @@ type _V11 = RequireTrue<
   AssertEqual<V_BadReturningCol, "Column 'badcolumn' not found in table 'users'">
 >
 
+// ============================================================================
+// Value Type Validation Tests
+// ============================================================================
+
+type TypedSchema = {
+  defaultSchema: "public"
+  schemas: {
+    public: {
+      users: {
+        id: number
+        role: "admin" | "moderator" | "customer"
+        email_verified: boolean
+        bio: string | null
+        settings: object
+        updated_at: { type: string; default: true }
+        search_text: { type: string; generated: "always" }
+      }
+    }
+  }
+}
+
+// Test: Literals matching the column types
+type V_TypedValid = ValidateUpdateSQL<
+  "UPDATE users SET role = 'admin', email_verified = TRUE, bio = NULL, id = 5, updated_at = '2024-01-01' WHERE id = 1",
+  TypedSchema
+>
+type _V12 = RequireTrue<AssertEqual<V_TypedValid, true>>
+
+// Test: String literal into a boolean column
+type V_TypedBoolean = ValidateUpdateSQL<"UPDATE users SET email_verified = 'yes'", TypedSchema>
+type _V13 = RequireTrue<AssertEqual<V_TypedBoolean, "Value 'yes' is not assignable to column 'email_verified'">>
+
+// Test: Value outside a literal union
+type V_TypedUnion = ValidateUpdateSQL<"UPDATE users SET role = 'superuser'", TypedSchema>
+type _V14 = RequireTrue<AssertEqual<V_TypedUnion, "Value 'superuser' is not assignable to column 'role'">>
+
+// Test: NULL into a non-nullable column
+type V_TypedNull = ValidateUpdateSQL<"UPDATE users SET role = NULL", TypedSchema>
+type _V15 = RequireTrue<AssertEqual<V_TypedNull, "Cannot assign NULL to non-nullable column 'role'">>
+
+// Test: Parameters, expressions and object columns are not checked
+type V_TypedUnchecked = ValidateUpdateSQL<
+  "UPDATE users SET role = $1, id = id + 1, settings = '{}'",
+  TypedSchema
+>
+type _V16 = RequireTrue<AssertEqual<V_TypedUnchecked, true>>
+
+// Test: Check can be disabled
+type V_TypedDisabled = ValidateUpdateSQL<
+  "UPDATE users SET email_verified = 'yes'",
+  TypedSchema,
+  { validateValueTypes: false }
+>
+type _V17 = RequireTrue<AssertEqual<V_TypedDisabled, true>>
+
+// ============================================================================
+// CTE Tests
+// ============================================================================
+
+// Test: FROM a data-modifying CTE
+type V_DeleteCTE = ValidateUpdateSQL<
+  `WITH closed AS (DELETE FROM accounts WHERE status = 'closed' RETURNING user_id)
+   UPDATE users SET active = FALSE FROM closed AS c WHERE users.id = c.user_id RETURNING id`,
+  TestSchema
+>
+type _V18 = RequireTrue<AssertEqual<V_DeleteCTE, true>>
+
+// Test: FROM a SELECT CTE
+type V_SelectCTE = ValidateUpdateSQL<
+  `WITH authors AS (SELECT author_id FROM posts)
+   UPDATE users SET active = TRUE FROM authors WHERE users.id = authors.author_id`,
+  TestSchema
+>
+type _V19 = RequireTrue<AssertEqual<V_SelectCTE, true>>
+
+// Test: Column not returned by the CTE
+type V_BadCTEColumn = ValidateUpdateSQL<
+  `WITH closed AS (DELETE FROM accounts RETURNING user_id)
+   UPDATE users SET active = FALSE FROM closed WHERE users.id = closed.id`,
+  TestSchema
+>
+type _V20 = RequireTrue<AssertEqual<V_BadCTEColumn, "Column 'id' not found in 'closed'">>
+
+// Test: Invalid RETURNING column in the CTE
+type V_BadCTEReturning = ValidateUpdateSQL<
+  `WITH closed AS (DELETE FROM accounts RETURNING owner_id)
+   UPDATE users SET active = FALSE FROM closed WHERE users.id = closed.owner_id`,
+  TestSchema
+>
+type _V21 = RequireTrue<AssertEqual<V_BadCTEReturning, "Column 'owner_id' not found in any table">>
+
+// Test: The WHERE clause of the CTE is validated
+type V_BadCTEWhere = ValidateUpdateSQL<
+  `WITH closed AS (DELETE FROM accounts WHERE nope = 'closed' RETURNING user_id)
+   UPDATE users SET active = FALSE FROM closed WHERE users.id = closed.user_id`,
+  TestSchema
+>
+type _V21a = RequireTrue<AssertEqual<V_BadCTEWhere, "Column 'nope' not found in any table">>
+
+// ============================================================================
+// Generated Column Tests
+// ============================================================================
+
+// Test: GENERATED ALWAYS columns cannot be written
+type V_GeneratedWrite = ValidateUpdateSQL<"UPDATE users SET search_text = 'x' WHERE id = 1", TypedSchema>
+type _V22 = RequireTrue<AssertEqual<V_GeneratedWrite, "Cannot update generated column 'search_text'">>
+
+// Test: Parameters are rejected as well
+type V_GeneratedParam = ValidateUpdateSQL<"UPDATE users SET role = $1, search_text = $2", TypedSchema>
+type _V23 = RequireTrue<AssertEqual<V_GeneratedParam, "Cannot update generated column 'search_text'">>
+
+// Test: Resetting a generated column to DEFAULT is allowed
+type V_GeneratedDefault = ValidateUpdateSQL<"UPDATE users SET search_text = DEFAULT WHERE id = 1", TypedSchema>
+type _V24 = RequireTrue<AssertEqual<V_GeneratedDefault, true>>
+
 // ============================================================================
 // IsValidUpdate Tests
 // ============================================================================